@@ -0,0 +1,74 @@
+import js from "@eslint/js";
+import globals from "globals";
+import reactHooks from "eslint-plugin-react-hooks";
+import tseslint from "typescript-eslint";
+
+// Files that predate the lint setup and still use `any` for untyped Firestore
+// and API data. New code should not be added to this list.
+const LEGACY_ANY_FILES = [
+  "packages/admin-backend/src/controllers/analyticsController.ts",
+  "packages/admin-backend/src/controllers/auditController.ts",
+  "packages/admin-backend/src/controllers/authController.ts",
+  "packages/admin-backend/src/controllers/batchFetchHelper.ts",
+  "packages/admin-backend/src/controllers/broadcastController.ts",
+  "packages/admin-backend/src/controllers/creditController.ts",
+  "packages/admin-backend/src/controllers/deviceController.ts",
+  "packages/admin-backend/src/controllers/featureFlagController.ts",
+  "packages/admin-backend/src/controllers/generationsController.ts",
+  "packages/admin-backend/src/controllers/ipController.ts",
+  "packages/admin-backend/src/controllers/moderationController.ts",
+  "packages/admin-backend/src/controllers/usersController.ts",
+  "packages/admin-backend/src/controllers/warningController.ts",
+  "packages/admin-backend/src/index.ts",
+  "packages/admin-backend/src/middleware/authMiddleware.ts",
+  "packages/admin-frontend/src/components/ui/ArtStationFilters.tsx",
+  "packages/admin-frontend/src/components/ui/GenerationDetailDialog.tsx",
+  "packages/admin-frontend/src/components/ui/UserDetailDialog.tsx",
+  "packages/admin-frontend/src/components/ui/UserGenerationsTab.tsx",
+  "packages/admin-frontend/src/contexts/AuthContext.tsx",
+  "packages/admin-frontend/src/pages/AnalyticsPage.tsx",
+  "packages/admin-frontend/src/pages/ArtStationManagementPage.tsx",
+  "packages/admin-frontend/src/pages/ArtStationScoringPage.tsx",
+  "packages/admin-frontend/src/pages/AuditLogPage.tsx",
+  "packages/admin-frontend/src/pages/BroadcastPage.tsx",
+  "packages/admin-frontend/src/pages/DeviceBlockingPage.tsx",
+  "packages/admin-frontend/src/pages/FeatureFlagsPage.tsx",
+  "packages/admin-frontend/src/pages/IPManagementPage.tsx",
+  "packages/admin-frontend/src/pages/LoginPage.tsx",
+  "packages/admin-frontend/src/pages/UserManagementPage.tsx",
+  "packages/shared/src/types/admin.ts",
+  "packages/shared/src/types/content.ts",
+  "packages/shared/src/types/thirdPartyApi.ts",
+  "packages/shared/src/types/user.ts",
+];
+
+export default tseslint.config(
+  {
+    ignores: ["**/dist/**", "**/node_modules/**", "netlify/**", "scripts/**", "packages/admin-backend/*.js"],
+  },
+  js.configs.recommended,
+  ...tseslint.configs.recommended,
+  {
+    rules: {
+      "@typescript-eslint/no-unused-vars": [
+        "warn",
+        { argsIgnorePattern: "^_", varsIgnorePattern: "^_", caughtErrors: "none" },
+      ],
+      "@typescript-eslint/ban-ts-comment": ["error", { "ts-ignore": "allow-with-description" }],
+    },
+  },
+  {
+    files: LEGACY_ANY_FILES,
+    rules: { "@typescript-eslint/no-explicit-any": "off" },
+  },
+  {
+    files: ["packages/admin-backend/**/*.ts", "packages/shared/**/*.ts"],
+    languageOptions: { globals: globals.node },
+  },
+  {
+    files: ["packages/admin-frontend/**/*.{ts,tsx}"],
+    languageOptions: { globals: globals.browser },
+    plugins: { "react-hooks": reactHooks },
+    rules: reactHooks.configs.recommended.rules,
+  },
+);
@@ -2,6 +2,24 @@ import dotenv from 'dotenv';
 
 dotenv.config();
 
+const DEFAULT_IDLE_TIMEOUT_MINUTES: Record<string, number> = {
+  super_admin: 30,
+  admin: 60,
+  moderator: 120,
+  support: 120,
+  default: 60,
+};
+
+function parseIdleTimeouts(raw: string | undefined): Record<string, number> {
+  if (!raw) return DEFAULT_IDLE_TIMEOUT_MINUTES;
+  try {
+    return { ...DEFAULT_IDLE_TIMEOUT_MINUTES, ...JSON.parse(raw) };
+  } catch (error) {
+    console.warn('Invalid ADMIN_IDLE_TIMEOUT_MINUTES, using defaults');
+    return DEFAULT_IDLE_TIMEOUT_MINUTES;
+  }
+}
+
 export const env = {
   // Render uses $PORT, fallback to ADMIN_PORT or default
   port: parseInt(process.env.PORT || process.env.ADMIN_PORT || '5001', 10),
@@ -9,6 +27,43 @@ export const env = {
   jwtSecret: process.env.ADMIN_JWT_SECRET || 'admin-secret-key-change-in-production',
   adminEmail: process.env.ADMIN_EMAIL || 'admin@wildmindai.com',
   adminPassword: process.env.ADMIN_PASSWORD || 'Wildmind@2025',
+  // Env credentials act as a break-glass super admin; set to 'false' once real admin accounts exist
+  adminBootstrapEnabled: process.env.ADMIN_BOOTSTRAP_ENABLED !== 'false',
+  // Access tokens are short-lived; the refresh token (and session) slides forward on each refresh
+  accessTokenTtlMinutes: parseInt(process.env.ADMIN_ACCESS_TOKEN_TTL_MINUTES || '15', 10),
+  refreshTokenTtlHours: parseInt(process.env.ADMIN_REFRESH_TOKEN_TTL_HOURS || '24', 10),
+  // Minutes without activity before a session ends, per admin role (JSON, e.g. {"super_admin":15,"default":60})
+  idleTimeoutMinutes: parseIdleTimeouts(process.env.ADMIN_IDLE_TIMEOUT_MINUTES),
+  // Two-factor authentication
+  require2fa: process.env.ADMIN_REQUIRE_2FA === 'true',
+  totpIssuer: process.env.ADMIN_TOTP_ISSUER || 'WildMind Admin',
+  // Encrypts secrets stored in Firestore (TOTP seeds); falls back to the JWT secret
+  secretEncryptionKey: process.env.ADMIN_SECRET_ENCRYPTION_KEY || process.env.ADMIN_JWT_SECRET || 'admin-secret-key-change-in-production',
+  // Login brute-force protection; counters live in memory locally and in Firestore in production
+  loginAttemptStore: process.env.ADMIN_LOGIN_ATTEMPT_STORE || (process.env.NODE_ENV === 'production' ? 'firestore' : 'memory'),
+  loginMaxFailures: parseInt(process.env.ADMIN_LOGIN_MAX_FAILURES || '5', 10),
+  loginLockoutMinutes: parseInt(process.env.ADMIN_LOGIN_LOCKOUT_MINUTES || '15', 10),
+  // Migrate audit entries still in the pre-unified shapes shortly after every boot
+  auditLogMigrationOnStartup: process.env.ADMIN_AUDIT_MIGRATE_ON_STARTUP !== 'false',
+  // How often the audit log hash chain is re-verified in the background; 0 disables the job
+  auditVerifyIntervalMinutes: parseInt(process.env.ADMIN_AUDIT_VERIFY_INTERVAL_MINUTES || '60', 10),
+  // Retention archives: 'local' writes under archiveDir, 'bucket' to a Cloud Storage bucket
+  archiveStore: process.env.ADMIN_ARCHIVE_STORE || 'local',
+  archiveDir: process.env.ADMIN_ARCHIVE_DIR || './archives',
+  archiveBucket: process.env.ADMIN_ARCHIVE_BUCKET || '',
+  // How often expired entries are moved into archives; 0 disables the job
+  retentionIntervalHours: parseInt(process.env.ADMIN_RETENTION_INTERVAL_HOURS || '24', 10),
+  // How often expired timed suspensions are lifted; 0 disables the job
+  suspensionExpiryIntervalMinutes: parseInt(process.env.ADMIN_SUSPENSION_EXPIRY_INTERVAL_MINUTES || '5', 10),
+  suspensionExpiryEmail: process.env.ADMIN_SUSPENSION_EXPIRY_EMAIL === 'true',
+  // How often the device/IP → accounts index is rebuilt from loginHistory; 0 disables the job
+  linkedAccountIndexIntervalHours: parseInt(process.env.ADMIN_LINKED_ACCOUNT_INDEX_INTERVAL_HOURS || '6', 10),
+  // Users whose risk score reaches this are put under review; scores run 0-100
+  riskReviewThreshold: parseInt(process.env.ADMIN_RISK_REVIEW_THRESHOLD || '60', 10),
+  // How often the scheduled rescore runs; 0 disables the job (event rescoring still runs)
+  riskScoringIntervalHours: parseInt(process.env.ADMIN_RISK_SCORING_INTERVAL_HOURS || '12', 10),
+  // Most users one scheduled rescore reads; the next run carries on where it stopped
+  riskScoringUsersPerRun: parseInt(process.env.ADMIN_RISK_SCORING_USERS_PER_RUN || '2000', 10),
   corsOrigin: process.env.CORS_ORIGIN || 'http://localhost:3001',
 };
 
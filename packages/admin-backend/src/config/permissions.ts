@@ -0,0 +1,95 @@
+import { AdminRole } from '../services/adminUsers';
+
+/**
+ * Every permission a route can declare. Format is `<resource>:<verb>`.
+ */
+export const PERMISSIONS = [
+  'generations:read',
+  'generations:score',
+  'generations:write',
+  'artstation:read',
+  'artstation:write',
+  'users:read',
+  'users:suspend',
+  'users:ban',
+  'users:logout',
+  'users:role',
+  'users:verify',
+  'users:review',
+  'warnings:write',
+  'cases:read',
+  'cases:write',
+  'notes:write',
+  'appeals:read',
+  'appeals:decide',
+  'appeals:submit',
+  'credits:adjust',
+  'approvals:read',
+  'approvals:decide',
+  'devices:read',
+  'devices:block',
+  'ips:read',
+  'ips:block',
+  'audit:read',
+  'audit:export',
+  'flags:read',
+  'flags:write',
+  'broadcast:read',
+  'broadcast:send',
+  'analytics:read',
+  'admins:manage',
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number];
+
+const READ_PERMISSIONS: Permission[] = [
+  'generations:read',
+  'artstation:read',
+  'users:read',
+  'cases:read',
+  'appeals:read',
+  'approvals:read',
+  'devices:read',
+  'ips:read',
+  'audit:read',
+  'flags:read',
+  'broadcast:read',
+  'analytics:read',
+];
+
+export const ROLE_PERMISSIONS: Record<AdminRole, Permission[]> = {
+  super_admin: [...PERMISSIONS],
+  admin: PERMISSIONS.filter((p) => p !== 'admins:manage'),
+  moderator: [
+    ...READ_PERMISSIONS,
+    'generations:score',
+    'generations:write',
+    'artstation:write',
+    'users:suspend',
+    'users:ban',
+    'users:logout',
+    'users:review',
+    'warnings:write',
+    'cases:write',
+    'notes:write',
+    'appeals:decide',
+    'approvals:decide',
+    'devices:block',
+    'ips:block',
+  ],
+  support: [...READ_PERMISSIONS, 'users:verify', 'notes:write'],
+};
+
+export function isPermission(value: unknown): value is Permission {
+  return typeof value === 'string' && (PERMISSIONS as readonly string[]).includes(value);
+}
+
+/**
+ * Role permissions plus any per-account grants from AdminUser.permissions.
+ * Unknown strings in the stored grants are ignored.
+ */
+export function resolvePermissions(role: AdminRole, extra: string[] = []): Permission[] {
+  const granted = new Set<Permission>(ROLE_PERMISSIONS[role] || []);
+  extra.filter(isPermission).forEach((p) => granted.add(p));
+  return Array.from(granted);
+}
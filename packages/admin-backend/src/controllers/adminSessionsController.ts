@@ -0,0 +1,137 @@
+import { Response } from "express";
+import { AdminRequest } from "../middleware/authMiddleware";
+import { auditActor, logAuditAction } from "../services/auditLog";
+import {
+  AdminSessionWithId,
+  getSession,
+  listLiveSessions,
+  revokeSession,
+} from "../services/adminSessions";
+import { errorMessage } from "../utils/errors";
+
+function toSessionResponse(session: AdminSessionWithId, currentId?: string) {
+  const {
+    revokedAt: _revokedAt,
+    revokedBy: _revokedBy,
+    refreshTokenHash: _refreshTokenHash,
+    previousRefreshTokenHash: _previousRefreshTokenHash,
+    ...rest
+  } = session;
+  return { ...rest, isCurrent: session.id === currentId };
+}
+
+/**
+ * List the signed-in admin's live sessions
+ * GET /auth/sessions
+ */
+export async function listMySessions(req: AdminRequest, res: Response) {
+  try {
+    const sessions = await listLiveSessions(req.adminId as string);
+    return res.json({
+      success: true,
+      data: {
+        sessions: sessions.map((s) => toSessionResponse(s, req.sessionId)),
+        total: sessions.length,
+      },
+    });
+  } catch (error) {
+    console.error("Error listing sessions:", error);
+    return res
+      .status(500)
+      .json({ error: errorMessage(error, "Failed to list sessions") });
+  }
+}
+
+/**
+ * Revoke one of the signed-in admin's own sessions
+ * DELETE /auth/sessions/:id
+ */
+export async function revokeMySession(req: AdminRequest, res: Response) {
+  try {
+    const { id } = req.params;
+    if (!id) return res.status(400).json({ error: "Session ID is required" });
+
+    const session = await getSession(id);
+    if (!session || session.adminId !== req.adminId) {
+      return res.status(404).json({ error: "Session not found" });
+    }
+
+    await revokeSession(id, req.adminEmail || "admin");
+
+    await logAuditAction({
+      ...auditActor(req),
+      action: "REVOKE_ADMIN_SESSION",
+      resource: "admin_session",
+      resourceId: id,
+      details: {
+        sessionId: id,
+        adminId: session.adminId,
+        email: session.adminEmail,
+      },
+    });
+
+    return res.json({ success: true, message: "Session revoked" });
+  } catch (error) {
+    console.error("Error revoking session:", error);
+    return res
+      .status(500)
+      .json({ error: errorMessage(error, "Failed to revoke session") });
+  }
+}
+
+/**
+ * List live sessions across all admins
+ * GET /admin-sessions
+ */
+export async function listAllSessions(req: AdminRequest, res: Response) {
+  try {
+    const sessions = await listLiveSessions();
+    return res.json({
+      success: true,
+      data: {
+        sessions: sessions.map((s) => toSessionResponse(s, req.sessionId)),
+        total: sessions.length,
+      },
+    });
+  } catch (error) {
+    console.error("Error listing admin sessions:", error);
+    return res
+      .status(500)
+      .json({ error: errorMessage(error, "Failed to list admin sessions") });
+  }
+}
+
+/**
+ * Revoke any admin's session
+ * DELETE /admin-sessions/:id
+ */
+export async function revokeAnySession(req: AdminRequest, res: Response) {
+  try {
+    const { id } = req.params;
+    if (!id) return res.status(400).json({ error: "Session ID is required" });
+
+    const session = await getSession(id);
+    if (!session) return res.status(404).json({ error: "Session not found" });
+
+    await revokeSession(id, req.adminEmail || "admin");
+
+    await logAuditAction({
+      ...auditActor(req),
+      action: "REVOKE_ADMIN_SESSION",
+      resource: "admin_session",
+      resourceId: id,
+      details: {
+        sessionId: id,
+        adminId: session.adminId,
+        email: session.adminEmail,
+      },
+    });
+
+    return res.json({ success: true, message: "Session revoked" });
+  } catch (error) {
+    console.error("Error revoking admin session:", error);
+    return res
+      .status(500)
+      .json({ error: errorMessage(error, "Failed to revoke session") });
+  }
+}
@@ -0,0 +1,282 @@
+import { Response } from "express";
+import bcrypt from "bcryptjs";
+import { adminDb } from "../config/firebaseAdmin";
+import { env } from "../config/env";
+import { AdminRequest } from "../middleware/authMiddleware";
+import { auditActor, logAuditAction } from "../services/auditLog";
+import { isPermission } from "../config/permissions";
+import {
+  ADMIN_ROLES,
+  ADMIN_USERS_COLLECTION,
+  AdminUserRecord,
+  BOOTSTRAP_ADMIN_ID,
+  createAdmin,
+  deleteAdmin,
+  getAdminById,
+  isAdminRole,
+  normalizeEmail,
+  toPublicAdmin,
+} from "../services/adminUsers";
+import { errorMessage } from "../utils/errors";
+import {
+  ADMIN_TWO_FACTOR_COLLECTION,
+  clearTwoFactor,
+} from "../services/adminTwoFactor";
+import { revokeAdminSessions } from "../services/adminSessions";
+import { getLockout, unlockEmail } from "../services/loginAttempts";
+
+const MIN_PASSWORD_LENGTH = 10;
+const BCRYPT_ROUNDS = 12;
+
+/**
+ * List all admin accounts
+ * GET /admin-users
+ */
+export async function listAdminUsers(req: AdminRequest, res: Response) {
+  try {
+    const [snapshot, twoFactorSnapshot] = await Promise.all([
+      adminDb
+        .collection(ADMIN_USERS_COLLECTION)
+        .orderBy("createdAt", "desc")
+        .get(),
+      adminDb
+        .collection(ADMIN_TWO_FACTOR_COLLECTION)
+        .where("enabled", "==", true)
+        .get(),
+    ]);
+    const twoFactorIds = new Set(twoFactorSnapshot.docs.map((doc) => doc.id));
+
+    const admins = await Promise.all(
+      snapshot.docs.map(async (doc) => {
+        const record = doc.data() as AdminUserRecord;
+        return {
+          ...toPublicAdmin({ id: doc.id, ...record }),
+          twoFactorEnabled: twoFactorIds.has(doc.id),
+          lockedUntil: await getLockout(record.email),
+        };
+      }),
+    );
+
+    return res.json({
+      success: true,
+      data: {
+        admins,
+        total: admins.length,
+        bootstrapAdmin: env.adminBootstrapEnabled
+          ? {
+              id: BOOTSTRAP_ADMIN_ID,
+              email: env.adminEmail,
+              twoFactorEnabled: twoFactorIds.has(BOOTSTRAP_ADMIN_ID),
+              lockedUntil: await getLockout(normalizeEmail(env.adminEmail)),
+            }
+          : null,
+      },
+    });
+  } catch (error) {
+    console.error("Error listing admin users:", error);
+    return res
+      .status(500)
+      .json({ error: errorMessage(error, "Failed to list admin users") });
+  }
+}
+
+/**
+ * Create an admin account
+ * POST /admin-users
+ * Body: { email, username, password, role, permissions? }
+ */
+export async function createAdminUser(req: AdminRequest, res: Response) {
+  try {
+    const { email, username, password, role, permissions } = req.body;
+
+    if (!email) return res.status(400).json({ error: "email is required" });
+    if (!username)
+      return res.status(400).json({ error: "username is required" });
+    if (!password || String(password).length < MIN_PASSWORD_LENGTH) {
+      return res.status(400).json({
+        error: `password must be at least ${MIN_PASSWORD_LENGTH} characters`,
+      });
+    }
+    if (!isAdminRole(role)) {
+      return res.status(400).json({
+        error: `Invalid role. Must be one of: ${ADMIN_ROLES.join(", ")}`,
+      });
+    }
+    if (
+      permissions !== undefined &&
+      (!Array.isArray(permissions) || !permissions.every(isPermission))
+    ) {
+      return res
+        .status(400)
+        .json({ error: "permissions must be an array of known permissions" });
+    }
+
+    const normalizedEmail = normalizeEmail(email);
+    if (normalizedEmail === normalizeEmail(env.adminEmail)) {
+      return res
+        .status(409)
+        .json({ error: "This email is reserved for the bootstrap admin" });
+    }
+    const record: AdminUserRecord = {
+      email: normalizedEmail,
+      username: String(username).trim(),
+      role,
+      permissions: permissions || [],
+      passwordHash: await bcrypt.hash(String(password), BCRYPT_ROUNDS),
+      isActive: true,
+      createdAt: new Date().toISOString(),
+      createdBy: req.adminEmail || "admin",
+    };
+
+    const result = await createAdmin(record);
+    if (result.status === "email_taken") {
+      return res
+        .status(409)
+        .json({ error: "An admin with this email already exists" });
+    }
+    const { admin } = result;
+
+    await logAuditAction({
+      ...auditActor(req),
+      action: "CREATE_ADMIN",
+      resource: "admin_user",
+      resourceId: admin.id,
+      details: { adminId: admin.id, email: normalizedEmail, role },
+    });
+
+    return res.json({
+      success: true,
+      message: "Admin account created",
+      data: { admin: toPublicAdmin(admin) },
+    });
+  } catch (error) {
+    console.error("Error creating admin user:", error);
+    return res
+      .status(500)
+      .json({ error: errorMessage(error, "Failed to create admin user") });
+  }
+}
+
+/**
+ * Enable or disable an admin account
+ * PATCH /admin-users/:id/status
+ * Body: { isActive: boolean }
+ */
+export async function setAdminUserStatus(req: AdminRequest, res: Response) {
+  try {
+    const { id } = req.params;
+    const { isActive } = req.body;
+
+    if (!id) return res.status(400).json({ error: "Admin ID is required" });
+    if (typeof isActive !== "boolean")
+      return res.status(400).json({ error: "isActive must be a boolean" });
+    if (id === req.adminId)
+      return res
+        .status(400)
+        .json({ error: "You cannot change the status of your own account" });
+
+    const existing = await getAdminById(id);
+    if (!existing) return res.status(404).json({ error: "Admin not found" });
+
+    const updateData: Partial<AdminUserRecord> = { isActive };
+    if (!isActive) {
+      updateData.disabledAt = new Date().toISOString();
+      updateData.disabledBy = req.adminEmail || "admin";
+    }
+    await adminDb.collection(ADMIN_USERS_COLLECTION).doc(id).update(updateData);
+    if (!isActive) {
+      await revokeAdminSessions(id, req.adminEmail || "admin");
+    }
+
+    await logAuditAction({
+      ...auditActor(req),
+      action: isActive ? "ENABLE_ADMIN" : "DISABLE_ADMIN",
+      resource: "admin_user",
+      resourceId: id,
+      details: { adminId: id, email: existing.email },
+    });
+
+    return res.json({
+      success: true,
+      message: `Admin account ${isActive ? "enabled" : "disabled"}`,
+    });
+  } catch (error) {
+    console.error("Error updating admin status:", error);
+    return res
+      .status(500)
+      .json({ error: errorMessage(error, "Failed to update admin status") });
+  }
+}
+
+/**
+ * Delete an admin account
+ * DELETE /admin-users/:id
+ */
+export async function deleteAdminUser(req: AdminRequest, res: Response) {
+  try {
+    const { id } = req.params;
+    if (!id) return res.status(400).json({ error: "Admin ID is required" });
+    if (id === req.adminId)
+      return res
+        .status(400)
+        .json({ error: "You cannot delete your own account" });
+
+    const existing = await getAdminById(id);
+    if (!existing) return res.status(404).json({ error: "Admin not found" });
+
+    await deleteAdmin(existing);
+    await clearTwoFactor(id);
+    await revokeAdminSessions(id, req.adminEmail || "admin");
+
+    await logAuditAction({
+      ...auditActor(req),
+      action: "DELETE_ADMIN",
+      resource: "admin_user",
+      resourceId: id,
+      details: { adminId: id, email: existing.email, role: existing.role },
+    });
+
+    return res.json({ success: true, message: "Admin account deleted" });
+  } catch (error) {
+    console.error("Error deleting admin user:", error);
+    return res
+      .status(500)
+      .json({ error: errorMessage(error, "Failed to delete admin user") });
+  }
+}
+
+/**
+ * Clear a login lockout (and backoff) for an email
+ * POST /admin-users/unlock
+ * Body: { email }
+ */
+export async function unlockAdminLogin(req: AdminRequest, res: Response) {
+  try {
+    const { email } = req.body;
+    if (!email) return res.status(400).json({ error: "email is required" });
+
+    const normalizedEmail = normalizeEmail(email);
+    const lockedUntil = await getLockout(normalizedEmail);
+    await unlockEmail(normalizedEmail);
+
+    await logAuditAction({
+      ...auditActor(req),
+      action: "UNLOCK_ADMIN_LOGIN",
+      resource: "admin_login",
+      resourceId: normalizedEmail,
+      details: { email: normalizedEmail, lockedUntil },
+    });
+
+    return res.json({
+      success: true,
+      message: lockedUntil
+        ? "Account unlocked"
+        : "Login attempt counters cleared",
+    });
+  } catch (error) {
+    console.error("Error unlocking admin login:", error);
+    return res
+      .status(500)
+      .json({ error: errorMessage(error, "Failed to unlock admin login") });
+  }
+}
@@ -0,0 +1,156 @@
+import { Response } from "express";
+import { AdminRequest } from "../middleware/authMiddleware";
+import { auditActor, logAuditAction } from "../services/auditLog";
+import { isPermission, Permission } from "../config/permissions";
+import {
+  createApiKey as storeApiKey,
+  getApiKey,
+  listApiKeys as fetchApiKeys,
+  revokeApiKey as markApiKeyRevoked,
+  toPublicApiKey,
+} from "../services/adminApiKeys";
+import { errorMessage } from "../utils/errors";
+
+const DEFAULT_EXPIRY_DAYS = 30;
+const MAX_EXPIRY_DAYS = 365;
+
+function canManageAllKeys(req: AdminRequest): boolean {
+  return !!req.adminPermissions?.includes("admins:manage");
+}
+
+/**
+ * List API keys — your own, or every admin's if you can manage admins
+ * GET /api-keys
+ */
+export async function listApiKeys(req: AdminRequest, res: Response) {
+  try {
+    const keys = await fetchApiKeys(
+      canManageAllKeys(req) ? undefined : req.adminId,
+    );
+    return res.json({
+      success: true,
+      data: { keys: keys.map(toPublicApiKey), total: keys.length },
+    });
+  } catch (error) {
+    console.error("Error listing API keys:", error);
+    return res
+      .status(500)
+      .json({ error: errorMessage(error, "Failed to list API keys") });
+  }
+}
+
+/**
+ * Mint an API key scoped to a subset of your own permissions.
+ * The plaintext key is returned once and never stored.
+ * POST /api-keys
+ * Body: { name, scopes: string[], expiresInDays? }
+ */
+export async function createApiKey(req: AdminRequest, res: Response) {
+  try {
+    const { name, scopes, expiresInDays = DEFAULT_EXPIRY_DAYS } = req.body;
+
+    if (!name || !String(name).trim())
+      return res.status(400).json({ error: "name is required" });
+    if (
+      !Array.isArray(scopes) ||
+      scopes.length === 0 ||
+      !scopes.every(isPermission)
+    ) {
+      return res.status(400).json({
+        error: "scopes must be a non-empty array of known permissions",
+      });
+    }
+    const granted = req.adminPermissions || [];
+    const notHeld = (scopes as Permission[]).filter(
+      (scope) => !granted.includes(scope),
+    );
+    if (notHeld.length > 0) {
+      return res.status(403).json({
+        error: `You cannot grant permissions you don't hold: ${notHeld.join(", ")}`,
+      });
+    }
+    const days = Number(expiresInDays);
+    if (!Number.isInteger(days) || days < 1 || days > MAX_EXPIRY_DAYS) {
+      return res.status(400).json({
+        error: `expiresInDays must be between 1 and ${MAX_EXPIRY_DAYS}`,
+      });
+    }
+
+    const { key, apiKey } = await storeApiKey({
+      name: String(name).trim(),
+      scopes,
+      createdBy: req.adminId as string,
+      createdByEmail: req.adminEmail || "admin",
+      expiresAt: new Date(
+        Date.now() + days * 24 * 60 * 60 * 1000,
+      ).toISOString(),
+    });
+
+    await logAuditAction({
+      ...auditActor(req),
+      action: "CREATE_API_KEY",
+      resource: "api_key",
+      resourceId: apiKey.id,
+      details: {
+        apiKeyId: apiKey.id,
+        name: apiKey.name,
+        scopes,
+        expiresAt: apiKey.expiresAt,
+      },
+    });
+
+    return res.json({
+      success: true,
+      message: "API key created. Copy it now; it will not be shown again.",
+      data: { key, apiKey: toPublicApiKey(apiKey) },
+    });
+  } catch (error) {
+    console.error("Error creating API key:", error);
+    return res
+      .status(500)
+      .json({ error: errorMessage(error, "Failed to create API key") });
+  }
+}
+
+/**
+ * Revoke an API key (your own, or any key if you can manage admins)
+ * DELETE /api-keys/:id
+ */
+export async function revokeApiKey(req: AdminRequest, res: Response) {
+  try {
+    const { id } = req.params;
+    if (!id) return res.status(400).json({ error: "API key ID is required" });
+
+    const apiKey = await getApiKey(id);
+    if (
+      !apiKey ||
+      (apiKey.createdBy !== req.adminId && !canManageAllKeys(req))
+    ) {
+      return res.status(404).json({ error: "API key not found" });
+    }
+    if (apiKey.revokedAt) {
+      return res.status(400).json({ error: "API key is already revoked" });
+    }
+
+    await markApiKeyRevoked(id, req.adminEmail || "admin");
+
+    await logAuditAction({
+      ...auditActor(req),
+      action: "REVOKE_API_KEY",
+      resource: "api_key",
+      resourceId: id,
+      details: {
+        apiKeyId: id,
+        name: apiKey.name,
+        ownerEmail: apiKey.createdByEmail,
+      },
+    });
+
+    return res.json({ success: true, message: "API key revoked" });
+  } catch (error) {
+    console.error("Error revoking API key:", error);
+    return res
+      .status(500)
+      .json({ error: errorMessage(error, "Failed to revoke API key") });
+  }
+}
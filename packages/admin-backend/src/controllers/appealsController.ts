@@ -0,0 +1,354 @@
+import { Response } from "express";
+import { adminDb } from "../config/firebaseAdmin";
+import { AdminRequest } from "../middleware/authMiddleware";
+import {
+  AUDIT_LOGS_COLLECTION,
+  auditActor,
+  logAuditAction,
+} from "../services/auditLog";
+import {
+  AppealDecisionResult,
+  AppealWithId,
+  decideAppeal,
+  getAppeal,
+  isAppealStatus,
+  listAppeals as fetchAppeals,
+  markOutcomeEmailed,
+  reopenAppeal,
+  submitAppeal as recordAppeal,
+} from "../services/appeals";
+import { liftSuspension } from "../services/suspensions";
+import { sendLoggedEmail } from "../services/mailer";
+import { applyUnban } from "./moderationController";
+import { errorMessage } from "../utils/errors";
+
+const MAX_APPEAL_LENGTH = 5000;
+const MAX_DECISION_NOTE_LENGTH = 2000;
+const APPEAL_HISTORY_LIMIT = 50;
+
+function sendDecisionFailure(
+  res: Response,
+  result: Exclude<AppealDecisionResult, { status: "decided" }>,
+) {
+  switch (result.status) {
+    case "not_found":
+      return res.status(404).json({ error: "Appeal not found" });
+    case "not_pending":
+      return res
+        .status(409)
+        .json({ error: `Appeal has already been ${result.current}` });
+  }
+}
+
+function validateDecisionNote(note: unknown): string | null {
+  if (note === undefined || note === null || note === "") return null;
+  if (typeof note !== "string") return "note must be a string";
+  if (note.length > MAX_DECISION_NOTE_LENGTH)
+    return `note is limited to ${MAX_DECISION_NOTE_LENGTH} characters`;
+  return null;
+}
+
+/**
+ * Tell the user how their appeal went and record whether the email was sent.
+ * Failures are logged, never thrown: the decision has already been made.
+ */
+async function emailOutcome(appeal: AppealWithId, sentBy: string) {
+  if (!appeal.userEmail) return;
+  const sanction = appeal.sanction === "ban" ? "ban" : "suspension";
+  const approved = appeal.status === "approved";
+  const lines = [
+    "Hello,",
+    "",
+    approved
+      ? `We've reviewed your appeal and lifted the ${sanction} on your account. You can sign in again.`
+      : `We've reviewed your appeal and the ${sanction} on your account will stay in place.`,
+  ];
+  if (appeal.decisionNote) lines.push("", appeal.decisionNote);
+  lines.push("", "— The WildMind team");
+
+  try {
+    const sent = await sendLoggedEmail({
+      uid: appeal.uid,
+      to: appeal.userEmail,
+      subject: approved
+        ? "Your appeal was approved"
+        : "Your appeal was reviewed",
+      body: lines.join("\n"),
+      sentBy,
+    });
+    await markOutcomeEmailed(appeal.id, sent);
+  } catch (error) {
+    console.error("Failed to email appeal outcome:", error);
+  }
+}
+
+/**
+ * Submit an appeal against a ban or suspension. Called by the main app with an
+ * API key scoped to appeals:submit, on behalf of the signed-out user.
+ * POST /appeals
+ * Body: { uid: string, message: string }
+ */
+export async function submitAppeal(req: AdminRequest, res: Response) {
+  try {
+    const { uid, message } = req.body;
+
+    if (!uid || typeof uid !== "string")
+      return res.status(400).json({ error: "User ID is required" });
+    if (!message || typeof message !== "string" || !message.trim())
+      return res.status(400).json({ error: "Appeal message is required" });
+    if (message.length > MAX_APPEAL_LENGTH)
+      return res.status(400).json({
+        error: `Appeals are limited to ${MAX_APPEAL_LENGTH} characters`,
+      });
+
+    const result = await recordAppeal({
+      uid,
+      message: message.trim(),
+      submittedBy: req.apiKeyName || req.adminEmail || "admin",
+    });
+
+    switch (result.status) {
+      case "user_not_found":
+        return res.status(404).json({ error: "User not found" });
+      case "not_sanctioned":
+        return res
+          .status(400)
+          .json({ error: "User is not banned or suspended" });
+      case "duplicate":
+        return res.status(409).json({
+          error: "User already has an appeal awaiting review",
+          data: { appeal: result.appeal },
+        });
+    }
+
+    await logAuditAction({
+      ...auditActor(req),
+      action: "SUBMIT_APPEAL",
+      resource: "appeal",
+      resourceId: result.appeal.id,
+      targetUid: uid,
+      details: { sanction: result.appeal.sanction },
+    });
+
+    return res.status(201).json({
+      success: true,
+      message: "Appeal submitted",
+      data: { appeal: result.appeal },
+    });
+  } catch (error) {
+    console.error("Error submitting appeal:", error);
+    return res
+      .status(500)
+      .json({ error: errorMessage(error, "Failed to submit appeal") });
+  }
+}
+
+/**
+ * List appeals. The pending queue is oldest first; other statuses newest first.
+ * GET /appeals?status=pending&limit=100
+ */
+export async function listAppeals(req: AdminRequest, res: Response) {
+  try {
+    const status = (req.query.status as string) || "pending";
+    if (status !== "all" && !isAppealStatus(status)) {
+      return res.status(400).json({
+        error: "status must be one of: all, pending, approved, denied",
+      });
+    }
+    const limit = Math.min(parseInt(req.query.limit as string) || 100, 500);
+
+    const appeals = await fetchAppeals(
+      status === "all" ? undefined : status,
+      limit,
+    );
+    return res.json({
+      success: true,
+      data: { appeals, total: appeals.length },
+    });
+  } catch (error) {
+    console.error("Error listing appeals:", error);
+    return res
+      .status(500)
+      .json({ error: errorMessage(error, "Failed to list appeals") });
+  }
+}
+
+/**
+ * Get an appeal with the context needed to decide it: the user's current
+ * sanction, their warnings and recent audit history
+ * GET /appeals/:id
+ */
+export async function getAppealById(req: AdminRequest, res: Response) {
+  try {
+    const { id } = req.params;
+    if (!id) return res.status(400).json({ error: "Appeal ID is required" });
+
+    const appeal = await getAppeal(id);
+    if (!appeal) return res.status(404).json({ error: "Appeal not found" });
+
+    const [userDoc, warningsSnapshot, auditSnapshot] = await Promise.all([
+      adminDb.collection("users").doc(appeal.uid).get(),
+      adminDb
+        .collection("userWarnings")
+        .where("uid", "==", appeal.uid)
+        .orderBy("issuedAt", "desc")
+        .get(),
+      adminDb
+        .collection(AUDIT_LOGS_COLLECTION)
+        .where("targetUid", "==", appeal.uid)
+        .orderBy("createdAt", "desc")
+        .limit(APPEAL_HISTORY_LIMIT)
+        .get(),
+    ]);
+
+    const user = userDoc.exists ? userDoc.data() || {} : null;
+    return res.json({
+      success: true,
+      data: {
+        appeal,
+        user: user && {
+          uid: appeal.uid,
+          email: user.email || null,
+          username: user.username || null,
+          displayName: user.displayName || null,
+          isBanned: !!user.isBanned,
+          banReason: user.banReason || null,
+          bannedAt: user.bannedAt || null,
+          bannedBy: user.bannedBy || null,
+          isSuspended: !!user.isSuspended,
+          suspendReason: user.suspendReason || null,
+          suspendedAt: user.suspendedAt || null,
+          suspendedUntil: user.suspendedUntil || null,
+          suspendedBy: user.suspendedBy || null,
+        },
+        warnings: warningsSnapshot.docs.map((doc) => ({
+          id: doc.id,
+          ...doc.data(),
+        })),
+        history: auditSnapshot.docs.map((doc) => ({
+          id: doc.id,
+          ...doc.data(),
+        })),
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching appeal:", error);
+    return res
+      .status(500)
+      .json({ error: errorMessage(error, "Failed to fetch appeal") });
+  }
+}
+
+/**
+ * Approve an appeal: lift the appealed sanction and email the user
+ * POST /appeals/:id/approve
+ * Body: { note?: string } (included in the email)
+ */
+export async function approveAppeal(req: AdminRequest, res: Response) {
+  try {
+    const { id } = req.params;
+    const { note } = req.body || {};
+    if (!id) return res.status(400).json({ error: "Appeal ID is required" });
+    const noteError = validateDecisionNote(note);
+    if (noteError) return res.status(400).json({ error: noteError });
+
+    const result = await decideAppeal(
+      id,
+      { adminId: req.adminId as string, adminEmail: req.adminEmail || "admin" },
+      "approved",
+      note,
+    );
+    if (result.status !== "decided") return sendDecisionFailure(res, result);
+    const { appeal } = result;
+
+    // The sanction may already be gone (a timed suspension expired, or
+    // another admin lifted it); approving then only closes the appeal
+    const userDoc = await adminDb.collection("users").doc(appeal.uid).get();
+    const user = userDoc.data() || {};
+    const actor = auditActor(req);
+    const details = { reason: "appeal_approved", appealId: appeal.id };
+    let lifted = false;
+    try {
+      if (appeal.sanction === "ban" && user.isBanned) {
+        await applyUnban(appeal.uid, actor, details);
+        lifted = true;
+      } else if (appeal.sanction === "suspension" && user.isSuspended) {
+        await liftSuspension(appeal.uid, actor, details);
+        lifted = true;
+      }
+    } catch (error) {
+      await reopenAppeal(appeal.id);
+      throw error;
+    }
+
+    await logAuditAction({
+      ...actor,
+      action: "APPROVE_APPEAL",
+      resource: "appeal",
+      resourceId: appeal.id,
+      targetUid: appeal.uid,
+      details: { sanction: appeal.sanction, lifted, note: note || null },
+    });
+
+    await emailOutcome(appeal, req.adminEmail || "admin");
+
+    return res.json({
+      success: true,
+      message: lifted
+        ? `Appeal approved and ${appeal.sanction} lifted`
+        : `Appeal approved; the ${appeal.sanction} was no longer in effect`,
+      data: { appeal },
+    });
+  } catch (error) {
+    console.error("Error approving appeal:", error);
+    return res
+      .status(500)
+      .json({ error: errorMessage(error, "Failed to approve appeal") });
+  }
+}
+
+/**
+ * Deny an appeal and email the user. The sanction stays in place.
+ * POST /appeals/:id/deny
+ * Body: { note?: string } (included in the email)
+ */
+export async function denyAppeal(req: AdminRequest, res: Response) {
+  try {
+    const { id } = req.params;
+    const { note } = req.body || {};
+    if (!id) return res.status(400).json({ error: "Appeal ID is required" });
+    const noteError = validateDecisionNote(note);
+    if (noteError) return res.status(400).json({ error: noteError });
+
+    const result = await decideAppeal(
+      id,
+      { adminId: req.adminId as string, adminEmail: req.adminEmail || "admin" },
+      "denied",
+      note,
+    );
+    if (result.status !== "decided") return sendDecisionFailure(res, result);
+    const { appeal } = result;
+
+    await logAuditAction({
+      ...auditActor(req),
+      action: "DENY_APPEAL",
+      resource: "appeal",
+      resourceId: appeal.id,
+      targetUid: appeal.uid,
+      details: { sanction: appeal.sanction, note: note || null },
+    });
+
+    await emailOutcome(appeal, req.adminEmail || "admin");
+
+    return res.json({
+      success: true,
+      message: "Appeal denied",
+      data: { appeal },
+    });
+  } catch (error) {
+    console.error("Error denying appeal:", error);
+    return res
+      .status(500)
+      .json({ error: errorMessage(error, "Failed to deny appeal") });
+  }
+}
@@ -0,0 +1,385 @@
+import { Response } from "express";
+import { AdminRequest } from "../middleware/authMiddleware";
+import { auditActor, logAuditAction } from "../services/auditLog";
+import { applyBan, applyRoleChange } from "./moderationController";
+import { applyCreditAdjustment } from "./creditController";
+import { Permission } from "../config/permissions";
+import {
+  ApprovalAction,
+  ApprovalDecisionResult,
+  ApprovalPolicy,
+  ApprovalStatus,
+  ApprovalWithId,
+  decideApproval,
+  getApproval,
+  getApprovalPolicy as loadApprovalPolicy,
+  listApprovals as fetchApprovals,
+  markApprovalFailed,
+  requestApproval,
+  saveApprovalPolicy,
+} from "../services/approvals";
+import { errorMessage } from "../utils/errors";
+
+const STATUSES: ApprovalStatus[] = [
+  "pending",
+  "approved",
+  "rejected",
+  "expired",
+  "failed",
+];
+const MAX_EXPIRY_HOURS = 7 * 24;
+
+// Deciding on a request needs the same permission as doing the action directly
+const ACTION_PERMISSIONS: Record<ApprovalAction, Permission> = {
+  BAN_USER: "users:ban",
+  SET_ROLE_ADMIN: "users:role",
+  DEDUCT_CREDITS: "credits:adjust",
+};
+
+/** Attached to the audit entry of an action that ran through approval. */
+export interface ApprovalReference {
+  id: string;
+  requestedBy: string;
+  requestedByEmail: string;
+}
+
+/**
+ * Queue a high-impact action instead of running it, and audit the request.
+ * `created` is false when an identical request was already pending.
+ */
+export async function queueForApproval(
+  req: AdminRequest,
+  policy: ApprovalPolicy,
+  action: ApprovalAction,
+  targetUid: string,
+  params: Record<string, unknown>,
+): Promise<{ approval: ApprovalWithId; created: boolean }> {
+  const { approval, created } = await requestApproval({
+    action,
+    targetUid,
+    params,
+    requester: {
+      adminId: req.adminId as string,
+      adminEmail: req.adminEmail || "admin",
+    },
+    expiryHours: policy.expiryHours,
+  });
+
+  if (created) {
+    await logAuditAction({
+      ...auditActor(req),
+      action: "REQUEST_APPROVAL",
+      resource: "approval",
+      resourceId: approval.id,
+      targetUid,
+      details: { approvalId: approval.id, approvalAction: action, params },
+    });
+  }
+  return { approval, created };
+}
+
+/**
+ * Queue a high-impact action instead of running it, and answer 202 with the request.
+ * Used by the ban, role and credit handlers when the approval policy covers the action.
+ */
+export async function submitForApproval(
+  req: AdminRequest,
+  res: Response,
+  policy: ApprovalPolicy,
+  action: ApprovalAction,
+  targetUid: string,
+  params: Record<string, unknown>,
+) {
+  const { approval, created } = await queueForApproval(
+    req,
+    policy,
+    action,
+    targetUid,
+    params,
+  );
+
+  return res.status(202).json({
+    success: true,
+    pendingApproval: true,
+    message: created
+      ? "Submitted for approval by a second admin"
+      : "An identical request is already awaiting approval",
+    data: { approval },
+  });
+}
+
+async function executeApproval(
+  approval: ApprovalWithId,
+  req: AdminRequest,
+): Promise<void> {
+  const reference: ApprovalReference = {
+    id: approval.id,
+    requestedBy: approval.requestedBy,
+    requestedByEmail: approval.requestedByEmail,
+  };
+  const actor = auditActor(req);
+  const { targetUid, params } = approval;
+
+  switch (approval.action) {
+    case "BAN_USER":
+      return applyBan(targetUid, params.reason as string, actor, reference);
+    case "SET_ROLE_ADMIN":
+      return applyRoleChange(
+        targetUid,
+        params.role as string,
+        actor,
+        reference,
+      );
+    case "DEDUCT_CREDITS":
+      await applyCreditAdjustment(
+        targetUid,
+        params.amount as number,
+        params.reason as string,
+        actor,
+        reference,
+      );
+      return;
+  }
+}
+
+function sendDecisionFailure(
+  res: Response,
+  result: Exclude<ApprovalDecisionResult, { status: "decided" }>,
+) {
+  switch (result.status) {
+    case "not_found":
+      return res.status(404).json({ error: "Approval request not found" });
+    case "not_pending":
+      return res
+        .status(409)
+        .json({ error: `Approval request is already ${result.current}` });
+    case "expired":
+      return res.status(409).json({ error: "Approval request has expired" });
+    case "self_approval":
+      return res.status(403).json({
+        error: "You cannot approve your own request; a second admin must",
+      });
+  }
+}
+
+/**
+ * Check the caller may decide on this request. Returns the request, or null
+ * after sending the error response.
+ */
+async function loadDecidableApproval(
+  req: AdminRequest,
+  res: Response,
+): Promise<ApprovalWithId | null> {
+  const { id } = req.params;
+  if (!id) {
+    res.status(400).json({ error: "Approval ID is required" });
+    return null;
+  }
+  const approval = await getApproval(id);
+  if (!approval) {
+    res.status(404).json({ error: "Approval request not found" });
+    return null;
+  }
+  const isRequester = approval.requestedBy === req.adminId;
+  const permission = ACTION_PERMISSIONS[approval.action];
+  if (!isRequester && !req.adminPermissions?.includes(permission)) {
+    res.status(403).json({
+      error: `Forbidden - deciding this request requires '${permission}'`,
+    });
+    return null;
+  }
+  return approval;
+}
+
+/**
+ * List approval requests, newest first. Stale pending requests are expired first.
+ * GET /approvals?status=pending
+ */
+export async function listApprovals(req: AdminRequest, res: Response) {
+  try {
+    const status = (req.query.status as string) || "pending";
+    if (status !== "all" && !STATUSES.includes(status as ApprovalStatus)) {
+      return res.status(400).json({
+        error: `status must be one of: all, ${STATUSES.join(", ")}`,
+      });
+    }
+
+    const approvals = await fetchApprovals(
+      status === "all" ? undefined : (status as ApprovalStatus),
+    );
+    return res.json({
+      success: true,
+      data: { approvals, total: approvals.length },
+    });
+  } catch (error) {
+    console.error("Error listing approvals:", error);
+    return res
+      .status(500)
+      .json({ error: errorMessage(error, "Failed to list approvals") });
+  }
+}
+
+/**
+ * Approve a pending request and carry out the action
+ * POST /approvals/:id/approve
+ * Body: { note?: string }
+ */
+export async function approveRequest(req: AdminRequest, res: Response) {
+  try {
+    const pending = await loadDecidableApproval(req, res);
+    if (!pending) return;
+
+    const result = await decideApproval(
+      pending.id,
+      { adminId: req.adminId as string, adminEmail: req.adminEmail || "admin" },
+      "approved",
+      req.body?.note,
+    );
+    if (result.status !== "decided") return sendDecisionFailure(res, result);
+
+    try {
+      await executeApproval(result.approval, req);
+    } catch (error) {
+      await markApprovalFailed(
+        result.approval.id,
+        errorMessage(error, "Action failed"),
+      );
+      throw error;
+    }
+
+    return res.json({
+      success: true,
+      message: "Request approved and carried out",
+      data: { approval: result.approval },
+    });
+  } catch (error) {
+    console.error("Error approving request:", error);
+    return res
+      .status(500)
+      .json({ error: errorMessage(error, "Failed to approve request") });
+  }
+}
+
+/**
+ * Reject a pending request (or withdraw your own)
+ * POST /approvals/:id/reject
+ * Body: { note?: string }
+ */
+export async function rejectRequest(req: AdminRequest, res: Response) {
+  try {
+    const pending = await loadDecidableApproval(req, res);
+    if (!pending) return;
+
+    const { note } = req.body || {};
+    const result = await decideApproval(
+      pending.id,
+      { adminId: req.adminId as string, adminEmail: req.adminEmail || "admin" },
+      "rejected",
+      note,
+    );
+    if (result.status !== "decided") return sendDecisionFailure(res, result);
+
+    await logAuditAction({
+      ...auditActor(req),
+      action: "REJECT_APPROVAL",
+      resource: "approval",
+      resourceId: pending.id,
+      targetUid: pending.targetUid,
+      details: {
+        approvalId: pending.id,
+        approvalAction: pending.action,
+        requestedByEmail: pending.requestedByEmail,
+        note: note || null,
+      },
+    });
+
+    return res.json({
+      success: true,
+      message: "Request rejected",
+      data: { approval: result.approval },
+    });
+  } catch (error) {
+    console.error("Error rejecting request:", error);
+    return res
+      .status(500)
+      .json({ error: errorMessage(error, "Failed to reject request") });
+  }
+}
+
+/**
+ * Get the approval policy
+ * GET /approvals/policy
+ */
+export async function getApprovalPolicy(req: AdminRequest, res: Response) {
+  try {
+    const policy = await loadApprovalPolicy();
+    return res.json({ success: true, data: { policy } });
+  } catch (error) {
+    console.error("Error fetching approval policy:", error);
+    return res
+      .status(500)
+      .json({ error: errorMessage(error, "Failed to fetch approval policy") });
+  }
+}
+
+/**
+ * Replace the approval policy
+ * PUT /approvals/policy
+ * Body: { banUser: boolean, promoteToAdmin: boolean, creditDeductionThreshold: number, expiryHours: number }
+ */
+export async function updateApprovalPolicy(req: AdminRequest, res: Response) {
+  try {
+    const { banUser, promoteToAdmin, creditDeductionThreshold, expiryHours } =
+      req.body;
+
+    if (typeof banUser !== "boolean" || typeof promoteToAdmin !== "boolean") {
+      return res
+        .status(400)
+        .json({ error: "banUser and promoteToAdmin must be booleans" });
+    }
+    if (
+      !Number.isInteger(creditDeductionThreshold) ||
+      creditDeductionThreshold < 0
+    ) {
+      return res.status(400).json({
+        error: "creditDeductionThreshold must be a non-negative integer",
+      });
+    }
+    if (
+      !Number.isInteger(expiryHours) ||
+      expiryHours < 1 ||
+      expiryHours > MAX_EXPIRY_HOURS
+    ) {
+      return res.status(400).json({
+        error: `expiryHours must be between 1 and ${MAX_EXPIRY_HOURS}`,
+      });
+    }
+
+    const previous = await loadApprovalPolicy();
+    const policy: ApprovalPolicy = {
+      banUser,
+      promoteToAdmin,
+      creditDeductionThreshold,
+      expiryHours,
+    };
+    await saveApprovalPolicy(policy, req.adminEmail || "admin");
+
+    await logAuditAction({
+      ...auditActor(req),
+      action: "UPDATE_APPROVAL_POLICY",
+      resource: "approval_policy",
+      details: { previous, policy },
+    });
+
+    return res.json({
+      success: true,
+      message: "Approval policy updated",
+      data: { policy },
+    });
+  } catch (error) {
+    console.error("Error updating approval policy:", error);
+    return res
+      .status(500)
+      .json({ error: errorMessage(error, "Failed to update approval policy") });
+  }
+}
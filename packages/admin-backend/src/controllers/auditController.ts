@@ -1,53 +1,193 @@
 import { Response } from "express";
 import { adminDb } from "../config/firebaseAdmin";
 import { AdminRequest } from "../middleware/authMiddleware";
+import {
+  AUDIT_LOGS_COLLECTION,
+  auditActor,
+  logAuditAction,
+} from "../services/auditLog";
+import { getLastVerification, verifyAuditChain } from "../services/auditChain";
+import { errorMessage } from "../utils/errors";
 
-export interface AuditLogEntry {
-  adminEmail: string;
-  action: string;
+const EXPORT_PAGE_SIZE = 500;
+// Firestore caps `in` filters at 30 values
+const MAX_ACTION_FILTERS = 30;
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+// Free-text search can't be indexed in Firestore, so it scans at most this many entries per request
+const MAX_TEXT_SCAN = 2000;
+const MAX_SUMMARY_SCAN = 5000;
+const SCAN_PAGE_SIZE = 200;
+
+// Field each grouped view counts by
+const GROUP_FIELDS = {
+  admin: "adminEmail",
+  action: "action",
+  resource: "resource",
+  target: "targetUid",
+} as const;
+type AuditGroupBy = keyof typeof GROUP_FIELDS;
+
+const CSV_COLUMNS = [
+  "id",
+  "createdAt",
+  "adminEmail",
+  "adminId",
+  "apiKeyName",
+  "action",
+  "resource",
+  "resourceId",
+  "targetUid",
+  "ipAddress",
+  "userAgent",
+  "requestId",
+  "route",
+  "sessionId",
+  "details",
+  "sequence",
+  "hash",
+];
+
+interface AuditLogFilters {
+  adminEmail?: string;
   targetUid?: string;
-  details: Record<string, any>;
+  resource?: string;
+  actions?: string[];
+  /** Lower-cased text to find within details */
+  text?: string;
+  from?: string;
+  /** Exclusive upper bound */
+  before?: string;
 }
 
 /**
- * Internal helper — log an admin action to the auditLogs collection.
- * Call this from every mutation controller.
+ * Read the shared audit filters from a query string.
+ * `from`/`to` accept ISO timestamps or plain dates; a plain `to` date includes that whole day.
  */
-export async function logAuditAction(entry: AuditLogEntry): Promise<void> {
-  try {
-    await adminDb.collection("auditLogs").add({
-      ...entry,
-      timestamp: new Date().toISOString(),
-    });
-  } catch (err) {
-    // Non-fatal — log to console but don't blow up the parent request
-    console.error("[AuditLog] Failed to write audit log:", err);
+function parseAuditFilters(
+  query: AdminRequest["query"],
+): { filters: AuditLogFilters } | { error: string } {
+  const { adminEmail, targetUid, resource, actions, q, from, to } = query;
+  const filters: AuditLogFilters = {};
+
+  if (adminEmail && typeof adminEmail === "string") {
+    filters.adminEmail = adminEmail;
+  }
+  if (targetUid && typeof targetUid === "string") {
+    filters.targetUid = targetUid;
+  }
+  if (resource && typeof resource === "string") {
+    filters.resource = resource;
+  }
+  if (q && typeof q === "string" && q.trim()) {
+    filters.text = q.trim().toLowerCase();
+  }
+  if (actions && typeof actions === "string") {
+    filters.actions = actions
+      .split(",")
+      .map((a) => a.trim())
+      .filter(Boolean);
+    if (filters.actions.length > MAX_ACTION_FILTERS) {
+      return {
+        error: `At most ${MAX_ACTION_FILTERS} action types can be filtered at once`,
+      };
+    }
+  }
+  if (from) {
+    const date = new Date(String(from));
+    if (isNaN(date.getTime())) return { error: "from must be a valid date" };
+    filters.from = date.toISOString();
   }
+  if (to) {
+    const date = new Date(String(to));
+    if (isNaN(date.getTime())) return { error: "to must be a valid date" };
+    if (DATE_ONLY.test(String(to))) date.setUTCDate(date.getUTCDate() + 1);
+    else date.setTime(date.getTime() + 1);
+    filters.before = date.toISOString();
+  }
+  if (filters.from && filters.before && filters.from >= filters.before) {
+    return { error: "from must be before to" };
+  }
+  return { filters };
+}
+
+function buildAuditQuery(filters: AuditLogFilters) {
+  let query: FirebaseFirestore.Query = adminDb
+    .collection(AUDIT_LOGS_COLLECTION)
+    .orderBy("createdAt", "desc");
+
+  if (filters.adminEmail) {
+    query = query.where("adminEmail", "==", filters.adminEmail);
+  }
+  if (filters.targetUid) {
+    query = query.where("targetUid", "==", filters.targetUid);
+  }
+  if (filters.resource) {
+    query = query.where("resource", "==", filters.resource);
+  }
+  if (filters.actions?.length) {
+    query = query.where("action", "in", filters.actions);
+  }
+  if (filters.from) query = query.where("createdAt", ">=", filters.from);
+  if (filters.before) query = query.where("createdAt", "<", filters.before);
+  return query;
+}
+
+/**
+ * Whether an entry's details (or the id of what it acted on) contain the search text.
+ */
+function matchesText(
+  data: FirebaseFirestore.DocumentData,
+  text: string | undefined,
+): boolean {
+  if (!text) return true;
+  const haystack = `${JSON.stringify(data.details || {})} ${data.resourceId || ""}`;
+  return haystack.toLowerCase().includes(text);
+}
+
+function csvCell(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  let text = typeof value === "object" ? JSON.stringify(value) : String(value);
+  // Keep spreadsheet apps from evaluating cells as formulas
+  if (/^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Write a chunk, waiting for the socket to drain when its buffer is full.
+ * Also resolves if the client disconnects, so the export loop can stop.
+ */
+function writeChunk(res: Response, chunk: string): Promise<void> {
+  if (res.write(chunk)) return Promise.resolve();
+  return new Promise((resolve) => {
+    const done = () => {
+      res.off("drain", done);
+      res.off("close", done);
+      resolve();
+    };
+    res.on("drain", done);
+    res.on("close", done);
+  });
 }
 
 /**
- * Get audit logs with optional filters + pagination
- * GET /audit-logs?adminEmail=&targetUid=&limit=50&cursor=
+ * Get audit logs with optional filters + pagination.
+ * With `q`, matching is done while paging through at most MAX_TEXT_SCAN entries;
+ * `nextCursor` then continues the scan where it stopped.
+ * GET /audit-logs?adminEmail=&targetUid=&resource=&actions=&from=&to=&q=&limit=50&cursor=
  */
 export async function getAuditLogs(req: AdminRequest, res: Response) {
   try {
-    const { adminEmail, targetUid, limit = 50, cursor } = req.query;
+    const { limit = 50, cursor } = req.query;
     const fetchLimit = Math.min(parseInt(limit as string, 10) || 50, 200);
 
-    let query: any = adminDb
-      .collection("auditLogs")
-      .orderBy("timestamp", "desc");
-
-    if (adminEmail && typeof adminEmail === "string") {
-      query = query.where("adminEmail", "==", adminEmail);
-    }
-    if (targetUid && typeof targetUid === "string") {
-      query = query.where("targetUid", "==", targetUid);
-    }
+    const parsed = parseAuditFilters(req.query);
+    if ("error" in parsed) return res.status(400).json({ error: parsed.error });
+    const { filters } = parsed;
+    let query = buildAuditQuery(filters);
 
     if (cursor) {
       const cursorDoc = await adminDb
-        .collection("auditLogs")
+        .collection(AUDIT_LOGS_COLLECTION)
         .doc(cursor as string)
         .get();
       if (cursorDoc.exists) {
@@ -55,24 +195,238 @@ export async function getAuditLogs(req: AdminRequest, res: Response) {
       }
     }
 
-    const snapshot = await query.limit(fetchLimit).get();
+    if (!filters.text) {
+      const snapshot = await query.limit(fetchLimit).get();
+      const logs = snapshot.docs.map((doc) => ({ id: doc.id, ...doc.data() }));
+      const hasMore = logs.length === fetchLimit;
+      const nextCursor = hasMore ? logs[logs.length - 1].id : null;
 
-    const logs = snapshot.docs.map((doc: any) => ({
-      id: doc.id,
-      ...doc.data(),
-    }));
+      return res.json({
+        success: true,
+        data: { logs, nextCursor, hasMore, total: logs.length },
+      });
+    }
 
-    const hasMore = logs.length === fetchLimit;
-    const nextCursor = hasMore ? logs[logs.length - 1].id : null;
+    const logs: FirebaseFirestore.DocumentData[] = [];
+    let scanned = 0;
+    let lastExamined: string | null = null;
+    let exhausted = false;
+    while (logs.length < fetchLimit && scanned < MAX_TEXT_SCAN) {
+      const snapshot = await query.limit(SCAN_PAGE_SIZE).get();
+      for (const doc of snapshot.docs) {
+        scanned++;
+        lastExamined = doc.id;
+        if (matchesText(doc.data(), filters.text)) {
+          logs.push({ id: doc.id, ...doc.data() });
+          if (logs.length === fetchLimit) break;
+        }
+      }
+      if (logs.length < fetchLimit && snapshot.size < SCAN_PAGE_SIZE) {
+        exhausted = true;
+        break;
+      }
+      query = query.startAfter(snapshot.docs[snapshot.size - 1]);
+    }
 
+    const hasMore = !exhausted;
     return res.json({
       success: true,
-      data: { logs, nextCursor, hasMore, total: logs.length },
+      data: {
+        logs,
+        nextCursor: hasMore ? lastExamined : null,
+        hasMore,
+        total: logs.length,
+        scanned,
+      },
     });
-  } catch (error: any) {
+  } catch (error) {
     console.error("Error fetching audit logs:", error);
     return res
       .status(500)
-      .json({ error: error.message || "Failed to fetch audit logs" });
+      .json({ error: errorMessage(error, "Failed to fetch audit logs") });
+  }
+}
+
+/**
+ * Count matching entries grouped by admin, action, resource or target user,
+ * e.g. "all actions by this admin today" with groupBy=action&adminEmail=…&from=<today>.
+ * Scans at most MAX_SUMMARY_SCAN entries; `truncated` says when that cap was hit.
+ * GET /audit-logs/summary?groupBy=admin|action|resource|target&<same filters as /audit-logs>
+ */
+export async function getAuditSummary(req: AdminRequest, res: Response) {
+  try {
+    const groupBy = ((req.query.groupBy as string) || "action") as AuditGroupBy;
+    if (!(groupBy in GROUP_FIELDS)) {
+      return res.status(400).json({
+        error: `groupBy must be one of: ${Object.keys(GROUP_FIELDS).join(", ")}`,
+      });
+    }
+    const parsed = parseAuditFilters(req.query);
+    if ("error" in parsed) return res.status(400).json({ error: parsed.error });
+    const { filters } = parsed;
+    const field = GROUP_FIELDS[groupBy];
+
+    // Only pull the fields the grouping needs
+    const fields = ["createdAt", field];
+    if (filters.text) fields.push("details", "resourceId");
+    const base = buildAuditQuery(filters).select(...fields);
+
+    const groups = new Map<
+      string,
+      { key: string; count: number; lastAt: string }
+    >();
+    let scanned = 0;
+    let total = 0;
+    let last: FirebaseFirestore.QueryDocumentSnapshot | undefined;
+    for (;;) {
+      let query = base.limit(SCAN_PAGE_SIZE);
+      if (last) query = query.startAfter(last);
+      const snapshot = await query.get();
+
+      for (const doc of snapshot.docs) {
+        const data = doc.data();
+        if (!matchesText(data, filters.text)) continue;
+        total++;
+        const key = data[field] || "(none)";
+        const group = groups.get(key);
+        if (group) group.count++;
+        // Newest first, so the first entry seen is the latest
+        else groups.set(key, { key, count: 1, lastAt: data.createdAt });
+      }
+      scanned += snapshot.size;
+      if (snapshot.size < SCAN_PAGE_SIZE || scanned >= MAX_SUMMARY_SCAN) break;
+      last = snapshot.docs[snapshot.size - 1];
+    }
+
+    return res.json({
+      success: true,
+      data: {
+        groupBy,
+        groups: Array.from(groups.values()).sort((a, b) => b.count - a.count),
+        total,
+        scanned,
+        truncated: scanned >= MAX_SUMMARY_SCAN,
+      },
+    });
+  } catch (error) {
+    console.error("Error summarising audit logs:", error);
+    return res
+      .status(500)
+      .json({ error: errorMessage(error, "Failed to summarise audit logs") });
+  }
+}
+
+/**
+ * Stream every matching audit entry as CSV or JSONL, newest first.
+ * Pages through Firestore so memory use stays flat however large the range is.
+ * GET /audit-logs/export?format=csv|jsonl&<same filters as /audit-logs>
+ */
+export async function exportAuditLogs(req: AdminRequest, res: Response) {
+  const format = (req.query.format as string) || "csv";
+  if (format !== "csv" && format !== "jsonl") {
+    return res.status(400).json({ error: "format must be csv or jsonl" });
+  }
+  const parsed = parseAuditFilters(req.query);
+  if ("error" in parsed) return res.status(400).json({ error: parsed.error });
+  const { filters } = parsed;
+
+  try {
+    const stamp = new Date().toISOString().slice(0, 10);
+    res.setHeader(
+      "Content-Type",
+      format === "csv"
+        ? "text/csv; charset=utf-8"
+        : "application/x-ndjson; charset=utf-8",
+    );
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename="audit-logs-${stamp}.${format}"`,
+    );
+
+    if (format === "csv") await writeChunk(res, `${CSV_COLUMNS.join(",")}\n`);
+
+    let exported = 0;
+    let last: FirebaseFirestore.QueryDocumentSnapshot | undefined;
+    for (;;) {
+      let query = buildAuditQuery(filters).limit(EXPORT_PAGE_SIZE);
+      if (last) query = query.startAfter(last);
+      const snapshot = await query.get();
+
+      for (const doc of snapshot.docs) {
+        if (!matchesText(doc.data(), filters.text)) continue;
+        const entry: FirebaseFirestore.DocumentData = {
+          id: doc.id,
+          ...doc.data(),
+        };
+        await writeChunk(
+          res,
+          format === "csv"
+            ? `${CSV_COLUMNS.map((column) => csvCell(entry[column])).join(",")}\n`
+            : `${JSON.stringify(entry)}\n`,
+        );
+        if (res.destroyed) return; // client went away
+        exported++;
+      }
+      if (snapshot.size < EXPORT_PAGE_SIZE) break;
+      last = snapshot.docs[snapshot.docs.length - 1];
+    }
+    res.end();
+
+    await logAuditAction({
+      ...auditActor(req),
+      action: "EXPORT_AUDIT_LOGS",
+      resource: "audit_log",
+      details: { format, filters, exported },
+    });
+  } catch (error) {
+    console.error("Error exporting audit logs:", error);
+    if (!res.headersSent) {
+      return res
+        .status(500)
+        .json({ error: errorMessage(error, "Failed to export audit logs") });
+    }
+    // Abort rather than end, so a truncated file isn't mistaken for a complete one
+    res.destroy(error instanceof Error ? error : undefined);
+  }
+}
+
+/**
+ * Latest result of the audit hash chain verification
+ * GET /audit-logs/integrity
+ */
+export async function getAuditIntegrity(req: AdminRequest, res: Response) {
+  try {
+    const verification = await getLastVerification();
+    return res.json({ success: true, data: { verification } });
+  } catch (error) {
+    console.error("Error fetching audit integrity:", error);
+    return res
+      .status(500)
+      .json({ error: errorMessage(error, "Failed to fetch audit integrity") });
+  }
+}
+
+/**
+ * Walk the audit hash chain now and report the first broken link, if any
+ * POST /audit-logs/verify
+ */
+export async function verifyAuditTrail(req: AdminRequest, res: Response) {
+  try {
+    const verification = await verifyAuditChain(
+      "manual",
+      req.adminEmail || "admin",
+    );
+    return res.json({
+      success: true,
+      message: verification.ok
+        ? "Audit trail verified"
+        : `Audit trail broken at entry #${verification.brokenAt?.sequence}`,
+      data: { verification },
+    });
+  } catch (error) {
+    console.error("Error verifying audit trail:", error);
+    return res
+      .status(500)
+      .json({ error: errorMessage(error, "Failed to verify audit trail") });
   }
 }
@@ -0,0 +1,378 @@
+import { Response } from "express";
+import { adminDb } from "../config/firebaseAdmin";
+import { AdminRequest } from "../middleware/authMiddleware";
+import { Permission } from "../config/permissions";
+import {
+  AUDIT_LOGS_COLLECTION,
+  AuditActor,
+  AuditLogRecord,
+  auditActor,
+} from "../services/auditLog";
+import { getApprovalPolicy } from "../services/approvals";
+import { applyRoleChange } from "./moderationController";
+import { applyCreditAdjustment } from "./creditController";
+import { applyIpUnblock, blockedIpDocId } from "./ipController";
+import {
+  applyGlobalFlag,
+  applyUserFlag,
+  getGlobalFlagValue,
+  getUserFlagOverride,
+} from "./featureFlagController";
+import { applyAestheticScore } from "./generationsController";
+import { errorMessage } from "../utils/errors";
+
+type AuditEntry = AuditLogRecord & { id: string };
+
+// One doc per reverted entry, keyed by the entry id, claimed before the revert runs
+const AUDIT_REVERTS_COLLECTION = "auditReverts";
+
+type RevertResult =
+  | { status: "reverted"; message: string }
+  | { status: "conflict"; error: string }
+  | { status: "not_reversible"; error: string };
+
+// Reverting needs the same permission as doing the action directly
+const REVERT_PERMISSIONS: Record<string, Permission> = {
+  SET_ROLE: "users:role",
+  SET_GLOBAL_FLAG: "flags:write",
+  SET_USER_FLAG: "flags:write",
+  BLOCK_IP: "ips:block",
+  ADD_CREDITS: "credits:adjust",
+  UPDATE_AESTHETIC_SCORE: "generations:score",
+  BULK_UPDATE_AESTHETIC_SCORE: "generations:score",
+};
+
+async function revertRoleChange(
+  entry: AuditEntry,
+  actor: AuditActor,
+): Promise<RevertResult> {
+  const { previousRole, newRole } = entry.details as {
+    previousRole?: string;
+    newRole?: string;
+  };
+  const uid = entry.targetUid;
+  if (!uid || !previousRole) {
+    return { status: "not_reversible", error: "Entry has no previous role" };
+  }
+  const userDoc = await adminDb.collection("users").doc(uid).get();
+  if (!userDoc.exists) {
+    return { status: "conflict", error: "User no longer exists" };
+  }
+  const currentRole = userDoc.data()?.role || "user";
+  if (currentRole !== newRole) {
+    return {
+      status: "conflict",
+      error: `Role has since changed to ${currentRole}`,
+    };
+  }
+  // Restoring admin would bypass the four-eyes check on promotions
+  if (previousRole === "admin" && (await getApprovalPolicy()).promoteToAdmin) {
+    return {
+      status: "not_reversible",
+      error:
+        "Restoring the admin role needs a second admin's approval; change the role from the user page",
+    };
+  }
+
+  await applyRoleChange(uid, previousRole, actor, undefined, entry.id);
+  return { status: "reverted", message: `Role restored to ${previousRole}` };
+}
+
+async function revertGlobalFlag(
+  entry: AuditEntry,
+  actor: AuditActor,
+): Promise<RevertResult> {
+  const { flag, enabled, previousEnabled } = entry.details as {
+    flag: string;
+    enabled: boolean;
+    previousEnabled?: boolean;
+  };
+  if (typeof previousEnabled !== "boolean") {
+    return {
+      status: "not_reversible",
+      error: "Entry predates recording the previous flag value",
+    };
+  }
+  const current = await getGlobalFlagValue(flag);
+  if (current !== enabled) {
+    return { status: "conflict", error: `Flag '${flag}' has since changed` };
+  }
+
+  await applyGlobalFlag(flag, previousEnabled, actor, entry.id);
+  return {
+    status: "reverted",
+    message: `Flag '${flag}' restored to ${previousEnabled}`,
+  };
+}
+
+async function revertUserFlag(
+  entry: AuditEntry,
+  actor: AuditActor,
+): Promise<RevertResult> {
+  const { flag, enabled, previousEnabled } = entry.details as {
+    flag: string;
+    enabled: boolean;
+    previousEnabled: boolean | null;
+  };
+  const uid = entry.targetUid;
+  if (!uid || !("previousEnabled" in entry.details)) {
+    return {
+      status: "not_reversible",
+      error: "Entry predates recording the previous flag value",
+    };
+  }
+  const current = await getUserFlagOverride(uid, flag);
+  if (current !== enabled) {
+    return {
+      status: "conflict",
+      error: `User flag '${flag}' has since changed`,
+    };
+  }
+
+  await applyUserFlag(uid, flag, previousEnabled, actor, entry.id);
+  return {
+    status: "reverted",
+    message:
+      previousEnabled === null
+        ? `User override for '${flag}' removed`
+        : `User flag '${flag}' restored to ${previousEnabled}`,
+  };
+}
+
+async function revertIpBlock(
+  entry: AuditEntry,
+  actor: AuditActor,
+): Promise<RevertResult> {
+  const { ip } = entry.details as { ip?: string };
+  if (!ip) return { status: "not_reversible", error: "Entry has no IP" };
+  const blocked = await adminDb
+    .collection("blockedIPs")
+    .doc(blockedIpDocId(ip))
+    .get();
+  if (!blocked.exists) {
+    return { status: "conflict", error: "IP is no longer blocked" };
+  }
+  // A later block of the same IP is a different decision
+  if (blocked.data()?.blockedAt > entry.createdAt) {
+    return { status: "conflict", error: "IP has been blocked again since" };
+  }
+
+  await applyIpUnblock(ip, actor, entry.id);
+  return { status: "reverted", message: `IP ${ip} unblocked` };
+}
+
+async function revertCreditGrant(
+  entry: AuditEntry,
+  actor: AuditActor,
+): Promise<RevertResult> {
+  const { previousBalance, newBalance } = entry.details as {
+    previousBalance?: number;
+    newBalance?: number;
+  };
+  const uid = entry.targetUid;
+  if (
+    !uid ||
+    typeof previousBalance !== "number" ||
+    typeof newBalance !== "number"
+  ) {
+    return { status: "not_reversible", error: "Entry has no balances" };
+  }
+  const userDoc = await adminDb.collection("users").doc(uid).get();
+  if (!userDoc.exists) {
+    return { status: "conflict", error: "User no longer exists" };
+  }
+  const currentBalance = userDoc.data()?.creditBalance || 0;
+  if (currentBalance !== newBalance) {
+    return {
+      status: "conflict",
+      error: `Balance has since changed (now ${currentBalance}, was ${newBalance})`,
+    };
+  }
+
+  // Puts back the exact previous balance, so no deduction approval is needed
+  await applyCreditAdjustment(
+    uid,
+    previousBalance - newBalance,
+    `Revert of audit entry ${entry.id}`,
+    actor,
+    undefined,
+    entry.id,
+  );
+  return {
+    status: "reverted",
+    message: `Balance restored to ${previousBalance}`,
+  };
+}
+
+async function revertAestheticScore(
+  entry: AuditEntry,
+  actor: AuditActor,
+): Promise<RevertResult> {
+  const { oldScore, newScore } = entry.details as {
+    oldScore?: number | null;
+    newScore?: number | null;
+  };
+  if (!entry.resourceId || newScore === undefined) {
+    return { status: "not_reversible", error: "Entry has no scores" };
+  }
+  const generationRef = adminDb.collection("generations").doc(entry.resourceId);
+  const generationDoc = await generationRef.get();
+  const generationData = generationDoc.data();
+  if (!generationDoc.exists || !generationData) {
+    return { status: "conflict", error: "Generation no longer exists" };
+  }
+  const currentScore = generationData.aestheticScore ?? null;
+  if (currentScore !== newScore) {
+    return {
+      status: "conflict",
+      error: `Score has since changed to ${currentScore ?? "none"}`,
+    };
+  }
+
+  const restored = oldScore ?? null;
+  await applyAestheticScore(
+    generationRef,
+    generationData,
+    restored,
+    actor,
+    entry.id,
+  );
+  return {
+    status: "reverted",
+    message:
+      restored === null ? "Score cleared" : `Score restored to ${restored}`,
+  };
+}
+
+function revertEntry(
+  entry: AuditEntry,
+  actor: AuditActor,
+): Promise<RevertResult> {
+  switch (entry.action) {
+    case "SET_ROLE":
+      return revertRoleChange(entry, actor);
+    case "SET_GLOBAL_FLAG":
+      return revertGlobalFlag(entry, actor);
+    case "SET_USER_FLAG":
+      return revertUserFlag(entry, actor);
+    case "BLOCK_IP":
+      return revertIpBlock(entry, actor);
+    case "ADD_CREDITS":
+      return revertCreditGrant(entry, actor);
+    case "UPDATE_AESTHETIC_SCORE":
+    case "BULK_UPDATE_AESTHETIC_SCORE":
+      return revertAestheticScore(entry, actor);
+    default:
+      return Promise.resolve({
+        status: "not_reversible",
+        error: `${entry.action} entries cannot be reverted`,
+      });
+  }
+}
+
+function revertRef(entryId: string) {
+  return adminDb.collection(AUDIT_REVERTS_COLLECTION).doc(entryId);
+}
+
+/**
+ * Claim the right to revert an entry by creating its auditReverts doc in a
+ * transaction, so two admins reverting at once cannot both apply the inverse.
+ * A revert that changes nothing gives its claim back.
+ */
+async function claimRevert(
+  entryId: string,
+  actor: AuditActor,
+): Promise<
+  { claimed: true } | { claimed: false; revertEntryId: string | null }
+> {
+  return adminDb.runTransaction(async (tx) => {
+    const marker = await tx.get(revertRef(entryId));
+    if (marker.exists) return { claimed: false, revertEntryId: null };
+    // Reverts made before auditReverts existed only left the inverse entry
+    const existing = await tx.get(
+      adminDb
+        .collection(AUDIT_LOGS_COLLECTION)
+        .where("details.revertOf", "==", entryId)
+        .limit(1),
+    );
+    if (!existing.empty) {
+      return { claimed: false, revertEntryId: existing.docs[0].id };
+    }
+    tx.create(revertRef(entryId), {
+      revertedBy: actor.adminEmail,
+      claimedAt: new Date().toISOString(),
+    });
+    return { claimed: true };
+  });
+}
+
+/**
+ * Undo a reversible admin action by applying its inverse through the same code path.
+ * Refused when the affected state has changed since the entry was written, or when the
+ * entry was already reverted. The inverse action's own audit entry carries `revertOf`.
+ * POST /audit-logs/:id/revert
+ */
+export async function revertAuditEntry(req: AdminRequest, res: Response) {
+  try {
+    const { id } = req.params;
+    if (!id) {
+      return res.status(400).json({ error: "Audit entry ID is required" });
+    }
+
+    const doc = await adminDb.collection(AUDIT_LOGS_COLLECTION).doc(id).get();
+    if (!doc.exists) {
+      return res.status(404).json({ error: "Audit entry not found" });
+    }
+    const entry = { id: doc.id, ...doc.data() } as AuditEntry;
+
+    const permission = REVERT_PERMISSIONS[entry.action];
+    if (!permission) {
+      return res
+        .status(400)
+        .json({ error: `${entry.action} entries cannot be reverted` });
+    }
+    if (!req.adminPermissions?.includes(permission)) {
+      return res.status(403).json({
+        error: `Forbidden - reverting this entry requires '${permission}'`,
+      });
+    }
+
+    const actor = auditActor(req);
+    const claim = await claimRevert(id, actor);
+    if (!claim.claimed) {
+      return res.status(409).json({
+        error: "This entry has already been reverted",
+        data: { revertEntryId: claim.revertEntryId },
+      });
+    }
+
+    let result: RevertResult;
+    try {
+      result = await revertEntry(entry, actor);
+    } catch (err) {
+      await revertRef(id).delete();
+      throw err;
+    }
+    // Nothing was changed, so the entry stays revertible
+    if (result.status !== "reverted") await revertRef(id).delete();
+    if (result.status === "not_reversible") {
+      return res.status(400).json({ error: result.error });
+    }
+    if (result.status === "conflict") {
+      return res.status(409).json({
+        error: `Cannot revert: ${result.error}`,
+      });
+    }
+
+    return res.json({
+      success: true,
+      message: result.message,
+      data: { revertOf: id },
+    });
+  } catch (error) {
+    console.error("Error reverting audit entry:", error);
+    return res
+      .status(500)
+      .json({ error: errorMessage(error, "Failed to revert audit entry") });
+  }
+}
@@ -2,6 +2,235 @@ import { Request, Response } from 'express';
 import jwt from 'jsonwebtoken';
 import bcrypt from 'bcryptjs';
 import { env } from '../config/env';
+import { adminDb } from '../config/firebaseAdmin';
+import { AdminRequest } from '../middleware/authMiddleware';
+import { csrfTokenForSession } from '../middleware/csrfMiddleware';
+import { resolvePermissions } from '../config/permissions';
+import {
+  ADMIN_USERS_COLLECTION,
+  AdminRole,
+  BOOTSTRAP_ADMIN_ID,
+  findAdminByEmail,
+  getAdminById,
+  normalizeEmail,
+} from '../services/adminUsers';
+import {
+  consumeRecoveryCode,
+  isTwoFactorEnabled,
+  verifyTwoFactorCode,
+} from '../services/adminTwoFactor';
+import {
+  createSession,
+  REFRESH_TOKEN_TTL_MS,
+  revokeSession,
+  revokeSessionByRefreshToken,
+  rotateRefreshToken,
+} from '../services/adminSessions';
+import {
+  LoginAttempt,
+  LoginThrottleResult,
+  recordLoginSuccess,
+  releaseLoginAttempt,
+  reserveLoginAttempt,
+} from '../services/loginAttempts';
+import { logAuditAction } from '../services/auditLog';
+
+export interface SessionAdmin {
+  id: string;
+  email: string;
+  role: AdminRole;
+  permissions?: string[];
+}
+
+const ACCESS_COOKIE = 'admin_token';
+const REFRESH_COOKIE = 'admin_refresh';
+// The refresh cookie is only ever needed by the /auth endpoints
+const REFRESH_COOKIE_PATH = '/api/admin/auth';
+
+function baseCookieOptions(): any {
+  // In production, use 'none' for cross-origin requests (requires secure: true)
+  // In development, use 'lax' for same-origin requests
+  const cookieOptions: any = {
+    httpOnly: true,
+    secure: env.nodeEnv === 'production',
+    sameSite: env.nodeEnv === 'production' ? 'none' : 'lax',
+  };
+
+  // In production, don't set domain (let browser handle it)
+  // Setting domain explicitly can cause issues with cross-origin cookies
+  if (env.nodeEnv !== 'production') {
+    cookieOptions.domain = undefined;
+  }
+  return cookieOptions;
+}
+
+function signAccessToken(sessionAdmin: SessionAdmin, sessionId: string) {
+  return jwt.sign(
+    { adminId: sessionAdmin.id, email: sessionAdmin.email, sid: sessionId },
+    env.jwtSecret,
+    { expiresIn: `${env.accessTokenTtlMinutes}m` }
+  );
+}
+
+function setSessionCookies(res: Response, accessToken: string, refreshToken: string) {
+  const cookieOptions: any = {
+    ...baseCookieOptions(),
+    maxAge: env.accessTokenTtlMinutes * 60 * 1000,
+    path: '/', // Make cookie available for all paths
+  };
+  res.cookie(ACCESS_COOKIE, accessToken, cookieOptions);
+
+  // Log cookie setting for debugging
+  console.log('Cookie set:', {
+    name: ACCESS_COOKIE,
+    secure: cookieOptions.secure,
+    sameSite: cookieOptions.sameSite,
+    path: cookieOptions.path,
+    maxAge: cookieOptions.maxAge,
+  });
+
+  res.cookie(REFRESH_COOKIE, refreshToken, {
+    ...baseCookieOptions(),
+    maxAge: REFRESH_TOKEN_TTL_MS,
+    path: REFRESH_COOKIE_PATH,
+  });
+}
+
+function clearSessionCookies(res: Response) {
+  // Clear cookies with same options used to set them
+  res.clearCookie(ACCESS_COOKIE, { ...baseCookieOptions(), path: '/' });
+  res.clearCookie(REFRESH_COOKIE, { ...baseCookieOptions(), path: REFRESH_COOKIE_PATH });
+}
+
+function toAdminProfile(sessionAdmin: SessionAdmin) {
+  return {
+    ...sessionAdmin,
+    permissions: resolvePermissions(sessionAdmin.role, sessionAdmin.permissions),
+  };
+}
+
+/**
+ * Record a session, set the access and refresh cookies and send the login response.
+ * `extra` is merged into the response body (e.g. freshly issued recovery codes).
+ */
+export async function issueSession(
+  req: Request,
+  res: Response,
+  sessionAdmin: SessionAdmin,
+  extra: Record<string, unknown> = {}
+) {
+  const { sessionId, refreshToken } = await createSession(req, sessionAdmin);
+  const token = signAccessToken(sessionAdmin, sessionId);
+  setSessionCookies(res, token, refreshToken);
+
+  return res.json({
+    success: true,
+    token,
+    csrfToken: csrfTokenForSession(sessionId),
+    admin: toAdminProfile(sessionAdmin),
+    ...extra,
+  });
+}
+
+/**
+ * Resolve the session identity for an admin id, or null if the account can no longer sign in.
+ */
+export async function loadSessionAdmin(adminId: string): Promise<SessionAdmin | null> {
+  if (adminId === BOOTSTRAP_ADMIN_ID) {
+    if (!env.adminBootstrapEnabled) return null;
+    return { id: BOOTSTRAP_ADMIN_ID, email: env.adminEmail, role: 'super_admin' };
+  }
+
+  const account = await getAdminById(adminId);
+  if (!account || !account.isActive) return null;
+  return {
+    id: account.id,
+    email: account.email,
+    role: account.role,
+    permissions: account.permissions,
+  };
+}
+
+/**
+ * Final login step once every required factor has been checked.
+ */
+export async function completeLogin(
+  req: Request,
+  res: Response,
+  sessionAdmin: SessionAdmin,
+  extra: Record<string, unknown> = {}
+) {
+  await recordLoginSuccess(normalizeEmail(sessionAdmin.email));
+  if (sessionAdmin.id !== BOOTSTRAP_ADMIN_ID) {
+    await adminDb
+      .collection(ADMIN_USERS_COLLECTION)
+      .doc(sessionAdmin.id)
+      .update({ lastLoginAt: new Date().toISOString() });
+  }
+  return issueSession(req, res, sessionAdmin, extra);
+}
+
+function rejectThrottled(res: Response, throttle: LoginThrottleResult) {
+  res.setHeader('Retry-After', String(throttle.retryAfterSeconds));
+  return res.status(429).json({
+    error:
+      throttle.reason === 'locked'
+        ? `Account temporarily locked after too many failed attempts. Try again in ${Math.ceil((throttle.retryAfterSeconds || 0) / 60)} minute(s).`
+        : `Too many login attempts. Try again in ${throttle.retryAfterSeconds} second(s).`,
+    retryAfterSeconds: throttle.retryAfterSeconds,
+  });
+}
+
+/**
+ * A reserved password or 2FA attempt failed; it is already counted, so only
+ * audit the moment it locked the account.
+ */
+async function recordFailedAttempt(req: Request, email: string, attempt: LoginAttempt) {
+  const { lockedUntil, failures } = attempt;
+  if (lockedUntil) {
+    await logAuditAction({
+      adminEmail: 'system',
+      ipAddress: req.ip,
+      userAgent: req.headers['user-agent'],
+      action: 'LOGIN_LOCKOUT',
+      resource: 'admin_login',
+      resourceId: email,
+      details: { email, ipAddress: req.ip, failures, lockedUntil },
+    });
+  }
+}
+
+function signChallengeToken(sessionAdmin: SessionAdmin, purpose: 'mfa' | 'mfa-setup') {
+  return jwt.sign(
+    { adminId: sessionAdmin.id, email: sessionAdmin.email, purpose },
+    env.jwtSecret,
+    { expiresIn: '5m' }
+  );
+}
+
+/**
+ * Password accepted: either finish the login or hand back a challenge token
+ * for the second factor (or for mandatory enrollment when 2FA is enforced).
+ */
+async function continueLogin(req: Request, res: Response, sessionAdmin: SessionAdmin) {
+  if (await isTwoFactorEnabled(sessionAdmin.id)) {
+    return res.json({
+      success: true,
+      requiresTwoFactor: true,
+      challengeToken: signChallengeToken(sessionAdmin, 'mfa'),
+    });
+  }
+
+  if (env.require2fa) {
+    return res.json({
+      success: true,
+      requiresTwoFactorSetup: true,
+      challengeToken: signChallengeToken(sessionAdmin, 'mfa-setup'),
+    });
+  }
+
+  return completeLogin(req, res, sessionAdmin);
+}
 
 export async function login(req: Request, res: Response) {
   try {
@@ -11,53 +240,49 @@ export async function login(req: Request, res: Response) {
       return res.status(400).json({ error: 'Email and password are required' });
     }
 
-    // Hardcoded admin credentials
-    if (email === env.adminEmail && password === env.adminPassword) {
-      const token = jwt.sign(
-        { adminId: 'admin-1', email: env.adminEmail },
-        env.jwtSecret,
-        { expiresIn: '24h' }
-      );
-
-      // Set cookie
-      // In production, use 'none' for cross-origin requests (requires secure: true)
-      // In development, use 'lax' for same-origin requests
-      const cookieOptions: any = {
-        httpOnly: true,
-        secure: env.nodeEnv === 'production',
-        sameSite: env.nodeEnv === 'production' ? 'none' : 'lax',
-        maxAge: 24 * 60 * 60 * 1000, // 24 hours
-        path: '/', // Make cookie available for all paths
-      };
-      
-      // In production, don't set domain (let browser handle it)
-      // Setting domain explicitly can cause issues with cross-origin cookies
-      if (env.nodeEnv !== 'production') {
-        cookieOptions.domain = undefined;
+    const normalizedEmail = normalizeEmail(email);
+
+    const attempt = await reserveLoginAttempt(req.ip || '', normalizedEmail);
+    if (!attempt.allowed) {
+      return rejectThrottled(res, attempt);
+    }
+
+    // Named admin accounts take precedence over the env bootstrap credential
+    const adminUser = await findAdminByEmail(normalizedEmail);
+    if (adminUser) {
+      const passwordMatches = await bcrypt.compare(String(password), adminUser.passwordHash);
+      if (!passwordMatches) {
+        await recordFailedAttempt(req, normalizedEmail, attempt);
+        return res.status(401).json({ error: 'Invalid credentials' });
+      }
+      await releaseLoginAttempt(req.ip || '', normalizedEmail, attempt);
+      if (!adminUser.isActive) {
+        return res.status(403).json({ error: 'This admin account has been disabled' });
       }
-      
-      res.cookie('admin_token', token, cookieOptions);
-      
-      // Log cookie setting for debugging
-      console.log('Cookie set:', {
-        name: 'admin_token',
-        secure: cookieOptions.secure,
-        sameSite: cookieOptions.sameSite,
-        path: cookieOptions.path,
-        maxAge: cookieOptions.maxAge,
+
+      return continueLogin(req, res, {
+        id: adminUser.id,
+        email: adminUser.email,
+        role: adminUser.role,
+        permissions: adminUser.permissions,
       });
+    }
 
-      return res.json({
-        success: true,
-        token,
-        admin: {
-          id: 'admin-1',
-          email: env.adminEmail,
-          role: 'admin',
-        },
+    // Bootstrap super admin from env credentials
+    if (
+      env.adminBootstrapEnabled &&
+      normalizedEmail === normalizeEmail(env.adminEmail) &&
+      password === env.adminPassword
+    ) {
+      await releaseLoginAttempt(req.ip || '', normalizedEmail, attempt);
+      return continueLogin(req, res, {
+        id: BOOTSTRAP_ADMIN_ID,
+        email: env.adminEmail,
+        role: 'super_admin',
       });
     }
 
+    await recordFailedAttempt(req, normalizedEmail, attempt);
     return res.status(401).json({ error: 'Invalid credentials' });
   } catch (error) {
     console.error('Login error:', error);
@@ -65,19 +290,159 @@ export async function login(req: Request, res: Response) {
   }
 }
 
+/**
+ * Second login step: check a TOTP code or a one-time recovery code
+ * POST /auth/2fa/verify
+ * Body: { challengeToken, code } or { challengeToken, recoveryCode }
+ */
+export async function verifyTwoFactor(req: AdminRequest, res: Response) {
+  try {
+    const { code, recoveryCode } = req.body;
+    const adminId = req.adminId as string;
+
+    if (!code && !recoveryCode) {
+      return res.status(400).json({ error: 'A verification code or recovery code is required' });
+    }
+
+    const sessionAdmin = await loadSessionAdmin(adminId);
+    if (!sessionAdmin) {
+      return res.status(401).json({ error: 'Unauthorized - Admin account is disabled' });
+    }
+
+    // Wrong codes count toward the same per-email lockout as wrong passwords
+    const normalizedEmail = normalizeEmail(sessionAdmin.email);
+    const attempt = await reserveLoginAttempt(req.ip || '', normalizedEmail);
+    if (!attempt.allowed) {
+      return rejectThrottled(res, attempt);
+    }
+
+    if (code) {
+      if (!(await verifyTwoFactorCode(adminId, String(code)))) {
+        await recordFailedAttempt(req, normalizedEmail, attempt);
+        return res.status(401).json({ error: 'Invalid verification code' });
+      }
+      await releaseLoginAttempt(req.ip || '', normalizedEmail, attempt);
+      return completeLogin(req, res, sessionAdmin);
+    }
+
+    if (!(await consumeRecoveryCode(adminId, String(recoveryCode)))) {
+      await recordFailedAttempt(req, normalizedEmail, attempt);
+      return res.status(401).json({ error: 'Invalid recovery code' });
+    }
+    await releaseLoginAttempt(req.ip || '', normalizedEmail, attempt);
+
+    await logAuditAction({
+      adminEmail: sessionAdmin.email,
+      adminId,
+      ipAddress: req.ip,
+      userAgent: req.headers['user-agent'],
+      action: 'USE_2FA_RECOVERY_CODE',
+      resource: 'admin_user',
+      resourceId: adminId,
+      details: { adminId },
+    });
+
+    return completeLogin(req, res, sessionAdmin);
+  } catch (error) {
+    console.error('2FA verify error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+/**
+ * Swap the refresh cookie for a new access token and a rotated refresh token
+ * POST /auth/refresh
+ */
+export async function refresh(req: Request, res: Response) {
+  try {
+    const refreshToken = req.cookies?.[REFRESH_COOKIE];
+    if (!refreshToken) {
+      return res.status(401).json({ error: 'Unauthorized - No refresh token' });
+    }
+
+    const result = await rotateRefreshToken(refreshToken);
+
+    if (result.status === 'reused') {
+      await logAuditAction({
+        adminEmail: 'system',
+        ipAddress: req.ip,
+        userAgent: req.headers['user-agent'],
+        action: 'REFRESH_TOKEN_REUSE',
+        resource: 'admin_session',
+        resourceId: result.session.id,
+        details: {
+          sessionId: result.session.id,
+          adminId: result.session.adminId,
+          email: result.session.adminEmail,
+          ipAddress: req.ip,
+        },
+      });
+      clearSessionCookies(res);
+      return res.status(401).json({ error: 'Unauthorized - Session revoked' });
+    }
+    if (result.status === 'invalid') {
+      clearSessionCookies(res);
+      return res.status(401).json({ error: 'Unauthorized - Session expired' });
+    }
+
+    const sessionAdmin = await loadSessionAdmin(result.session.adminId);
+    if (!sessionAdmin) {
+      await revokeSession(result.session.id, 'system:admin-disabled');
+      clearSessionCookies(res);
+      return res.status(401).json({ error: 'Unauthorized - Admin account is disabled' });
+    }
+
+    const csrfToken = csrfTokenForSession(result.session.id);
+
+    // Another tab rotated this token a moment ago and its response already set fresh cookies
+    if (result.status === 'concurrent') {
+      return res.json({ success: true, csrfToken, admin: toAdminProfile(sessionAdmin) });
+    }
+
+    const token = signAccessToken(sessionAdmin, result.session.id);
+    setSessionCookies(res, token, result.refreshToken);
+    return res.json({ success: true, token, csrfToken, admin: toAdminProfile(sessionAdmin) });
+  } catch (error) {
+    console.error('Refresh error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
 export async function logout(req: Request, res: Response) {
-  // Clear cookie with same options used to set it
-  const cookieOptions: any = {
-    httpOnly: true,
-    secure: env.nodeEnv === 'production',
-    sameSite: env.nodeEnv === 'production' ? 'none' : 'lax',
-  };
-  res.clearCookie('admin_token', cookieOptions);
+  // Revoke the server-side session too, so copied tokens stop working
+  const token = req.cookies?.[ACCESS_COOKIE] || req.headers.authorization?.replace('Bearer ', '');
+  const refreshToken = req.cookies?.[REFRESH_COOKIE];
+  try {
+    const decoded = token ? (jwt.verify(token, env.jwtSecret) as { email: string; sid?: string }) : null;
+    if (decoded?.sid) {
+      await revokeSession(decoded.sid, decoded.email);
+    } else if (refreshToken) {
+      await revokeSessionByRefreshToken(refreshToken, 'logout');
+    }
+  } catch (error) {
+    // Expired access token: fall back to the refresh cookie
+    if (refreshToken) {
+      await revokeSessionByRefreshToken(refreshToken, 'logout').catch(() => undefined);
+    }
+  }
+
+  clearSessionCookies(res);
   return res.json({ success: true, message: 'Logged out successfully' });
 }
 
-export async function verify(req: Request, res: Response) {
+export async function verify(req: AdminRequest, res: Response) {
   // This will be called after requireAdmin middleware
-  return res.json({ success: true, message: 'Token is valid' });
+  return res.json({
+    success: true,
+    message: 'Token is valid',
+    admin: {
+      id: req.adminId,
+      email: req.adminEmail,
+      role: req.adminRole,
+      permissions: req.adminPermissions,
+    },
+    sessionId: req.sessionId,
+    // Lets the frontend recover its CSRF token after a page reload
+    csrfToken: req.sessionId ? csrfTokenForSession(req.sessionId) : undefined,
+  });
 }
-
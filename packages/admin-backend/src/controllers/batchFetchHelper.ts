@@ -24,7 +24,7 @@ export async function batchFetchAndFilterGenerations(params: {
   const TARGET_COUNT = params.requestedLimit + 1;
   const MAX_BATCHES = 100; // Safety: max 20K items
   
-  let allItems: any[] = [];
+  const allItems: any[] = [];
   let lastDoc: any = null;
   let batchCount = 0;
   
@@ -85,7 +85,7 @@ export async function batchFetchAndFilterGenerations(params: {
     batchCount++;
     
     // Apply filters to check if we have enough
-    let filtered = allItems.filter((item: any) => {
+    const filtered = allItems.filter((item: any) => {
       // Type filter
       if (params.filters.generationType) {
         const types = Array.isArray(params.filters.generationType) ? params.filters.generationType : [params.filters.generationType];
@@ -1,64 +1,8 @@
 import { Response } from "express";
 import { adminDb } from "../config/firebaseAdmin";
 import { AdminRequest } from "../middleware/authMiddleware";
-import { logAuditAction } from "./auditController";
-
-const RESEND_API_BASE = process.env.RESEND_API_BASE || "https://api.resend.com";
-
-/**
- * Send email via Resend API (primary) — same pattern as api-gateway-services-wildmind
- * Requires: RESEND_API_KEY and SMTP_FROM in .env
- */
-async function sendEmailViaResend(
-  to: string,
-  subject: string,
-  text: string,
-  html?: string,
-): Promise<boolean> {
-  const resendApiKey = process.env.RESEND_API_KEY;
-  const from = process.env.SMTP_FROM;
-
-  if (!resendApiKey) {
-    console.warn("[ADMIN MAIL] RESEND_API_KEY not configured");
-    return false;
-  }
-  if (!from) {
-    console.warn("[ADMIN MAIL] SMTP_FROM not configured");
-    return false;
-  }
-
-  try {
-    const payload: Record<string, any> = { from, to, subject, text };
-    if (html) payload.html = html;
-
-    console.log(`[ADMIN MAIL] Sending email via Resend to ${to}`);
-
-    const resp = await fetch(`${RESEND_API_BASE}/emails`, {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${resendApiKey}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify(payload),
-    });
-
-    if (resp.ok) {
-      const result = await resp.json().catch(() => ({}));
-      console.log(`[ADMIN MAIL] Resend: email sent to ${to}`, result);
-      return true;
-    } else {
-      const errTxt = await resp.text().catch(() => "");
-      console.error(
-        `[ADMIN MAIL] Resend failed: ${resp.status} ${resp.statusText}`,
-        errTxt,
-      );
-      return false;
-    }
-  } catch (e: any) {
-    console.error(`[ADMIN MAIL] Resend error: ${e?.message}`);
-    return false;
-  }
-}
+import { auditActor, logAuditAction } from "../services/auditLog";
+import { sendLoggedEmail } from "../services/mailer";
 
 /**
  * Send a direct email to a user
@@ -81,22 +25,16 @@ export async function sendDirectEmail(req: AdminRequest, res: Response) {
     if (!email)
       return res.status(400).json({ error: "User has no email address" });
 
-    const htmlBody = `<div style="font-family: sans-serif; line-height: 1.6;">${body.replace(/\n/g, "<br>")}</div>`;
-    const sent = await sendEmailViaResend(email, subject, body, htmlBody);
-
-    // Log to Firestore regardless of send status
-    await adminDb.collection("emailLogs").add({
+    const sent = await sendLoggedEmail({
       uid,
       to: email,
       subject,
       body,
-      sentAt: new Date().toISOString(),
       sentBy: req.adminEmail || "admin",
-      sent,
     });
 
     await logAuditAction({
-      adminEmail: req.adminEmail || "admin",
+      ...auditActor(req),
       action: "SEND_EMAIL",
       targetUid: uid,
       details: { to: email, subject, sent },
@@ -131,11 +69,9 @@ export async function createAnnouncement(req: AdminRequest, res: Response) {
 
     const validGroups = ["all", "premium", "free", "creator"];
     if (!validGroups.includes(targetGroup)) {
-      return res
-        .status(400)
-        .json({
-          error: `Invalid targetGroup. Must be one of: ${validGroups.join(", ")}`,
-        });
+      return res.status(400).json({
+        error: `Invalid targetGroup. Must be one of: ${validGroups.join(", ")}`,
+      });
     }
 
     const announcementRef = await adminDb.collection("announcements").add({
@@ -149,8 +85,10 @@ export async function createAnnouncement(req: AdminRequest, res: Response) {
     });
 
     await logAuditAction({
-      adminEmail: req.adminEmail || "admin",
+      ...auditActor(req),
       action: "CREATE_ANNOUNCEMENT",
+      resource: "announcement",
+      resourceId: announcementRef.id,
       details: { title, targetGroup, id: announcementRef.id },
     });
 
@@ -206,8 +144,10 @@ export async function deactivateAnnouncement(req: AdminRequest, res: Response) {
     await adminDb.collection("announcements").doc(id).update({ active: false });
 
     await logAuditAction({
-      adminEmail: req.adminEmail || "admin",
+      ...auditActor(req),
       action: "DEACTIVATE_ANNOUNCEMENT",
+      resource: "announcement",
+      resourceId: id,
       details: { id },
     });
 
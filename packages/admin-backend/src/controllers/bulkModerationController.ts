@@ -0,0 +1,381 @@
+import { Response } from "express";
+import { adminDb } from "../config/firebaseAdmin";
+import { AdminRequest } from "../middleware/authMiddleware";
+import { auditActor, logAuditAction } from "../services/auditLog";
+import { getApprovalPolicy } from "../services/approvals";
+import {
+  applyBan,
+  applyForceLogout,
+  applyRoleChange,
+  applySuspension,
+} from "./moderationController";
+import { applyWarning } from "./warningController";
+import { queueForApproval } from "./approvalsController";
+import {
+  claimHeldByOther,
+  reviewClaimedMessage,
+} from "../services/reviewQueue";
+import { errorMessage } from "../utils/errors";
+
+export const MAX_BULK_USERS = 100;
+
+const VALID_ROLES = ["user", "premium", "creator", "moderator", "admin"];
+
+type BulkOperation = "suspend" | "ban" | "force_logout" | "warn" | "set_role";
+
+/**
+ * What happened to one user. `pending_approval` means the approval policy
+ * held the action for a second admin; `skipped` means nothing needed doing.
+ */
+type BulkOutcome =
+  | { status: "ok"; detail?: string }
+  | { status: "pending_approval"; approvalId: string }
+  | { status: "skipped"; detail: string }
+  | { status: "failed"; error: string };
+
+export type BulkUserResult = BulkOutcome & { uid: string };
+
+/**
+ * Distinct, non-empty uids from the body, or null when the list is unusable.
+ */
+function parseUids(input: unknown): string[] | null {
+  if (!Array.isArray(input)) return null;
+  const uids = Array.from(
+    new Set(
+      input.filter((u): u is string => typeof u === "string" && !!u.trim()),
+    ),
+  );
+  if (!uids.length || uids.length !== input.length) return null;
+  return uids;
+}
+
+/**
+ * A failure when another admin is working the user in the review queue, the
+ * same check the single-user actions make; null when the action may go ahead.
+ */
+async function claimedByOther(
+  uid: string,
+  adminId: string | undefined,
+): Promise<BulkOutcome | null> {
+  const claim = await claimHeldByOther(uid, adminId);
+  return claim
+    ? { status: "failed", error: reviewClaimedMessage(claim) }
+    : null;
+}
+
+/**
+ * Run one operation per user, one at a time so audit entries stay in order.
+ * A failure is recorded against that user and the rest carry on.
+ */
+async function runBulk(
+  uids: string[],
+  run: (
+    uid: string,
+    user: FirebaseFirestore.DocumentData,
+  ) => Promise<BulkOutcome>,
+): Promise<BulkUserResult[]> {
+  const results: BulkUserResult[] = [];
+  for (const uid of uids) {
+    try {
+      const doc = await adminDb.collection("users").doc(uid).get();
+      if (!doc.exists) {
+        results.push({ uid, status: "failed", error: "User not found" });
+        continue;
+      }
+      results.push({ uid, ...(await run(uid, doc.data()!)) });
+    } catch (err) {
+      console.error(`Bulk moderation failed for ${uid}:`, err);
+      results.push({
+        uid,
+        status: "failed",
+        error: errorMessage(err, "Action failed"),
+      });
+    }
+  }
+  return results;
+}
+
+/**
+ * Audit the batch as a whole and answer with per-user results. The per-user
+ * entries written by the executors share this entry's request id.
+ */
+async function sendBulkResults(
+  req: AdminRequest,
+  res: Response,
+  operation: BulkOperation,
+  params: Record<string, unknown>,
+  results: BulkUserResult[],
+) {
+  const summary = { ok: 0, pending_approval: 0, skipped: 0, failed: 0 };
+  results.forEach((r) => summary[r.status]++);
+
+  await logAuditAction({
+    ...auditActor(req),
+    action: "BULK_MODERATION",
+    resource: "user",
+    details: {
+      operation,
+      ...params,
+      uids: results.map((r) => r.uid),
+      summary,
+      failed: results.flatMap((r) =>
+        r.status === "failed" ? [{ uid: r.uid, error: r.error }] : [],
+      ),
+    },
+  });
+
+  const parts = [`${summary.ok} of ${results.length} users updated`];
+  if (summary.pending_approval)
+    parts.push(`${summary.pending_approval} awaiting approval`);
+  if (summary.skipped) parts.push(`${summary.skipped} skipped`);
+  if (summary.failed) parts.push(`${summary.failed} failed`);
+
+  return res.json({
+    success: true,
+    message: parts.join(", "),
+    data: { results, summary },
+  });
+}
+
+/**
+ * Validate the shared parts of a bulk body. Returns the uids and reason, or
+ * null after sending the error response.
+ */
+function readBulkBody(
+  req: AdminRequest,
+  res: Response,
+  reasonRequired: boolean,
+): { uids: string[]; reason: string } | null {
+  const uids = parseUids(req.body?.uids);
+  if (!uids) {
+    res
+      .status(400)
+      .json({ error: "uids must be a non-empty list of distinct user IDs" });
+    return null;
+  }
+  if (uids.length > MAX_BULK_USERS) {
+    res
+      .status(400)
+      .json({ error: `At most ${MAX_BULK_USERS} users per request` });
+    return null;
+  }
+  const reason =
+    typeof req.body?.reason === "string" ? req.body.reason.trim() : "";
+  if (reasonRequired && !reason) {
+    res.status(400).json({ error: "Reason is required" });
+    return null;
+  }
+  return { uids, reason };
+}
+
+/**
+ * Suspend many users with one reason
+ * POST /bulk/suspend
+ * Body: { uids: string[], reason: string, suspendedUntil?: string (ISO date) }
+ */
+export async function bulkSuspend(req: AdminRequest, res: Response) {
+  try {
+    const body = readBulkBody(req, res, true);
+    if (!body) return;
+
+    let until: string | undefined;
+    if (req.body.suspendedUntil) {
+      const date = new Date(req.body.suspendedUntil);
+      if (isNaN(date.getTime()) || date.getTime() <= Date.now()) {
+        return res
+          .status(400)
+          .json({ error: "suspendedUntil must be a date in the future" });
+      }
+      until = date.toISOString();
+    }
+
+    const actor = auditActor(req);
+    const results = await runBulk(body.uids, async (uid, user) => {
+      const claimed = await claimedByOther(uid, req.adminId);
+      if (claimed) return claimed;
+      if (user.isBanned) return { status: "skipped", detail: "Banned" };
+      if (user.isSuspended)
+        return { status: "skipped", detail: "Already suspended" };
+      await applySuspension(uid, body.reason, until, actor);
+      return { status: "ok" };
+    });
+
+    return await sendBulkResults(
+      req,
+      res,
+      "suspend",
+      { reason: body.reason, suspendedUntil: until },
+      results,
+    );
+  } catch (error) {
+    console.error("Error bulk suspending users:", error);
+    return res
+      .status(500)
+      .json({ error: errorMessage(error, "Failed to suspend users") });
+  }
+}
+
+/**
+ * Ban many users with one reason. When the approval policy covers bans, each
+ * ban is queued for a second admin instead.
+ * POST /bulk/ban
+ * Body: { uids: string[], reason: string }
+ */
+export async function bulkBan(req: AdminRequest, res: Response) {
+  try {
+    const body = readBulkBody(req, res, true);
+    if (!body) return;
+
+    const policy = await getApprovalPolicy();
+    const actor = auditActor(req);
+    const results = await runBulk(body.uids, async (uid, user) => {
+      const claimed = await claimedByOther(uid, req.adminId);
+      if (claimed) return claimed;
+      if (user.isBanned) return { status: "skipped", detail: "Already banned" };
+      if (policy.banUser) {
+        const { approval } = await queueForApproval(
+          req,
+          policy,
+          "BAN_USER",
+          uid,
+          { reason: body.reason },
+        );
+        return { status: "pending_approval", approvalId: approval.id };
+      }
+      await applyBan(uid, body.reason, actor);
+      return { status: "ok" };
+    });
+
+    return await sendBulkResults(
+      req,
+      res,
+      "ban",
+      { reason: body.reason },
+      results,
+    );
+  } catch (error) {
+    console.error("Error bulk banning users:", error);
+    return res
+      .status(500)
+      .json({ error: errorMessage(error, "Failed to ban users") });
+  }
+}
+
+/**
+ * Revoke the sessions of many users
+ * POST /bulk/force-logout
+ * Body: { uids: string[], reason?: string }
+ */
+export async function bulkForceLogout(req: AdminRequest, res: Response) {
+  try {
+    const body = readBulkBody(req, res, false);
+    if (!body) return;
+
+    const actor = auditActor(req);
+    const results = await runBulk(body.uids, async (uid) => {
+      await applyForceLogout(uid, actor, body.reason || undefined);
+      return { status: "ok" };
+    });
+
+    return await sendBulkResults(
+      req,
+      res,
+      "force_logout",
+      { reason: body.reason || null },
+      results,
+    );
+  } catch (error) {
+    console.error("Error bulk force logging out users:", error);
+    return res
+      .status(500)
+      .json({ error: errorMessage(error, "Failed to force logout users") });
+  }
+}
+
+/**
+ * Warn many users with one reason. Escalation rules run for each user.
+ * POST /bulk/warnings
+ * Body: { uids: string[], reason: string }
+ */
+export async function bulkWarn(req: AdminRequest, res: Response) {
+  try {
+    const body = readBulkBody(req, res, true);
+    if (!body) return;
+
+    const actor = auditActor(req);
+    const results = await runBulk(body.uids, async (uid) => {
+      const claimed = await claimedByOther(uid, req.adminId);
+      if (claimed) return claimed;
+      const { escalations, escalationError } = await applyWarning(
+        uid,
+        body.reason,
+        actor,
+      );
+      const detail = escalationError
+        ? `Escalation failed: ${escalationError}`
+        : escalations.map((e) => `${e.action} (${e.ruleName})`).join(", ");
+      return detail ? { status: "ok", detail } : { status: "ok" };
+    });
+
+    return await sendBulkResults(
+      req,
+      res,
+      "warn",
+      { reason: body.reason },
+      results,
+    );
+  } catch (error) {
+    console.error("Error bulk warning users:", error);
+    return res
+      .status(500)
+      .json({ error: errorMessage(error, "Failed to warn users") });
+  }
+}
+
+/**
+ * Set the role of many users. Promotions to admin are queued for approval
+ * when the approval policy covers them.
+ * POST /bulk/role
+ * Body: { uids: string[], role: string }
+ */
+export async function bulkSetRole(req: AdminRequest, res: Response) {
+  try {
+    const body = readBulkBody(req, res, false);
+    if (!body) return;
+
+    const { role } = req.body;
+    if (!role || !VALID_ROLES.includes(role)) {
+      return res.status(400).json({
+        error: `Invalid role. Must be one of: ${VALID_ROLES.join(", ")}`,
+      });
+    }
+
+    const policy = await getApprovalPolicy();
+    const actor = auditActor(req);
+    const results = await runBulk(body.uids, async (uid, user) => {
+      const claimed = await claimedByOther(uid, req.adminId);
+      if (claimed) return claimed;
+      if ((user.role || "user") === role)
+        return { status: "skipped", detail: `Already ${role}` };
+      if (role === "admin" && policy.promoteToAdmin) {
+        const { approval } = await queueForApproval(
+          req,
+          policy,
+          "SET_ROLE_ADMIN",
+          uid,
+          { role },
+        );
+        return { status: "pending_approval", approvalId: approval.id };
+      }
+      await applyRoleChange(uid, role, actor);
+      return { status: "ok" };
+    });
+
+    return await sendBulkResults(req, res, "set_role", { role }, results);
+  } catch (error) {
+    console.error("Error bulk setting user roles:", error);
+    return res
+      .status(500)
+      .json({ error: errorMessage(error, "Failed to set user roles") });
+  }
+}
@@ -0,0 +1,557 @@
+import { Response } from "express";
+import { adminDb, admin } from "../config/firebaseAdmin";
+import { AdminRequest } from "../middleware/authMiddleware";
+import { auditActor, logAuditAction } from "../services/auditLog";
+import {
+  ADMIN_USERS_COLLECTION,
+  AdminUserRecord,
+  getAdminById,
+} from "../services/adminUsers";
+import {
+  CASE_STATUSES,
+  CASE_SUBJECT_TYPES,
+  EVIDENCE_TYPES,
+  MAX_EVIDENCE_PER_CASE,
+  MAX_LINKED_ACTIONS_PER_CASE,
+  CaseEvidence,
+  CaseFilters,
+  CaseRecord,
+  CaseWithId,
+  addCaseNote as insertCaseNote,
+  auditEntryExists,
+  checkEvidence,
+  createCase as insertCase,
+  getCase,
+  getLinkedAuditEntries,
+  isCaseStatus,
+  isCaseSubjectType,
+  isEvidenceType,
+  listCaseNotes,
+  listCases as fetchCases,
+  newEvidence,
+  resolveSubjectUid,
+  updateCase as saveCase,
+} from "../services/cases";
+import { errorMessage } from "../utils/errors";
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+function caseAudit(moderationCase: CaseWithId) {
+  return {
+    resource: "moderation_case",
+    resourceId: moderationCase.id,
+    ...(moderationCase.subjectUid
+      ? { targetUid: moderationCase.subjectUid }
+      : {}),
+  };
+}
+
+/**
+ * Load the case named in the route. Returns null after sending a 404.
+ */
+async function loadCase(
+  req: AdminRequest,
+  res: Response,
+): Promise<CaseWithId | null> {
+  const moderationCase = await getCase(req.params.id);
+  if (!moderationCase) {
+    res.status(404).json({ error: "Case not found" });
+    return null;
+  }
+  return moderationCase;
+}
+
+/**
+ * List cases, most recently updated first
+ * GET /cases?status=&assignee=me|unassigned|<adminId>&subjectUid=&limit=
+ */
+export async function listCases(req: AdminRequest, res: Response) {
+  try {
+    const { status, assignee, subjectUid } = req.query;
+    const limit = Math.min(
+      parseInt(String(req.query.limit || DEFAULT_LIMIT), 10) || DEFAULT_LIMIT,
+      MAX_LIMIT,
+    );
+
+    const filters: CaseFilters = {};
+    if (status) {
+      if (!isCaseStatus(status)) {
+        return res.status(400).json({
+          error: `status must be one of: ${CASE_STATUSES.join(", ")}`,
+        });
+      }
+      filters.status = status;
+    }
+    if (assignee === "me") filters.assigneeId = req.adminId || "";
+    else if (assignee === "unassigned") filters.assigneeId = null;
+    else if (assignee) filters.assigneeId = String(assignee);
+    if (subjectUid) filters.subjectUid = String(subjectUid);
+
+    const cases = await fetchCases(filters, limit);
+    return res.json({ success: true, data: { cases, total: cases.length } });
+  } catch (error) {
+    console.error("Error listing cases:", error);
+    return res
+      .status(500)
+      .json({ error: errorMessage(error, "Failed to list cases") });
+  }
+}
+
+/**
+ * Active admins a case can be assigned to
+ * GET /cases/assignees
+ */
+export async function listCaseAssignees(req: AdminRequest, res: Response) {
+  try {
+    const snapshot = await adminDb
+      .collection(ADMIN_USERS_COLLECTION)
+      .where("isActive", "==", true)
+      .get();
+    const assignees = snapshot.docs
+      .map((doc) => {
+        const { email, username, role } = doc.data() as AdminUserRecord;
+        return { id: doc.id, email, username, role };
+      })
+      .sort((a, b) => a.email.localeCompare(b.email));
+    return res.json({ success: true, data: { assignees } });
+  } catch (error) {
+    console.error("Error listing case assignees:", error);
+    return res
+      .status(500)
+      .json({ error: errorMessage(error, "Failed to list assignees") });
+  }
+}
+
+/**
+ * Open a case on a user or a generation
+ * POST /cases
+ * Body: { subjectType: 'user' | 'generation', subjectId: string, title: string, description?: string,
+ *         evidence?: [{ type: 'generation' | 'ip' | 'device' | 'warning', ref: string, note?: string }] }
+ */
+export async function createCase(req: AdminRequest, res: Response) {
+  try {
+    const { subjectType, subjectId, title, description, evidence } =
+      req.body || {};
+
+    if (!isCaseSubjectType(subjectType)) {
+      return res.status(400).json({
+        error: `subjectType must be one of: ${CASE_SUBJECT_TYPES.join(", ")}`,
+      });
+    }
+    if (!subjectId || typeof subjectId !== "string") {
+      return res.status(400).json({ error: "subjectId is required" });
+    }
+    if (!title || typeof title !== "string" || !title.trim()) {
+      return res.status(400).json({ error: "Title is required" });
+    }
+    if (evidence !== undefined && !Array.isArray(evidence)) {
+      return res.status(400).json({ error: "evidence must be an array" });
+    }
+
+    const subjectUid = await resolveSubjectUid(subjectType, subjectId);
+    if (subjectUid === undefined) {
+      return res.status(404).json({ error: `${subjectType} not found` });
+    }
+
+    const adminEmail = req.adminEmail || "admin";
+    const items: CaseEvidence[] = [];
+    for (const item of (evidence || []).slice(0, MAX_EVIDENCE_PER_CASE)) {
+      if (!isEvidenceType(item?.type) || !item.ref) {
+        return res.status(400).json({
+          error: `Each evidence item needs a ref and a type of: ${EVIDENCE_TYPES.join(", ")}`,
+        });
+      }
+      const check = await checkEvidence(item.type, String(item.ref));
+      if (check.status === "invalid") {
+        return res
+          .status(400)
+          .json({ error: `${item.type} ${item.ref}: ${check.error}` });
+      }
+      items.push(
+        newEvidence(item.type, String(item.ref), item.note || null, adminEmail),
+      );
+    }
+
+    const moderationCase = await insertCase({
+      subjectType,
+      subjectId,
+      subjectUid,
+      title: title.trim(),
+      description: typeof description === "string" ? description.trim() : "",
+      evidence: items,
+      createdBy: req.adminId || "admin",
+      createdByEmail: adminEmail,
+    });
+
+    await logAuditAction({
+      ...auditActor(req),
+      action: "CREATE_CASE",
+      ...caseAudit(moderationCase),
+      details: {
+        subjectType,
+        subjectId,
+        title: moderationCase.title,
+        evidence: items.length,
+      },
+    });
+
+    return res.status(201).json({
+      success: true,
+      message: "Case opened",
+      data: { case: moderationCase },
+    });
+  } catch (error) {
+    console.error("Error creating case:", error);
+    return res
+      .status(500)
+      .json({ error: errorMessage(error, "Failed to create case") });
+  }
+}
+
+/**
+ * A case with its notes and linked audit entries
+ * GET /cases/:id
+ */
+export async function getCaseById(req: AdminRequest, res: Response) {
+  try {
+    const moderationCase = await loadCase(req, res);
+    if (!moderationCase) return;
+
+    const [notes, linkedActions] = await Promise.all([
+      listCaseNotes(moderationCase.id),
+      getLinkedAuditEntries(moderationCase.linkedAuditIds),
+    ]);
+
+    return res.json({
+      success: true,
+      data: { case: moderationCase, notes, linkedActions },
+    });
+  } catch (error) {
+    console.error("Error fetching case:", error);
+    return res
+      .status(500)
+      .json({ error: errorMessage(error, "Failed to fetch case") });
+  }
+}
+
+/**
+ * Change a case's title, description, status or assignee
+ * PUT /cases/:id
+ * Body: { title?, description?, status?: 'open' | 'investigating' | 'resolved', assigneeId?: string | null, resolution?: string }
+ */
+export async function updateCase(req: AdminRequest, res: Response) {
+  try {
+    const moderationCase = await loadCase(req, res);
+    if (!moderationCase) return;
+
+    const { title, description, status, assigneeId, resolution } =
+      req.body || {};
+    const changes: Partial<CaseRecord> = {};
+
+    if (title !== undefined) {
+      if (typeof title !== "string" || !title.trim()) {
+        return res.status(400).json({ error: "Title cannot be empty" });
+      }
+      changes.title = title.trim();
+    }
+    if (description !== undefined) {
+      changes.description = String(description).trim();
+    }
+    if (status !== undefined && status !== moderationCase.status) {
+      if (!isCaseStatus(status)) {
+        return res.status(400).json({
+          error: `status must be one of: ${CASE_STATUSES.join(", ")}`,
+        });
+      }
+      changes.status = status;
+      if (status === "resolved") {
+        changes.resolvedAt = new Date().toISOString();
+        changes.resolvedBy = req.adminEmail || "admin";
+        changes.resolution =
+          typeof resolution === "string" && resolution.trim()
+            ? resolution.trim()
+            : null;
+      } else if (moderationCase.status === "resolved") {
+        // Reopened
+        changes.resolvedAt = null;
+        changes.resolvedBy = null;
+        changes.resolution = null;
+      }
+    }
+    if (assigneeId !== undefined && assigneeId !== moderationCase.assigneeId) {
+      if (assigneeId === null) {
+        changes.assigneeId = null;
+        changes.assigneeEmail = null;
+      } else {
+        const assignee = await getAdminById(String(assigneeId));
+        if (!assignee || !assignee.isActive) {
+          return res
+            .status(400)
+            .json({ error: "Assignee must be an active admin" });
+        }
+        changes.assigneeId = assignee.id;
+        changes.assigneeEmail = assignee.email;
+      }
+    }
+
+    if (!Object.keys(changes).length) {
+      return res.json({
+        success: true,
+        message: "No changes",
+        data: { case: moderationCase },
+      });
+    }
+
+    await saveCase(moderationCase.id, changes);
+
+    const previous = Object.fromEntries(
+      Object.keys(changes).map((key) => [
+        key,
+        moderationCase[key as keyof CaseRecord],
+      ]),
+    );
+    await logAuditAction({
+      ...auditActor(req),
+      action: "UPDATE_CASE",
+      ...caseAudit(moderationCase),
+      details: { previous, changes },
+    });
+
+    return res.json({
+      success: true,
+      message: "Case updated",
+      data: { case: { ...moderationCase, ...changes } },
+    });
+  } catch (error) {
+    console.error("Error updating case:", error);
+    return res
+      .status(500)
+      .json({ error: errorMessage(error, "Failed to update case") });
+  }
+}
+
+/**
+ * Attach evidence to a case
+ * POST /cases/:id/evidence
+ * Body: { type: 'generation' | 'ip' | 'device' | 'warning', ref: string, note?: string }
+ */
+export async function addCaseEvidence(req: AdminRequest, res: Response) {
+  try {
+    const moderationCase = await loadCase(req, res);
+    if (!moderationCase) return;
+
+    const { type, ref, note } = req.body || {};
+    if (!isEvidenceType(type)) {
+      return res.status(400).json({
+        error: `type must be one of: ${EVIDENCE_TYPES.join(", ")}`,
+      });
+    }
+    if (!ref || typeof ref !== "string") {
+      return res.status(400).json({ error: "ref is required" });
+    }
+    if (moderationCase.evidence.length >= MAX_EVIDENCE_PER_CASE) {
+      return res.status(400).json({
+        error: `A case can hold at most ${MAX_EVIDENCE_PER_CASE} pieces of evidence`,
+      });
+    }
+    if (moderationCase.evidence.some((e) => e.type === type && e.ref === ref)) {
+      return res
+        .status(409)
+        .json({ error: "This evidence is already attached" });
+    }
+
+    const check = await checkEvidence(type, ref.trim());
+    if (check.status === "invalid") {
+      return res.status(400).json({ error: check.error });
+    }
+
+    const item = newEvidence(
+      type,
+      ref.trim(),
+      typeof note === "string" && note.trim() ? note.trim() : null,
+      req.adminEmail || "admin",
+    );
+    await saveCase(moderationCase.id, {
+      evidence: admin.firestore.FieldValue.arrayUnion(item),
+    });
+
+    await logAuditAction({
+      ...auditActor(req),
+      action: "ADD_CASE_EVIDENCE",
+      ...caseAudit(moderationCase),
+      details: { evidenceId: item.id, type, ref: item.ref },
+    });
+
+    return res.json({
+      success: true,
+      message: "Evidence attached",
+      data: { evidence: item },
+    });
+  } catch (error) {
+    console.error("Error adding case evidence:", error);
+    return res
+      .status(500)
+      .json({ error: errorMessage(error, "Failed to add evidence") });
+  }
+}
+
+/**
+ * Detach evidence from a case
+ * DELETE /cases/:id/evidence/:evidenceId
+ */
+export async function removeCaseEvidence(req: AdminRequest, res: Response) {
+  try {
+    const moderationCase = await loadCase(req, res);
+    if (!moderationCase) return;
+
+    const item = moderationCase.evidence.find(
+      (e) => e.id === req.params.evidenceId,
+    );
+    if (!item) return res.status(404).json({ error: "Evidence not found" });
+
+    await saveCase(moderationCase.id, {
+      evidence: admin.firestore.FieldValue.arrayRemove(item),
+    });
+
+    await logAuditAction({
+      ...auditActor(req),
+      action: "REMOVE_CASE_EVIDENCE",
+      ...caseAudit(moderationCase),
+      details: { evidenceId: item.id, type: item.type, ref: item.ref },
+    });
+
+    return res.json({ success: true, message: "Evidence removed" });
+  } catch (error) {
+    console.error("Error removing case evidence:", error);
+    return res
+      .status(500)
+      .json({ error: errorMessage(error, "Failed to remove evidence") });
+  }
+}
+
+/**
+ * Add an internal note, or a reply to one
+ * POST /cases/:id/notes
+ * Body: { body: string, parentId?: string }
+ */
+export async function addCaseNote(req: AdminRequest, res: Response) {
+  try {
+    const { body, parentId } = req.body || {};
+    if (!body || typeof body !== "string" || !body.trim()) {
+      return res.status(400).json({ error: "Note text is required" });
+    }
+
+    const result = await insertCaseNote(req.params.id, {
+      body: body.trim(),
+      parentId: parentId ? String(parentId) : null,
+      authorId: req.adminId || "admin",
+      authorEmail: req.adminEmail || "admin",
+    });
+    if (result.status === "not_found") {
+      return res.status(404).json({ error: "Case not found" });
+    }
+    if (result.status === "invalid_parent") {
+      return res.status(400).json({ error: "Note to reply to not found" });
+    }
+
+    await logAuditAction({
+      ...auditActor(req),
+      action: "ADD_CASE_NOTE",
+      resource: "moderation_case",
+      resourceId: req.params.id,
+      details: { noteId: result.note.id, parentId: result.note.parentId },
+    });
+
+    return res.json({
+      success: true,
+      message: "Note added",
+      data: { note: result.note },
+    });
+  } catch (error) {
+    console.error("Error adding case note:", error);
+    return res
+      .status(500)
+      .json({ error: errorMessage(error, "Failed to add note") });
+  }
+}
+
+/**
+ * Link an audit entry (an action taken on the case) to the case
+ * POST /cases/:id/links
+ * Body: { auditId: string }
+ */
+export async function linkCaseAction(req: AdminRequest, res: Response) {
+  try {
+    const moderationCase = await loadCase(req, res);
+    if (!moderationCase) return;
+
+    const { auditId } = req.body || {};
+    if (!auditId || typeof auditId !== "string") {
+      return res.status(400).json({ error: "auditId is required" });
+    }
+    if (moderationCase.linkedAuditIds.includes(auditId)) {
+      return res.status(409).json({ error: "Action is already linked" });
+    }
+    if (moderationCase.linkedAuditIds.length >= MAX_LINKED_ACTIONS_PER_CASE) {
+      return res.status(400).json({
+        error: `A case can link at most ${MAX_LINKED_ACTIONS_PER_CASE} actions`,
+      });
+    }
+    if (!(await auditEntryExists(auditId))) {
+      return res.status(404).json({ error: "Audit entry not found" });
+    }
+
+    await saveCase(moderationCase.id, {
+      linkedAuditIds: admin.firestore.FieldValue.arrayUnion(auditId),
+    });
+
+    await logAuditAction({
+      ...auditActor(req),
+      action: "LINK_CASE_ACTION",
+      ...caseAudit(moderationCase),
+      details: { auditId },
+    });
+
+    return res.json({ success: true, message: "Action linked to case" });
+  } catch (error) {
+    console.error("Error linking case action:", error);
+    return res
+      .status(500)
+      .json({ error: errorMessage(error, "Failed to link action") });
+  }
+}
+
+/**
+ * Unlink an audit entry from a case
+ * DELETE /cases/:id/links/:auditId
+ */
+export async function unlinkCaseAction(req: AdminRequest, res: Response) {
+  try {
+    const moderationCase = await loadCase(req, res);
+    if (!moderationCase) return;
+
+    const { auditId } = req.params;
+    if (!moderationCase.linkedAuditIds.includes(auditId)) {
+      return res.status(404).json({ error: "Action is not linked" });
+    }
+
+    await saveCase(moderationCase.id, {
+      linkedAuditIds: admin.firestore.FieldValue.arrayRemove(auditId),
+    });
+
+    await logAuditAction({
+      ...auditActor(req),
+      action: "UNLINK_CASE_ACTION",
+      ...caseAudit(moderationCase),
+      details: { auditId },
+    });
+
+    return res.json({ success: true, message: "Action unlinked" });
+  } catch (error) {
+    console.error("Error unlinking case action:", error);
+    return res
+      .status(500)
+      .json({ error: errorMessage(error, "Failed to unlink action") });
+  }
+}
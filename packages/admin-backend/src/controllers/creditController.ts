@@ -1,12 +1,64 @@
 import { Response } from "express";
 import { adminDb } from "../config/firebaseAdmin";
 import { AdminRequest } from "../middleware/authMiddleware";
-import { logAuditAction } from "./auditController";
+import { AuditActor, auditActor, logAuditAction } from "../services/auditLog";
+import { ApprovalReference, submitForApproval } from "./approvalsController";
+import { getApprovalPolicy } from "../services/approvals";
+
+/**
+ * Carry out a credit adjustment and audit it. Called directly, once a second admin approves,
+ * or to revert an earlier grant (`revertOf` links the entry to the one it undoes).
+ */
+export async function applyCreditAdjustment(
+  uid: string,
+  amount: number,
+  reason: string,
+  actor: AuditActor,
+  approval?: ApprovalReference,
+  revertOf?: string,
+) {
+  const userDoc = await adminDb.collection("users").doc(uid).get();
+  if (!userDoc.exists) throw new Error("User not found");
+  const currentBalance = userDoc.data()?.creditBalance || 0;
+  const newBalance = Math.max(0, currentBalance + amount);
+
+  await adminDb
+    .collection("users")
+    .doc(uid)
+    .update({ creditBalance: newBalance });
+
+  await adminDb.collection("creditHistory").add({
+    uid,
+    amount,
+    reason,
+    previousBalance: currentBalance,
+    newBalance,
+    adjustedAt: new Date().toISOString(),
+    adjustedBy: actor.adminEmail,
+  });
+
+  await logAuditAction({
+    ...actor,
+    action: amount >= 0 ? "ADD_CREDITS" : "DEDUCT_CREDITS",
+    targetUid: uid,
+    details: {
+      amount,
+      reason,
+      previousBalance: currentBalance,
+      newBalance,
+      ...(approval ? { approval } : {}),
+      ...(revertOf ? { revertOf } : {}),
+    },
+  });
+
+  return { previousBalance: currentBalance, newBalance, change: amount };
+}
 
 /**
  * Adjust credits for a user (add or subtract)
  * POST /users/:uid/adjust-credits
  * Body: { amount: number, reason: string }
+ * Deductions at or above the policy threshold respond 202 with the pending request.
  */
 export async function adjustCredits(req: AdminRequest, res: Response) {
   try {
@@ -25,44 +77,30 @@ export async function adjustCredits(req: AdminRequest, res: Response) {
     const userDoc = await adminDb.collection("users").doc(uid).get();
     if (!userDoc.exists)
       return res.status(404).json({ error: "User not found" });
-    const currentBalance = userDoc.data()?.creditBalance || 0;
-    const newBalance = Math.max(0, currentBalance + parsedAmount);
 
-    await adminDb
-      .collection("users")
-      .doc(uid)
-      .update({ creditBalance: newBalance });
+    const policy = await getApprovalPolicy();
+    if (
+      parsedAmount < 0 &&
+      policy.creditDeductionThreshold > 0 &&
+      -parsedAmount >= policy.creditDeductionThreshold
+    ) {
+      return await submitForApproval(req, res, policy, "DEDUCT_CREDITS", uid, {
+        amount: parsedAmount,
+        reason,
+      });
+    }
 
-    await adminDb.collection("creditHistory").add({
+    const data = await applyCreditAdjustment(
       uid,
-      amount: parsedAmount,
+      parsedAmount,
       reason,
-      previousBalance: currentBalance,
-      newBalance,
-      adjustedAt: new Date().toISOString(),
-      adjustedBy: req.adminEmail || "admin",
-    });
-
-    await logAuditAction({
-      adminEmail: req.adminEmail || "admin",
-      action: parsedAmount >= 0 ? "ADD_CREDITS" : "DEDUCT_CREDITS",
-      targetUid: uid,
-      details: {
-        amount: parsedAmount,
-        reason,
-        previousBalance: currentBalance,
-        newBalance,
-      },
-    });
+      auditActor(req),
+    );
 
     return res.json({
       success: true,
       message: `Credits ${parsedAmount >= 0 ? "added" : "deducted"} successfully`,
-      data: {
-        previousBalance: currentBalance,
-        newBalance,
-        change: parsedAmount,
-      },
+      data,
     });
   } catch (error: any) {
     console.error("Error adjusting credits:", error);
@@ -1,7 +1,8 @@
 import { Response } from "express";
 import { adminDb } from "../config/firebaseAdmin";
 import { AdminRequest } from "../middleware/authMiddleware";
-import { logAuditAction } from "./auditController";
+import { auditActor, logAuditAction } from "../services/auditLog";
+import { rescoreIdentifierInBackground } from "../services/riskScoring";
 
 /**
  * List all blocked devices
@@ -64,12 +65,16 @@ export async function blockDevice(req: AdminRequest, res: Response) {
       });
 
     await logAuditAction({
-      adminEmail: req.adminEmail || "admin",
+      ...auditActor(req),
       action: "BLOCK_DEVICE",
+      resource: "device",
+      resourceId: deviceId,
       targetUid: targetUid || undefined,
       details: { deviceId, reason },
     });
 
+    rescoreIdentifierInBackground("device", deviceId, "device_blocked");
+
     return res.json({ success: true, message: "Device blocked successfully" });
   } catch (error: any) {
     console.error("Error blocking device:", error);
@@ -92,11 +97,15 @@ export async function unblockDevice(req: AdminRequest, res: Response) {
     await adminDb.collection("blockedDevices").doc(deviceId).delete();
 
     await logAuditAction({
-      adminEmail: req.adminEmail || "admin",
+      ...auditActor(req),
       action: "UNBLOCK_DEVICE",
+      resource: "device",
+      resourceId: deviceId,
       details: { deviceId },
     });
 
+    rescoreIdentifierInBackground("device", deviceId, "device_unblocked");
+
     return res.json({
       success: true,
       message: "Device unblocked successfully",
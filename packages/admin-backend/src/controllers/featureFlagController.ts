@@ -1,7 +1,7 @@
 import { Response } from "express";
-import { adminDb } from "../config/firebaseAdmin";
+import { adminDb, admin } from "../config/firebaseAdmin";
 import { AdminRequest } from "../middleware/authMiddleware";
-import { logAuditAction } from "./auditController";
+import { AuditActor, auditActor, logAuditAction } from "../services/auditLog";
 
 const GLOBAL_FLAGS_DOC = "global";
 
@@ -15,6 +15,102 @@ const DEFAULT_FLAGS: Record<string, boolean> = {
   maintenanceMode: false,
 };
 
+/**
+ * Current value of a global flag, falling back to its default.
+ */
+export async function getGlobalFlagValue(flag: string): Promise<boolean> {
+  const doc = await adminDb
+    .collection("featureFlags")
+    .doc(GLOBAL_FLAGS_DOC)
+    .get();
+  const stored = doc.data()?.[flag];
+  return typeof stored === "boolean" ? stored : !!DEFAULT_FLAGS[flag];
+}
+
+/**
+ * A user's override for a flag, or null when they follow the global value.
+ */
+export async function getUserFlagOverride(
+  uid: string,
+  flag: string,
+): Promise<boolean | null> {
+  const doc = await adminDb.collection("featureFlags").doc(uid).get();
+  const stored = doc.data()?.[flag];
+  return typeof stored === "boolean" ? stored : null;
+}
+
+/**
+ * Set a global flag and audit it, recording the value it replaced.
+ * `revertOf` links the entry to the audit entry it undoes.
+ */
+export async function applyGlobalFlag(
+  flag: string,
+  enabled: boolean,
+  actor: AuditActor,
+  revertOf?: string,
+): Promise<void> {
+  const previousEnabled = await getGlobalFlagValue(flag);
+
+  await adminDb
+    .collection("featureFlags")
+    .doc(GLOBAL_FLAGS_DOC)
+    .set(
+      { [flag]: enabled, updatedAt: new Date().toISOString() },
+      { merge: true },
+    );
+
+  await logAuditAction({
+    ...actor,
+    action: "SET_GLOBAL_FLAG",
+    resource: "feature_flag",
+    resourceId: flag,
+    details: {
+      flag,
+      enabled,
+      previousEnabled,
+      ...(revertOf ? { revertOf } : {}),
+    },
+  });
+}
+
+/**
+ * Set (or, with null, clear) a user's flag override and audit it,
+ * recording the override it replaced.
+ */
+export async function applyUserFlag(
+  uid: string,
+  flag: string,
+  enabled: boolean | null,
+  actor: AuditActor,
+  revertOf?: string,
+): Promise<void> {
+  const previousEnabled = await getUserFlagOverride(uid, flag);
+
+  await adminDb
+    .collection("featureFlags")
+    .doc(uid)
+    .set(
+      {
+        [flag]:
+          enabled === null ? admin.firestore.FieldValue.delete() : enabled,
+        updatedAt: new Date().toISOString(),
+      },
+      { merge: true },
+    );
+
+  await logAuditAction({
+    ...actor,
+    action: "SET_USER_FLAG",
+    targetUid: uid,
+    details: {
+      flag,
+      enabled,
+      previousEnabled,
+      ...(revertOf ? { revertOf } : {}),
+    },
+  });
+}
+
 /**
  * Get all global feature flags
  * GET /feature-flags
@@ -51,19 +147,7 @@ export async function setGlobalFlag(req: AdminRequest, res: Response) {
     if (typeof enabled !== "boolean")
       return res.status(400).json({ error: "enabled must be a boolean" });
 
-    await adminDb
-      .collection("featureFlags")
-      .doc(GLOBAL_FLAGS_DOC)
-      .set(
-        { [flag]: enabled, updatedAt: new Date().toISOString() },
-        { merge: true },
-      );
-
-    await logAuditAction({
-      adminEmail: req.adminEmail || "admin",
-      action: "SET_GLOBAL_FLAG",
-      details: { flag, enabled },
-    });
+    await applyGlobalFlag(flag, enabled, auditActor(req));
 
     return res.json({
       success: true,
@@ -113,20 +197,7 @@ export async function setUserFlag(req: AdminRequest, res: Response) {
     if (typeof enabled !== "boolean")
       return res.status(400).json({ error: "enabled must be a boolean" });
 
-    await adminDb
-      .collection("featureFlags")
-      .doc(uid)
-      .set(
-        { [flag]: enabled, updatedAt: new Date().toISOString() },
-        { merge: true },
-      );
-
-    await logAuditAction({
-      adminEmail: req.adminEmail || "admin",
-      action: "SET_USER_FLAG",
-      targetUid: uid,
-      details: { flag, enabled },
-    });
+    await applyUserFlag(uid, flag, enabled, auditActor(req));
 
     return res.json({
       success: true,
@@ -1,6 +1,7 @@
 import { Response } from 'express';
 import { adminDb, admin } from '../config/firebaseAdmin';
 import { AdminRequest } from '../middleware/authMiddleware';
+import { AuditActor, auditActor, logAuditAction } from '../services/auditLog';
 import { batchFetchAndFilterGenerations } from './batchFetchHelper';
 
 /**
@@ -410,6 +411,141 @@ export async function getGenerationsForScoring(req: AdminRequest, res: Response)
   }
 }
 
+/**
+ * Write a generation's aesthetic score to the document, its first image/video and the
+ * owner's history copy, then audit it. A null score clears the document-level score
+ * (used when reverting a generation's first grade); per-item scores are left as they are.
+ * `revertOf` links the audit entry to the one it undoes; `bulkOperation` audits it as
+ * part of a bulk grade.
+ */
+export async function applyAestheticScore(
+  generationRef: FirebaseFirestore.DocumentReference,
+  generationData: FirebaseFirestore.DocumentData,
+  score: number | null,
+  actor: AuditActor,
+  revertOf?: string,
+  bulkOperation = false
+): Promise<void> {
+  // Get old score for audit log
+  const oldScore = generationData.aestheticScore !== undefined && generationData.aestheticScore !== null
+    ? generationData.aestheticScore
+    : null;
+
+  const scoreValue = score === null ? admin.firestore.FieldValue.delete() : score;
+
+  // Update document-level aestheticScore (this is what ArtStation reads from)
+  const updateData: Record<string, unknown> = {
+    aestheticScore: scoreValue,
+    updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    scoreUpdatedBy: actor.adminEmail,
+    scoreUpdatedAt: admin.firestore.FieldValue.serverTimestamp(),
+  };
+
+  // Also update individual image/video aestheticScore fields to match
+  // This ensures consistency with how the system stores scores
+  const images = Array.isArray(generationData.images) ? generationData.images : [];
+  const videos = Array.isArray(generationData.videos) ? generationData.videos : [];
+  
+  // Update first image's aestheticScore if images exist
+  if (score !== null && images.length > 0) {
+    const updatedImages = images.map((img: FirebaseFirestore.DocumentData, index: number) => {
+      // Update the first image's score, or all images if they don't have scores
+      if (index === 0 || !img.aestheticScore) {
+        return {
+          ...img,
+          aestheticScore: score,
+        };
+      }
+      return img;
+    });
+    updateData.images = updatedImages;
+  }
+  
+  // Update first video's aestheticScore if videos exist (and no images)
+  if (score !== null && videos.length > 0 && images.length === 0) {
+    const updatedVideos = videos.map((vid: FirebaseFirestore.DocumentData, index: number) => {
+      // Update the first video's score, or all videos if they don't have scores
+      if (index === 0 || !vid.aestheticScore) {
+        return {
+          ...vid,
+          aestheticScore: score,
+        };
+      }
+      return vid;
+    });
+    updateData.videos = updatedVideos;
+  }
+
+  // Update the generation document
+  await generationRef.update(updateData);
+
+  // Also update in user's generation history if it exists
+  if (generationData.createdBy?.uid) {
+    const historyRef = adminDb
+      .collection('generationHistory')
+      .doc(generationData.createdBy.uid)
+      .collection('items')
+      .doc(generationRef.id);
+    
+    const historyDoc = await historyRef.get();
+    if (historyDoc.exists) {
+      const historyUpdateData: Record<string, unknown> = {
+        aestheticScore: scoreValue,
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      };
+
+      // Also update images/videos in history to match
+      const historyData = historyDoc.data();
+      if (historyData && score !== null) {
+        const historyImages = Array.isArray(historyData.images) ? historyData.images : [];
+        const historyVideos = Array.isArray(historyData.videos) ? historyData.videos : [];
+        
+        if (historyImages.length > 0) {
+          const updatedHistoryImages = historyImages.map((img: FirebaseFirestore.DocumentData, index: number) => {
+            if (index === 0 || !img.aestheticScore) {
+              return {
+                ...img,
+                aestheticScore: score,
+              };
+            }
+            return img;
+          });
+          historyUpdateData.images = updatedHistoryImages;
+        }
+        
+        if (historyVideos.length > 0 && historyImages.length === 0) {
+          const updatedHistoryVideos = historyVideos.map((vid: FirebaseFirestore.DocumentData, index: number) => {
+            if (index === 0 || !vid.aestheticScore) {
+              return {
+                ...vid,
+                aestheticScore: score,
+              };
+            }
+            return vid;
+          });
+          historyUpdateData.videos = updatedHistoryVideos;
+        }
+      }
+
+      await historyRef.update(historyUpdateData);
+    }
+  }
+
+  // Log the action
+  await logAuditAction({
+    ...actor,
+    action: bulkOperation ? 'BULK_UPDATE_AESTHETIC_SCORE' : 'UPDATE_AESTHETIC_SCORE',
+    resource: 'generation',
+    resourceId: generationRef.id,
+    details: {
+      newScore: score,
+      oldScore: oldScore,
+      ...(revertOf ? { revertOf } : {}),
+      ...(bulkOperation ? { bulkOperation: true } : {}),
+    },
+  });
+}
+
 export async function updateAestheticScore(req: AdminRequest, res: Response) {
   try {
     const { generationId } = req.params;
@@ -445,124 +581,7 @@ export async function updateAestheticScore(req: AdminRequest, res: Response) {
       return res.status(404).json({ error: 'Generation data not found' });
     }
 
-    // Get old score for audit log
-    const oldScore = generationData.aestheticScore !== undefined && generationData.aestheticScore !== null
-      ? generationData.aestheticScore
-      : null;
-
-    // Update document-level aestheticScore (this is what ArtStation reads from)
-    const updateData: any = {
-      aestheticScore: scoreNum,
-      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
-      scoreUpdatedBy: req.adminEmail || 'admin',
-      scoreUpdatedAt: admin.firestore.FieldValue.serverTimestamp(),
-    };
-
-    // Also update individual image/video aestheticScore fields to match
-    // This ensures consistency with how the system stores scores
-    const images = Array.isArray(generationData.images) ? generationData.images : [];
-    const videos = Array.isArray(generationData.videos) ? generationData.videos : [];
-    
-    // Update first image's aestheticScore if images exist
-    if (images.length > 0) {
-      const updatedImages = images.map((img: any, index: number) => {
-        // Update the first image's score, or all images if they don't have scores
-        if (index === 0 || !img.aestheticScore) {
-          return {
-            ...img,
-            aestheticScore: scoreNum,
-          };
-        }
-        return img;
-      });
-      updateData.images = updatedImages;
-    }
-    
-    // Update first video's aestheticScore if videos exist (and no images)
-    if (videos.length > 0 && images.length === 0) {
-      const updatedVideos = videos.map((vid: any, index: number) => {
-        // Update the first video's score, or all videos if they don't have scores
-        if (index === 0 || !vid.aestheticScore) {
-          return {
-            ...vid,
-            aestheticScore: scoreNum,
-          };
-        }
-        return vid;
-      });
-      updateData.videos = updatedVideos;
-    }
-
-    // Update the generation document
-    await generationRef.update(updateData);
-
-    // Also update in user's generation history if it exists
-    if (generationData.createdBy?.uid) {
-      const historyRef = adminDb
-        .collection('generationHistory')
-        .doc(generationData.createdBy.uid)
-        .collection('items')
-        .doc(generationId);
-      
-      const historyDoc = await historyRef.get();
-      if (historyDoc.exists) {
-        const historyUpdateData: any = {
-          aestheticScore: scoreNum,
-          updatedAt: admin.firestore.FieldValue.serverTimestamp(),
-        };
-
-        // Also update images/videos in history to match
-        const historyData = historyDoc.data();
-        if (historyData) {
-          const historyImages = Array.isArray(historyData.images) ? historyData.images : [];
-          const historyVideos = Array.isArray(historyData.videos) ? historyData.videos : [];
-          
-          if (historyImages.length > 0) {
-            const updatedHistoryImages = historyImages.map((img: any, index: number) => {
-              if (index === 0 || !img.aestheticScore) {
-                return {
-                  ...img,
-                  aestheticScore: scoreNum,
-                };
-              }
-              return img;
-            });
-            historyUpdateData.images = updatedHistoryImages;
-          }
-          
-          if (historyVideos.length > 0 && historyImages.length === 0) {
-            const updatedHistoryVideos = historyVideos.map((vid: any, index: number) => {
-              if (index === 0 || !vid.aestheticScore) {
-                return {
-                  ...vid,
-                  aestheticScore: scoreNum,
-                };
-              }
-              return vid;
-            });
-            historyUpdateData.videos = updatedHistoryVideos;
-          }
-        }
-
-        await historyRef.update(historyUpdateData);
-      }
-    }
-
-    // Log the action
-    const auditLogData: any = {
-      adminId: req.adminId || 'unknown',
-      adminEmail: req.adminEmail || 'unknown',
-      action: 'update_aesthetic_score',
-      resource: 'generation',
-      resourceId: generationId,
-      details: {
-        newScore: scoreNum,
-        oldScore: oldScore,
-      },
-      createdAt: admin.firestore.FieldValue.serverTimestamp(),
-    };
-
-    await adminDb.collection('adminAuditLogs').add(auditLogData);
+    await applyAestheticScore(generationRef, generationData, scoreNum, auditActor(req));
 
     return res.json({
       success: true,
@@ -612,6 +631,7 @@ export async function bulkUpdateAestheticScore(req: AdminRequest, res: Response)
     }
     const results: BulkResult[] = [];
 
+    const actor = auditActor(req);
     // Process each generation
     for (const generationId of bulk) {
       try {
@@ -629,116 +649,7 @@ export async function bulkUpdateAestheticScore(req: AdminRequest, res: Response)
           continue;
         }
 
-        const oldScore = generationData.aestheticScore !== undefined && generationData.aestheticScore !== null
-          ? generationData.aestheticScore
-          : null;
-
-        // Update document-level aestheticScore
-        const updateData: any = {
-          aestheticScore: scoreNum,
-          updatedAt: admin.firestore.FieldValue.serverTimestamp(),
-          scoreUpdatedBy: req.adminEmail || 'admin',
-          scoreUpdatedAt: admin.firestore.FieldValue.serverTimestamp(),
-        };
-
-        // Also update individual image/video aestheticScore fields
-        const images = Array.isArray(generationData.images) ? generationData.images : [];
-        const videos = Array.isArray(generationData.videos) ? generationData.videos : [];
-        
-        if (images.length > 0) {
-          const updatedImages = images.map((img: any, index: number) => {
-            if (index === 0 || !img.aestheticScore) {
-              return {
-                ...img,
-                aestheticScore: scoreNum,
-              };
-            }
-            return img;
-          });
-          updateData.images = updatedImages;
-        }
-        
-        if (videos.length > 0 && images.length === 0) {
-          const updatedVideos = videos.map((vid: any, index: number) => {
-            if (index === 0 || !vid.aestheticScore) {
-              return {
-                ...vid,
-                aestheticScore: scoreNum,
-              };
-            }
-            return vid;
-          });
-          updateData.videos = updatedVideos;
-        }
-
-        // Update the generation document
-        await generationRef.update(updateData);
-
-        // Also update in user's generation history if it exists
-        if (generationData.createdBy?.uid) {
-          const historyRef = adminDb
-            .collection('generationHistory')
-            .doc(generationData.createdBy.uid)
-            .collection('items')
-            .doc(generationId);
-          
-          const historyDoc = await historyRef.get();
-          if (historyDoc.exists) {
-            const historyUpdateData: any = {
-              aestheticScore: scoreNum,
-              updatedAt: admin.firestore.FieldValue.serverTimestamp(),
-            };
-
-            const historyData = historyDoc.data();
-            if (historyData) {
-              const historyImages = Array.isArray(historyData.images) ? historyData.images : [];
-              const historyVideos = Array.isArray(historyData.videos) ? historyData.videos : [];
-              
-              if (historyImages.length > 0) {
-                const updatedHistoryImages = historyImages.map((img: any, index: number) => {
-                  if (index === 0 || !img.aestheticScore) {
-                    return {
-                      ...img,
-                      aestheticScore: scoreNum,
-                    };
-                  }
-                  return img;
-                });
-                historyUpdateData.images = updatedHistoryImages;
-              }
-              
-              if (historyVideos.length > 0 && historyImages.length === 0) {
-                const updatedHistoryVideos = historyVideos.map((vid: any, index: number) => {
-                  if (index === 0 || !vid.aestheticScore) {
-                    return {
-                      ...vid,
-                      aestheticScore: scoreNum,
-                    };
-                  }
-                  return vid;
-                });
-                historyUpdateData.videos = updatedHistoryVideos;
-              }
-            }
-
-            await historyRef.update(historyUpdateData);
-          }
-        }
-
-        // Log the action
-        await adminDb.collection('adminAuditLogs').add({
-          adminId: req.adminId || 'unknown',
-          adminEmail: req.adminEmail || 'unknown',
-          action: 'bulk_update_aesthetic_score',
-          resource: 'generation',
-          resourceId: generationId,
-          details: {
-            newScore: scoreNum,
-            oldScore: oldScore,
-            bulkOperation: true,
-          },
-          createdAt: admin.firestore.FieldValue.serverTimestamp(),
-        });
+        await applyAestheticScore(generationRef, generationData, scoreNum, actor, undefined, true);
 
         results.push({ id: generationId, success: true });
       } catch (error: any) {
@@ -1028,7 +939,7 @@ export async function getArtStationItems(req: AdminRequest, res: Response) {
     // Check if DB has more (simple check since we are using single query)
     const dbHasMore = snapshot.size === fetchLimit;
 
-    let items = snapshot.docs.map(doc => ({
+    const items = snapshot.docs.map(doc => ({
       item: normalizeItem(doc.id, doc.data()),
       rawData: doc.data()
     }));
@@ -1286,16 +1197,14 @@ export async function removeFromArtStation(req: AdminRequest, res: Response) {
           }
 
           // Log the action
-          await adminDb.collection('adminAuditLogs').add({
-            adminId: req.adminId || 'unknown',
-            adminEmail: req.adminEmail || 'unknown',
-            action: 'remove_from_artstation',
+          await logAuditAction({
+            ...auditActor(req),
+            action: 'REMOVE_FROM_ARTSTATION',
             resource: 'generation',
             resourceId: id,
             details: {
               oldScore: oldScore,
             },
-            createdAt: admin.firestore.FieldValue.serverTimestamp(),
           });
 
           results.push({ id, success: true });
@@ -1389,16 +1298,14 @@ export async function removeFromArtStation(req: AdminRequest, res: Response) {
       }
 
       // Log the action
-      await adminDb.collection('adminAuditLogs').add({
-        adminId: req.adminId || 'unknown',
-        adminEmail: req.adminEmail || 'unknown',
-        action: 'remove_from_artstation',
+      await logAuditAction({
+        ...auditActor(req),
+        action: 'REMOVE_FROM_ARTSTATION',
         resource: 'generation',
         resourceId: generationId,
         details: {
           oldScore: oldScore,
         },
-        createdAt: admin.firestore.FieldValue.serverTimestamp(),
       });
 
       return res.json({
@@ -1463,13 +1370,11 @@ export async function deleteGeneration(req: AdminRequest, res: Response) {
     }
     
     // Log audit
-    await adminDb.collection('adminAuditLogs').add({
-      adminId: req.adminId || 'unknown',
-      adminEmail: req.adminEmail || 'unknown',
-      action: 'delete_generation',
+    await logAuditAction({
+      ...auditActor(req),
+      action: 'DELETE_GENERATION',
       resource: 'generation',
       resourceId: generationId,
-      createdAt: admin.firestore.FieldValue.serverTimestamp(),
     });
 
     return res.json({
@@ -1501,20 +1406,24 @@ export async function updateGeneration(req: AdminRequest, res: Response) {
 
     // Filter allowed fields
     const allowedFields = ['prompt', 'isPublic', 'isDeleted', 'aestheticScore'];
-    const updateData: any = {};
+    const changes: Record<string, unknown> = {};
     
     allowedFields.forEach(field => {
       if (updates[field] !== undefined) {
-        updateData[field] = updates[field];
+        changes[field] = updates[field];
       }
     });
 
-    if (Object.keys(updateData).length === 0) {
+    if (Object.keys(changes).length === 0) {
       return res.status(400).json({ error: 'No valid fields to update' });
     }
 
-    updateData.updatedAt = admin.firestore.FieldValue.serverTimestamp();
-    updateData.updatedBy = req.adminEmail || 'admin';
+    const updatedAt = new Date().toISOString();
+    const updateData: Record<string, unknown> = {
+      ...changes,
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      updatedBy: req.adminEmail || 'admin',
+    };
 
     const generationRef = adminDb.collection('generations').doc(generationId);
     
@@ -1540,14 +1449,13 @@ export async function updateGeneration(req: AdminRequest, res: Response) {
     }
 
     // Log audit
-    await adminDb.collection('adminAuditLogs').add({
-      adminId: req.adminId || 'unknown',
-      adminEmail: req.adminEmail || 'unknown',
-      action: 'update_generation',
+    await logAuditAction({
+      ...auditActor(req),
+      action: 'UPDATE_GENERATION',
       resource: 'generation',
       resourceId: generationId,
-      details: { updates: updateData },
-      createdAt: admin.firestore.FieldValue.serverTimestamp(),
+      // Only what the client sent; the serverTimestamp sentinel in updateData isn't JSON
+      details: { updates: changes, updatedAt },
     });
 
     return res.json({
@@ -1555,7 +1463,7 @@ export async function updateGeneration(req: AdminRequest, res: Response) {
       data: {
         generationId,
         message: 'Generation updated successfully',
-        updates: updateData
+        updates: changes
       },
     });
 
@@ -1,7 +1,33 @@
 import { Response } from "express";
 import { adminDb } from "../config/firebaseAdmin";
 import { AdminRequest } from "../middleware/authMiddleware";
-import { logAuditAction } from "./auditController";
+import { AuditActor, auditActor, logAuditAction } from "../services/auditLog";
+import { rescoreIdentifierInBackground } from "../services/riskScoring";
+
+export function blockedIpDocId(ip: string): string {
+  return ip.replace(/[./:]/g, "_");
+}
+
+/**
+ * Lift an IP block and audit it. `revertOf` links the entry to the block it undoes.
+ */
+export async function applyIpUnblock(
+  ip: string,
+  actor: AuditActor,
+  revertOf?: string,
+): Promise<void> {
+  await adminDb.collection("blockedIPs").doc(blockedIpDocId(ip)).delete();
+
+  await logAuditAction({
+    ...actor,
+    action: "UNBLOCK_IP",
+    resource: "ip",
+    resourceId: ip,
+    details: { ip, ...(revertOf ? { revertOf } : {}) },
+  });
+
+  rescoreIdentifierInBackground("ip", ip, "ip_unblocked");
+}
 
 /**
  * List all blocked IPs
@@ -39,7 +65,7 @@ export async function blockIP(req: AdminRequest, res: Response) {
     if (!ip) return res.status(400).json({ error: "ip is required" });
     if (!reason) return res.status(400).json({ error: "reason is required" });
 
-    const docId = ip.replace(/[./:]/g, "_");
+    const docId = blockedIpDocId(ip);
 
     const existing = await adminDb.collection("blockedIPs").doc(docId).get();
     if (existing.exists) {
@@ -58,12 +84,16 @@ export async function blockIP(req: AdminRequest, res: Response) {
       });
 
     await logAuditAction({
-      adminEmail: req.adminEmail || "admin",
+      ...auditActor(req),
       action: "BLOCK_IP",
+      resource: "ip",
+      resourceId: ip,
       targetUid: targetUid || undefined,
       details: { ip, reason },
     });
 
+    rescoreIdentifierInBackground("ip", ip, "ip_blocked");
+
     return res.json({ success: true, message: "IP blocked successfully" });
   } catch (error: any) {
     console.error("Error blocking IP:", error);
@@ -82,14 +112,7 @@ export async function unblockIP(req: AdminRequest, res: Response) {
     const { ip } = req.params;
     if (!ip) return res.status(400).json({ error: "ip is required" });
 
-    const docId = ip.replace(/[./:]/g, "_");
-    await adminDb.collection("blockedIPs").doc(docId).delete();
-
-    await logAuditAction({
-      adminEmail: req.adminEmail || "admin",
-      action: "UNBLOCK_IP",
-      details: { ip },
-    });
+    await applyIpUnblock(ip, auditActor(req));
 
     return res.json({ success: true, message: "IP unblocked successfully" });
   } catch (error: any) {
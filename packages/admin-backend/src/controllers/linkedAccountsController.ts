@@ -0,0 +1,68 @@
+import { Response } from "express";
+import { adminDb } from "../config/firebaseAdmin";
+import { AdminRequest } from "../middleware/authMiddleware";
+import {
+  MAX_ACCOUNTS_PER_IDENTIFIER,
+  findLinkedAccounts,
+} from "../services/linkedAccounts";
+import { errorMessage } from "../utils/errors";
+
+// Most linked accounts returned for one user
+const MAX_LINKED_ACCOUNTS = 200;
+
+/**
+ * Get every account that shares a device or IP with a user, strongest link
+ * first. A shared device is a strong link, two or more shared IPs medium,
+ * one shared IP weak. Banned accounts are flagged for ban-evasion review.
+ * GET /users/:uid/linked-accounts
+ */
+export async function getLinkedAccounts(req: AdminRequest, res: Response) {
+  try {
+    const { uid } = req.params;
+    if (!uid) return res.status(400).json({ error: "User ID is required" });
+
+    const userDoc = await adminDb.collection("users").doc(uid).get();
+    if (!userDoc.exists)
+      return res.status(404).json({ error: "User not found" });
+
+    const lookup = await findLinkedAccounts(uid, userDoc.data() || {});
+    const links = lookup.accounts.slice(0, MAX_LINKED_ACCOUNTS);
+
+    const userDocs = links.length
+      ? await adminDb.getAll(
+          ...links.map((link) => adminDb.collection("users").doc(link.uid)),
+        )
+      : [];
+    const accounts = links.map((link, i) => {
+      const data = userDocs[i]?.exists ? userDocs[i].data() || {} : null;
+      return {
+        ...link,
+        exists: !!data,
+        email: data?.email || null,
+        username: data?.username || null,
+        displayName: data?.displayName || null,
+        isBanned: !!data?.isBanned,
+        banReason: data?.banReason || null,
+        isSuspended: !!data?.isSuspended,
+      };
+    });
+
+    return res.json({
+      success: true,
+      data: {
+        accounts,
+        total: lookup.accounts.length,
+        bannedCount: accounts.filter((account) => account.isBanned).length,
+        devices: lookup.devices,
+        ips: lookup.ips,
+        crowded: lookup.crowded,
+        crowdedThreshold: MAX_ACCOUNTS_PER_IDENTIFIER,
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching linked accounts:", error);
+    return res
+      .status(500)
+      .json({ error: errorMessage(error, "Failed to fetch linked accounts") });
+  }
+}
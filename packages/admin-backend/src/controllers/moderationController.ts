@@ -1,12 +1,60 @@
 import { Response } from "express";
 import { adminDb, admin } from "../config/firebaseAdmin";
 import { AdminRequest } from "../middleware/authMiddleware";
-import { logAuditAction } from "./auditController";
+import { AuditActor, auditActor, logAuditAction } from "../services/auditLog";
+import { ApprovalReference, submitForApproval } from "./approvalsController";
+import { getApprovalPolicy } from "../services/approvals";
+import { liftSuspension } from "../services/suspensions";
+import { EscalationReference } from "../services/escalation";
+import { rescoreLinkedInBackground, scoreUser } from "../services/riskScoring";
+import {
+  claimHeldByOther,
+  clearClaim,
+  reviewClaimedMessage,
+} from "../services/reviewQueue";
+import { errorMessage } from "../utils/errors";
+
+/**
+ * Carry out a suspension and audit it. Called directly, or by a warning
+ * escalation rule (`escalation` explains which rule fired and why).
+ */
+export async function applySuspension(
+  uid: string,
+  reason: string,
+  suspendedUntil: string | undefined,
+  actor: AuditActor,
+  escalation?: EscalationReference,
+): Promise<void> {
+  const updateData: Record<string, unknown> = {
+    isSuspended: true,
+    suspendReason: reason,
+    suspendedAt: new Date().toISOString(),
+    suspendedBy: actor.adminEmail,
+  };
+  if (suspendedUntil) updateData.suspendedUntil = suspendedUntil;
+
+  await adminDb.collection("users").doc(uid).update(updateData);
+
+  // Revoke all tokens so they get logged out immediately
+  await admin.auth().revokeRefreshTokens(uid);
+
+  await logAuditAction({
+    ...actor,
+    action: "SUSPEND_USER",
+    targetUid: uid,
+    details: {
+      reason,
+      suspendedUntil,
+      ...(escalation ? { escalation } : {}),
+    },
+  });
+}
 
 /**
  * Suspend a user account
  * POST /users/:uid/suspend
  * Body: { reason: string, suspendedUntil?: string (ISO date) }
+ * A suspension with suspendedUntil is lifted automatically once that time passes.
  */
 export async function suspendUser(req: AdminRequest, res: Response) {
   try {
@@ -16,25 +64,27 @@ export async function suspendUser(req: AdminRequest, res: Response) {
     if (!uid) return res.status(400).json({ error: "User ID is required" });
     if (!reason) return res.status(400).json({ error: "Reason is required" });
 
-    const updateData: any = {
-      isSuspended: true,
-      suspendReason: reason,
-      suspendedAt: new Date().toISOString(),
-      suspendedBy: req.adminEmail || "admin",
-    };
-    if (suspendedUntil) updateData.suspendedUntil = suspendedUntil;
+    let until: string | undefined;
+    if (suspendedUntil) {
+      const date = new Date(suspendedUntil);
+      if (isNaN(date.getTime()))
+        return res
+          .status(400)
+          .json({ error: "suspendedUntil must be a valid date" });
+      if (date.getTime() <= Date.now())
+        return res
+          .status(400)
+          .json({ error: "suspendedUntil must be in the future" });
+      // Normalised so the expiry job can compare it with the current time
+      until = date.toISOString();
+    }
 
-    await adminDb.collection("users").doc(uid).update(updateData);
+    // Someone else is working this user in the review queue
+    const claim = await claimHeldByOther(uid, req.adminId);
+    if (claim)
+      return res.status(409).json({ error: reviewClaimedMessage(claim) });
 
-    // Revoke all tokens so they get logged out immediately
-    await admin.auth().revokeRefreshTokens(uid);
-
-    await logAuditAction({
-      adminEmail: req.adminEmail || "admin",
-      action: "SUSPEND_USER",
-      targetUid: uid,
-      details: { reason, suspendedUntil },
-    });
+    await applySuspension(uid, reason, until, auditActor(req));
 
     return res.json({ success: true, message: "User suspended successfully" });
   } catch (error: any) {
@@ -54,20 +104,7 @@ export async function unsuspendUser(req: AdminRequest, res: Response) {
     const { uid } = req.params;
     if (!uid) return res.status(400).json({ error: "User ID is required" });
 
-    await adminDb.collection("users").doc(uid).update({
-      isSuspended: false,
-      suspendReason: admin.firestore.FieldValue.delete(),
-      suspendedAt: admin.firestore.FieldValue.delete(),
-      suspendedBy: admin.firestore.FieldValue.delete(),
-      suspendedUntil: admin.firestore.FieldValue.delete(),
-    });
-
-    await logAuditAction({
-      adminEmail: req.adminEmail || "admin",
-      action: "UNSUSPEND_USER",
-      targetUid: uid,
-      details: {},
-    });
+    await liftSuspension(uid, auditActor(req));
 
     return res.json({
       success: true,
@@ -81,10 +118,40 @@ export async function unsuspendUser(req: AdminRequest, res: Response) {
   }
 }
 
+/**
+ * Carry out a ban and audit it. Called directly, or once a second admin approves.
+ */
+export async function applyBan(
+  uid: string,
+  reason: string,
+  actor: AuditActor,
+  approval?: ApprovalReference,
+): Promise<void> {
+  await adminDb.collection("users").doc(uid).update({
+    isBanned: true,
+    banReason: reason,
+    bannedAt: new Date().toISOString(),
+    bannedBy: actor.adminEmail,
+  });
+
+  // Disable in Firebase Auth so they cannot regenerate tokens
+  await admin.auth().updateUser(uid, { disabled: true });
+
+  await logAuditAction({
+    ...actor,
+    action: "BAN_USER",
+    targetUid: uid,
+    details: { reason, ...(approval ? { approval } : {}) },
+  });
+
+  rescoreLinkedInBackground(uid, "linked_account_banned");
+}
+
 /**
  * Ban a user account (permanent)
  * POST /users/:uid/ban
  * Body: { reason: string }
+ * Responds 202 with the pending request when the approval policy covers bans.
  */
 export async function banUser(req: AdminRequest, res: Response) {
   try {
@@ -94,25 +161,19 @@ export async function banUser(req: AdminRequest, res: Response) {
     if (!uid) return res.status(400).json({ error: "User ID is required" });
     if (!reason) return res.status(400).json({ error: "Reason is required" });
 
-    await adminDb
-      .collection("users")
-      .doc(uid)
-      .update({
-        isBanned: true,
-        banReason: reason,
-        bannedAt: new Date().toISOString(),
-        bannedBy: req.adminEmail || "admin",
+    // Someone else is working this user in the review queue
+    const claim = await claimHeldByOther(uid, req.adminId);
+    if (claim)
+      return res.status(409).json({ error: reviewClaimedMessage(claim) });
+
+    const policy = await getApprovalPolicy();
+    if (policy.banUser) {
+      return await submitForApproval(req, res, policy, "BAN_USER", uid, {
+        reason,
       });
+    }
 
-    // Disable in Firebase Auth so they cannot regenerate tokens
-    await admin.auth().updateUser(uid, { disabled: true });
-
-    await logAuditAction({
-      adminEmail: req.adminEmail || "admin",
-      action: "BAN_USER",
-      targetUid: uid,
-      details: { reason },
-    });
+    await applyBan(uid, reason, auditActor(req));
 
     return res.json({ success: true, message: "User banned successfully" });
   } catch (error: any) {
@@ -123,6 +184,35 @@ export async function banUser(req: AdminRequest, res: Response) {
   }
 }
 
+/**
+ * Lift a ban and audit it. Called directly, or when an appeal is approved
+ * (`details` then names the appeal).
+ */
+export async function applyUnban(
+  uid: string,
+  actor: AuditActor,
+  details: Record<string, any> = {},
+): Promise<void> {
+  await adminDb.collection("users").doc(uid).update({
+    isBanned: false,
+    banReason: admin.firestore.FieldValue.delete(),
+    bannedAt: admin.firestore.FieldValue.delete(),
+    bannedBy: admin.firestore.FieldValue.delete(),
+  });
+
+  // Re-enable in Firebase Auth
+  await admin.auth().updateUser(uid, { disabled: false });
+
+  await logAuditAction({
+    ...actor,
+    action: "UNBAN_USER",
+    targetUid: uid,
+    details,
+  });
+
+  rescoreLinkedInBackground(uid, "linked_account_unbanned");
+}
+
 /**
  * Unban a user account
  * POST /users/:uid/unban
@@ -132,22 +222,7 @@ export async function unbanUser(req: AdminRequest, res: Response) {
     const { uid } = req.params;
     if (!uid) return res.status(400).json({ error: "User ID is required" });
 
-    await adminDb.collection("users").doc(uid).update({
-      isBanned: false,
-      banReason: admin.firestore.FieldValue.delete(),
-      bannedAt: admin.firestore.FieldValue.delete(),
-      bannedBy: admin.firestore.FieldValue.delete(),
-    });
-
-    // Re-enable in Firebase Auth
-    await admin.auth().updateUser(uid, { disabled: false });
-
-    await logAuditAction({
-      adminEmail: req.adminEmail || "admin",
-      action: "UNBAN_USER",
-      targetUid: uid,
-      details: {},
-    });
+    await applyUnban(uid, auditActor(req));
 
     return res.json({ success: true, message: "User unbanned successfully" });
   } catch (error: any) {
@@ -158,6 +233,24 @@ export async function unbanUser(req: AdminRequest, res: Response) {
   }
 }
 
+/**
+ * Revoke a user's sessions and audit it.
+ */
+export async function applyForceLogout(
+  uid: string,
+  actor: AuditActor,
+  reason?: string,
+): Promise<void> {
+  await admin.auth().revokeRefreshTokens(uid);
+
+  await logAuditAction({
+    ...actor,
+    action: "FORCE_LOGOUT",
+    targetUid: uid,
+    details: reason ? { reason } : {},
+  });
+}
+
 /**
  * Force logout a user (revoke all sessions)
  * POST /users/:uid/force-logout
@@ -167,14 +260,7 @@ export async function forceLogout(req: AdminRequest, res: Response) {
     const { uid } = req.params;
     if (!uid) return res.status(400).json({ error: "User ID is required" });
 
-    await admin.auth().revokeRefreshTokens(uid);
-
-    await logAuditAction({
-      adminEmail: req.adminEmail || "admin",
-      action: "FORCE_LOGOUT",
-      targetUid: uid,
-      details: {},
-    });
+    await applyForceLogout(uid, auditActor(req));
 
     return res.json({
       success: true,
@@ -188,10 +274,44 @@ export async function forceLogout(req: AdminRequest, res: Response) {
   }
 }
 
+/**
+ * Carry out a role change and audit it. Called directly, once a second admin approves,
+ * or to revert an earlier change (`revertOf` links the entry to the one it undoes).
+ */
+export async function applyRoleChange(
+  uid: string,
+  role: string,
+  actor: AuditActor,
+  approval?: ApprovalReference,
+  revertOf?: string,
+): Promise<void> {
+  const previousDoc = await adminDb.collection("users").doc(uid).get();
+  const previousRole = previousDoc.data()?.role || "user";
+
+  await adminDb.collection("users").doc(uid).update({
+    role,
+    roleUpdatedAt: new Date().toISOString(),
+    roleUpdatedBy: actor.adminEmail,
+  });
+
+  await logAuditAction({
+    ...actor,
+    action: "SET_ROLE",
+    targetUid: uid,
+    details: {
+      previousRole,
+      newRole: role,
+      ...(approval ? { approval } : {}),
+      ...(revertOf ? { revertOf } : {}),
+    },
+  });
+}
+
 /**
  * Set user role
  * PATCH /users/:uid/role
  * Body: { role: 'user' | 'premium' | 'creator' | 'moderator' | 'admin' }
+ * Promotion to admin responds 202 with the pending request when the approval policy covers it.
  */
 export async function setUserRole(req: AdminRequest, res: Response) {
   try {
@@ -207,24 +327,23 @@ export async function setUserRole(req: AdminRequest, res: Response) {
       });
     }
 
-    const previousDoc = await adminDb.collection("users").doc(uid).get();
-    const previousRole = previousDoc.data()?.role || "user";
-
-    await adminDb
-      .collection("users")
-      .doc(uid)
-      .update({
-        role,
-        roleUpdatedAt: new Date().toISOString(),
-        roleUpdatedBy: req.adminEmail || "admin",
-      });
+    if (role === "admin") {
+      const policy = await getApprovalPolicy();
+      if (policy.promoteToAdmin) {
+        return await submitForApproval(
+          req,
+          res,
+          policy,
+          "SET_ROLE_ADMIN",
+          uid,
+          {
+            role,
+          },
+        );
+      }
+    }
 
-    await logAuditAction({
-      adminEmail: req.adminEmail || "admin",
-      action: "SET_ROLE",
-      targetUid: uid,
-      details: { previousRole, newRole: role },
-    });
+    await applyRoleChange(uid, role, auditActor(req));
 
     return res.json({ success: true, message: `Role updated to ${role}` });
   } catch (error: any) {
@@ -255,7 +374,7 @@ export async function verifyUserEmail(req: AdminRequest, res: Response) {
       });
 
     await logAuditAction({
-      adminEmail: req.adminEmail || "admin",
+      ...auditActor(req),
       action: "VERIFY_EMAIL",
       targetUid: uid,
       details: {},
@@ -270,8 +389,38 @@ export async function verifyUserEmail(req: AdminRequest, res: Response) {
   }
 }
 
+/**
+ * Put a user under review and audit it. Used by warning escalation rules.
+ */
+export async function applyReviewFlag(
+  uid: string,
+  reason: string,
+  actor: AuditActor,
+  escalation?: EscalationReference,
+): Promise<void> {
+  const userRef = adminDb.collection("users").doc(uid);
+  const userDoc = await userRef.get();
+  const update: Record<string, unknown> = {
+    isUnderReview: true,
+    reviewFlaggedAt: new Date().toISOString(),
+    reviewFlaggedBy: actor.adminEmail,
+    reviewReason: reason,
+  };
+  // The review queue orders by riskScore, which leaves out users without one
+  if (typeof userDoc.data()?.riskScore !== "number") update.riskScore = 0;
+  await userRef.update(update);
+
+  await logAuditAction({
+    ...actor,
+    action: "FLAG_FOR_REVIEW",
+    targetUid: uid,
+    details: { reason, ...(escalation ? { escalation } : {}) },
+  });
+}
+
 /**
  * Clear a user's 'Under Review' status and reset their risk score.
+ * The scorer won't flag them again until their score exceeds what it was here.
  * POST /users/:uid/clear-review
  */
 export async function clearUserReview(req: AdminRequest, res: Response) {
@@ -279,22 +428,32 @@ export async function clearUserReview(req: AdminRequest, res: Response) {
     const { uid } = req.params;
     if (!uid) return res.status(400).json({ error: "User ID is required" });
 
-    await adminDb
-      .collection("users")
-      .doc(uid)
-      .update({
-        isUnderReview: false,
-        riskScore: 0,
-        reviewClearedAt: new Date().toISOString(),
-        reviewClearedBy: req.adminEmail || "admin",
-      });
+    const userRef = adminDb.collection("users").doc(uid);
+    const userDoc = await userRef.get();
+    if (!userDoc.exists)
+      return res.status(404).json({ error: "User not found" });
+
+    // Someone else is working this user in the review queue
+    const claim = await claimHeldByOther(uid, req.adminId);
+    if (claim)
+      return res.status(409).json({ error: reviewClaimedMessage(claim) });
+
+    await userRef.update({
+      isUnderReview: false,
+      riskScore: 0,
+      reviewClearedRiskScore: userDoc.data()?.riskScore || 0,
+      reviewReason: admin.firestore.FieldValue.delete(),
+      reviewClearedAt: new Date().toISOString(),
+      reviewClearedBy: req.adminEmail || "admin",
+    });
 
     await logAuditAction({
-      adminEmail: req.adminEmail || "admin",
+      ...auditActor(req),
       action: "CLEAR_MODERATION_REVIEW",
       targetUid: uid,
       details: {},
     });
+    await clearClaim(uid);
 
     return res.json({
       success: true,
@@ -307,3 +466,34 @@ export async function clearUserReview(req: AdminRequest, res: Response) {
       .json({ error: error.message || "Failed to clear user review" });
   }
 }
+
+/**
+ * Recompute a user's risk score now instead of waiting for the next event or
+ * scheduled run. Flags the user for review if the score crosses the threshold.
+ * POST /users/:uid/risk-score
+ */
+export async function recomputeRiskScore(req: AdminRequest, res: Response) {
+  try {
+    const { uid } = req.params;
+    if (!uid) return res.status(400).json({ error: "User ID is required" });
+
+    const assessment = await scoreUser(
+      uid,
+      `manual:${req.adminEmail || "admin"}`,
+    );
+    if (!assessment) return res.status(404).json({ error: "User not found" });
+
+    return res.json({
+      success: true,
+      message: assessment.flagged
+        ? `Risk score ${assessment.score}; user flagged for review`
+        : `Risk score ${assessment.score}`,
+      data: { assessment },
+    });
+  } catch (error) {
+    console.error("Error computing risk score:", error);
+    return res
+      .status(500)
+      .json({ error: errorMessage(error, "Failed to compute risk score") });
+  }
+}
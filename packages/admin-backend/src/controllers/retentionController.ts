@@ -0,0 +1,219 @@
+import { Response } from "express";
+import { AdminRequest } from "../middleware/authMiddleware";
+import { auditActor, logAuditAction } from "../services/auditLog";
+import {
+  MAX_REHYDRATE_ENTRIES,
+  MIN_RETENTION_DAYS,
+  RETENTION_COLLECTIONS,
+  RetentionPolicy,
+  getRetentionPolicy as loadRetentionPolicy,
+  getRetentionStatus,
+  isRetentionCollection,
+  listArchives,
+  rehydrateArchives,
+  runRetention,
+  saveRetentionPolicy,
+} from "../services/retention";
+import { errorMessage } from "../utils/errors";
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Get the retention policy and the outcome of the last run
+ * GET /retention
+ */
+export async function getRetention(req: AdminRequest, res: Response) {
+  try {
+    const [policy, status] = await Promise.all([
+      loadRetentionPolicy(),
+      getRetentionStatus(),
+    ]);
+    return res.json({
+      success: true,
+      data: {
+        policy,
+        status,
+        collections: RETENTION_COLLECTIONS,
+        minRetentionDays: MIN_RETENTION_DAYS,
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching retention policy:", error);
+    return res
+      .status(500)
+      .json({ error: errorMessage(error, "Failed to fetch retention policy") });
+  }
+}
+
+/**
+ * Replace the retention policy
+ * PUT /retention/policy
+ * Body: { auditLogs: number | null, adminAuditLogs: number | null, emailLogs: number | null, creditHistory: number | null }
+ * Each value is a number of days, or null to keep entries forever.
+ */
+export async function updateRetentionPolicy(req: AdminRequest, res: Response) {
+  try {
+    const policy = {} as RetentionPolicy;
+    for (const collection of RETENTION_COLLECTIONS) {
+      const days = req.body?.[collection];
+      if (days === null || days === undefined) {
+        policy[collection] = null;
+      } else if (Number.isInteger(days) && days >= MIN_RETENTION_DAYS) {
+        policy[collection] = days;
+      } else {
+        return res.status(400).json({
+          error: `${collection} must be null or a whole number of days, at least ${MIN_RETENTION_DAYS}`,
+        });
+      }
+    }
+
+    const previous = await loadRetentionPolicy();
+    await saveRetentionPolicy(policy, req.adminEmail || "admin");
+
+    await logAuditAction({
+      ...auditActor(req),
+      action: "UPDATE_RETENTION_POLICY",
+      resource: "retention_policy",
+      details: { previous, policy },
+    });
+
+    return res.json({
+      success: true,
+      message: "Retention policy updated",
+      data: { policy },
+    });
+  } catch (error) {
+    console.error("Error updating retention policy:", error);
+    return res
+      .status(500)
+      .json({
+        error: errorMessage(error, "Failed to update retention policy"),
+      });
+  }
+}
+
+/**
+ * List archive files, newest first
+ * GET /retention/archives?collection=
+ */
+export async function listRetentionArchives(req: AdminRequest, res: Response) {
+  try {
+    const { collection } = req.query;
+    if (collection && !isRetentionCollection(collection)) {
+      return res.status(400).json({
+        error: `collection must be one of: ${RETENTION_COLLECTIONS.join(", ")}`,
+      });
+    }
+
+    const archives = await listArchives(collection || undefined);
+    return res.json({
+      success: true,
+      data: { archives, total: archives.length },
+    });
+  } catch (error) {
+    console.error("Error listing archives:", error);
+    return res
+      .status(500)
+      .json({ error: errorMessage(error, "Failed to list archives") });
+  }
+}
+
+/**
+ * Run retention now instead of waiting for the scheduled job
+ * POST /retention/run
+ */
+export async function runRetentionNow(req: AdminRequest, res: Response) {
+  try {
+    const status = await runRetention("manual", req.adminEmail || "admin");
+
+    await logAuditAction({
+      ...auditActor(req),
+      action: "RUN_RETENTION",
+      resource: "retention",
+      details: {
+        trigger: "manual",
+        results: status.results,
+        error: status.error,
+      },
+    });
+
+    return res.json({
+      success: true,
+      message: status.error
+        ? "Retention finished with errors"
+        : "Retention run complete",
+      data: { status },
+    });
+  } catch (error) {
+    console.error("Error running retention:", error);
+    return res
+      .status(500)
+      .json({ error: errorMessage(error, "Failed to run retention") });
+  }
+}
+
+/**
+ * Copy archived entries from a time range back into Firestore for an investigation.
+ * They land in `rehydrated_<collection>`, not the live collection.
+ * POST /retention/rehydrate
+ * Body: { collection, from, to }
+ */
+export async function rehydrateArchive(req: AdminRequest, res: Response) {
+  try {
+    const { collection, from, to } = req.body || {};
+    if (!isRetentionCollection(collection)) {
+      return res.status(400).json({
+        error: `collection must be one of: ${RETENTION_COLLECTIONS.join(", ")}`,
+      });
+    }
+    if (!from || !to) {
+      return res.status(400).json({ error: "from and to are required" });
+    }
+    const fromDate = new Date(String(from));
+    const toDate = new Date(String(to));
+    if (isNaN(fromDate.getTime()) || isNaN(toDate.getTime())) {
+      return res.status(400).json({ error: "from and to must be valid dates" });
+    }
+    // A plain `to` date covers that whole day
+    if (DATE_ONLY.test(String(to))) {
+      toDate.setUTCDate(toDate.getUTCDate() + 1);
+      toDate.setTime(toDate.getTime() - 1);
+    }
+    if (fromDate > toDate) {
+      return res.status(400).json({ error: "from must be before to" });
+    }
+
+    const result = await rehydrateArchives(
+      collection,
+      fromDate.toISOString(),
+      toDate.toISOString(),
+      req.adminEmail || "admin",
+    );
+
+    await logAuditAction({
+      ...auditActor(req),
+      action: "REHYDRATE_ARCHIVE",
+      resource: "retention",
+      resourceId: collection,
+      details: {
+        collection,
+        from: fromDate.toISOString(),
+        to: toDate.toISOString(),
+        ...result,
+      },
+    });
+
+    return res.json({
+      success: true,
+      message: result.truncated
+        ? `Rehydrated the first ${MAX_REHYDRATE_ENTRIES} entries into ${result.targetCollection}; narrow the range for the rest`
+        : `Rehydrated ${result.rehydrated} entries into ${result.targetCollection}`,
+      data: result,
+    });
+  } catch (error) {
+    console.error("Error rehydrating archive:", error);
+    return res
+      .status(500)
+      .json({ error: errorMessage(error, "Failed to rehydrate archive") });
+  }
+}
@@ -0,0 +1,122 @@
+import { Response } from "express";
+import { AdminRequest } from "../middleware/authMiddleware";
+import {
+  REVIEW_CLAIM_TTL_MINUTES,
+  ReviewClaim,
+  claimReview,
+  listReviewQueue,
+  releaseReview,
+} from "../services/reviewQueue";
+import { errorMessage } from "../utils/errors";
+
+const DEFAULT_QUEUE_LIMIT = 50;
+const MAX_QUEUE_LIMIT = 200;
+
+function claimedByMessage(claim: ReviewClaim) {
+  return `Already claimed by ${claim.adminEmail}`;
+}
+
+/**
+ * List users flagged for review, highest risk score first, with their risk
+ * reasons and who (if anyone) has claimed each one. Paged with the
+ * `nextCursor` from the previous response.
+ * GET /review-queue?limit=50&cursor=<uid>
+ */
+export async function getReviewQueue(req: AdminRequest, res: Response) {
+  try {
+    const limit = Math.min(
+      Math.max(parseInt(req.query.limit as string) || DEFAULT_QUEUE_LIMIT, 1),
+      MAX_QUEUE_LIMIT,
+    );
+    const cursor =
+      typeof req.query.cursor === "string" && req.query.cursor
+        ? req.query.cursor
+        : undefined;
+    const result = await listReviewQueue(limit, cursor);
+    if (result.status === "invalid_cursor")
+      return res.status(400).json({ error: "Invalid cursor" });
+
+    return res.json({
+      success: true,
+      data: {
+        entries: result.page.entries,
+        nextCursor: result.page.nextCursor,
+        claimTtlMinutes: REVIEW_CLAIM_TTL_MINUTES,
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching review queue:", error);
+    return res
+      .status(500)
+      .json({ error: errorMessage(error, "Failed to fetch review queue") });
+  }
+}
+
+/**
+ * Claim a flagged user so no other moderator works them at the same time.
+ * Claiming a user you already hold renews the claim.
+ * POST /review-queue/:uid/claim
+ */
+export async function claimReviewUser(req: AdminRequest, res: Response) {
+  try {
+    const { uid } = req.params;
+    if (!uid) return res.status(400).json({ error: "User ID is required" });
+
+    const result = await claimReview(uid, {
+      adminId: req.adminId as string,
+      adminEmail: req.adminEmail || "admin",
+    });
+    switch (result.status) {
+      case "not_found":
+        return res.status(404).json({ error: "User not found" });
+      case "not_under_review":
+        return res.status(409).json({ error: "User is not under review" });
+      case "claimed_by_other":
+        return res.status(409).json({
+          error: claimedByMessage(result.claim),
+          data: { claim: result.claim },
+        });
+    }
+
+    return res.json({
+      success: true,
+      message: `Claimed for ${REVIEW_CLAIM_TTL_MINUTES} minutes`,
+      data: { claim: result.claim },
+    });
+  } catch (error) {
+    console.error("Error claiming review:", error);
+    return res
+      .status(500)
+      .json({ error: errorMessage(error, "Failed to claim review") });
+  }
+}
+
+/**
+ * Release your claim on a flagged user, leaving them in the queue.
+ * DELETE /review-queue/:uid/claim
+ */
+export async function releaseReviewUser(req: AdminRequest, res: Response) {
+  try {
+    const { uid } = req.params;
+    if (!uid) return res.status(400).json({ error: "User ID is required" });
+
+    const result = await releaseReview(uid, req.adminId as string);
+    if (result.status === "claimed_by_other") {
+      return res.status(409).json({
+        error: claimedByMessage(result.claim),
+        data: { claim: result.claim },
+      });
+    }
+
+    return res.json({
+      success: true,
+      message:
+        result.status === "released" ? "Claim released" : "No claim to release",
+    });
+  } catch (error) {
+    console.error("Error releasing review claim:", error);
+    return res
+      .status(500)
+      .json({ error: errorMessage(error, "Failed to release review claim") });
+  }
+}
@@ -0,0 +1,300 @@
+import { Response } from "express";
+import QRCode from "qrcode";
+import { env } from "../config/env";
+import { AdminRequest } from "../middleware/authMiddleware";
+import { auditActor, logAuditAction } from "../services/auditLog";
+import { completeLogin, loadSessionAdmin } from "./authController";
+import { BOOTSTRAP_ADMIN_ID, getAdminById } from "../services/adminUsers";
+import {
+  clearTwoFactor,
+  confirmPendingSecret,
+  getTwoFactor,
+  replaceRecoveryCodes,
+  savePendingSecret,
+  verifyTwoFactorCode,
+} from "../services/adminTwoFactor";
+import { buildOtpAuthUrl, generateSecret } from "../utils/totp";
+import { errorMessage } from "../utils/errors";
+
+/**
+ * Get the signed-in admin's 2FA status
+ * GET /auth/2fa
+ */
+export async function getTwoFactorStatus(req: AdminRequest, res: Response) {
+  try {
+    const record = await getTwoFactor(req.adminId as string);
+    return res.json({
+      success: true,
+      data: {
+        enabled: !!record?.enabled,
+        enabledAt: record?.enabledAt || null,
+        recoveryCodesRemaining: record?.recoveryCodeHashes?.length || 0,
+        enforced: env.require2fa,
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching 2FA status:", error);
+    return res
+      .status(500)
+      .json({ error: errorMessage(error, "Failed to fetch 2FA status") });
+  }
+}
+
+/**
+ * Start enrollment: generate a secret and return it with a QR code.
+ * The secret is not active until confirmed via /enable.
+ * POST /auth/2fa/setup
+ * POST /auth/2fa/enroll/setup  (Body: { challengeToken })
+ */
+export async function setupTwoFactor(req: AdminRequest, res: Response) {
+  try {
+    const adminId = req.adminId as string;
+    const record = await getTwoFactor(adminId);
+    if (record?.enabled) {
+      return res
+        .status(400)
+        .json({ error: "Two-factor authentication is already enabled" });
+    }
+
+    const secret = generateSecret();
+    await savePendingSecret(adminId, secret);
+
+    const otpauthUrl = buildOtpAuthUrl(
+      env.totpIssuer,
+      req.adminEmail || adminId,
+      secret,
+    );
+    const qrCodeDataUrl = await QRCode.toDataURL(otpauthUrl);
+
+    return res.json({
+      success: true,
+      data: { secret, otpauthUrl, qrCodeDataUrl },
+    });
+  } catch (error) {
+    console.error("Error starting 2FA setup:", error);
+    return res
+      .status(500)
+      .json({ error: errorMessage(error, "Failed to start 2FA setup") });
+  }
+}
+
+/**
+ * Confirm the pending secret with a code from the authenticator app.
+ * Returns false after sending an error response.
+ */
+async function confirmEnrollment(
+  req: AdminRequest,
+  res: Response,
+): Promise<string[] | false> {
+  const { code } = req.body;
+  if (!code) {
+    res.status(400).json({ error: "code is required" });
+    return false;
+  }
+
+  const recoveryCodes = await confirmPendingSecret(
+    req.adminId as string,
+    String(code),
+  );
+  if (!recoveryCodes) {
+    res
+      .status(400)
+      .json({ error: "Invalid verification code, or setup was not started" });
+    return false;
+  }
+
+  await logAuditAction({
+    ...auditActor(req),
+    action: "ENABLE_2FA",
+    resource: "admin_user",
+    resourceId: req.adminId,
+    details: { adminId: req.adminId },
+  });
+  return recoveryCodes;
+}
+
+/**
+ * Enable 2FA for the signed-in admin
+ * POST /auth/2fa/enable
+ * Body: { code }
+ */
+export async function enableTwoFactor(req: AdminRequest, res: Response) {
+  try {
+    const recoveryCodes = await confirmEnrollment(req, res);
+    if (!recoveryCodes) return;
+
+    return res.json({
+      success: true,
+      message: "Two-factor authentication enabled",
+      data: { recoveryCodes },
+    });
+  } catch (error) {
+    console.error("Error enabling 2FA:", error);
+    return res
+      .status(500)
+      .json({ error: errorMessage(error, "Failed to enable 2FA") });
+  }
+}
+
+/**
+ * Mandatory enrollment during login (when 2FA is enforced); signs the admin in on success
+ * POST /auth/2fa/enroll/enable
+ * Body: { challengeToken, code }
+ */
+export async function completeTwoFactorEnrollment(
+  req: AdminRequest,
+  res: Response,
+) {
+  try {
+    const sessionAdmin = await loadSessionAdmin(req.adminId as string);
+    if (!sessionAdmin) {
+      return res
+        .status(401)
+        .json({ error: "Unauthorized - Admin account is disabled" });
+    }
+
+    const recoveryCodes = await confirmEnrollment(req, res);
+    if (!recoveryCodes) return;
+
+    return completeLogin(req, res, sessionAdmin, { recoveryCodes });
+  } catch (error) {
+    console.error("Error completing 2FA enrollment:", error);
+    return res
+      .status(500)
+      .json({ error: errorMessage(error, "Failed to enable 2FA") });
+  }
+}
+
+/**
+ * Turn off 2FA for the signed-in admin (not allowed while enforced)
+ * POST /auth/2fa/disable
+ * Body: { code }
+ */
+export async function disableTwoFactor(req: AdminRequest, res: Response) {
+  try {
+    const { code } = req.body;
+    const adminId = req.adminId as string;
+
+    if (env.require2fa) {
+      return res.status(400).json({
+        error: "Two-factor authentication is required for all admins",
+      });
+    }
+    if (!code) return res.status(400).json({ error: "code is required" });
+    if (!(await verifyTwoFactorCode(adminId, String(code)))) {
+      return res.status(400).json({ error: "Invalid verification code" });
+    }
+
+    await clearTwoFactor(adminId);
+
+    await logAuditAction({
+      ...auditActor(req),
+      action: "DISABLE_2FA",
+      resource: "admin_user",
+      resourceId: adminId,
+      details: { adminId },
+    });
+
+    return res.json({
+      success: true,
+      message: "Two-factor authentication disabled",
+    });
+  } catch (error) {
+    console.error("Error disabling 2FA:", error);
+    return res
+      .status(500)
+      .json({ error: errorMessage(error, "Failed to disable 2FA") });
+  }
+}
+
+/**
+ * Replace all recovery codes for the signed-in admin
+ * POST /auth/2fa/recovery-codes
+ * Body: { code }
+ */
+export async function regenerateRecoveryCodes(
+  req: AdminRequest,
+  res: Response,
+) {
+  try {
+    const { code } = req.body;
+    const adminId = req.adminId as string;
+
+    if (!code) return res.status(400).json({ error: "code is required" });
+    if (!(await verifyTwoFactorCode(adminId, String(code)))) {
+      return res.status(400).json({ error: "Invalid verification code" });
+    }
+
+    const recoveryCodes = await replaceRecoveryCodes(adminId);
+
+    await logAuditAction({
+      ...auditActor(req),
+      action: "REGENERATE_2FA_RECOVERY_CODES",
+      resource: "admin_user",
+      resourceId: adminId,
+      details: { adminId },
+    });
+
+    return res.json({
+      success: true,
+      message: "Recovery codes regenerated",
+      data: { recoveryCodes },
+    });
+  } catch (error) {
+    console.error("Error regenerating recovery codes:", error);
+    return res
+      .status(500)
+      .json({
+        error: errorMessage(error, "Failed to regenerate recovery codes"),
+      });
+  }
+}
+
+/**
+ * Clear another admin's 2FA enrollment (lost device)
+ * POST /admin-users/:id/2fa/reset
+ */
+export async function resetAdminTwoFactor(req: AdminRequest, res: Response) {
+  try {
+    const { id } = req.params;
+    if (!id) return res.status(400).json({ error: "Admin ID is required" });
+    if (id === req.adminId)
+      return res.status(400).json({
+        error: "Use your account security settings to change your own 2FA",
+      });
+
+    let email = env.adminEmail;
+    if (id !== BOOTSTRAP_ADMIN_ID) {
+      const existing = await getAdminById(id);
+      if (!existing) return res.status(404).json({ error: "Admin not found" });
+      email = existing.email;
+    }
+
+    const record = await getTwoFactor(id);
+    if (!record?.enabled) {
+      return res
+        .status(400)
+        .json({ error: "This admin does not have 2FA enabled" });
+    }
+
+    await clearTwoFactor(id);
+
+    await logAuditAction({
+      ...auditActor(req),
+      action: "RESET_2FA",
+      resource: "admin_user",
+      resourceId: id,
+      details: { adminId: id, email },
+    });
+
+    return res.json({
+      success: true,
+      message: "Two-factor authentication reset",
+    });
+  } catch (error) {
+    console.error("Error resetting 2FA:", error);
+    return res
+      .status(500)
+      .json({ error: errorMessage(error, "Failed to reset 2FA") });
+  }
+}
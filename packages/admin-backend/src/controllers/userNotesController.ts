@@ -0,0 +1,176 @@
+import { Response } from "express";
+import { adminDb, admin } from "../config/firebaseAdmin";
+import { AdminRequest } from "../middleware/authMiddleware";
+import { auditActor, logAuditAction } from "../services/auditLog";
+import { errorMessage } from "../utils/errors";
+
+// Notes are append-only: they can be pinned or unpinned, never edited or deleted
+const USER_NOTES_COLLECTION = "userAdminNotes";
+const MAX_NOTE_LENGTH = 5000;
+
+/**
+ * Get the admin notes on a user, pinned first, then newest first
+ * GET /users/:uid/notes
+ */
+export async function getUserNotes(req: AdminRequest, res: Response) {
+  try {
+    const { uid } = req.params;
+    if (!uid) return res.status(400).json({ error: "User ID is required" });
+
+    const snapshot = await adminDb
+      .collection(USER_NOTES_COLLECTION)
+      .where("uid", "==", uid)
+      .orderBy("createdAt", "desc")
+      .get();
+
+    const notes = snapshot.docs
+      .map((doc) => ({ id: doc.id, ...doc.data() }))
+      .sort(
+        (
+          a: FirebaseFirestore.DocumentData,
+          b: FirebaseFirestore.DocumentData,
+        ) => Number(!!b.pinned) - Number(!!a.pinned),
+      );
+
+    return res.json({
+      success: true,
+      data: { notes, total: notes.length },
+    });
+  } catch (error) {
+    console.error("Error fetching admin notes:", error);
+    return res
+      .status(500)
+      .json({ error: errorMessage(error, "Failed to fetch notes") });
+  }
+}
+
+/**
+ * Add an admin note to a user
+ * POST /users/:uid/notes
+ * Body: { body: string, pinned?: boolean }
+ */
+export async function addUserNote(req: AdminRequest, res: Response) {
+  try {
+    const { uid } = req.params;
+    const { body, pinned } = req.body;
+
+    if (!uid) return res.status(400).json({ error: "User ID is required" });
+    if (!body || typeof body !== "string" || !body.trim())
+      return res.status(400).json({ error: "Note text is required" });
+    if (body.length > MAX_NOTE_LENGTH)
+      return res
+        .status(400)
+        .json({ error: `Notes are limited to ${MAX_NOTE_LENGTH} characters` });
+
+    const userRef = adminDb.collection("users").doc(uid);
+    const userDoc = await userRef.get();
+    if (!userDoc.exists)
+      return res.status(404).json({ error: "User not found" });
+
+    const now = new Date().toISOString();
+    const noteRef = adminDb.collection(USER_NOTES_COLLECTION).doc();
+    const note = {
+      uid,
+      body: body.trim(),
+      authorId: req.adminId || "admin",
+      authorEmail: req.adminEmail || "admin",
+      createdAt: now,
+      pinned: pinned === true,
+      ...(pinned === true
+        ? { pinnedAt: now, pinnedBy: req.adminEmail || "admin" }
+        : {}),
+    };
+
+    // Counters on the user doc drive the badge in the user list
+    const batch = adminDb.batch();
+    batch.set(noteRef, note);
+    batch.update(userRef, {
+      adminNoteCount: admin.firestore.FieldValue.increment(1),
+      ...(note.pinned
+        ? { pinnedAdminNoteCount: admin.firestore.FieldValue.increment(1) }
+        : {}),
+      lastAdminNoteAt: now,
+    });
+    await batch.commit();
+
+    await logAuditAction({
+      ...auditActor(req),
+      action: "ADD_ADMIN_NOTE",
+      targetUid: uid,
+      details: { noteId: noteRef.id, pinned: note.pinned },
+    });
+
+    return res.json({
+      success: true,
+      message: "Note added",
+      data: { note: { id: noteRef.id, ...note } },
+    });
+  } catch (error) {
+    console.error("Error adding admin note:", error);
+    return res
+      .status(500)
+      .json({ error: errorMessage(error, "Failed to add note") });
+  }
+}
+
+/**
+ * Pin or unpin an admin note
+ * PUT /users/:uid/notes/:noteId/pin
+ * Body: { pinned: boolean }
+ */
+export async function setUserNotePinned(req: AdminRequest, res: Response) {
+  try {
+    const { uid, noteId } = req.params;
+    const { pinned } = req.body;
+
+    if (typeof pinned !== "boolean")
+      return res.status(400).json({ error: "pinned must be a boolean" });
+
+    const noteRef = adminDb.collection(USER_NOTES_COLLECTION).doc(noteId);
+    const userRef = adminDb.collection("users").doc(uid);
+
+    const changed = await adminDb.runTransaction(async (tx) => {
+      const noteDoc = await tx.get(noteRef);
+      if (!noteDoc.exists || noteDoc.data()?.uid !== uid) return null;
+      if (!!noteDoc.data()?.pinned === pinned) return false;
+
+      tx.update(noteRef, {
+        pinned,
+        pinnedAt: pinned
+          ? new Date().toISOString()
+          : admin.firestore.FieldValue.delete(),
+        pinnedBy: pinned
+          ? req.adminEmail || "admin"
+          : admin.firestore.FieldValue.delete(),
+      });
+      tx.update(userRef, {
+        pinnedAdminNoteCount: admin.firestore.FieldValue.increment(
+          pinned ? 1 : -1,
+        ),
+      });
+      return true;
+    });
+
+    if (changed === null)
+      return res.status(404).json({ error: "Note not found" });
+
+    if (changed) {
+      await logAuditAction({
+        ...auditActor(req),
+        action: pinned ? "PIN_ADMIN_NOTE" : "UNPIN_ADMIN_NOTE",
+        targetUid: uid,
+        details: { noteId },
+      });
+    }
+
+    return res.json({
+      success: true,
+      message: pinned ? "Note pinned" : "Note unpinned",
+    });
+  } catch (error) {
+    console.error("Error pinning admin note:", error);
+    return res
+      .status(500)
+      .json({ error: errorMessage(error, "Failed to update note") });
+  }
+}
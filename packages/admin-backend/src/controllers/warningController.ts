@@ -1,10 +1,161 @@
 import { Response } from "express";
 import { adminDb, admin } from "../config/firebaseAdmin";
 import { AdminRequest } from "../middleware/authMiddleware";
-import { logAuditAction } from "./auditController";
+import { rescoreInBackground } from "../services/riskScoring";
+import {
+  AuditActor,
+  SYSTEM_ACTOR,
+  auditActor,
+  logAuditAction,
+} from "../services/auditLog";
+import {
+  EscalationAction,
+  EscalationMatch,
+  EscalationReference,
+  getEscalationPolicy,
+  getRecentWarningTimes,
+  matchEscalationRules,
+  saveEscalationPolicy,
+  validateEscalationRules,
+} from "../services/escalation";
+import { applyReviewFlag, applySuspension } from "./moderationController";
+import {
+  claimHeldByOther,
+  reviewClaimedMessage,
+} from "../services/reviewQueue";
+import { errorMessage } from "../utils/errors";
+
+export interface AppliedEscalation {
+  ruleId: string;
+  ruleName: string;
+  action: EscalationAction;
+  suspendedUntil?: string;
+}
+
+/**
+ * Apply the escalation rules the new warning made fire. Sanctions are applied as
+ * the system actor, with the rule and the issuing admin in the audit details.
+ * A sanction already in effect (suspended, banned, under review) is skipped.
+ */
+async function escalateWarning(
+  uid: string,
+  warningId: string,
+  issuedBy: string,
+  matches: EscalationMatch[],
+): Promise<AppliedEscalation[]> {
+  if (!matches.length) return [];
+
+  const applied: AppliedEscalation[] = [];
+  for (const { rule, count } of matches) {
+    const user = (await adminDb.collection("users").doc(uid).get()).data();
+    if (!user || user.isBanned) break;
+
+    const escalation: EscalationReference = {
+      ruleId: rule.id,
+      ruleName: rule.name,
+      warnings: count,
+      windowDays: rule.windowDays,
+      warningId,
+      triggeredBy: issuedBy,
+    };
+    const reason = `${rule.name}: ${count} warnings in ${rule.windowDays} days`;
+
+    if (rule.action === "suspend" && !user.isSuspended) {
+      const suspendedUntil = new Date(
+        Date.now() + (rule.suspendDays || 1) * 24 * 60 * 60 * 1000,
+      ).toISOString();
+      await applySuspension(
+        uid,
+        reason,
+        suspendedUntil,
+        SYSTEM_ACTOR,
+        escalation,
+      );
+      applied.push({
+        ruleId: rule.id,
+        ruleName: rule.name,
+        action: "suspend",
+        suspendedUntil,
+      });
+    } else if (rule.action === "review" && !user.isUnderReview) {
+      await applyReviewFlag(uid, reason, SYSTEM_ACTOR, escalation);
+      applied.push({ ruleId: rule.id, ruleName: rule.name, action: "review" });
+    }
+  }
+  return applied;
+}
+
+export interface IssuedWarning {
+  warningId: string;
+  escalations: AppliedEscalation[];
+  escalationError?: string;
+}
+
+/**
+ * Record a warning, audit it, then apply any escalation rule it makes fire.
+ * The warning stands even if a sanction fails; that comes back as escalationError.
+ */
+export async function applyWarning(
+  uid: string,
+  reason: string,
+  actor: AuditActor,
+): Promise<IssuedWarning> {
+  const { rules } = await getEscalationPolicy();
+  const userRef = adminDb.collection("users").doc(uid);
+  const warningRef = adminDb.collection("userWarnings").doc();
+
+  // Counted in the transaction that records the warning: reading and writing
+  // the user doc serializes warnings to the same user, so each one sees those
+  // before it and only one of them can reach a rule's threshold
+  const matches = await adminDb.runTransaction(async (tx) => {
+    await tx.get(userRef);
+    const earlier = await getRecentWarningTimes(tx, uid, rules);
+    const issuedAt = new Date().toISOString();
+    tx.create(warningRef, {
+      uid,
+      reason,
+      issuedAt,
+      issuedBy: actor.adminEmail,
+    });
+    tx.update(userRef, {
+      warningCount: admin.firestore.FieldValue.increment(1),
+      lastWarningAt: issuedAt,
+    });
+    return matchEscalationRules(rules, [...earlier, issuedAt]);
+  });
+
+  await logAuditAction({
+    ...actor,
+    action: "ISSUE_WARNING",
+    targetUid: uid,
+    details: { reason, warningId: warningRef.id },
+  });
+
+  let issued: IssuedWarning;
+  try {
+    const escalations = await escalateWarning(
+      uid,
+      warningRef.id,
+      actor.adminEmail,
+      matches,
+    );
+    issued = { warningId: warningRef.id, escalations };
+  } catch (err) {
+    console.error("Error applying warning escalation:", err);
+    issued = {
+      warningId: warningRef.id,
+      escalations: [],
+      escalationError: errorMessage(err, "Failed to apply escalation rules"),
+    };
+  }
+
+  // After escalation, so a rule's review flag isn't raised twice
+  rescoreInBackground([uid], "warning_issued");
+  return issued;
+}
 
 /**
- * Issue a warning to a user
+ * Issue a warning to a user, then apply any escalation rule it makes fire
  * POST /users/:uid/warnings
  * Body: { reason: string }
  */
@@ -16,32 +167,31 @@ export async function issueWarning(req: AdminRequest, res: Response) {
     if (!uid) return res.status(400).json({ error: "User ID is required" });
     if (!reason) return res.status(400).json({ error: "Reason is required" });
 
-    const warningRef = await adminDb.collection("userWarnings").add({
+    // Someone else is working this user in the review queue
+    const claim = await claimHeldByOther(uid, req.adminId);
+    if (claim)
+      return res.status(409).json({ error: reviewClaimedMessage(claim) });
+
+    const { warningId, escalations, escalationError } = await applyWarning(
       uid,
       reason,
-      issuedAt: new Date().toISOString(),
-      issuedBy: req.adminEmail || "admin",
-    });
+      auditActor(req),
+    );
 
-    await adminDb
-      .collection("users")
-      .doc(uid)
-      .update({
-        warningCount: admin.firestore.FieldValue.increment(1),
-        lastWarningAt: new Date().toISOString(),
-      });
-
-    await logAuditAction({
-      adminEmail: req.adminEmail || "admin",
-      action: "ISSUE_WARNING",
-      targetUid: uid,
-      details: { reason, warningId: warningRef.id },
-    });
+    const summary = escalations.map((e) =>
+      e.action === "suspend"
+        ? `suspended until ${e.suspendedUntil!.slice(0, 10)} (${e.ruleName})`
+        : `flagged for review (${e.ruleName})`,
+    );
 
     return res.json({
       success: true,
-      message: "Warning issued",
-      warningId: warningRef.id,
+      message: summary.length
+        ? `Warning issued; user ${summary.join(" and ")}`
+        : "Warning issued",
+      warningId,
+      escalations,
+      ...(escalationError ? { escalationError } : {}),
     });
   } catch (error: any) {
     console.error("Error issuing warning:", error);
@@ -107,12 +257,14 @@ export async function deleteWarning(req: AdminRequest, res: Response) {
     }
 
     await logAuditAction({
-      adminEmail: req.adminEmail || "admin",
+      ...auditActor(req),
       action: "DELETE_WARNING",
       targetUid: uid,
       details: { warningId },
     });
 
+    rescoreInBackground([uid], "warning_deleted");
+
     return res.json({ success: true, message: "Warning deleted" });
   } catch (error: any) {
     console.error("Error deleting warning:", error);
@@ -121,3 +273,55 @@ export async function deleteWarning(req: AdminRequest, res: Response) {
       .json({ error: error.message || "Failed to delete warning" });
   }
 }
+
+/**
+ * Get the warning escalation rules
+ * GET /escalation-rules
+ */
+export async function getEscalationRules(req: AdminRequest, res: Response) {
+  try {
+    const policy = await getEscalationPolicy();
+    return res.json({ success: true, data: policy });
+  } catch (error) {
+    console.error("Error fetching escalation rules:", error);
+    return res
+      .status(500)
+      .json({ error: errorMessage(error, "Failed to fetch escalation rules") });
+  }
+}
+
+/**
+ * Replace the warning escalation rules
+ * PUT /escalation-rules
+ * Body: { rules: [{ id?, name, warnings, windowDays, action: 'suspend' | 'review', suspendDays, enabled }] }
+ */
+export async function updateEscalationRules(req: AdminRequest, res: Response) {
+  try {
+    const validation = validateEscalationRules(req.body?.rules);
+    if (validation.status === "invalid") {
+      return res.status(400).json({ error: validation.error });
+    }
+
+    const previous = await getEscalationPolicy();
+    const policy = { rules: validation.rules };
+    await saveEscalationPolicy(policy, req.adminEmail || "admin");
+
+    await logAuditAction({
+      ...auditActor(req),
+      action: "UPDATE_ESCALATION_RULES",
+      resource: "escalation_rules",
+      details: { previous: previous.rules, rules: policy.rules },
+    });
+
+    return res.json({
+      success: true,
+      message: "Escalation rules updated",
+      data: policy,
+    });
+  } catch (error) {
+    console.error("Error updating escalation rules:", error);
+    return res.status(500).json({
+      error: errorMessage(error, "Failed to update escalation rules"),
+    });
+  }
+}
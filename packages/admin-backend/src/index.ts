@@ -5,12 +5,22 @@ import helmet from 'helmet';
 import dotenv from 'dotenv';
 import { env } from './config/env';
 import routes from './routes';
+import { requestContext } from './middleware/requestContext';
 import analyticsRoutes from './routes/analyticsRoutes';
+import { startAuditChainVerificationJob } from './jobs/auditChainVerification';
+import { startAuditLogMigrationJob } from './jobs/auditLogMigration';
+import { startRetentionJob } from './jobs/retention';
+import { startSuspensionExpiryJob } from './jobs/suspensionExpiry';
+import { startLinkedAccountIndexJob } from './jobs/linkedAccounts';
+import { startRiskScoringJob } from './jobs/riskScoring';
 
 dotenv.config();
 
 const app = express();
 
+// Render (and most hosts) terminate TLS at a proxy; trust it so req.ip is the client address
+app.set('trust proxy', 1);
+
 // Middleware
 // Configure helmet to allow cookies in cross-origin requests
 app.use(helmet({
@@ -37,14 +47,15 @@ const corsOptions = {
   },
   credentials: true,
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With'],
-  exposedHeaders: ['Set-Cookie'],
+  allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With', 'X-CSRF-Token'],
+  exposedHeaders: ['Set-Cookie', 'X-Request-Id'],
   optionsSuccessStatus: 200, // Some legacy browsers (IE11) choke on 204
 };
 
 app.use(cors(corsOptions));
 app.use(express.json());
 app.use(cookieParser());
+app.use(requestContext);
 
 // Routes
 app.use('/api/admin', routes);
@@ -90,5 +101,12 @@ app.listen(PORT, () => {
   console.log(`Admin Panel Backend running on port ${PORT}`);
   console.log(`Environment: ${env.nodeEnv}`);
   console.log(`CORS Allowed Origins: ${allowedOrigins.join(', ')}`);
+
+  startAuditLogMigrationJob();
+  startAuditChainVerificationJob();
+  startRetentionJob();
+  startSuspensionExpiryJob();
+  startLinkedAccountIndexJob();
+  startRiskScoringJob();
 });
 
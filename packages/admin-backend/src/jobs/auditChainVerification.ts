@@ -0,0 +1,32 @@
+import { env } from '../config/env';
+import { verifyAuditChain } from '../services/auditChain';
+
+/**
+ * Re-verify the audit hash chain on an interval. The latest result is stored in
+ * auditChain/verification, where the dashboard reads it.
+ */
+export function startAuditChainVerificationJob() {
+  if (env.auditVerifyIntervalMinutes <= 0) {
+    console.log('Audit chain verification job disabled');
+    return;
+  }
+
+  const run = async () => {
+    try {
+      const result = await verifyAuditChain('scheduled');
+      if (result.ok) {
+        console.log(`Audit chain verified: ${result.entriesChecked} entries`);
+      } else {
+        console.error('Audit chain verification FAILED:', result.brokenAt);
+      }
+    } catch (error) {
+      console.error('Audit chain verification error:', error);
+    }
+  };
+
+  const timer = setInterval(run, env.auditVerifyIntervalMinutes * 60 * 1000);
+  // Don't keep the process alive just for this
+  timer.unref();
+  // First run shortly after boot, once the server is up
+  setTimeout(run, 30 * 1000).unref();
+}
@@ -0,0 +1,27 @@
+import { env } from '../config/env';
+import { migrateAuditLogs } from '../services/auditLogMigration';
+
+/**
+ * Move audit entries still in the old shapes onto the unified log once per boot,
+ * so the audit views never silently miss them.
+ */
+export function startAuditLogMigrationJob() {
+  if (!env.auditLogMigrationOnStartup) {
+    console.log('Audit log migration on startup disabled');
+    return;
+  }
+
+  const run = async () => {
+    try {
+      const result = await migrateAuditLogs();
+      if (result.backfilled || result.copied) {
+        console.log(`Audit log migration: backfilled ${result.backfilled}, copied ${result.copied}`);
+      }
+    } catch (error) {
+      console.error('Audit log migration error:', error);
+    }
+  };
+
+  // Once the server is up
+  setTimeout(run, 10 * 1000).unref();
+}
@@ -0,0 +1,34 @@
+import { env } from '../config/env';
+import { rebuildLinkedAccountIndex } from '../services/linkedAccounts';
+
+/**
+ * Keep the device/IP → accounts index current with logins the main app records
+ * in each user's loginHistory.
+ */
+export function startLinkedAccountIndexJob() {
+  if (env.linkedAccountIndexIntervalHours <= 0) {
+    console.log('Linked account index job disabled');
+    return;
+  }
+
+  let running = false;
+  const run = async () => {
+    // A rebuild over a large user base can outlast the interval
+    if (running) return;
+    running = true;
+    try {
+      const result = await rebuildLinkedAccountIndex();
+      console.log(`Linked account index updated: ${result.users} users, ${result.identifiers} identifiers, ${result.failed} failed`);
+    } catch (error) {
+      console.error('Linked account index job error:', error);
+    } finally {
+      running = false;
+    }
+  };
+
+  const timer = setInterval(run, env.linkedAccountIndexIntervalHours * 60 * 60 * 1000);
+  // Don't keep the process alive just for this
+  timer.unref();
+  // First run a few minutes after boot, after the lighter jobs
+  setTimeout(run, 5 * 60 * 1000).unref();
+}
@@ -0,0 +1,39 @@
+import { env } from '../config/env';
+import { runRetention } from '../services/retention';
+import { SYSTEM_ACTOR, logAuditAction } from '../services/auditLog';
+
+/**
+ * Archive entries past their retention window on an interval. Collections
+ * without a window in the retention policy are left alone.
+ */
+export function startRetentionJob() {
+  if (env.retentionIntervalHours <= 0) {
+    console.log('Retention job disabled');
+    return;
+  }
+
+  const run = async () => {
+    try {
+      const status = await runRetention('scheduled');
+      const archived = status.results.filter((r) => r.archived > 0);
+      if (archived.length) {
+        console.log('Retention archived:', archived.map((r) => `${r.collection}=${r.archived}`).join(', '));
+        await logAuditAction({
+          ...SYSTEM_ACTOR,
+          action: 'RUN_RETENTION',
+          resource: 'retention',
+          details: { trigger: 'scheduled', results: status.results, error: status.error },
+        });
+      }
+      if (status.error) console.error('Retention run finished with errors:', status.error);
+    } catch (error) {
+      console.error('Retention job error:', error);
+    }
+  };
+
+  const timer = setInterval(run, env.retentionIntervalHours * 60 * 60 * 1000);
+  // Don't keep the process alive just for this
+  timer.unref();
+  // First run a few minutes after boot, clear of startup work
+  setTimeout(run, 5 * 60 * 1000).unref();
+}
@@ -0,0 +1,34 @@
+import { env } from '../config/env';
+import { rescoreAllUsers } from '../services/riskScoring';
+
+/**
+ * Recompute risk scores a batch of users at a time, catching signals no event
+ * rescored (new linked accounts, generation failures).
+ */
+export function startRiskScoringJob() {
+  if (env.riskScoringIntervalHours <= 0) {
+    console.log('Risk scoring job disabled');
+    return;
+  }
+
+  let running = false;
+  const run = async () => {
+    // Pauses between pages can stretch a run past a short interval
+    if (running) return;
+    running = true;
+    try {
+      const result = await rescoreAllUsers();
+      console.log(`Risk scores recomputed: ${result.scored} users, ${result.flagged} flagged for review, ${result.failed} failed`);
+    } catch (error) {
+      console.error('Risk scoring job error:', error);
+    } finally {
+      running = false;
+    }
+  };
+
+  const timer = setInterval(run, env.riskScoringIntervalHours * 60 * 60 * 1000);
+  // Don't keep the process alive just for this
+  timer.unref();
+  // First run after the linked account index has had a chance to build
+  setTimeout(run, 15 * 60 * 1000).unref();
+}
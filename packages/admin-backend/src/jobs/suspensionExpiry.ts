@@ -0,0 +1,30 @@
+import { env } from '../config/env';
+import { expireSuspensions } from '../services/suspensions';
+
+/**
+ * Lift timed suspensions once their suspendedUntil passes, instead of waiting
+ * for an admin to unsuspend by hand.
+ */
+export function startSuspensionExpiryJob() {
+  if (env.suspensionExpiryIntervalMinutes <= 0) {
+    console.log('Suspension expiry job disabled');
+    return;
+  }
+
+  const run = async () => {
+    try {
+      const result = await expireSuspensions();
+      if (result.expired || result.failed) {
+        console.log(`Suspensions expired: ${result.expired}, failed: ${result.failed}`);
+      }
+    } catch (error) {
+      console.error('Suspension expiry job error:', error);
+    }
+  };
+
+  const timer = setInterval(run, env.suspensionExpiryIntervalMinutes * 60 * 1000);
+  // Don't keep the process alive just for this
+  timer.unref();
+  // First run shortly after boot, once the server is up
+  setTimeout(run, 60 * 1000).unref();
+}
@@ -1,19 +1,92 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
 import { env } from '../config/env';
+import { AdminRole, BOOTSTRAP_ADMIN_ID, getAdminById } from '../services/adminUsers';
+import { Permission, resolvePermissions } from '../config/permissions';
+import { getLiveSession } from '../services/adminSessions';
+import { isApiKey, verifyApiKey } from '../services/adminApiKeys';
 
 export interface AdminRequest extends Request {
   adminId?: string;
   adminEmail?: string;
+  adminRole?: AdminRole;
+  adminPermissions?: Permission[];
+  sessionId?: string;
+  apiKeyId?: string;
+  apiKeyName?: string;
   query: any;
   params: any;
   body: any;
 }
 
-export function requireAdmin(req: AdminRequest, res: Response, next: NextFunction) {
+interface ResolvedAdmin {
+  id: string;
+  email: string;
+  role: AdminRole;
+  permissions: Permission[];
+}
+
+/**
+ * Load the current role and permissions for an admin id, or null if the account can't act.
+ * Re-read on every request so disabling or deleting an admin takes effect immediately.
+ */
+async function resolveAdmin(adminId: string, email: string): Promise<ResolvedAdmin | null> {
+  if (adminId === BOOTSTRAP_ADMIN_ID) {
+    if (!env.adminBootstrapEnabled) return null;
+    return { id: adminId, email, role: 'super_admin', permissions: resolvePermissions('super_admin') };
+  }
+
+  const account = await getAdminById(adminId);
+  if (!account || !account.isActive) return null;
+  return {
+    id: account.id,
+    email: account.email,
+    role: account.role,
+    permissions: resolvePermissions(account.role, account.permissions),
+  };
+}
+
+function applyAdmin(req: AdminRequest, admin: ResolvedAdmin) {
+  req.adminId = admin.id;
+  req.adminEmail = admin.email;
+  req.adminRole = admin.role;
+  req.adminPermissions = admin.permissions;
+}
+
+/**
+ * Scripted access: `Authorization: Bearer wmk_...`. The key acts as its creator,
+ * limited to the intersection of its scopes and the creator's current permissions.
+ */
+async function authenticateApiKey(key: string, req: AdminRequest, res: Response, next: NextFunction) {
+  const apiKey = await verifyApiKey(key);
+  if (!apiKey) {
+    return res.status(401).json({ error: 'Unauthorized - Invalid, expired or revoked API key' });
+  }
+
+  const creator = await resolveAdmin(apiKey.createdBy, apiKey.createdByEmail);
+  if (!creator) {
+    return res.status(401).json({ error: 'Unauthorized - API key owner is disabled' });
+  }
+
+  applyAdmin(req, {
+    ...creator,
+    permissions: creator.permissions.filter((p) => apiKey.scopes.includes(p)),
+  });
+  req.apiKeyId = apiKey.id;
+  req.apiKeyName = apiKey.name;
+  next();
+}
+
+export async function requireAdmin(req: AdminRequest, res: Response, next: NextFunction) {
   try {
-    const token = req.cookies?.admin_token || req.headers.authorization?.replace('Bearer ', '');
-    
+    const bearer = req.headers.authorization?.replace('Bearer ', '');
+    if (bearer && isApiKey(bearer)) {
+      // Awaited so a Firestore failure lands in the catch below
+      return await authenticateApiKey(bearer, req, res, next);
+    }
+
+    const token = req.cookies?.admin_token || bearer;
+
     if (!token) {
       // Only log in production for debugging
       if (process.env.NODE_ENV === 'production') {
@@ -28,16 +101,94 @@ export function requireAdmin(req: AdminRequest, res: Response, next: NextFunctio
       return res.status(401).json({ error: 'Unauthorized - No token provided' });
     }
 
+    let decoded: { adminId: string; email: string; purpose?: string; sid?: string };
     try {
-      const decoded = jwt.verify(token, env.jwtSecret) as { adminId: string; email: string };
-      req.adminId = decoded.adminId;
-      req.adminEmail = decoded.email;
-      next();
+      decoded = jwt.verify(token, env.jwtSecret) as { adminId: string; email: string; purpose?: string; sid?: string };
     } catch (error) {
       return res.status(401).json({ error: 'Unauthorized - Invalid token' });
     }
+
+    // Two-factor challenge tokens only unlock the /auth/2fa login steps
+    if (decoded.purpose) {
+      return res.status(401).json({ error: 'Unauthorized - Two-factor verification required' });
+    }
+
+    // Every session token must map to a live adminSessions doc so it can be revoked remotely
+    const session = decoded.sid ? await getLiveSession(decoded.sid) : null;
+    if (!session || session.adminId !== decoded.adminId) {
+      return res.status(401).json({ error: 'Unauthorized - Session expired or revoked' });
+    }
+    req.sessionId = session.id;
+
+    const admin = await resolveAdmin(decoded.adminId, decoded.email);
+    if (!admin) {
+      return res.status(401).json({
+        error:
+          decoded.adminId === BOOTSTRAP_ADMIN_ID
+            ? 'Unauthorized - Bootstrap admin is disabled'
+            : 'Unauthorized - Admin account is disabled',
+      });
+    }
+
+    applyAdmin(req, admin);
+    next();
   } catch (error) {
     return res.status(500).json({ error: 'Internal server error' });
   }
 }
 
+/**
+ * Route guard for account self-service (2FA, sessions, API keys): signed-in admins only, never API keys.
+ * Must run after requireAdmin.
+ */
+export function requireInteractiveSession(req: AdminRequest, res: Response, next: NextFunction) {
+  if (req.apiKeyId) {
+    return res.status(403).json({ error: 'Forbidden - not available to API keys' });
+  }
+  next();
+}
+
+export type TwoFactorChallengePurpose = 'mfa' | 'mfa-setup';
+
+/**
+ * Accept the short-lived challenge token issued by login when a second factor
+ * (or 2FA enrollment) is still outstanding. Sets adminId/adminEmail only.
+ */
+export function requireTwoFactorChallenge(purpose: TwoFactorChallengePurpose) {
+  return async (req: AdminRequest, res: Response, next: NextFunction) => {
+    try {
+      const challengeToken = req.body?.challengeToken;
+      if (!challengeToken) {
+        return res.status(401).json({ error: 'Unauthorized - No challenge token provided' });
+      }
+
+      let decoded: { adminId: string; email: string; purpose?: string };
+      try {
+        decoded = jwt.verify(challengeToken, env.jwtSecret) as { adminId: string; email: string; purpose?: string };
+      } catch (error) {
+        return res.status(401).json({ error: 'Unauthorized - Challenge expired, please sign in again' });
+      }
+
+      if (decoded.purpose !== purpose) {
+        return res.status(401).json({ error: 'Unauthorized - Invalid challenge token' });
+      }
+
+      if (decoded.adminId === BOOTSTRAP_ADMIN_ID) {
+        if (!env.adminBootstrapEnabled) {
+          return res.status(401).json({ error: 'Unauthorized - Bootstrap admin is disabled' });
+        }
+      } else {
+        const account = await getAdminById(decoded.adminId);
+        if (!account || !account.isActive) {
+          return res.status(401).json({ error: 'Unauthorized - Admin account is disabled' });
+        }
+      }
+
+      req.adminId = decoded.adminId;
+      req.adminEmail = decoded.email;
+      next();
+    } catch (error) {
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  };
+}
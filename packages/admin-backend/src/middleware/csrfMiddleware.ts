@@ -0,0 +1,54 @@
+import crypto from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import jwt from 'jsonwebtoken';
+import { env } from '../config/env';
+
+export const CSRF_HEADER = 'x-csrf-token';
+
+const SAFE_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+// Steps that run before the client can hold a token (or that only clear state)
+const EXEMPT_PATHS = ['/auth/login', '/auth/logout', '/auth/refresh', '/auth/2fa/verify', '/auth/2fa/enroll/'];
+
+/**
+ * Synchronizer token bound to the session: HMAC of the session id.
+ * Stays valid across access-token refreshes and dies with the session.
+ */
+export function csrfTokenForSession(sessionId: string): string {
+  return crypto.createHmac('sha256', env.jwtSecret).update(`csrf:${sessionId}`).digest('hex');
+}
+
+/**
+ * The admin_token cookie is sameSite=none in production, so browsers attach it to
+ * cross-site requests. State-changing requests authenticated by that cookie must also
+ * echo the session's CSRF token in the X-CSRF-Token header, which other origins can't read.
+ * Requests without the cookie (API keys, bearer tokens) aren't CSRF-able and pass through.
+ */
+export function csrfProtection(req: Request, res: Response, next: NextFunction) {
+  if (SAFE_METHODS.includes(req.method)) return next();
+  if (EXEMPT_PATHS.some((path) => req.path === path || (path.endsWith('/') && req.path.startsWith(path)))) {
+    return next();
+  }
+
+  const cookieToken = req.cookies?.admin_token;
+  if (!cookieToken) return next();
+
+  let sessionId: string | undefined;
+  try {
+    sessionId = (jwt.verify(cookieToken, env.jwtSecret) as { sid?: string }).sid;
+  } catch (error) {
+    // Invalid or expired cookie: requireAdmin rejects the request anyway
+    return next();
+  }
+  if (!sessionId) return next();
+
+  const presented = String(req.headers[CSRF_HEADER] || '');
+  const expected = csrfTokenForSession(sessionId);
+  if (
+    presented.length !== expected.length ||
+    !crypto.timingSafeEqual(Buffer.from(presented), Buffer.from(expected))
+  ) {
+    return res.status(403).json({ error: 'Forbidden - missing or invalid CSRF token' });
+  }
+  next();
+}
@@ -0,0 +1,20 @@
+import { Response, NextFunction } from 'express';
+import { Permission } from '../config/permissions';
+import { AdminRequest } from './authMiddleware';
+
+/**
+ * Route guard: the authenticated admin must hold every listed permission.
+ * Must run after requireAdmin, which resolves req.adminPermissions.
+ */
+export function requirePermission(...required: Permission[]) {
+  return (req: AdminRequest, res: Response, next: NextFunction) => {
+    const granted = req.adminPermissions || [];
+    const missing = required.filter((p) => !granted.includes(p));
+    if (missing.length > 0) {
+      return res.status(403).json({
+        error: `Forbidden - missing permission: ${missing.join(', ')}`,
+      });
+    }
+    next();
+  };
+}
@@ -0,0 +1,55 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import crypto from 'crypto';
+import { Response, NextFunction } from 'express';
+import { AdminRequest } from './authMiddleware';
+
+export const REQUEST_ID_HEADER = 'x-request-id';
+
+// Accept an upstream id (proxy or client) only if it looks like one
+const VALID_REQUEST_ID = /^[\w.-]{8,128}$/;
+
+/**
+ * Where an admin action came from, as recorded on its audit entry.
+ */
+export interface RequestContext {
+  requestId: string;
+  ipAddress: string;
+  userAgent: string;
+  /** `POST /api/admin/users/:uid/ban` — the route pattern once routing matched, else the raw path */
+  route: string;
+  /** Admin session that made the request; absent for API keys and unauthenticated calls */
+  sessionId?: string;
+}
+
+const storage = new AsyncLocalStorage<{ requestId: string; req: AdminRequest }>();
+
+/**
+ * Give every request an id (echoed in X-Request-Id) and keep the request reachable
+ * from anything it awaits, so logAuditAction can stamp entries without each
+ * controller passing the request along. Registered before the routes; reads
+ * are covered too because some of them (exports) are audited.
+ */
+export function requestContext(req: AdminRequest, res: Response, next: NextFunction) {
+  const incoming = String(req.headers[REQUEST_ID_HEADER] || '');
+  const requestId = VALID_REQUEST_ID.test(incoming) ? incoming : crypto.randomUUID();
+  res.setHeader('X-Request-Id', requestId);
+  storage.run({ requestId, req }, () => next());
+}
+
+/**
+ * Context of the request being handled, or null outside one (background jobs, scripts).
+ * Read lazily so it reflects the matched route and the session set by requireAdmin.
+ */
+export function getRequestContext(): RequestContext | null {
+  const store = storage.getStore();
+  if (!store) return null;
+  const { requestId, req } = store;
+  const path = req.route?.path ? `${req.baseUrl}${req.route.path}` : req.originalUrl.split('?')[0];
+  return {
+    requestId,
+    ipAddress: req.ip || '',
+    userAgent: req.headers['user-agent'] || '',
+    route: `${req.method} ${path}`,
+    ...(req.sessionId ? { sessionId: req.sessionId } : {}),
+  };
+}
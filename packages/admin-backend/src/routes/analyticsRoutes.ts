@@ -11,11 +11,12 @@ import {
   getModelStats
 } from '../controllers/analyticsController';
 import { requireAdmin } from '../middleware/authMiddleware';
+import { requirePermission } from '../middleware/permissionMiddleware';
 
 const router = Router();
 
 // Apply auth middleware to all analytics routes
-router.use(requireAdmin);
+router.use(requireAdmin, requirePermission('analytics:read'));
 
 // Original endpoints
 router.get('/stats', getAnalyticsStats);
@@ -1,5 +1,31 @@
 import { Router } from "express";
-import { login, logout, verify } from "../controllers/authController";
+import {
+  login,
+  logout,
+  refresh,
+  verify,
+  verifyTwoFactor,
+} from "../controllers/authController";
+import {
+  getTwoFactorStatus,
+  setupTwoFactor,
+  enableTwoFactor,
+  completeTwoFactorEnrollment,
+  disableTwoFactor,
+  regenerateRecoveryCodes,
+  resetAdminTwoFactor,
+} from "../controllers/twoFactorController";
+import {
+  listMySessions,
+  revokeMySession,
+  listAllSessions,
+  revokeAnySession,
+} from "../controllers/adminSessionsController";
+import {
+  listApiKeys,
+  createApiKey,
+  revokeApiKey,
+} from "../controllers/apiKeysController";
 import {
   getGenerationsForScoring,
   updateAestheticScore,
@@ -17,7 +43,13 @@ import {
   getUserCount,
   getUserGenerations,
 } from "../controllers/usersController";
-import { requireAdmin } from "../middleware/authMiddleware";
+import {
+  requireAdmin,
+  requireInteractiveSession,
+  requireTwoFactorChallenge,
+} from "../middleware/authMiddleware";
+import { requirePermission } from "../middleware/permissionMiddleware";
+import { csrfProtection } from "../middleware/csrfMiddleware";
 import {
   suspendUser,
   unsuspendUser,
@@ -27,6 +59,7 @@ import {
   setUserRole,
   verifyUserEmail,
   clearUserReview,
+  recomputeRiskScore,
 } from "../controllers/moderationController";
 import {
   listBlockedDevices,
@@ -40,12 +73,65 @@ import {
   unblockIP,
   getUserIPs,
 } from "../controllers/ipController";
-import { getAuditLogs } from "../controllers/auditController";
+import { getLinkedAccounts } from "../controllers/linkedAccountsController";
+import {
+  getReviewQueue,
+  claimReviewUser,
+  releaseReviewUser,
+} from "../controllers/reviewQueueController";
+import {
+  getAuditLogs,
+  getAuditSummary,
+  exportAuditLogs,
+  getAuditIntegrity,
+  verifyAuditTrail,
+} from "../controllers/auditController";
+import { revertAuditEntry } from "../controllers/auditRevertController";
+import {
+  getRetention,
+  updateRetentionPolicy,
+  listRetentionArchives,
+  runRetentionNow,
+  rehydrateArchive,
+} from "../controllers/retentionController";
 import {
   issueWarning,
   getUserWarnings,
   deleteWarning,
+  getEscalationRules,
+  updateEscalationRules,
 } from "../controllers/warningController";
+import {
+  getUserNotes,
+  addUserNote,
+  setUserNotePinned,
+} from "../controllers/userNotesController";
+import {
+  listCases,
+  listCaseAssignees,
+  createCase,
+  getCaseById,
+  updateCase,
+  addCaseEvidence,
+  removeCaseEvidence,
+  addCaseNote,
+  linkCaseAction,
+  unlinkCaseAction,
+} from "../controllers/casesController";
+import {
+  submitAppeal,
+  listAppeals,
+  getAppealById,
+  approveAppeal,
+  denyAppeal,
+} from "../controllers/appealsController";
+import {
+  bulkSuspend,
+  bulkBan,
+  bulkForceLogout,
+  bulkWarn,
+  bulkSetRole,
+} from "../controllers/bulkModerationController";
 import {
   adjustCredits,
   getCreditHistory,
@@ -62,85 +148,718 @@ import {
   getAnnouncements,
   deactivateAnnouncement,
 } from "../controllers/broadcastController";
+import {
+  listAdminUsers,
+  createAdminUser,
+  setAdminUserStatus,
+  deleteAdminUser,
+  unlockAdminLogin,
+} from "../controllers/adminUsersController";
+
+import {
+  listApprovals,
+  approveRequest,
+  rejectRequest,
+  getApprovalPolicy,
+  updateApprovalPolicy,
+} from "../controllers/approvalsController";
 
 const router = Router();
 
+// Every state-changing route needs the session's CSRF token when authenticated by cookie
+router.use(csrfProtection);
+
 // ─── Auth ────────────────────────────────────────────────────────────────────
 router.post("/auth/login", login);
 router.post("/auth/logout", logout);
+router.post("/auth/refresh", refresh);
 router.get("/auth/verify", requireAdmin, verify);
 
+// ─── Two-Factor Auth ─────────────────────────────────────────────────────────
+// Login steps, authenticated by the challenge token returned from /auth/login
+router.post(
+  "/auth/2fa/verify",
+  requireTwoFactorChallenge("mfa"),
+  verifyTwoFactor,
+);
+router.post(
+  "/auth/2fa/enroll/setup",
+  requireTwoFactorChallenge("mfa-setup"),
+  setupTwoFactor,
+);
+router.post(
+  "/auth/2fa/enroll/enable",
+  requireTwoFactorChallenge("mfa-setup"),
+  completeTwoFactorEnrollment,
+);
+// Self-service for the signed-in admin
+router.get(
+  "/auth/2fa",
+  requireAdmin,
+  requireInteractiveSession,
+  getTwoFactorStatus,
+);
+router.post(
+  "/auth/2fa/setup",
+  requireAdmin,
+  requireInteractiveSession,
+  setupTwoFactor,
+);
+router.post(
+  "/auth/2fa/enable",
+  requireAdmin,
+  requireInteractiveSession,
+  enableTwoFactor,
+);
+router.post(
+  "/auth/2fa/disable",
+  requireAdmin,
+  requireInteractiveSession,
+  disableTwoFactor,
+);
+router.post(
+  "/auth/2fa/recovery-codes",
+  requireAdmin,
+  requireInteractiveSession,
+  regenerateRecoveryCodes,
+);
+
+// ─── Admin Sessions ──────────────────────────────────────────────────────────
+router.get(
+  "/auth/sessions",
+  requireAdmin,
+  requireInteractiveSession,
+  listMySessions,
+);
+router.delete(
+  "/auth/sessions/:id",
+  requireAdmin,
+  requireInteractiveSession,
+  revokeMySession,
+);
+router.get(
+  "/admin-sessions",
+  requireAdmin,
+  requireInteractiveSession,
+  requirePermission("admins:manage"),
+  listAllSessions,
+);
+router.delete(
+  "/admin-sessions/:id",
+  requireAdmin,
+  requireInteractiveSession,
+  requirePermission("admins:manage"),
+  revokeAnySession,
+);
+
+// ─── Admin Accounts ───────────────────────────────────────────────────────────
+router.get(
+  "/admin-users",
+  requireAdmin,
+  requirePermission("admins:manage"),
+  listAdminUsers,
+);
+router.post(
+  "/admin-users",
+  requireAdmin,
+  requirePermission("admins:manage"),
+  createAdminUser,
+);
+router.post(
+  "/admin-users/unlock",
+  requireAdmin,
+  requirePermission("admins:manage"),
+  unlockAdminLogin,
+);
+router.patch(
+  "/admin-users/:id/status",
+  requireAdmin,
+  requirePermission("admins:manage"),
+  setAdminUserStatus,
+);
+router.delete(
+  "/admin-users/:id",
+  requireAdmin,
+  requirePermission("admins:manage"),
+  deleteAdminUser,
+);
+router.post(
+  "/admin-users/:id/2fa/reset",
+  requireAdmin,
+  requirePermission("admins:manage"),
+  resetAdminTwoFactor,
+);
+
+// ─── API Keys ────────────────────────────────────────────────────────────────
+router.get("/api-keys", requireAdmin, requireInteractiveSession, listApiKeys);
+router.post("/api-keys", requireAdmin, requireInteractiveSession, createApiKey);
+router.delete(
+  "/api-keys/:id",
+  requireAdmin,
+  requireInteractiveSession,
+  revokeApiKey,
+);
+
 // ─── Generations ─────────────────────────────────────────────────────────────
-router.get("/generations", requireAdmin, getGenerationsForScoring);
-router.get("/generations/filter-options", requireAdmin, getFilterOptions);
-router.get("/generations/:generationId", requireAdmin, getGenerationById);
+router.get(
+  "/generations",
+  requireAdmin,
+  requirePermission("generations:read"),
+  getGenerationsForScoring,
+);
+router.get(
+  "/generations/filter-options",
+  requireAdmin,
+  requirePermission("generations:read"),
+  getFilterOptions,
+);
+router.get(
+  "/generations/:generationId",
+  requireAdmin,
+  requirePermission("generations:read"),
+  getGenerationById,
+);
 router.put(
   "/generations/:generationId/score",
   requireAdmin,
+  requirePermission("generations:score"),
   updateAestheticScore,
 );
-router.post("/generations/bulk-score", requireAdmin, bulkUpdateAestheticScore);
-router.delete("/generations/:generationId", requireAdmin, deleteGeneration);
-router.patch("/generations/:generationId", requireAdmin, updateGeneration);
+router.post(
+  "/generations/bulk-score",
+  requireAdmin,
+  requirePermission("generations:score"),
+  bulkUpdateAestheticScore,
+);
+router.delete(
+  "/generations/:generationId",
+  requireAdmin,
+  requirePermission("generations:write"),
+  deleteGeneration,
+);
+router.patch(
+  "/generations/:generationId",
+  requireAdmin,
+  requirePermission("generations:write"),
+  updateGeneration,
+);
 
 // ─── ArtStation ───────────────────────────────────────────────────────────────
-router.get("/artstation", requireAdmin, getArtStationItems);
-router.delete("/artstation/:generationId", requireAdmin, removeFromArtStation);
-router.post("/artstation/bulk-remove", requireAdmin, removeFromArtStation);
+router.get(
+  "/artstation",
+  requireAdmin,
+  requirePermission("artstation:read"),
+  getArtStationItems,
+);
+router.delete(
+  "/artstation/:generationId",
+  requireAdmin,
+  requirePermission("artstation:write"),
+  removeFromArtStation,
+);
+router.post(
+  "/artstation/bulk-remove",
+  requireAdmin,
+  requirePermission("artstation:write"),
+  removeFromArtStation,
+);
 
 // ─── User Management ──────────────────────────────────────────────────────────
-router.get("/users", requireAdmin, getUsers);
-router.get("/users/count", requireAdmin, getUserCount);
-router.get("/users/:userId", requireAdmin, getUserById);
-router.get("/users/:userId/generations", requireAdmin, getUserGenerations);
+router.get("/users", requireAdmin, requirePermission("users:read"), getUsers);
+router.get(
+  "/users/count",
+  requireAdmin,
+  requirePermission("users:read"),
+  getUserCount,
+);
+router.get(
+  "/users/:userId",
+  requireAdmin,
+  requirePermission("users:read"),
+  getUserById,
+);
+router.get(
+  "/users/:userId/generations",
+  requireAdmin,
+  requirePermission("users:read"),
+  getUserGenerations,
+);
 
 // ─── Moderation ───────────────────────────────────────────────────────────────
-router.post("/users/:uid/suspend", requireAdmin, suspendUser);
-router.post("/users/:uid/unsuspend", requireAdmin, unsuspendUser);
-router.post("/users/:uid/ban", requireAdmin, banUser);
-router.post("/users/:uid/unban", requireAdmin, unbanUser);
-router.post("/users/:uid/force-logout", requireAdmin, forceLogout);
-router.patch("/users/:uid/role", requireAdmin, setUserRole);
-router.post("/users/:uid/verify-email", requireAdmin, verifyUserEmail);
-router.post("/users/:uid/clear-review", requireAdmin, clearUserReview);
+router.post(
+  "/users/:uid/suspend",
+  requireAdmin,
+  requirePermission("users:suspend"),
+  suspendUser,
+);
+router.post(
+  "/users/:uid/unsuspend",
+  requireAdmin,
+  requirePermission("users:suspend"),
+  unsuspendUser,
+);
+router.post(
+  "/users/:uid/ban",
+  requireAdmin,
+  requirePermission("users:ban"),
+  banUser,
+);
+router.post(
+  "/users/:uid/unban",
+  requireAdmin,
+  requirePermission("users:ban"),
+  unbanUser,
+);
+router.post(
+  "/users/:uid/force-logout",
+  requireAdmin,
+  requirePermission("users:logout"),
+  forceLogout,
+);
+router.patch(
+  "/users/:uid/role",
+  requireAdmin,
+  requirePermission("users:role"),
+  setUserRole,
+);
+router.post(
+  "/users/:uid/verify-email",
+  requireAdmin,
+  requirePermission("users:verify"),
+  verifyUserEmail,
+);
+router.post(
+  "/users/:uid/clear-review",
+  requireAdmin,
+  requirePermission("users:review"),
+  clearUserReview,
+);
+router.post(
+  "/users/:uid/risk-score",
+  requireAdmin,
+  requirePermission("users:review"),
+  recomputeRiskScore,
+);
+
+// ─── Review Queue ─────────────────────────────────────────────────────────────
+router.get(
+  "/review-queue",
+  requireAdmin,
+  requirePermission("users:read"),
+  getReviewQueue,
+);
+router.post(
+  "/review-queue/:uid/claim",
+  requireAdmin,
+  requireInteractiveSession,
+  requirePermission("users:review"),
+  claimReviewUser,
+);
+router.delete(
+  "/review-queue/:uid/claim",
+  requireAdmin,
+  requireInteractiveSession,
+  requirePermission("users:review"),
+  releaseReviewUser,
+);
 
 // ─── Warnings ─────────────────────────────────────────────────────────────────
-router.get("/users/:uid/warnings", requireAdmin, getUserWarnings);
-router.post("/users/:uid/warnings", requireAdmin, issueWarning);
-router.delete("/users/:uid/warnings/:warningId", requireAdmin, deleteWarning);
+router.get(
+  "/users/:uid/warnings",
+  requireAdmin,
+  requirePermission("users:read"),
+  getUserWarnings,
+);
+router.post(
+  "/users/:uid/warnings",
+  requireAdmin,
+  requirePermission("warnings:write"),
+  issueWarning,
+);
+router.delete(
+  "/users/:uid/warnings/:warningId",
+  requireAdmin,
+  requirePermission("warnings:write"),
+  deleteWarning,
+);
+router.get(
+  "/escalation-rules",
+  requireAdmin,
+  requirePermission("users:read"),
+  getEscalationRules,
+);
+router.put(
+  "/escalation-rules",
+  requireAdmin,
+  requirePermission("admins:manage"),
+  updateEscalationRules,
+);
+
+// ─── Admin Notes ──────────────────────────────────────────────────────────────
+router.get(
+  "/users/:uid/notes",
+  requireAdmin,
+  requirePermission("users:read"),
+  getUserNotes,
+);
+router.post(
+  "/users/:uid/notes",
+  requireAdmin,
+  requirePermission("notes:write"),
+  addUserNote,
+);
+router.put(
+  "/users/:uid/notes/:noteId/pin",
+  requireAdmin,
+  requirePermission("notes:write"),
+  setUserNotePinned,
+);
+
+// ─── Bulk Moderation ──────────────────────────────────────────────────────────
+router.post(
+  "/bulk/suspend",
+  requireAdmin,
+  requirePermission("users:suspend"),
+  bulkSuspend,
+);
+router.post("/bulk/ban", requireAdmin, requirePermission("users:ban"), bulkBan);
+router.post(
+  "/bulk/force-logout",
+  requireAdmin,
+  requirePermission("users:logout"),
+  bulkForceLogout,
+);
+router.post(
+  "/bulk/warnings",
+  requireAdmin,
+  requirePermission("warnings:write"),
+  bulkWarn,
+);
+router.post(
+  "/bulk/role",
+  requireAdmin,
+  requirePermission("users:role"),
+  bulkSetRole,
+);
+
+// ─── Moderation Cases ─────────────────────────────────────────────────────────
+router.get("/cases", requireAdmin, requirePermission("cases:read"), listCases);
+router.get(
+  "/cases/assignees",
+  requireAdmin,
+  requirePermission("cases:read"),
+  listCaseAssignees,
+);
+router.post(
+  "/cases",
+  requireAdmin,
+  requirePermission("cases:write"),
+  createCase,
+);
+router.get(
+  "/cases/:id",
+  requireAdmin,
+  requirePermission("cases:read"),
+  getCaseById,
+);
+router.put(
+  "/cases/:id",
+  requireAdmin,
+  requirePermission("cases:write"),
+  updateCase,
+);
+router.post(
+  "/cases/:id/evidence",
+  requireAdmin,
+  requirePermission("cases:write"),
+  addCaseEvidence,
+);
+router.delete(
+  "/cases/:id/evidence/:evidenceId",
+  requireAdmin,
+  requirePermission("cases:write"),
+  removeCaseEvidence,
+);
+router.post(
+  "/cases/:id/notes",
+  requireAdmin,
+  requirePermission("cases:write"),
+  addCaseNote,
+);
+router.post(
+  "/cases/:id/links",
+  requireAdmin,
+  requirePermission("cases:write"),
+  linkCaseAction,
+);
+router.delete(
+  "/cases/:id/links/:auditId",
+  requireAdmin,
+  requirePermission("cases:write"),
+  unlinkCaseAction,
+);
+
+// ─── Appeals ──────────────────────────────────────────────────────────────────
+// Submitted by the main app with an API key scoped to appeals:submit
+router.post(
+  "/appeals",
+  requireAdmin,
+  requirePermission("appeals:submit"),
+  submitAppeal,
+);
+router.get(
+  "/appeals",
+  requireAdmin,
+  requirePermission("appeals:read"),
+  listAppeals,
+);
+router.get(
+  "/appeals/:id",
+  requireAdmin,
+  requirePermission("appeals:read"),
+  getAppealById,
+);
+router.post(
+  "/appeals/:id/approve",
+  requireAdmin,
+  requireInteractiveSession,
+  requirePermission("appeals:decide"),
+  approveAppeal,
+);
+router.post(
+  "/appeals/:id/deny",
+  requireAdmin,
+  requireInteractiveSession,
+  requirePermission("appeals:decide"),
+  denyAppeal,
+);
 
 // ─── Credits ──────────────────────────────────────────────────────────────────
-router.post("/users/:uid/adjust-credits", requireAdmin, adjustCredits);
-router.get("/users/:uid/credit-history", requireAdmin, getCreditHistory);
+router.post(
+  "/users/:uid/adjust-credits",
+  requireAdmin,
+  requirePermission("credits:adjust"),
+  adjustCredits,
+);
+router.get(
+  "/users/:uid/credit-history",
+  requireAdmin,
+  requirePermission("users:read"),
+  getCreditHistory,
+);
+
+// ─── Approvals ────────────────────────────────────────────────────────────────
+// Four-eyes queue for bans, promotions to admin and large credit deductions
+router.get(
+  "/approvals/policy",
+  requireAdmin,
+  requirePermission("approvals:read"),
+  getApprovalPolicy,
+);
+router.put(
+  "/approvals/policy",
+  requireAdmin,
+  requirePermission("admins:manage"),
+  updateApprovalPolicy,
+);
+router.get(
+  "/approvals",
+  requireAdmin,
+  requirePermission("approvals:read"),
+  listApprovals,
+);
+router.post(
+  "/approvals/:id/approve",
+  requireAdmin,
+  requireInteractiveSession,
+  requirePermission("approvals:decide"),
+  approveRequest,
+);
+router.post(
+  "/approvals/:id/reject",
+  requireAdmin,
+  requireInteractiveSession,
+  requirePermission("approvals:decide"),
+  rejectRequest,
+);
 
 // ─── Device History & Blocking ───────────────────────────────────────────────
-router.get("/users/:uid/devices", requireAdmin, getUserDevices);
-router.get("/users/:uid/ips", requireAdmin, getUserIPs);
-router.get("/devices/blocked", requireAdmin, listBlockedDevices);
-router.post("/devices/block", requireAdmin, blockDevice);
-router.delete("/devices/unblock/:deviceId", requireAdmin, unblockDevice);
+router.get(
+  "/users/:uid/devices",
+  requireAdmin,
+  requirePermission("users:read"),
+  getUserDevices,
+);
+router.get(
+  "/users/:uid/ips",
+  requireAdmin,
+  requirePermission("users:read"),
+  getUserIPs,
+);
+router.get(
+  "/users/:uid/linked-accounts",
+  requireAdmin,
+  requirePermission("users:read"),
+  getLinkedAccounts,
+);
+router.get(
+  "/devices/blocked",
+  requireAdmin,
+  requirePermission("devices:read"),
+  listBlockedDevices,
+);
+router.post(
+  "/devices/block",
+  requireAdmin,
+  requirePermission("devices:block"),
+  blockDevice,
+);
+router.delete(
+  "/devices/unblock/:deviceId",
+  requireAdmin,
+  requirePermission("devices:block"),
+  unblockDevice,
+);
 
 // ─── IP Management ────────────────────────────────────────────────────────────
-router.get("/ips/blocked", requireAdmin, listBlockedIPs);
-router.post("/ips/block", requireAdmin, blockIP);
-router.delete("/ips/unblock/:ip", requireAdmin, unblockIP);
+router.get(
+  "/ips/blocked",
+  requireAdmin,
+  requirePermission("ips:read"),
+  listBlockedIPs,
+);
+router.post(
+  "/ips/block",
+  requireAdmin,
+  requirePermission("ips:block"),
+  blockIP,
+);
+router.delete(
+  "/ips/unblock/:ip",
+  requireAdmin,
+  requirePermission("ips:block"),
+  unblockIP,
+);
 
 // ─── Audit Log ────────────────────────────────────────────────────────────────
-router.get("/audit-logs", requireAdmin, getAuditLogs);
+router.get(
+  "/audit-logs",
+  requireAdmin,
+  requirePermission("audit:read"),
+  getAuditLogs,
+);
+router.get(
+  "/audit-logs/summary",
+  requireAdmin,
+  requirePermission("audit:read"),
+  getAuditSummary,
+);
+router.get(
+  "/audit-logs/export",
+  requireAdmin,
+  requirePermission("audit:export"),
+  exportAuditLogs,
+);
+router.get(
+  "/audit-logs/integrity",
+  requireAdmin,
+  requirePermission("audit:read"),
+  getAuditIntegrity,
+);
+router.post(
+  "/audit-logs/verify",
+  requireAdmin,
+  requirePermission("audit:read"),
+  verifyAuditTrail,
+);
+router.post(
+  "/audit-logs/:id/revert",
+  requireAdmin,
+  requirePermission("audit:read"),
+  revertAuditEntry,
+);
+
+// ─── Data Retention ───────────────────────────────────────────────────────────
+router.get(
+  "/retention",
+  requireAdmin,
+  requirePermission("audit:read"),
+  getRetention,
+);
+router.put(
+  "/retention/policy",
+  requireAdmin,
+  requirePermission("admins:manage"),
+  updateRetentionPolicy,
+);
+router.get(
+  "/retention/archives",
+  requireAdmin,
+  requirePermission("audit:read"),
+  listRetentionArchives,
+);
+router.post(
+  "/retention/run",
+  requireAdmin,
+  requirePermission("admins:manage"),
+  runRetentionNow,
+);
+router.post(
+  "/retention/rehydrate",
+  requireAdmin,
+  requirePermission("audit:export"),
+  rehydrateArchive,
+);
 
 // ─── Feature Flags ────────────────────────────────────────────────────────────
-router.get("/feature-flags", requireAdmin, getGlobalFlags);
-router.patch("/feature-flags/:flag", requireAdmin, setGlobalFlag);
-router.get("/feature-flags/user/:uid", requireAdmin, getUserFlags);
-router.patch("/feature-flags/user/:uid/:flag", requireAdmin, setUserFlag);
+router.get(
+  "/feature-flags",
+  requireAdmin,
+  requirePermission("flags:read"),
+  getGlobalFlags,
+);
+router.patch(
+  "/feature-flags/:flag",
+  requireAdmin,
+  requirePermission("flags:write"),
+  setGlobalFlag,
+);
+router.get(
+  "/feature-flags/user/:uid",
+  requireAdmin,
+  requirePermission("flags:read"),
+  getUserFlags,
+);
+router.patch(
+  "/feature-flags/user/:uid/:flag",
+  requireAdmin,
+  requirePermission("flags:write"),
+  setUserFlag,
+);
 
 // ─── Broadcast ────────────────────────────────────────────────────────────────
-router.post("/broadcast/email", requireAdmin, sendDirectEmail);
-router.post("/broadcast/announcement", requireAdmin, createAnnouncement);
-router.get("/broadcast/announcements", requireAdmin, getAnnouncements);
+router.post(
+  "/broadcast/email",
+  requireAdmin,
+  requirePermission("broadcast:send"),
+  sendDirectEmail,
+);
+router.post(
+  "/broadcast/announcement",
+  requireAdmin,
+  requirePermission("broadcast:send"),
+  createAnnouncement,
+);
+router.get(
+  "/broadcast/announcements",
+  requireAdmin,
+  requirePermission("broadcast:read"),
+  getAnnouncements,
+);
 router.patch(
   "/broadcast/announcements/:id/deactivate",
   requireAdmin,
+  requirePermission("broadcast:send"),
   deactivateAnnouncement,
 );
 
@@ -0,0 +1,28 @@
+/**
+ * One-off backfill for the review queue, which orders users under review by
+ * riskScore and so leaves out anyone without one. Sets riskScore to 0 on users
+ * flagged before flagging stored a score (or flagged outside this backend); the
+ * scheduled rescore replaces it with the real score.
+ *
+ * Usage: npm run backfill:review-risk-scores -- [--dry-run]
+ */
+import dotenv from 'dotenv';
+dotenv.config();
+
+import { backfillReviewRiskScores } from '../services/reviewQueue';
+
+const dryRun = process.argv.includes('--dry-run');
+
+async function main() {
+  console.log(`Backfilling review queue risk scores${dryRun ? ' (dry run)' : ''}...`);
+  const updated = await backfillReviewRiskScores({ dryRun });
+  console.log(`  users under review given a riskScore: ${updated}`);
+  console.log('Done.');
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error('Review risk score backfill failed:', error);
+    process.exit(1);
+  });
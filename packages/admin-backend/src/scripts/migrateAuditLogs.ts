@@ -0,0 +1,34 @@
+/**
+ * One-off migration onto the unified audit log.
+ *
+ *  1. Backfills createdAt/resource/resourceId/ipAddress/userAgent on auditLogs
+ *     entries written before the unified shape (they only have `timestamp`).
+ *  2. Copies every adminAuditLogs entry (ArtStation scoring, generation edits and
+ *     deletes) into auditLogs as `legacy_<id>`.
+ *
+ * The server also runs this at startup (see jobs/auditLogMigration); each run
+ * picks up after the last entry the previous one migrated.
+ *
+ * Usage: npm run migrate:audit-logs -- [--dry-run]
+ */
+import dotenv from 'dotenv';
+dotenv.config();
+
+import { migrateAuditLogs } from '../services/auditLogMigration';
+
+const dryRun = process.argv.includes('--dry-run');
+
+async function main() {
+  console.log(`Migrating audit logs${dryRun ? ' (dry run)' : ''}...`);
+  const { backfilled, copied } = await migrateAuditLogs({ dryRun });
+  console.log(`  auditLogs entries backfilled: ${backfilled}`);
+  console.log(`  adminAuditLogs entries copied: ${copied}`);
+  console.log('Done.');
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error('Audit log migration failed:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,133 @@
+import crypto from "crypto";
+import { adminDb } from "../config/firebaseAdmin";
+
+export const ADMIN_API_KEYS_COLLECTION = "adminApiKeys";
+
+/** Every key starts with this so it is recognisable in a bearer header (and in leaked-secret scans). */
+export const API_KEY_PREFIX = "wmk_";
+
+// lastUsedAt is only written when it is older than this
+const LAST_USED_WRITE_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Stored shape of an adminApiKeys document. The plaintext key is
+ * `wmk_<docId>.<secret>` and is only ever shown once, at creation.
+ */
+export interface AdminApiKeyRecord {
+  name: string;
+  keyHash: string;
+  scopes: string[];
+  createdBy: string;
+  createdByEmail: string;
+  createdAt: string;
+  expiresAt: string;
+  lastUsedAt: string | null;
+  revokedAt: string | null;
+  revokedBy: string | null;
+}
+
+export interface AdminApiKeyWithId extends AdminApiKeyRecord {
+  id: string;
+}
+
+function hashKey(key: string): string {
+  return crypto.createHash("sha256").update(key).digest("hex");
+}
+
+export function isApiKey(token: string): boolean {
+  return token.startsWith(API_KEY_PREFIX);
+}
+
+export async function createApiKey(
+  input: Pick<
+    AdminApiKeyRecord,
+    "name" | "scopes" | "createdBy" | "createdByEmail" | "expiresAt"
+  >,
+): Promise<{ key: string; apiKey: AdminApiKeyWithId }> {
+  const ref = adminDb.collection(ADMIN_API_KEYS_COLLECTION).doc();
+  const key = `${API_KEY_PREFIX}${ref.id}.${crypto.randomBytes(32).toString("base64url")}`;
+  const record: AdminApiKeyRecord = {
+    ...input,
+    keyHash: hashKey(key),
+    createdAt: new Date().toISOString(),
+    lastUsedAt: null,
+    revokedAt: null,
+    revokedBy: null,
+  };
+  await ref.set(record);
+  return { key, apiKey: { id: ref.id, ...record } };
+}
+
+export async function getApiKey(id: string): Promise<AdminApiKeyWithId | null> {
+  const doc = await adminDb.collection(ADMIN_API_KEYS_COLLECTION).doc(id).get();
+  if (!doc.exists) return null;
+  return { id: doc.id, ...(doc.data() as AdminApiKeyRecord) };
+}
+
+/**
+ * Resolve a presented key to its record if it is known, unrevoked and unexpired.
+ */
+export async function verifyApiKey(
+  key: string,
+): Promise<AdminApiKeyWithId | null> {
+  const id = key.slice(API_KEY_PREFIX.length).split(".")[0];
+  if (!id) return null;
+
+  const apiKey = await getApiKey(id);
+  if (!apiKey || apiKey.revokedAt) return null;
+  if (new Date(apiKey.expiresAt).getTime() <= Date.now()) return null;
+
+  const presented = Buffer.from(hashKey(key), "hex");
+  const stored = Buffer.from(apiKey.keyHash, "hex");
+  if (
+    presented.length !== stored.length ||
+    !crypto.timingSafeEqual(presented, stored)
+  ) {
+    return null;
+  }
+
+  const now = Date.now();
+  if (
+    !apiKey.lastUsedAt ||
+    now - new Date(apiKey.lastUsedAt).getTime() > LAST_USED_WRITE_INTERVAL_MS
+  ) {
+    apiKey.lastUsedAt = new Date(now).toISOString();
+    await adminDb
+      .collection(ADMIN_API_KEYS_COLLECTION)
+      .doc(id)
+      .update({ lastUsedAt: apiKey.lastUsedAt });
+  }
+  return apiKey;
+}
+
+export async function listApiKeys(
+  createdBy?: string,
+): Promise<AdminApiKeyWithId[]> {
+  const query = createdBy
+    ? adminDb
+        .collection(ADMIN_API_KEYS_COLLECTION)
+        .where("createdBy", "==", createdBy)
+    : adminDb.collection(ADMIN_API_KEYS_COLLECTION);
+  const snapshot = await query.get();
+  return snapshot.docs
+    .map((doc) => ({ id: doc.id, ...(doc.data() as AdminApiKeyRecord) }))
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export async function revokeApiKey(
+  id: string,
+  revokedBy: string,
+): Promise<void> {
+  await adminDb.collection(ADMIN_API_KEYS_COLLECTION).doc(id).update({
+    revokedAt: new Date().toISOString(),
+    revokedBy,
+  });
+}
+
+/**
+ * Strip the hash before a key record leaves the backend.
+ */
+export function toPublicApiKey(apiKey: AdminApiKeyWithId) {
+  const { keyHash: _keyHash, ...rest } = apiKey;
+  return rest;
+}
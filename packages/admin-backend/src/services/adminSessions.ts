@@ -0,0 +1,262 @@
+import crypto from "crypto";
+import { Request } from "express";
+import { adminDb } from "../config/firebaseAdmin";
+import { env } from "../config/env";
+
+export const ADMIN_SESSIONS_COLLECTION = "adminSessions";
+
+// Sliding lifetime: every refresh pushes expiresAt this far out again
+export const REFRESH_TOKEN_TTL_MS = env.refreshTokenTtlHours * 60 * 60 * 1000;
+
+// Two tabs refreshing at once present the same token; the loser within this window is not treated as reuse
+const REFRESH_REUSE_GRACE_MS = 30 * 1000;
+
+// lastActivityAt is only written when it is older than this, to keep requireAdmin cheap
+const ACTIVITY_WRITE_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Stored shape of an adminSessions document (see AdminSession in
+ * @wildmind-admin/shared). The document id is the `sid` claim in the JWT.
+ */
+export interface AdminSessionRecord {
+  adminId: string;
+  adminEmail: string;
+  adminRole: string;
+  ipAddress: string;
+  userAgent: string;
+  createdAt: string;
+  expiresAt: string;
+  lastActivityAt: string;
+  revokedAt: string | null;
+  revokedBy: string | null;
+  refreshTokenHash: string;
+  previousRefreshTokenHash: string | null;
+  refreshedAt: string | null;
+}
+
+export interface AdminSessionWithId extends AdminSessionRecord {
+  id: string;
+}
+
+export function getIdleTimeoutMs(role: string): number {
+  const minutes =
+    env.idleTimeoutMinutes[role] ?? env.idleTimeoutMinutes.default ?? 60;
+  return minutes * 60 * 1000;
+}
+
+function isLive(session: AdminSessionRecord, now = Date.now()): boolean {
+  return (
+    !session.revokedAt &&
+    new Date(session.expiresAt).getTime() > now &&
+    now - new Date(session.lastActivityAt).getTime() <
+      getIdleTimeoutMs(session.adminRole)
+  );
+}
+
+function hashRefreshToken(token: string): string {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+/**
+ * Refresh tokens are `<sessionId>.<random>` so the session can be found
+ * without storing the token itself; only its hash is persisted.
+ */
+function newRefreshToken(sessionId: string): string {
+  return `${sessionId}.${crypto.randomBytes(32).toString("base64url")}`;
+}
+
+export async function createSession(
+  req: Request,
+  admin: { id: string; email: string; role: string },
+): Promise<{ sessionId: string; refreshToken: string }> {
+  const id = crypto.randomBytes(16).toString("hex");
+  const refreshToken = newRefreshToken(id);
+  const now = new Date();
+  const record: AdminSessionRecord = {
+    adminId: admin.id,
+    adminEmail: admin.email,
+    adminRole: admin.role,
+    ipAddress: req.ip || "",
+    userAgent: String(req.headers["user-agent"] || ""),
+    createdAt: now.toISOString(),
+    expiresAt: new Date(now.getTime() + REFRESH_TOKEN_TTL_MS).toISOString(),
+    lastActivityAt: now.toISOString(),
+    revokedAt: null,
+    revokedBy: null,
+    refreshTokenHash: hashRefreshToken(refreshToken),
+    previousRefreshTokenHash: null,
+    refreshedAt: null,
+  };
+  await adminDb.collection(ADMIN_SESSIONS_COLLECTION).doc(id).set(record);
+  return { sessionId: id, refreshToken };
+}
+
+export type RefreshResult =
+  | { status: "rotated"; session: AdminSessionWithId; refreshToken: string }
+  | { status: "concurrent"; session: AdminSessionWithId }
+  | { status: "reused"; session: AdminSessionWithId }
+  | { status: "invalid" };
+
+/**
+ * Exchange a refresh token for a new one. Presenting an already-rotated token
+ * outside the grace window means it was stolen or replayed, so the session is revoked.
+ */
+export async function rotateRefreshToken(
+  refreshToken: string,
+): Promise<RefreshResult> {
+  const sessionId = refreshToken.split(".")[0];
+  if (!sessionId) return { status: "invalid" };
+
+  const ref = adminDb.collection(ADMIN_SESSIONS_COLLECTION).doc(sessionId);
+  const presentedHash = hashRefreshToken(refreshToken);
+
+  return adminDb.runTransaction(async (tx): Promise<RefreshResult> => {
+    const doc = await tx.get(ref);
+    if (!doc.exists) return { status: "invalid" };
+    const session = {
+      id: doc.id,
+      ...(doc.data() as AdminSessionRecord),
+    };
+    const now = Date.now();
+
+    if (presentedHash === session.previousRefreshTokenHash) {
+      const refreshedAt = session.refreshedAt
+        ? new Date(session.refreshedAt).getTime()
+        : 0;
+      if (now - refreshedAt < REFRESH_REUSE_GRACE_MS && isLive(session, now)) {
+        return { status: "concurrent", session };
+      }
+      if (!session.revokedAt) {
+        tx.update(ref, {
+          revokedAt: new Date(now).toISOString(),
+          revokedBy: "system:refresh-token-reuse",
+        });
+      }
+      return { status: "reused", session };
+    }
+
+    if (presentedHash !== session.refreshTokenHash || !isLive(session, now)) {
+      return { status: "invalid" };
+    }
+
+    const nextToken = newRefreshToken(session.id);
+    const nowIso = new Date(now).toISOString();
+    const updates = {
+      refreshTokenHash: hashRefreshToken(nextToken),
+      previousRefreshTokenHash: presentedHash,
+      refreshedAt: nowIso,
+      lastActivityAt: nowIso,
+      expiresAt: new Date(now + REFRESH_TOKEN_TTL_MS).toISOString(),
+    };
+    tx.update(ref, updates);
+    return {
+      status: "rotated",
+      session: { ...session, ...updates },
+      refreshToken: nextToken,
+    };
+  });
+}
+
+/**
+ * Revoke the session a refresh token belongs to (logout after the access token expired).
+ */
+export async function revokeSessionByRefreshToken(
+  refreshToken: string,
+  revokedBy: string,
+): Promise<void> {
+  const session = await getSession(refreshToken.split(".")[0] || "");
+  const presentedHash = hashRefreshToken(refreshToken);
+  if (
+    session &&
+    !session.revokedAt &&
+    (presentedHash === session.refreshTokenHash ||
+      presentedHash === session.previousRefreshTokenHash)
+  ) {
+    await revokeSession(session.id, revokedBy);
+  }
+}
+
+export async function getSession(
+  id: string,
+): Promise<AdminSessionWithId | null> {
+  const doc = await adminDb.collection(ADMIN_SESSIONS_COLLECTION).doc(id).get();
+  if (!doc.exists) return null;
+  return { id: doc.id, ...(doc.data() as AdminSessionRecord) };
+}
+
+/**
+ * Return the session if it is not revoked, expired or idle, bumping lastActivityAt.
+ */
+export async function getLiveSession(
+  id: string,
+): Promise<AdminSessionWithId | null> {
+  const session = await getSession(id);
+  if (!session || !isLive(session)) return null;
+
+  const now = Date.now();
+  if (
+    now - new Date(session.lastActivityAt).getTime() >
+    ACTIVITY_WRITE_INTERVAL_MS
+  ) {
+    session.lastActivityAt = new Date(now).toISOString();
+    await adminDb
+      .collection(ADMIN_SESSIONS_COLLECTION)
+      .doc(id)
+      .update({ lastActivityAt: session.lastActivityAt });
+  }
+  return session;
+}
+
+/**
+ * Live sessions, newest activity first. Omit adminId to list every admin's sessions.
+ */
+export async function listLiveSessions(
+  adminId?: string,
+): Promise<AdminSessionWithId[]> {
+  const nowIso = new Date().toISOString();
+  const query = adminId
+    ? adminDb
+        .collection(ADMIN_SESSIONS_COLLECTION)
+        .where("adminId", "==", adminId)
+    : adminDb
+        .collection(ADMIN_SESSIONS_COLLECTION)
+        .where("expiresAt", ">", nowIso);
+
+  const snapshot = await query.get();
+  return snapshot.docs
+    .map((doc) => ({ id: doc.id, ...(doc.data() as AdminSessionRecord) }))
+    .filter((session) => isLive(session))
+    .sort((a, b) => b.lastActivityAt.localeCompare(a.lastActivityAt));
+}
+
+export async function revokeSession(
+  id: string,
+  revokedBy: string,
+): Promise<void> {
+  await adminDb.collection(ADMIN_SESSIONS_COLLECTION).doc(id).update({
+    revokedAt: new Date().toISOString(),
+    revokedBy,
+  });
+}
+
+/**
+ * Revoke every live session belonging to an admin. Returns how many were revoked.
+ */
+export async function revokeAdminSessions(
+  adminId: string,
+  revokedBy: string,
+): Promise<number> {
+  const sessions = await listLiveSessions(adminId);
+  if (sessions.length === 0) return 0;
+
+  const batch = adminDb.batch();
+  const revokedAt = new Date().toISOString();
+  sessions.forEach((session) => {
+    batch.update(
+      adminDb.collection(ADMIN_SESSIONS_COLLECTION).doc(session.id),
+      { revokedAt, revokedBy },
+    );
+  });
+  await batch.commit();
+  return sessions.length;
+}
@@ -0,0 +1,179 @@
+import bcrypt from "bcryptjs";
+import { adminDb } from "../config/firebaseAdmin";
+import { decryptSecret, encryptSecret } from "../utils/secretBox";
+import {
+  generateRecoveryCodes,
+  matchCodeStep,
+  normalizeRecoveryCode,
+} from "../utils/totp";
+
+/**
+ * TOTP enrollment lives in its own collection keyed by admin id, so the
+ * env bootstrap admin (which has no adminUsers doc) can enroll too.
+ */
+export const ADMIN_TWO_FACTOR_COLLECTION = "adminTwoFactor";
+
+const RECOVERY_CODE_ROUNDS = 10;
+
+export interface AdminTwoFactorRecord {
+  enabled: boolean;
+  secret?: string;
+  pendingSecret?: string;
+  recoveryCodeHashes?: string[];
+  /** Time step of the last code accepted; it and earlier steps can't be reused */
+  lastUsedStep?: number;
+  enabledAt?: string;
+  updatedAt: string;
+}
+
+export async function getTwoFactor(
+  adminId: string,
+): Promise<AdminTwoFactorRecord | null> {
+  const doc = await adminDb
+    .collection(ADMIN_TWO_FACTOR_COLLECTION)
+    .doc(adminId)
+    .get();
+  return doc.exists ? (doc.data() as AdminTwoFactorRecord) : null;
+}
+
+export async function isTwoFactorEnabled(adminId: string): Promise<boolean> {
+  const record = await getTwoFactor(adminId);
+  return !!record?.enabled;
+}
+
+/**
+ * Store a freshly generated secret until the admin proves they scanned it.
+ */
+export async function savePendingSecret(
+  adminId: string,
+  secret: string,
+): Promise<void> {
+  await adminDb
+    .collection(ADMIN_TWO_FACTOR_COLLECTION)
+    .doc(adminId)
+    .set(
+      {
+        pendingSecret: encryptSecret(secret),
+        updatedAt: new Date().toISOString(),
+      },
+      { merge: true },
+    );
+}
+
+async function hashRecoveryCodes(codes: string[]): Promise<string[]> {
+  return Promise.all(
+    codes.map((code) =>
+      bcrypt.hash(normalizeRecoveryCode(code), RECOVERY_CODE_ROUNDS),
+    ),
+  );
+}
+
+/**
+ * Promote the pending secret if `code` matches it. Returns the plaintext
+ * recovery codes (shown once), or null when the code is wrong.
+ */
+export async function confirmPendingSecret(
+  adminId: string,
+  code: string,
+): Promise<string[] | null> {
+  const record = await getTwoFactor(adminId);
+  if (!record?.pendingSecret) return null;
+
+  const secret = decryptSecret(record.pendingSecret);
+  const step = matchCodeStep(secret, code);
+  if (step === null) return null;
+
+  const recoveryCodes = generateRecoveryCodes();
+  const now = new Date().toISOString();
+  await adminDb
+    .collection(ADMIN_TWO_FACTOR_COLLECTION)
+    .doc(adminId)
+    .set({
+      enabled: true,
+      secret: encryptSecret(secret),
+      recoveryCodeHashes: await hashRecoveryCodes(recoveryCodes),
+      lastUsedStep: step,
+      enabledAt: now,
+      updatedAt: now,
+    });
+  return recoveryCodes;
+}
+
+/**
+ * Check a TOTP code and record its time step, so the same code (or an older
+ * one still inside the drift window) can't be replayed. Runs in a transaction
+ * so two requests racing with one code cannot both pass.
+ */
+export async function verifyTwoFactorCode(
+  adminId: string,
+  code: string,
+): Promise<boolean> {
+  const ref = adminDb.collection(ADMIN_TWO_FACTOR_COLLECTION).doc(adminId);
+  return adminDb.runTransaction(async (tx) => {
+    const doc = await tx.get(ref);
+    const record = doc.data() as AdminTwoFactorRecord | undefined;
+    if (!record?.enabled || !record.secret) return false;
+
+    const step = matchCodeStep(decryptSecret(record.secret), code);
+    if (step === null) return false;
+    if (record.lastUsedStep !== undefined && step <= record.lastUsedStep)
+      return false;
+
+    tx.update(ref, { lastUsedStep: step });
+    return true;
+  });
+}
+
+/**
+ * Check a recovery code and burn it on success. The bcrypt comparisons run
+ * outside the transaction; the transaction then removes the matched hash only
+ * if it is still there, so a code used twice at once succeeds only once.
+ */
+export async function consumeRecoveryCode(
+  adminId: string,
+  code: string,
+): Promise<boolean> {
+  const record = await getTwoFactor(adminId);
+  const hashes = record?.recoveryCodeHashes || [];
+  const normalized = normalizeRecoveryCode(code);
+
+  let matched: string | null = null;
+  for (const hash of hashes) {
+    if (await bcrypt.compare(normalized, hash)) {
+      matched = hash;
+      break;
+    }
+  }
+  if (!matched) return false;
+
+  const ref = adminDb.collection(ADMIN_TWO_FACTOR_COLLECTION).doc(adminId);
+  return adminDb.runTransaction(async (tx) => {
+    const doc = await tx.get(ref);
+    const current =
+      (doc.data() as AdminTwoFactorRecord | undefined)?.recoveryCodeHashes ||
+      [];
+    if (!current.includes(matched as string)) return false;
+
+    tx.update(ref, {
+      recoveryCodeHashes: current.filter((hash) => hash !== matched),
+      updatedAt: new Date().toISOString(),
+    });
+    return true;
+  });
+}
+
+export async function replaceRecoveryCodes(adminId: string): Promise<string[]> {
+  const recoveryCodes = generateRecoveryCodes();
+  await adminDb
+    .collection(ADMIN_TWO_FACTOR_COLLECTION)
+    .doc(adminId)
+    .update({
+      recoveryCodeHashes: await hashRecoveryCodes(recoveryCodes),
+      updatedAt: new Date().toISOString(),
+    });
+  return recoveryCodes;
+}
+
+export async function clearTwoFactor(adminId: string): Promise<void> {
+  await adminDb.collection(ADMIN_TWO_FACTOR_COLLECTION).doc(adminId).delete();
+}
@@ -0,0 +1,125 @@
+import { adminDb } from "../config/firebaseAdmin";
+
+export const ADMIN_USERS_COLLECTION = "adminUsers";
+/** One doc per admin email, keyed by the normalized address */
+export const ADMIN_EMAILS_COLLECTION = "adminEmails";
+
+/** Mirrors the AdminRole enum in @wildmind-admin/shared */
+export const ADMIN_ROLES = [
+  "super_admin",
+  "admin",
+  "moderator",
+  "support",
+] as const;
+export type AdminRole = (typeof ADMIN_ROLES)[number];
+
+/**
+ * Admin id carried in tokens for the env-configured bootstrap account.
+ * It has no adminUsers document and always acts as a super admin.
+ */
+export const BOOTSTRAP_ADMIN_ID = "admin-1";
+
+/**
+ * Stored shape of an adminUsers document. Follows the shared AdminUser type,
+ * plus the bcrypt hash; dates are ISO strings like the rest of our collections.
+ */
+export interface AdminUserRecord {
+  email: string;
+  username: string;
+  role: AdminRole;
+  permissions: string[];
+  passwordHash: string;
+  isActive: boolean;
+  createdAt: string;
+  createdBy: string;
+  lastLoginAt?: string;
+  disabledAt?: string;
+  disabledBy?: string;
+}
+
+export interface AdminUserWithId extends AdminUserRecord {
+  id: string;
+}
+
+export type CreateAdminResult =
+  { status: "created"; admin: AdminUserWithId } | { status: "email_taken" };
+
+export function isAdminRole(value: unknown): value is AdminRole {
+  return (
+    typeof value === "string" &&
+    (ADMIN_ROLES as readonly string[]).includes(value)
+  );
+}
+
+export function normalizeEmail(email: string): string {
+  return String(email).trim().toLowerCase();
+}
+
+export async function findAdminByEmail(
+  email: string,
+): Promise<AdminUserWithId | null> {
+  const snapshot = await adminDb
+    .collection(ADMIN_USERS_COLLECTION)
+    .where("email", "==", normalizeEmail(email))
+    .limit(1)
+    .get();
+  if (snapshot.empty) return null;
+  const doc = snapshot.docs[0];
+  return { id: doc.id, ...(doc.data() as AdminUserRecord) };
+}
+
+export async function getAdminById(
+  id: string,
+): Promise<AdminUserWithId | null> {
+  const doc = await adminDb.collection(ADMIN_USERS_COLLECTION).doc(id).get();
+  if (!doc.exists) return null;
+  return { id: doc.id, ...(doc.data() as AdminUserRecord) };
+}
+
+function emailRef(email: string) {
+  return adminDb.collection(ADMIN_EMAILS_COLLECTION).doc(normalizeEmail(email));
+}
+
+/**
+ * Create an admin account. The adminEmails doc for the address is created in
+ * the same transaction, so two requests for one email cannot both succeed.
+ */
+export async function createAdmin(
+  record: AdminUserRecord,
+): Promise<CreateAdminResult> {
+  return adminDb.runTransaction(async (tx) => {
+    const marker = await tx.get(emailRef(record.email));
+    if (marker.exists) return { status: "email_taken" };
+    // Admins created before adminEmails existed have no marker
+    const existing = await tx.get(
+      adminDb
+        .collection(ADMIN_USERS_COLLECTION)
+        .where("email", "==", record.email)
+        .limit(1),
+    );
+    if (!existing.empty) return { status: "email_taken" };
+
+    const ref = adminDb.collection(ADMIN_USERS_COLLECTION).doc();
+    tx.create(emailRef(record.email), { adminId: ref.id });
+    tx.create(ref, record);
+    return { status: "created", admin: { id: ref.id, ...record } };
+  });
+}
+
+/**
+ * Delete an admin account and free its email for reuse.
+ */
+export async function deleteAdmin(admin: AdminUserWithId): Promise<void> {
+  const batch = adminDb.batch();
+  batch.delete(adminDb.collection(ADMIN_USERS_COLLECTION).doc(admin.id));
+  batch.delete(emailRef(admin.email));
+  await batch.commit();
+}
+
+/**
+ * Strip secrets before an admin record leaves the backend.
+ */
+export function toPublicAdmin(admin: AdminUserWithId) {
+  const { passwordHash: _passwordHash, ...rest } = admin;
+  return rest;
+}
@@ -0,0 +1,254 @@
+import { adminDb } from "../config/firebaseAdmin";
+
+export const USER_APPEALS_COLLECTION = "userAppeals";
+/**
+ * One doc per user with a pending appeal, keyed by uid. Submissions check and
+ * write it in a transaction, which a query on userAppeals can't guard.
+ */
+export const PENDING_APPEALS_COLLECTION = "pendingAppeals";
+
+export const APPEAL_STATUSES = ["pending", "approved", "denied"] as const;
+export type AppealStatus = (typeof APPEAL_STATUSES)[number];
+
+/** The sanction being appealed. A banned user who is also suspended appeals the ban. */
+export type AppealSanction = "ban" | "suspension";
+
+/**
+ * Stored shape of a userAppeals document. The sanction fields are copied from
+ * the user when the appeal is submitted, so reviewers see what was appealed
+ * even after it has been lifted.
+ */
+export interface AppealRecord {
+  uid: string;
+  userEmail: string | null;
+  sanction: AppealSanction;
+  sanctionReason: string | null;
+  sanctionedAt: string | null;
+  sanctionedBy: string | null;
+  message: string;
+  status: AppealStatus;
+  submittedAt: string;
+  /** Admin or API key that submitted the appeal on the user's behalf */
+  submittedBy: string;
+  decidedBy: string | null;
+  decidedByEmail: string | null;
+  decidedAt: string | null;
+  /** Sent to the user with the outcome */
+  decisionNote: string | null;
+  outcomeEmailSent: boolean | null;
+}
+
+export interface AppealWithId extends AppealRecord {
+  id: string;
+}
+
+export interface AppealActor {
+  adminId: string;
+  adminEmail: string;
+}
+
+export type AppealSubmitResult =
+  | { status: "created"; appeal: AppealWithId }
+  | { status: "duplicate"; appeal: AppealWithId }
+  | { status: "user_not_found" }
+  | { status: "not_sanctioned" };
+
+export type AppealDecisionResult =
+  | { status: "decided"; appeal: AppealWithId }
+  | { status: "not_found" }
+  | { status: "not_pending"; current: AppealStatus };
+
+export function isAppealStatus(value: unknown): value is AppealStatus {
+  return (
+    typeof value === "string" &&
+    (APPEAL_STATUSES as readonly string[]).includes(value)
+  );
+}
+
+function appealRef(id: string) {
+  return adminDb.collection(USER_APPEALS_COLLECTION).doc(id);
+}
+
+function pendingRef(uid: string) {
+  return adminDb.collection(PENDING_APPEALS_COLLECTION).doc(uid);
+}
+
+/**
+ * Record an appeal against the user's current ban or suspension. A user has at
+ * most one pending appeal; submitting again returns the existing one. Runs in
+ * a transaction on the user's pendingAppeals doc so two submissions at once
+ * cannot both create one.
+ */
+export async function submitAppeal(input: {
+  uid: string;
+  message: string;
+  submittedBy: string;
+}): Promise<AppealSubmitResult> {
+  const userRef = adminDb.collection("users").doc(input.uid);
+  return adminDb.runTransaction(async (tx) => {
+    const [userDoc, pendingDoc] = await Promise.all([
+      tx.get(userRef),
+      tx.get(pendingRef(input.uid)),
+    ]);
+    if (!userDoc.exists) return { status: "user_not_found" };
+    const user = userDoc.data() || {};
+    if (!user.isBanned && !user.isSuspended)
+      return { status: "not_sanctioned" };
+
+    const pendingId: string | undefined = pendingDoc.data()?.appealId;
+    if (pendingId) {
+      const current = await tx.get(appealRef(pendingId));
+      if (current.data()?.status === "pending") {
+        return {
+          status: "duplicate",
+          appeal: { id: current.id, ...(current.data() as AppealRecord) },
+        };
+      }
+    } else {
+      // Appeals submitted before pendingAppeals existed have no marker
+      const existing = await tx.get(
+        adminDb
+          .collection(USER_APPEALS_COLLECTION)
+          .where("uid", "==", input.uid)
+          .where("status", "==", "pending")
+          .limit(1),
+      );
+      if (!existing.empty) {
+        const doc = existing.docs[0];
+        return {
+          status: "duplicate",
+          appeal: { id: doc.id, ...(doc.data() as AppealRecord) },
+        };
+      }
+    }
+
+    const record = buildAppealRecord(input, user);
+    const ref = adminDb.collection(USER_APPEALS_COLLECTION).doc();
+    tx.create(ref, record);
+    tx.set(pendingRef(input.uid), {
+      appealId: ref.id,
+      submittedAt: record.submittedAt,
+    });
+    return { status: "created", appeal: { id: ref.id, ...record } };
+  });
+}
+
+function buildAppealRecord(
+  input: { uid: string; message: string; submittedBy: string },
+  user: FirebaseFirestore.DocumentData,
+): AppealRecord {
+  const banned = !!user.isBanned;
+  return {
+    uid: input.uid,
+    userEmail: user.email || null,
+    sanction: banned ? "ban" : "suspension",
+    sanctionReason: (banned ? user.banReason : user.suspendReason) || null,
+    sanctionedAt: (banned ? user.bannedAt : user.suspendedAt) || null,
+    sanctionedBy: (banned ? user.bannedBy : user.suspendedBy) || null,
+    message: input.message,
+    status: "pending",
+    submittedAt: new Date().toISOString(),
+    submittedBy: input.submittedBy,
+    decidedBy: null,
+    decidedByEmail: null,
+    decidedAt: null,
+    decisionNote: null,
+    outcomeEmailSent: null,
+  };
+}
+
+export async function getAppeal(id: string): Promise<AppealWithId | null> {
+  const doc = await appealRef(id).get();
+  if (!doc.exists) return null;
+  return { id: doc.id, ...(doc.data() as AppealRecord) };
+}
+
+/**
+ * Oldest first for the pending queue, newest first otherwise.
+ */
+export async function listAppeals(
+  status: AppealStatus | undefined,
+  limit: number,
+): Promise<AppealWithId[]> {
+  let query: FirebaseFirestore.Query = adminDb.collection(
+    USER_APPEALS_COLLECTION,
+  );
+  if (status) query = query.where("status", "==", status);
+  const snapshot = await query
+    .orderBy("submittedAt", status === "pending" ? "asc" : "desc")
+    .limit(limit)
+    .get();
+  return snapshot.docs.map((doc) => ({
+    id: doc.id,
+    ...(doc.data() as AppealRecord),
+  }));
+}
+
+/**
+ * Move a pending appeal to approved or denied inside a transaction, so two
+ * reviewers deciding at once cannot both win.
+ */
+export async function decideAppeal(
+  id: string,
+  decider: AppealActor,
+  decision: "approved" | "denied",
+  note?: string,
+): Promise<AppealDecisionResult> {
+  const ref = appealRef(id);
+  return adminDb.runTransaction(async (tx) => {
+    const doc = await tx.get(ref);
+    if (!doc.exists) return { status: "not_found" };
+
+    const appeal = doc.data() as AppealRecord;
+    if (appeal.status !== "pending") {
+      return { status: "not_pending", current: appeal.status };
+    }
+    const pendingDoc = await tx.get(pendingRef(appeal.uid));
+
+    const update = {
+      status: decision,
+      decidedBy: decider.adminId,
+      decidedByEmail: decider.adminEmail,
+      decidedAt: new Date().toISOString(),
+      decisionNote: note || null,
+    };
+    tx.update(ref, update);
+    if (pendingDoc.data()?.appealId === id) tx.delete(pendingRef(appeal.uid));
+    return { status: "decided", appeal: { id, ...appeal, ...update } };
+  });
+}
+
+/**
+ * Put an approved appeal back in the queue when lifting the sanction failed.
+ */
+export async function reopenAppeal(id: string): Promise<void> {
+  const ref = appealRef(id);
+  await adminDb.runTransaction(async (tx) => {
+    const doc = await tx.get(ref);
+    if (!doc.exists) return;
+    const appeal = doc.data() as AppealRecord;
+    const pendingDoc = await tx.get(pendingRef(appeal.uid));
+
+    tx.update(ref, {
+      status: "pending",
+      decidedBy: null,
+      decidedByEmail: null,
+      decidedAt: null,
+      decisionNote: null,
+    });
+    // Leave the marker alone if the user filed a new appeal in the meantime
+    if (!pendingDoc.exists) {
+      tx.set(pendingRef(appeal.uid), {
+        appealId: id,
+        submittedAt: appeal.submittedAt,
+      });
+    }
+  });
+}
+
+export async function markOutcomeEmailed(
+  id: string,
+  sent: boolean,
+): Promise<void> {
+  await appealRef(id).update({ outcomeEmailSent: sent });
+}
@@ -0,0 +1,264 @@
+import crypto from "crypto";
+import { adminDb } from "../config/firebaseAdmin";
+
+export const PENDING_APPROVALS_COLLECTION = "pendingApprovals";
+/** One doc per distinct request (action, target and params), naming its pending approval */
+export const PENDING_APPROVAL_KEYS_COLLECTION = "pendingApprovalKeys";
+const ADMIN_SETTINGS_COLLECTION = "adminSettings";
+const APPROVAL_POLICY_DOC = "approvalPolicy";
+
+/** High-impact actions that can be held for a second admin's approval. */
+export type ApprovalAction = "BAN_USER" | "SET_ROLE_ADMIN" | "DEDUCT_CREDITS";
+
+export type ApprovalStatus =
+  "pending" | "approved" | "rejected" | "expired" | "failed";
+
+export interface ApprovalPolicy {
+  banUser: boolean;
+  promoteToAdmin: boolean;
+  /** Deductions of at least this many credits need approval; 0 turns the check off. */
+  creditDeductionThreshold: number;
+  expiryHours: number;
+}
+
+export const DEFAULT_APPROVAL_POLICY: ApprovalPolicy = {
+  banUser: true,
+  promoteToAdmin: true,
+  creditDeductionThreshold: 1000,
+  expiryHours: 24,
+};
+
+/**
+ * Stored shape of a pendingApprovals document. `params` holds exactly what the
+ * original request carried, so approval replays the action the requester asked for.
+ */
+export interface ApprovalRecord {
+  action: ApprovalAction;
+  targetUid: string;
+  params: Record<string, unknown>;
+  status: ApprovalStatus;
+  requestedBy: string;
+  requestedByEmail: string;
+  requestedAt: string;
+  expiresAt: string;
+  decidedBy: string | null;
+  decidedByEmail: string | null;
+  decidedAt: string | null;
+  decisionNote: string | null;
+  error: string | null;
+}
+
+export interface ApprovalWithId extends ApprovalRecord {
+  id: string;
+}
+
+export interface ApprovalActor {
+  adminId: string;
+  adminEmail: string;
+}
+
+export async function getApprovalPolicy(): Promise<ApprovalPolicy> {
+  const doc = await adminDb
+    .collection(ADMIN_SETTINGS_COLLECTION)
+    .doc(APPROVAL_POLICY_DOC)
+    .get();
+  if (!doc.exists) return DEFAULT_APPROVAL_POLICY;
+  const { banUser, promoteToAdmin, creditDeductionThreshold, expiryHours } = {
+    ...DEFAULT_APPROVAL_POLICY,
+    ...doc.data(),
+  };
+  return { banUser, promoteToAdmin, creditDeductionThreshold, expiryHours };
+}
+
+export async function saveApprovalPolicy(
+  policy: ApprovalPolicy,
+  updatedBy: string,
+): Promise<void> {
+  await adminDb
+    .collection(ADMIN_SETTINGS_COLLECTION)
+    .doc(APPROVAL_POLICY_DOC)
+    .set({ ...policy, updatedAt: new Date().toISOString(), updatedBy });
+}
+
+function isExpired(approval: ApprovalRecord, now = Date.now()): boolean {
+  return new Date(approval.expiresAt).getTime() <= now;
+}
+
+function approvalRef(id: string) {
+  return adminDb.collection(PENDING_APPROVALS_COLLECTION).doc(id);
+}
+
+function keyRef(approval: {
+  action: ApprovalAction;
+  targetUid: string;
+  params: Record<string, unknown>;
+}) {
+  const key = crypto
+    .createHash("sha256")
+    .update(
+      JSON.stringify([approval.action, approval.targetUid, approval.params]),
+    )
+    .digest("hex");
+  return adminDb.collection(PENDING_APPROVAL_KEYS_COLLECTION).doc(key);
+}
+
+/**
+ * Queue an action for approval. An identical request that is still pending is
+ * returned instead of creating a duplicate. Runs in a transaction on the
+ * request's pendingApprovalKeys doc so two identical requests at once cannot
+ * both create one.
+ */
+export async function requestApproval(input: {
+  action: ApprovalAction;
+  targetUid: string;
+  params: Record<string, unknown>;
+  requester: ApprovalActor;
+  expiryHours: number;
+}): Promise<{ approval: ApprovalWithId; created: boolean }> {
+  const marker = keyRef(input);
+  return adminDb.runTransaction(async (tx) => {
+    const markerDoc = await tx.get(marker);
+    const pendingId: string | undefined = markerDoc.data()?.approvalId;
+    if (pendingId) {
+      const current = await tx.get(approvalRef(pendingId));
+      const approval = current.data() as ApprovalRecord | undefined;
+      if (approval?.status === "pending" && !isExpired(approval)) {
+        return { approval: { id: current.id, ...approval }, created: false };
+      }
+    }
+
+    const now = new Date();
+    const record: ApprovalRecord = {
+      action: input.action,
+      targetUid: input.targetUid,
+      params: input.params,
+      status: "pending",
+      requestedBy: input.requester.adminId,
+      requestedByEmail: input.requester.adminEmail,
+      requestedAt: now.toISOString(),
+      expiresAt: new Date(
+        now.getTime() + input.expiryHours * 60 * 60 * 1000,
+      ).toISOString(),
+      decidedBy: null,
+      decidedByEmail: null,
+      decidedAt: null,
+      decisionNote: null,
+      error: null,
+    };
+    const ref = adminDb.collection(PENDING_APPROVALS_COLLECTION).doc();
+    tx.create(ref, record);
+    tx.set(marker, { approvalId: ref.id, requestedAt: record.requestedAt });
+    return { approval: { id: ref.id, ...record }, created: true };
+  });
+}
+
+export async function getApproval(id: string): Promise<ApprovalWithId | null> {
+  const doc = await adminDb
+    .collection(PENDING_APPROVALS_COLLECTION)
+    .doc(id)
+    .get();
+  if (!doc.exists) return null;
+  return { id: doc.id, ...(doc.data() as ApprovalRecord) };
+}
+
+/**
+ * Mark pending requests past their expiry as expired. Returns how many were closed.
+ */
+export async function expireStaleApprovals(): Promise<number> {
+  const snapshot = await adminDb
+    .collection(PENDING_APPROVALS_COLLECTION)
+    .where("status", "==", "pending")
+    .get();
+  const now = Date.now();
+  const stale = snapshot.docs.filter((doc) =>
+    isExpired(doc.data() as ApprovalRecord, now),
+  );
+  if (stale.length === 0) return 0;
+
+  const batch = adminDb.batch();
+  stale.forEach((doc) => batch.update(doc.ref, { status: "expired" }));
+  await batch.commit();
+  return stale.length;
+}
+
+export async function listApprovals(
+  status?: ApprovalStatus,
+): Promise<ApprovalWithId[]> {
+  await expireStaleApprovals();
+  const query = status
+    ? adminDb
+        .collection(PENDING_APPROVALS_COLLECTION)
+        .where("status", "==", status)
+    : adminDb.collection(PENDING_APPROVALS_COLLECTION);
+  const snapshot = await query.get();
+  return snapshot.docs
+    .map((doc) => ({ id: doc.id, ...(doc.data() as ApprovalRecord) }))
+    .sort((a, b) => b.requestedAt.localeCompare(a.requestedAt));
+}
+
+export type ApprovalDecisionResult =
+  | { status: "decided"; approval: ApprovalWithId }
+  | { status: "not_found" }
+  | { status: "not_pending"; current: ApprovalStatus }
+  | { status: "expired" }
+  | { status: "self_approval" };
+
+/**
+ * Move a pending request to approved or rejected inside a transaction, so two
+ * admins deciding at once cannot both win. The requester may reject (withdraw)
+ * their own request but never approve it.
+ */
+export async function decideApproval(
+  id: string,
+  decider: ApprovalActor,
+  decision: "approved" | "rejected",
+  note?: string,
+): Promise<ApprovalDecisionResult> {
+  const ref = approvalRef(id);
+  return adminDb.runTransaction(async (tx) => {
+    const doc = await tx.get(ref);
+    if (!doc.exists) return { status: "not_found" };
+
+    const approval = doc.data() as ApprovalRecord;
+    const markerDoc = await tx.get(keyRef(approval));
+    // Free the request for a fresh approval once this one is closed
+    const releaseMarker = () => {
+      if (markerDoc.data()?.approvalId === id) tx.delete(markerDoc.ref);
+    };
+    if (approval.status !== "pending") {
+      return { status: "not_pending", current: approval.status };
+    }
+    if (isExpired(approval)) {
+      tx.update(ref, { status: "expired" });
+      releaseMarker();
+      return { status: "expired" };
+    }
+    if (decision === "approved" && approval.requestedBy === decider.adminId) {
+      return { status: "self_approval" };
+    }
+
+    const update = {
+      status: decision,
+      decidedBy: decider.adminId,
+      decidedByEmail: decider.adminEmail,
+      decidedAt: new Date().toISOString(),
+      decisionNote: note || null,
+    };
+    tx.update(ref, update);
+    releaseMarker();
+    return { status: "decided", approval: { id, ...approval, ...update } };
+  });
+}
+
+/**
+ * Record that an approved action could not be carried out.
+ */
+export async function markApprovalFailed(
+  id: string,
+  error: string,
+): Promise<void> {
+  await adminDb
+    .collection(PENDING_APPROVALS_COLLECTION)
+    .doc(id)
+    .update({ status: "failed", error });
+}
@@ -0,0 +1,72 @@
+import fs from "fs/promises";
+import path from "path";
+import { admin } from "../config/firebaseAdmin";
+import { env } from "../config/env";
+
+/**
+ * Where retention archives (gzipped JSONL) are written. Keys are relative paths
+ * like `auditLogs/2025-01-01T00-00-00Z_<run>.jsonl.gz`.
+ */
+export interface ArchiveStore {
+  readonly kind: "local" | "bucket";
+  put(key: string, data: Buffer): Promise<void>;
+  get(key: string): Promise<Buffer>;
+}
+
+/**
+ * Archives on the server's disk. Fine for a single long-lived host; ephemeral
+ * hosts (Render free tier) lose them on redeploy, so use a bucket there.
+ */
+export class LocalArchiveStore implements ArchiveStore {
+  readonly kind = "local" as const;
+
+  constructor(private readonly root: string) {}
+
+  private resolve(key: string) {
+    const file = path.resolve(this.root, key);
+    if (!file.startsWith(path.resolve(this.root) + path.sep)) {
+      throw new Error(`Invalid archive key: ${key}`);
+    }
+    return file;
+  }
+
+  async put(key: string, data: Buffer) {
+    const file = this.resolve(key);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, data);
+  }
+
+  async get(key: string) {
+    return fs.readFile(this.resolve(key));
+  }
+}
+
+/**
+ * Archives in a Cloud Storage bucket of the Firebase project.
+ */
+export class BucketArchiveStore implements ArchiveStore {
+  readonly kind = "bucket" as const;
+
+  constructor(private readonly bucketName: string) {}
+
+  private file(key: string) {
+    return admin.storage().bucket(this.bucketName).file(key);
+  }
+
+  async put(key: string, data: Buffer) {
+    await this.file(key).save(data, {
+      contentType: "application/gzip",
+      resumable: false,
+    });
+  }
+
+  async get(key: string) {
+    const [data] = await this.file(key).download();
+    return data;
+  }
+}
+
+export const archiveStore: ArchiveStore =
+  env.archiveStore === "bucket"
+    ? new BucketArchiveStore(env.archiveBucket)
+    : new LocalArchiveStore(env.archiveDir);
@@ -0,0 +1,156 @@
+import { adminDb } from "../config/firebaseAdmin";
+import {
+  AUDIT_CHAIN_ARCHIVE_DOC,
+  AUDIT_CHAIN_COLLECTION,
+  AUDIT_CHAIN_GENESIS_HASH,
+  AUDIT_CHAIN_HEAD_DOC,
+  AUDIT_LOGS_COLLECTION,
+  AuditChainAnchor,
+  AuditLogRecord,
+  hashAuditRecord,
+} from "./auditLog";
+
+const VERIFICATION_DOC = "verification";
+const PAGE_SIZE = 500;
+
+export type AuditChainBreakReason =
+  "missing_entry" | "prev_hash_mismatch" | "hash_mismatch";
+
+export interface AuditChainBreak {
+  /** Sequence number where the chain stops checking out */
+  sequence: number;
+  entryId: string | null;
+  reason: AuditChainBreakReason;
+}
+
+export interface AuditChainVerification {
+  ok: boolean;
+  checkedAt: string;
+  durationMs: number;
+  entriesChecked: number;
+  headSequence: number;
+  /** Sequence the walk started after, once older entries have been archived */
+  archivedThrough: number;
+  brokenAt: AuditChainBreak | null;
+  trigger: "scheduled" | "manual";
+  triggeredBy: string | null;
+}
+
+/**
+ * Walk the chain from the first entry up to the head as it stood when the walk
+ * started (later appends are left for the next run) and report the first broken link:
+ *  - missing_entry: a sequence number is absent, i.e. an entry was deleted
+ *    (at the tail, the head points past the last surviving entry)
+ *  - prev_hash_mismatch: an entry doesn't point at its predecessor's hash
+ *  - hash_mismatch: an entry's content no longer matches its own hash, i.e. it was edited
+ *
+ * Entries moved out by the retention job are skipped: the walk starts from the
+ * archive anchor (the last archived link) instead of the genesis hash.
+ *
+ * The head and archive anchor documents are the trust anchors: someone able to
+ * rewrite every entry and those documents together can forge a consistent chain.
+ */
+export async function verifyAuditChain(
+  trigger: AuditChainVerification["trigger"],
+  triggeredBy: string | null = null,
+): Promise<AuditChainVerification> {
+  const startedAt = Date.now();
+  const head = await adminDb
+    .collection(AUDIT_CHAIN_COLLECTION)
+    .doc(AUDIT_CHAIN_HEAD_DOC)
+    .get();
+  const headSequence: number = head.data()?.sequence || 0;
+  const headHash: string = head.data()?.lastHash || AUDIT_CHAIN_GENESIS_HASH;
+  const anchor = (
+    await adminDb
+      .collection(AUDIT_CHAIN_COLLECTION)
+      .doc(AUDIT_CHAIN_ARCHIVE_DOC)
+      .get()
+  ).data() as AuditChainAnchor | undefined;
+  const archivedThrough = anchor?.sequence || 0;
+
+  let expected = archivedThrough + 1;
+  let prevHash = anchor?.hash || AUDIT_CHAIN_GENESIS_HASH;
+  let brokenAt: AuditChainBreak | null = null;
+  let last: FirebaseFirestore.QueryDocumentSnapshot | undefined;
+
+  while (!brokenAt && expected <= headSequence) {
+    let query = adminDb
+      .collection(AUDIT_LOGS_COLLECTION)
+      .where("sequence", ">", archivedThrough)
+      .where("sequence", "<=", headSequence)
+      .orderBy("sequence")
+      .limit(PAGE_SIZE);
+    if (last) query = query.startAfter(last);
+    const snapshot = await query.get();
+    if (snapshot.empty) break;
+
+    for (const doc of snapshot.docs) {
+      const record = doc.data() as AuditLogRecord;
+      if (record.sequence !== expected) {
+        brokenAt = {
+          sequence: expected,
+          entryId: null,
+          reason: "missing_entry",
+        };
+      } else if (record.prevHash !== prevHash) {
+        brokenAt = {
+          sequence: expected,
+          entryId: doc.id,
+          reason: "prev_hash_mismatch",
+        };
+      } else if (hashAuditRecord(record) !== record.hash) {
+        brokenAt = {
+          sequence: expected,
+          entryId: doc.id,
+          reason: "hash_mismatch",
+        };
+      }
+      if (brokenAt) break;
+      prevHash = record.hash as string;
+      expected++;
+    }
+    last = snapshot.docs[snapshot.docs.length - 1];
+  }
+
+  // Entries deleted from the end leave the head pointing past the last one found
+  if (!brokenAt && (expected - 1 !== headSequence || prevHash !== headHash)) {
+    brokenAt = { sequence: expected, entryId: null, reason: "missing_entry" };
+  }
+
+  // The retention job may have archived entries while we walked; start over from its anchor
+  if (brokenAt?.reason === "missing_entry") {
+    const latest = await adminDb
+      .collection(AUDIT_CHAIN_COLLECTION)
+      .doc(AUDIT_CHAIN_ARCHIVE_DOC)
+      .get();
+    if ((latest.data()?.sequence || 0) > archivedThrough) {
+      return verifyAuditChain(trigger, triggeredBy);
+    }
+  }
+
+  const result: AuditChainVerification = {
+    ok: !brokenAt,
+    checkedAt: new Date().toISOString(),
+    durationMs: Date.now() - startedAt,
+    entriesChecked: expected - 1 - archivedThrough,
+    headSequence,
+    archivedThrough,
+    brokenAt,
+    trigger,
+    triggeredBy,
+  };
+  await adminDb
+    .collection(AUDIT_CHAIN_COLLECTION)
+    .doc(VERIFICATION_DOC)
+    .set(result);
+  return result;
+}
+
+export async function getLastVerification(): Promise<AuditChainVerification | null> {
+  const doc = await adminDb
+    .collection(AUDIT_CHAIN_COLLECTION)
+    .doc(VERIFICATION_DOC)
+    .get();
+  return doc.exists ? (doc.data() as AuditChainVerification) : null;
+}
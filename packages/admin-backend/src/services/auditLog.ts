@@ -0,0 +1,249 @@
+import crypto from "crypto";
+import { adminDb, admin } from "../config/firebaseAdmin";
+import { AdminRequest } from "../middleware/authMiddleware";
+import { getRequestContext } from "../middleware/requestContext";
+
+export const AUDIT_LOGS_COLLECTION = "auditLogs";
+export const AUDIT_CHAIN_COLLECTION = "auditChain";
+export const AUDIT_CHAIN_HEAD_DOC = "head";
+export const AUDIT_CHAIN_ARCHIVE_DOC = "archive";
+/** prevHash of the first chained entry */
+export const AUDIT_CHAIN_GENESIS_HASH = "0".repeat(64);
+
+/**
+ * Last chained entry moved to a retention archive. Verification starts after it,
+ * since every entry up to it has left the collection.
+ */
+export interface AuditChainAnchor {
+  sequence: number;
+  hash: string;
+  entryId: string;
+  archivedAt: string;
+}
+
+/**
+ * Stored shape of an auditLogs document. Mirrors AuditLog in @wildmind-admin/shared.
+ * `targetUid` is kept alongside resource/resourceId for user-targeted actions so
+ * the per-user audit filter keeps working.
+ */
+export interface AuditLogRecord {
+  adminId: string;
+  adminEmail: string;
+  apiKeyId?: string;
+  apiKeyName?: string;
+  action: string;
+  resource: string;
+  resourceId?: string;
+  targetUid?: string;
+  details: Record<string, unknown>;
+  ipAddress: string;
+  userAgent: string;
+  /** Request that made the change; absent for background jobs and older entries */
+  requestId?: string;
+  route?: string;
+  sessionId?: string;
+  createdAt: string;
+  /** Position in the hash chain; entries written before the chain existed have none */
+  sequence?: number;
+  prevHash?: string;
+  hash?: string;
+}
+
+/**
+ * What a caller passes to logAuditAction. `resource` defaults to "user" when
+ * `targetUid` is given, and `resourceId` defaults to the target uid.
+ */
+export interface AuditLogEntry {
+  adminEmail: string;
+  adminId?: string;
+  apiKeyId?: string;
+  apiKeyName?: string;
+  ipAddress?: string;
+  userAgent?: string;
+  requestId?: string;
+  route?: string;
+  sessionId?: string;
+  action: string;
+  resource?: string;
+  resourceId?: string;
+  targetUid?: string;
+  details?: Record<string, unknown>;
+}
+
+export type AuditActor = Pick<
+  AuditLogEntry,
+  | "adminEmail"
+  | "adminId"
+  | "apiKeyId"
+  | "apiKeyName"
+  | "ipAddress"
+  | "userAgent"
+>;
+
+/** Actor for actions taken by background jobs rather than an admin. */
+export const SYSTEM_ACTOR: AuditActor = {
+  adminEmail: "system",
+  adminId: "system",
+};
+
+/**
+ * Who performed the request and from where, for spreading into logAuditAction.
+ * Calls made with an API key carry the key id/name alongside the owning admin.
+ */
+export function auditActor(req: AdminRequest): AuditActor {
+  return {
+    adminEmail: req.adminEmail || "admin",
+    ...(req.adminId ? { adminId: req.adminId } : {}),
+    ...(req.apiKeyId
+      ? { apiKeyId: req.apiKeyId, apiKeyName: req.apiKeyName }
+      : {}),
+    ...(req.ip ? { ipAddress: req.ip } : {}),
+    ...(req.headers["user-agent"]
+      ? { userAgent: req.headers["user-agent"] }
+      : {}),
+  };
+}
+
+function isPlainObject(value: object): boolean {
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+/**
+ * Reduce audit details to plain JSON before they are hashed and stored, so an
+ * entry reads back exactly as it was hashed. Dates and Firestore Timestamps
+ * become ISO strings and document references their path. Anything else that
+ * isn't plain JSON (FieldValue sentinels, class instances, functions) would be
+ * rewritten by Firestore on write, so it is dropped with a warning.
+ */
+export function toPlainJson(value: unknown, path = "details"): unknown {
+  if (value === null || value === undefined) return value;
+  if (typeof value === "string" || typeof value === "boolean") return value;
+  if (typeof value === "number") return Number.isFinite(value) ? value : null;
+  if (typeof value === "bigint") return value.toString();
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === "object") {
+    if (value instanceof admin.firestore.Timestamp)
+      return value.toDate().toISOString();
+    if (value instanceof admin.firestore.DocumentReference) return value.path;
+    if (Array.isArray(value))
+      return value.map((item, i) => {
+        const plain = toPlainJson(item, `${path}[${i}]`);
+        return plain === undefined ? null : plain;
+      });
+    if (isPlainObject(value)) {
+      const result: Record<string, unknown> = {};
+      for (const [key, item] of Object.entries(value)) {
+        const plain = toPlainJson(item, `${path}.${key}`);
+        if (plain !== undefined) result[key] = plain;
+      }
+      return result;
+    }
+  }
+  console.warn(`[AuditLog] Dropping non-JSON value at ${path}`);
+  return undefined;
+}
+
+/**
+ * Normalise an entry into the stored record shape.
+ */
+export function toAuditLogRecord(
+  entry: AuditLogEntry,
+  createdAt = new Date().toISOString(),
+): AuditLogRecord {
+  return {
+    adminId: entry.adminId || "system",
+    adminEmail: entry.adminEmail,
+    ...(entry.apiKeyId
+      ? { apiKeyId: entry.apiKeyId, apiKeyName: entry.apiKeyName || "" }
+      : {}),
+    action: entry.action,
+    resource: entry.resource || (entry.targetUid ? "user" : "system"),
+    ...(entry.resourceId || entry.targetUid
+      ? { resourceId: entry.resourceId || entry.targetUid }
+      : {}),
+    ...(entry.targetUid ? { targetUid: entry.targetUid } : {}),
+    details:
+      (toPlainJson(entry.details || {}) as Record<string, unknown>) || {},
+    ipAddress: entry.ipAddress || "",
+    userAgent: entry.userAgent || "",
+    ...(entry.requestId ? { requestId: entry.requestId } : {}),
+    ...(entry.route ? { route: entry.route } : {}),
+    ...(entry.sessionId ? { sessionId: entry.sessionId } : {}),
+    createdAt,
+  };
+}
+
+/**
+ * JSON with object keys sorted at every level, so a record hashes the same
+ * however Firestore orders its fields on read.
+ */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(",")}]`;
+  if (value && typeof value === "object") {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+      .sort()
+      .map(
+        (key) =>
+          `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`,
+      );
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Hash of every field except `hash` itself — including sequence and prevHash,
+ * which is what links each entry to the one before it.
+ */
+export function hashAuditRecord(record: AuditLogRecord): string {
+  const { hash: _hash, ...content } = record;
+  return crypto
+    .createHash("sha256")
+    .update(canonicalJson(content))
+    .digest("hex");
+}
+
+/**
+ * Log an admin action to the auditLogs collection.
+ * Call this from every mutation controller.
+ *
+ * Each entry is appended to a hash chain inside a transaction on the chain head,
+ * so entries get gapless sequence numbers and editing or deleting one breaks
+ * every link after it.
+ *
+ * Inside a request, the request id, route, session, IP and user agent captured by
+ * the requestContext middleware are filled in for whatever the entry doesn't set.
+ *
+ * Throws when the entry can't be written, so an unaudited action surfaces as a
+ * failed request (or a failed user in a bulk run) instead of passing silently.
+ */
+export async function logAuditAction(entry: AuditLogEntry): Promise<void> {
+  try {
+    const headRef = adminDb
+      .collection(AUDIT_CHAIN_COLLECTION)
+      .doc(AUDIT_CHAIN_HEAD_DOC);
+    const record = toAuditLogRecord({ ...getRequestContext(), ...entry });
+
+    await adminDb.runTransaction(async (tx) => {
+      const head = await tx.get(headRef);
+      const sequence = (head.data()?.sequence || 0) + 1;
+      const prevHash = head.data()?.lastHash || AUDIT_CHAIN_GENESIS_HASH;
+      const chained: AuditLogRecord = { ...record, sequence, prevHash };
+      chained.hash = hashAuditRecord(chained);
+
+      const entryRef = adminDb.collection(AUDIT_LOGS_COLLECTION).doc();
+      tx.set(entryRef, chained);
+      tx.set(headRef, {
+        sequence,
+        lastHash: chained.hash,
+        lastEntryId: entryRef.id,
+        updatedAt: record.createdAt,
+      });
+    });
+  } catch (err) {
+    console.error("[AuditLog] Failed to write audit log:", err);
+    throw new Error("Failed to write audit log");
+  }
+}
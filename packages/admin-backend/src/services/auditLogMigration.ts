@@ -0,0 +1,171 @@
+import { admin, adminDb } from "../config/firebaseAdmin";
+import { AUDIT_LOGS_COLLECTION, toAuditLogRecord } from "./auditLog";
+
+export const LEGACY_AUDIT_LOGS_COLLECTION = "adminAuditLogs";
+const ADMIN_SETTINGS_COLLECTION = "adminSettings";
+const MIGRATION_STATE_DOC = "auditLogMigration";
+const PAGE_SIZE = 400;
+
+/**
+ * Where the last run stopped in each source, so the next one only reads
+ * entries written since.
+ */
+interface MigrationState {
+  backfilledThrough?: string;
+  copiedThrough?: string;
+}
+
+export interface AuditLogMigrationResult {
+  backfilled: number;
+  copied: number;
+}
+
+function toIsoString(value: unknown): string {
+  if (!value) return new Date(0).toISOString();
+  if (typeof value === "string") return value;
+  if (value instanceof admin.firestore.Timestamp)
+    return value.toDate().toISOString();
+  return new Date(value as number).toISOString();
+}
+
+function stateRef() {
+  return adminDb.collection(ADMIN_SETTINGS_COLLECTION).doc(MIGRATION_STATE_DOC);
+}
+
+/**
+ * Page through `collection` in `orderField` order, starting after the doc id
+ * `after`. Returns how many entries `handle` wrote and the id of the last one read.
+ */
+async function forEachPage(
+  collection: string,
+  orderField: string,
+  after: string | undefined,
+  dryRun: boolean,
+  handle: (
+    docs: FirebaseFirestore.QueryDocumentSnapshot[],
+    batch: FirebaseFirestore.WriteBatch,
+  ) => number,
+): Promise<{ written: number; last: string | undefined }> {
+  let written = 0;
+  let last: FirebaseFirestore.DocumentSnapshot | undefined;
+  if (after) {
+    const cursor = await adminDb.collection(collection).doc(after).get();
+    // The cursor entry may have been archived since; starting over is harmless
+    if (cursor.exists) last = cursor;
+  }
+  for (;;) {
+    let query = adminDb
+      .collection(collection)
+      .orderBy(orderField)
+      .limit(PAGE_SIZE);
+    if (last) query = query.startAfter(last);
+    const snapshot = await query.get();
+    if (snapshot.empty) break;
+
+    const batch = adminDb.batch();
+    const count = handle(snapshot.docs, batch);
+    if (count > 0 && !dryRun) await batch.commit();
+    written += count;
+    last = snapshot.docs[snapshot.docs.length - 1];
+  }
+  return { written, last: last?.id };
+}
+
+/**
+ * Backfill createdAt/resource/resourceId/ipAddress/userAgent on auditLogs
+ * entries written before the unified shape. Only those have `timestamp`, so
+ * ordering by it skips everything else.
+ */
+function backfillUnifiedFields(after: string | undefined, dryRun: boolean) {
+  return forEachPage(
+    AUDIT_LOGS_COLLECTION,
+    "timestamp",
+    after,
+    dryRun,
+    (docs, batch) => {
+      let count = 0;
+      docs.forEach((doc) => {
+        const data = doc.data();
+        if (data.createdAt) return;
+        const record = toAuditLogRecord(
+          {
+            adminEmail: data.adminEmail || "unknown",
+            adminId: data.adminId,
+            apiKeyId: data.apiKeyId,
+            apiKeyName: data.apiKeyName,
+            action: data.action,
+            targetUid: data.targetUid,
+            details: data.details,
+          },
+          toIsoString(data.timestamp),
+        );
+        batch.update(doc.ref, { ...record });
+        count++;
+      });
+      return count;
+    },
+  );
+}
+
+/**
+ * Copy adminAuditLogs entries (ArtStation scoring, generation edits and
+ * deletes) into auditLogs as `legacy_<id>`.
+ */
+function copyLegacyEntries(after: string | undefined, dryRun: boolean) {
+  return forEachPage(
+    LEGACY_AUDIT_LOGS_COLLECTION,
+    "createdAt",
+    after,
+    dryRun,
+    (docs, batch) => {
+      docs.forEach((doc) => {
+        const data = doc.data();
+        const record = toAuditLogRecord(
+          {
+            adminEmail: data.adminEmail || "unknown",
+            adminId:
+              data.adminId && data.adminId !== "unknown"
+                ? data.adminId
+                : undefined,
+            apiKeyId: data.apiKeyId,
+            apiKeyName: data.apiKeyName,
+            action: String(data.action || "UNKNOWN").toUpperCase(),
+            resource: data.resource || "generation",
+            resourceId: data.resourceId,
+            details: data.details,
+          },
+          toIsoString(data.createdAt),
+        );
+        batch.set(
+          adminDb.collection(AUDIT_LOGS_COLLECTION).doc(`legacy_${doc.id}`),
+          record,
+        );
+      });
+      return docs.length;
+    },
+  );
+}
+
+/**
+ * Bring entries written in the old shapes onto the unified audit log, so the
+ * createdAt-ordered views and exports include them. Safe to run repeatedly:
+ * each run resumes after the last entry the previous one migrated.
+ */
+export async function migrateAuditLogs(
+  options: { dryRun?: boolean } = {},
+): Promise<AuditLogMigrationResult> {
+  const dryRun = !!options.dryRun;
+  const state = ((await stateRef().get()).data() || {}) as MigrationState;
+
+  const backfill = await backfillUnifiedFields(state.backfilledThrough, dryRun);
+  const copy = await copyLegacyEntries(state.copiedThrough, dryRun);
+
+  if (!dryRun) {
+    const next: MigrationState = {
+      backfilledThrough: backfill.last || state.backfilledThrough,
+      copiedThrough: copy.last || state.copiedThrough,
+    };
+    await stateRef().set({ ...next, updatedAt: new Date().toISOString() });
+  }
+  return { backfilled: backfill.written, copied: copy.written };
+}
@@ -0,0 +1,325 @@
+import crypto from "crypto";
+import net from "net";
+import { adminDb } from "../config/firebaseAdmin";
+import { AUDIT_LOGS_COLLECTION } from "./auditLog";
+
+export const MODERATION_CASES_COLLECTION = "moderationCases";
+const CASE_NOTES_SUBCOLLECTION = "notes";
+
+export const CASE_STATUSES = ["open", "investigating", "resolved"] as const;
+export type CaseStatus = (typeof CASE_STATUSES)[number];
+
+export const CASE_SUBJECT_TYPES = ["user", "generation"] as const;
+export type CaseSubjectType = (typeof CASE_SUBJECT_TYPES)[number];
+
+export const EVIDENCE_TYPES = [
+  "generation",
+  "ip",
+  "device",
+  "warning",
+] as const;
+export type EvidenceType = (typeof EVIDENCE_TYPES)[number];
+
+export const MAX_EVIDENCE_PER_CASE = 100;
+export const MAX_LINKED_ACTIONS_PER_CASE = 200;
+
+export interface CaseEvidence {
+  id: string;
+  type: EvidenceType;
+  /** Generation id, IP address, device hash or warning id */
+  ref: string;
+  note: string | null;
+  addedBy: string;
+  addedAt: string;
+}
+
+/**
+ * Stored shape of a moderationCases document. `subjectUid` is the user the case
+ * is about: the subject itself, or the creator of a generation subject.
+ */
+export interface CaseRecord {
+  subjectType: CaseSubjectType;
+  subjectId: string;
+  subjectUid: string | null;
+  title: string;
+  description: string;
+  status: CaseStatus;
+  assigneeId: string | null;
+  assigneeEmail: string | null;
+  evidence: CaseEvidence[];
+  /** Audit entries for the actions taken on this case */
+  linkedAuditIds: string[];
+  noteCount: number;
+  createdBy: string;
+  createdByEmail: string;
+  createdAt: string;
+  updatedAt: string;
+  resolvedAt: string | null;
+  resolvedBy: string | null;
+  resolution: string | null;
+}
+
+export interface CaseWithId extends CaseRecord {
+  id: string;
+}
+
+/** Internal note on a case. Replies point at a top-level note through parentId. */
+export interface CaseNote {
+  id: string;
+  parentId: string | null;
+  body: string;
+  authorId: string;
+  authorEmail: string;
+  createdAt: string;
+}
+
+export interface CaseFilters {
+  status?: CaseStatus;
+  assigneeId?: string | null;
+  subjectUid?: string;
+}
+
+export type EvidenceCheck =
+  { status: "ok" } | { status: "invalid"; error: string };
+
+export type CaseNoteResult =
+  | { status: "ok"; note: CaseNote }
+  | { status: "not_found" }
+  | { status: "invalid_parent" };
+
+export function isCaseStatus(value: unknown): value is CaseStatus {
+  return (
+    typeof value === "string" &&
+    (CASE_STATUSES as readonly string[]).includes(value)
+  );
+}
+
+export function isCaseSubjectType(value: unknown): value is CaseSubjectType {
+  return (
+    typeof value === "string" &&
+    (CASE_SUBJECT_TYPES as readonly string[]).includes(value)
+  );
+}
+
+export function isEvidenceType(value: unknown): value is EvidenceType {
+  return (
+    typeof value === "string" &&
+    (EVIDENCE_TYPES as readonly string[]).includes(value)
+  );
+}
+
+function caseRef(id: string) {
+  return adminDb.collection(MODERATION_CASES_COLLECTION).doc(id);
+}
+
+/**
+ * The user a subject belongs to, or undefined when the subject doesn't exist.
+ */
+export async function resolveSubjectUid(
+  subjectType: CaseSubjectType,
+  subjectId: string,
+): Promise<string | null | undefined> {
+  if (subjectType === "user") {
+    const doc = await adminDb.collection("users").doc(subjectId).get();
+    return doc.exists ? subjectId : undefined;
+  }
+  const doc = await adminDb.collection("generations").doc(subjectId).get();
+  if (!doc.exists) return undefined;
+  return doc.data()?.createdBy?.uid || null;
+}
+
+/**
+ * Check that an evidence reference points at something real.
+ */
+export async function checkEvidence(
+  type: EvidenceType,
+  ref: string,
+): Promise<EvidenceCheck> {
+  switch (type) {
+    case "generation": {
+      const doc = await adminDb.collection("generations").doc(ref).get();
+      return doc.exists
+        ? { status: "ok" }
+        : { status: "invalid", error: "Generation not found" };
+    }
+    case "warning": {
+      const doc = await adminDb.collection("userWarnings").doc(ref).get();
+      return doc.exists
+        ? { status: "ok" }
+        : { status: "invalid", error: "Warning not found" };
+    }
+    case "ip":
+      return net.isIP(ref)
+        ? { status: "ok" }
+        : { status: "invalid", error: "Not a valid IP address" };
+    case "device":
+      return ref.length <= 200
+        ? { status: "ok" }
+        : { status: "invalid", error: "Device ID is too long" };
+  }
+}
+
+export function newEvidence(
+  type: EvidenceType,
+  ref: string,
+  note: string | null,
+  addedBy: string,
+): CaseEvidence {
+  return {
+    id: crypto.randomUUID(),
+    type,
+    ref,
+    note,
+    addedBy,
+    addedAt: new Date().toISOString(),
+  };
+}
+
+export async function createCase(
+  input: Pick<
+    CaseRecord,
+    | "subjectType"
+    | "subjectId"
+    | "subjectUid"
+    | "title"
+    | "description"
+    | "evidence"
+    | "createdBy"
+    | "createdByEmail"
+  >,
+): Promise<CaseWithId> {
+  const now = new Date().toISOString();
+  const record: CaseRecord = {
+    ...input,
+    status: "open",
+    assigneeId: null,
+    assigneeEmail: null,
+    linkedAuditIds: [],
+    noteCount: 0,
+    createdAt: now,
+    updatedAt: now,
+    resolvedAt: null,
+    resolvedBy: null,
+    resolution: null,
+  };
+  const ref = await adminDb.collection(MODERATION_CASES_COLLECTION).add(record);
+  return { id: ref.id, ...record };
+}
+
+export async function getCase(id: string): Promise<CaseWithId | null> {
+  const doc = await caseRef(id).get();
+  if (!doc.exists) return null;
+  return { id: doc.id, ...(doc.data() as CaseRecord) };
+}
+
+/**
+ * Most recently updated cases first. `assigneeId: null` lists unassigned cases.
+ */
+export async function listCases(
+  filters: CaseFilters,
+  limit: number,
+): Promise<CaseWithId[]> {
+  let query: FirebaseFirestore.Query = adminDb.collection(
+    MODERATION_CASES_COLLECTION,
+  );
+  if (filters.status) query = query.where("status", "==", filters.status);
+  if (filters.assigneeId !== undefined)
+    query = query.where("assigneeId", "==", filters.assigneeId);
+  if (filters.subjectUid)
+    query = query.where("subjectUid", "==", filters.subjectUid);
+
+  const snapshot = await query.orderBy("updatedAt", "desc").limit(limit).get();
+  return snapshot.docs.map((doc) => ({
+    id: doc.id,
+    ...(doc.data() as CaseRecord),
+  }));
+}
+
+/** Case fields to write; array fields also take arrayUnion/arrayRemove. */
+export type CaseChanges = {
+  [K in keyof CaseRecord]?: CaseRecord[K] | FirebaseFirestore.FieldValue;
+};
+
+export async function updateCase(
+  id: string,
+  changes: CaseChanges,
+): Promise<void> {
+  await caseRef(id).update({
+    ...changes,
+    updatedAt: new Date().toISOString(),
+  });
+}
+
+export async function listCaseNotes(id: string): Promise<CaseNote[]> {
+  const snapshot = await caseRef(id)
+    .collection(CASE_NOTES_SUBCOLLECTION)
+    .orderBy("createdAt", "asc")
+    .get();
+  return snapshot.docs.map((doc) => ({
+    id: doc.id,
+    ...(doc.data() as Omit<CaseNote, "id">),
+  }));
+}
+
+/**
+ * Add a note, or a reply when parentId names a top-level note on the same case.
+ * Replies to replies are attached to the top-level note so threads stay one deep.
+ */
+export async function addCaseNote(
+  id: string,
+  input: Pick<CaseNote, "body" | "parentId" | "authorId" | "authorEmail">,
+): Promise<CaseNoteResult> {
+  const ref = caseRef(id);
+  const notes = ref.collection(CASE_NOTES_SUBCOLLECTION);
+
+  return adminDb.runTransaction(async (tx) => {
+    const caseDoc = await tx.get(ref);
+    if (!caseDoc.exists) return { status: "not_found" as const };
+
+    let parentId: string | null = null;
+    if (input.parentId) {
+      const parent = await tx.get(notes.doc(input.parentId));
+      if (!parent.exists) return { status: "invalid_parent" as const };
+      parentId = parent.data()?.parentId || parent.id;
+    }
+
+    const noteRef = notes.doc();
+    const now = new Date().toISOString();
+    const note: Omit<CaseNote, "id"> = {
+      parentId,
+      body: input.body,
+      authorId: input.authorId,
+      authorEmail: input.authorEmail,
+      createdAt: now,
+    };
+    tx.set(noteRef, note);
+    tx.update(ref, {
+      noteCount: (caseDoc.data()?.noteCount || 0) + 1,
+      updatedAt: now,
+    });
+    return { status: "ok" as const, note: { id: noteRef.id, ...note } };
+  });
+}
+
+/**
+ * Audit entries linked to a case, in the order they were written.
+ */
+export async function getLinkedAuditEntries(ids: string[]) {
+  if (!ids.length) return [];
+  const refs = ids.map((id) =>
+    adminDb.collection(AUDIT_LOGS_COLLECTION).doc(id),
+  );
+  const docs = await adminDb.getAll(...refs);
+  return docs
+    .filter((doc) => doc.exists)
+    .map((doc) => ({ id: doc.id, ...doc.data() }))
+    .sort(
+      (a: FirebaseFirestore.DocumentData, b: FirebaseFirestore.DocumentData) =>
+        String(a.createdAt).localeCompare(b.createdAt),
+    );
+}
+
+export async function auditEntryExists(id: string): Promise<boolean> {
+  const doc = await adminDb.collection(AUDIT_LOGS_COLLECTION).doc(id).get();
+  return doc.exists;
+}
@@ -0,0 +1,205 @@
+import crypto from "crypto";
+import { adminDb } from "../config/firebaseAdmin";
+
+const ADMIN_SETTINGS_COLLECTION = "adminSettings";
+const ESCALATION_POLICY_DOC = "escalationPolicy";
+
+export const MAX_ESCALATION_RULES = 20;
+export const MAX_WINDOW_DAYS = 365;
+export const MAX_SUSPEND_DAYS = 365;
+
+/** Sanctions a rule can apply. Bans stay manual so they keep going through approvals. */
+export const ESCALATION_ACTIONS = ["suspend", "review"] as const;
+export type EscalationAction = (typeof ESCALATION_ACTIONS)[number];
+
+/**
+ * "`warnings` warnings within `windowDays` days → `action`". A rule fires on the
+ * warning that brings the count in its window up to the threshold.
+ */
+export interface EscalationRule {
+  id: string;
+  name: string;
+  warnings: number;
+  windowDays: number;
+  action: EscalationAction;
+  /** Length of the suspension for `suspend` rules; null for the others. */
+  suspendDays: number | null;
+  enabled: boolean;
+}
+
+export interface EscalationPolicy {
+  rules: EscalationRule[];
+}
+
+/**
+ * Why an automatic sanction happened, stored in the details of its audit entry.
+ */
+export interface EscalationReference {
+  ruleId: string;
+  ruleName: string;
+  warnings: number;
+  windowDays: number;
+  warningId: string;
+  /** Admin who issued the warning that fired the rule */
+  triggeredBy: string;
+}
+
+/** A rule that fired, with the count that made it fire. */
+export interface EscalationMatch {
+  rule: EscalationRule;
+  count: number;
+}
+
+export type EscalationRuleValidation =
+  | { status: "ok"; rules: EscalationRule[] }
+  | { status: "invalid"; error: string };
+
+export async function getEscalationPolicy(): Promise<EscalationPolicy> {
+  const doc = await adminDb
+    .collection(ADMIN_SETTINGS_COLLECTION)
+    .doc(ESCALATION_POLICY_DOC)
+    .get();
+  return { rules: doc.exists ? doc.data()?.rules || [] : [] };
+}
+
+export async function saveEscalationPolicy(
+  policy: EscalationPolicy,
+  updatedBy: string,
+): Promise<void> {
+  await adminDb
+    .collection(ADMIN_SETTINGS_COLLECTION)
+    .doc(ESCALATION_POLICY_DOC)
+    .set({ ...policy, updatedAt: new Date().toISOString(), updatedBy });
+}
+
+function isWholeNumber(value: unknown, min: number, max: number) {
+  return (
+    Number.isInteger(value) && Number(value) >= min && Number(value) <= max
+  );
+}
+
+/**
+ * Check rules submitted from the rules page. Rules without an id are new and
+ * get one, so audit entries keep pointing at the same rule across edits.
+ */
+export function validateEscalationRules(
+  input: unknown,
+): EscalationRuleValidation {
+  if (!Array.isArray(input)) {
+    return { status: "invalid", error: "rules must be an array" };
+  }
+  if (input.length > MAX_ESCALATION_RULES) {
+    return {
+      status: "invalid",
+      error: `At most ${MAX_ESCALATION_RULES} rules are allowed`,
+    };
+  }
+
+  const rules: EscalationRule[] = [];
+  for (const [index, raw] of input.entries()) {
+    const label = `Rule ${index + 1}`;
+    const name = typeof raw?.name === "string" ? raw.name.trim() : "";
+    if (!name || name.length > 100) {
+      return {
+        status: "invalid",
+        error: `${label}: name is required (at most 100 characters)`,
+      };
+    }
+    if (!isWholeNumber(raw.warnings, 1, 100)) {
+      return {
+        status: "invalid",
+        error: `${label}: warnings must be a whole number between 1 and 100`,
+      };
+    }
+    if (!isWholeNumber(raw.windowDays, 1, MAX_WINDOW_DAYS)) {
+      return {
+        status: "invalid",
+        error: `${label}: windowDays must be a whole number between 1 and ${MAX_WINDOW_DAYS}`,
+      };
+    }
+    if (!ESCALATION_ACTIONS.includes(raw.action)) {
+      return {
+        status: "invalid",
+        error: `${label}: action must be one of: ${ESCALATION_ACTIONS.join(", ")}`,
+      };
+    }
+    if (
+      raw.action === "suspend" &&
+      !isWholeNumber(raw.suspendDays, 1, MAX_SUSPEND_DAYS)
+    ) {
+      return {
+        status: "invalid",
+        error: `${label}: suspendDays must be a whole number between 1 and ${MAX_SUSPEND_DAYS}`,
+      };
+    }
+    if (typeof raw.enabled !== "boolean") {
+      return {
+        status: "invalid",
+        error: `${label}: enabled must be a boolean`,
+      };
+    }
+
+    rules.push({
+      id: typeof raw.id === "string" && raw.id ? raw.id : crypto.randomUUID(),
+      name,
+      warnings: raw.warnings,
+      windowDays: raw.windowDays,
+      action: raw.action,
+      suspendDays: raw.action === "suspend" ? raw.suspendDays : null,
+      enabled: raw.enabled,
+    });
+  }
+  return { status: "ok", rules };
+}
+
+/**
+ * Enabled rules that the newest warning makes fire. `issuedAt` holds the times
+ * of the user's warnings, including the one just issued; they must be read in
+ * the transaction that records it, so each warning sees the ones before it.
+ */
+export function matchEscalationRules(
+  rules: EscalationRule[],
+  issuedAt: string[],
+  now = new Date(),
+): EscalationMatch[] {
+  const matches: EscalationMatch[] = [];
+  for (const rule of rules) {
+    if (!rule.enabled) continue;
+    const since = new Date(
+      now.getTime() - rule.windowDays * 24 * 60 * 60 * 1000,
+    ).toISOString();
+    const count = issuedAt.filter((at) => at >= since).length;
+    // Exactly at the threshold, so a rule doesn't fire again on every later warning
+    if (count === rule.warnings) matches.push({ rule, count });
+  }
+  return matches;
+}
+
+/**
+ * Issue times of a user's warnings within the longest enabled window, read in
+ * `tx`.
+ */
+export async function getRecentWarningTimes(
+  tx: FirebaseFirestore.Transaction,
+  uid: string,
+  rules: EscalationRule[],
+  now = new Date(),
+): Promise<string[]> {
+  const windowDays = Math.max(
+    0,
+    ...rules.filter((r) => r.enabled).map((r) => r.windowDays),
+  );
+  if (!windowDays) return [];
+
+  const since = new Date(
+    now.getTime() - windowDays * 24 * 60 * 60 * 1000,
+  ).toISOString();
+  const snapshot = await tx.get(
+    adminDb
+      .collection("userWarnings")
+      .where("uid", "==", uid)
+      .where("issuedAt", ">=", since)
+      .orderBy("issuedAt", "desc"),
+  );
+  return snapshot.docs.map((doc) => doc.data().issuedAt as string);
+}
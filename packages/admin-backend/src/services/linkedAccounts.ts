@@ -0,0 +1,424 @@
+import crypto from "crypto";
+import { adminDb, admin } from "../config/firebaseAdmin";
+
+export const LINKED_IDENTIFIERS_COLLECTION = "linkedIdentifiers";
+// Subcollection of an identifier holding accounts past MAX_ACCOUNTS_PER_IDENTIFIER
+const OVERFLOW_SUBCOLLECTION = "overflow";
+
+const ADMIN_SETTINGS_COLLECTION = "adminSettings";
+const INDEX_STATE_DOC = "linkedAccountIndex";
+
+// Pages of users read per step of a rebuild
+const REBUILD_PAGE_SIZE = 300;
+// Shared networks (mobile carriers, offices, VPN exits) link everyone on them;
+// identifiers seen on more accounts than this are reported but not followed
+export const MAX_ACCOUNTS_PER_IDENTIFIER = 25;
+
+export type IdentifierType = "device" | "ip";
+
+export type LinkStrength = "strong" | "medium" | "weak";
+
+/** One account's use of a device or IP, keyed by uid in the identifier doc */
+export interface IdentifierUse {
+  firstSeen: string | null;
+  lastSeen: string | null;
+  logins: number;
+}
+
+/**
+ * Stored shape of a linkedIdentifiers document: the reverse of each user's
+ * loginHistory, from a device id or IP address to every account that used it.
+ * Entries are never removed, so links survive loginHistory being trimmed.
+ *
+ * `accounts` holds at most MAX_ACCOUNTS_PER_IDENTIFIER entries so a shared
+ * network can't grow the doc past Firestore's size and index limits. Accounts
+ * after that go in the overflow subcollection (one doc per uid) and the
+ * identifier is marked crowded.
+ */
+export interface IdentifierRecord {
+  type: IdentifierType;
+  value: string;
+  accounts: Record<string, IdentifierUse>;
+  crowded?: boolean;
+  updatedAt: string;
+}
+
+export interface LinkedAccount {
+  uid: string;
+  strength: LinkStrength;
+  sharedDevices: string[];
+  sharedIps: string[];
+  /** Most recent login by the other account on a shared identifier */
+  lastSeen: string | null;
+}
+
+export interface LinkedAccountLookup {
+  accounts: LinkedAccount[];
+  devices: number;
+  ips: number;
+  /** Identifiers used by too many accounts to mean anything */
+  crowded: { type: IdentifierType; value: string; accounts: number }[];
+}
+
+/**
+ * When the last rebuild that indexed every user it read started. The next one
+ * only reads users who logged in after that.
+ */
+interface IndexState {
+  lastRunAt: string;
+}
+
+export interface IndexRebuildResult {
+  users: number;
+  identifiers: number;
+  /** Users whose data could not be indexed; see the logs */
+  failed: number;
+}
+
+// Device ids and IPv6 addresses can contain characters that aren't valid in doc ids
+function identifierId(type: IdentifierType, value: string): string {
+  return crypto.createHash("sha256").update(`${type}:${value}`).digest("hex");
+}
+
+/** Firestore Timestamps, epoch objects and date strings as ISO strings */
+export function toIso(value: unknown): string | null {
+  if (!value) return null;
+  if (typeof value === "object") {
+    const stamp = value as { toDate?: () => Date; seconds?: unknown };
+    if (typeof stamp.toDate === "function") return stamp.toDate().toISOString();
+    if (typeof stamp.seconds === "number")
+      return new Date(stamp.seconds * 1000).toISOString();
+  }
+  const date = new Date(value as string | number);
+  return isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+function earliest(a: string | null, b: string | null) {
+  if (!a) return b;
+  if (!b) return a;
+  return a < b ? a : b;
+}
+
+function latest(a: string | null, b: string | null) {
+  if (!a) return b;
+  if (!b) return a;
+  return a > b ? a : b;
+}
+
+/**
+ * Collapse a user's loginHistory into one use per device and IP.
+ */
+function collectUses(
+  user: FirebaseFirestore.DocumentData,
+): Map<string, { type: IdentifierType; value: string; use: IdentifierUse }> {
+  const uses = new Map<
+    string,
+    { type: IdentifierType; value: string; use: IdentifierUse }
+  >();
+  const record = (
+    type: IdentifierType,
+    value: unknown,
+    seen: string | null,
+  ) => {
+    if (typeof value !== "string" || !value || value === "unknown") return;
+    const id = identifierId(type, value);
+    const existing = uses.get(id);
+    if (existing) {
+      existing.use.firstSeen = earliest(existing.use.firstSeen, seen);
+      existing.use.lastSeen = latest(existing.use.lastSeen, seen);
+      existing.use.logins += 1;
+    } else {
+      uses.set(id, {
+        type,
+        value,
+        use: { firstSeen: seen, lastSeen: seen, logins: 1 },
+      });
+    }
+  };
+
+  const history: FirebaseFirestore.DocumentData[] = Array.isArray(
+    user.loginHistory,
+  )
+    ? user.loginHistory
+    : [];
+  history.forEach((entry) => {
+    const seen = toIso(entry?.timestamp);
+    record("device", entry?.deviceId, seen);
+    record("ip", entry?.ip, seen);
+  });
+  if (history.length === 0 && user.deviceId) {
+    record("device", user.deviceId, toIso(user.lastLoginAt));
+  }
+  return uses;
+}
+
+function identifierRef(id: string) {
+  return adminDb.collection(LINKED_IDENTIFIERS_COLLECTION).doc(id);
+}
+
+function stateRef() {
+  return adminDb.collection(ADMIN_SETTINGS_COLLECTION).doc(INDEX_STATE_DOC);
+}
+
+function sameUse(stored: IdentifierUse | undefined, use: IdentifierUse) {
+  return (
+    !!stored &&
+    stored.firstSeen === use.firstSeen &&
+    stored.lastSeen === use.lastSeen &&
+    stored.logins === use.logins
+  );
+}
+
+/**
+ * Write one user's devices and IPs into the index, skipping uses already
+ * stored as they are. Returns the ids of the user's identifier docs, which is
+ * everything they have logged in with.
+ * Two users indexed at the same moment can each take the last free slot in
+ * `accounts`, so the map may run a little over the cap, but never unbounded.
+ */
+export async function indexUser(
+  uid: string,
+  user: FirebaseFirestore.DocumentData,
+): Promise<string[]> {
+  const uses = collectUses(user);
+  if (uses.size === 0) return [];
+
+  const now = new Date().toISOString();
+  const entries = Array.from(uses.entries());
+  // Each use is up to two writes and batches cap at 500
+  for (let i = 0; i < entries.length; i += 200) {
+    const chunk = entries.slice(i, i + 200);
+    const docs = await adminDb.getAll(
+      ...chunk.map(([id]) => identifierRef(id)),
+    );
+    const listed = docs.map((doc) => {
+      const accounts =
+        (doc.data() as IdentifierRecord | undefined)?.accounts || {};
+      return (
+        !!accounts[uid] ||
+        Object.keys(accounts).length < MAX_ACCOUNTS_PER_IDENTIFIER
+      );
+    });
+    const overflowRefs = chunk
+      .filter((_, j) => !listed[j])
+      .map(([id]) =>
+        identifierRef(id).collection(OVERFLOW_SUBCOLLECTION).doc(uid),
+      );
+    const overflowDocs = overflowRefs.length
+      ? await adminDb.getAll(...overflowRefs)
+      : [];
+
+    const batch = adminDb.batch();
+    let writes = 0;
+    let overflowIndex = 0;
+    chunk.forEach(([id, { type, value, use }], j) => {
+      if (listed[j]) {
+        const existing = docs[j].data() as IdentifierRecord | undefined;
+        if (sameUse(existing?.accounts?.[uid], use)) return;
+        batch.set(
+          identifierRef(id),
+          { type, value, accounts: { [uid]: use }, updatedAt: now },
+          { merge: true },
+        );
+      } else {
+        const overflowDoc = overflowDocs[overflowIndex++];
+        if (sameUse(overflowDoc.data() as IdentifierUse | undefined, use))
+          return;
+        batch.set(
+          identifierRef(id),
+          { type, value, crowded: true, updatedAt: now },
+          { merge: true },
+        );
+        batch.set(overflowDoc.ref, use);
+      }
+      writes += 1;
+    });
+    if (writes > 0) await batch.commit();
+  }
+  return Array.from(uses.keys());
+}
+
+/**
+ * How many accounts have used an identifier, counting the overflow.
+ */
+async function identifierAccountCount(
+  id: string,
+  identifier: IdentifierRecord,
+): Promise<number> {
+  const listed = Object.keys(identifier.accounts || {}).length;
+  if (!identifier.crowded) return listed;
+  const overflow = await identifierRef(id)
+    .collection(OVERFLOW_SUBCOLLECTION)
+    .count()
+    .get();
+  return listed + overflow.data().count;
+}
+
+/**
+ * Index the users a query matches, a page at a time, adding to `result`.
+ */
+async function indexUsers(
+  query: FirebaseFirestore.Query,
+  result: IndexRebuildResult,
+): Promise<void> {
+  let cursor: FirebaseFirestore.QueryDocumentSnapshot | undefined;
+  for (;;) {
+    let page = query.limit(REBUILD_PAGE_SIZE);
+    if (cursor) page = page.startAfter(cursor);
+    const snapshot = await page.get();
+    if (snapshot.empty) break;
+
+    for (const doc of snapshot.docs) {
+      try {
+        const ids = await indexUser(doc.id, doc.data());
+        result.users += 1;
+        result.identifiers += ids.length;
+      } catch (error) {
+        result.failed += 1;
+        console.error(`Linked account indexing failed for ${doc.id}:`, error);
+      }
+    }
+    if (snapshot.size < REBUILD_PAGE_SIZE) break;
+    cursor = snapshot.docs[snapshot.docs.length - 1];
+  }
+}
+
+/**
+ * Pick up logins recorded by the main app since the last run. The first run
+ * indexes every user; later ones only users whose lastLoginAt is after the
+ * start of the last run that indexed everyone it read.
+ */
+export async function rebuildLinkedAccountIndex(): Promise<IndexRebuildResult> {
+  const result: IndexRebuildResult = { users: 0, identifiers: 0, failed: 0 };
+  const startedAt = new Date();
+  const state = (await stateRef().get()).data() as IndexState | undefined;
+  const users = adminDb.collection("users");
+
+  if (state?.lastRunAt) {
+    const since = new Date(state.lastRunAt);
+    // lastLoginAt is a Timestamp or an ISO string depending on what wrote it,
+    // and Firestore only compares values of the same type
+    await indexUsers(
+      users
+        .where("lastLoginAt", ">", admin.firestore.Timestamp.fromDate(since))
+        .orderBy("lastLoginAt"),
+      result,
+    );
+    await indexUsers(
+      users
+        .where("lastLoginAt", ">", since.toISOString())
+        .orderBy("lastLoginAt"),
+      result,
+    );
+  } else {
+    await indexUsers(
+      users.orderBy(admin.firestore.FieldPath.documentId()),
+      result,
+    );
+  }
+
+  // Leave the cursor where it was so users that failed are read again
+  if (result.failed === 0) {
+    const next: IndexState = { lastRunAt: startedAt.toISOString() };
+    await stateRef().set(next);
+  }
+  return result;
+}
+
+/**
+ * A shared device is strong evidence on its own; IPs only add up.
+ */
+function linkStrength(devices: number, ips: number): LinkStrength {
+  if (devices > 0) return "strong";
+  if (ips >= 2) return "medium";
+  return "weak";
+}
+
+/**
+ * Every account that has used a device or IP, from the index.
+ */
+export async function accountsForIdentifier(
+  type: IdentifierType,
+  value: string,
+): Promise<string[]> {
+  const ref = identifierRef(identifierId(type, value));
+  const doc = await ref.get();
+  if (!doc.exists) return [];
+  const identifier = doc.data() as IdentifierRecord;
+  const uids = Object.keys(identifier.accounts || {});
+  if (!identifier.crowded) return uids;
+
+  const overflow = await ref.collection(OVERFLOW_SUBCOLLECTION).select().get();
+  return uids.concat(overflow.docs.map((overflowDoc) => overflowDoc.id));
+}
+
+/**
+ * Every account that shares a device or IP with the user, strongest first.
+ * Only reads the index, so logins since the index job last ran are left out.
+ */
+export async function findLinkedAccounts(
+  uid: string,
+  user: FirebaseFirestore.DocumentData,
+): Promise<LinkedAccountLookup> {
+  const ids = Array.from(collectUses(user).keys());
+  const lookup: LinkedAccountLookup = {
+    accounts: [],
+    devices: 0,
+    ips: 0,
+    crowded: [],
+  };
+  if (ids.length === 0) return lookup;
+
+  const docs = await adminDb.getAll(...ids.map((id) => identifierRef(id)));
+
+  const links = new Map<string, LinkedAccount>();
+  for (const doc of docs) {
+    if (!doc.exists) continue;
+    const identifier = doc.data() as IdentifierRecord;
+    if (identifier.type === "device") lookup.devices += 1;
+    else lookup.ips += 1;
+
+    const others = Object.keys(identifier.accounts || {}).filter(
+      (other) => other !== uid,
+    );
+    if (identifier.crowded || others.length + 1 > MAX_ACCOUNTS_PER_IDENTIFIER) {
+      lookup.crowded.push({
+        type: identifier.type,
+        value: identifier.value,
+        accounts: await identifierAccountCount(doc.id, identifier),
+      });
+      continue;
+    }
+
+    others.forEach((other) => {
+      const link = links.get(other) || {
+        uid: other,
+        strength: "weak" as LinkStrength,
+        sharedDevices: [],
+        sharedIps: [],
+        lastSeen: null,
+      };
+      if (identifier.type === "device")
+        link.sharedDevices.push(identifier.value);
+      else link.sharedIps.push(identifier.value);
+      link.lastSeen = latest(
+        link.lastSeen,
+        identifier.accounts[other]?.lastSeen || null,
+      );
+      links.set(other, link);
+    });
+  }
+
+  lookup.accounts = Array.from(links.values())
+    .map((link) => ({
+      ...link,
+      strength: linkStrength(link.sharedDevices.length, link.sharedIps.length),
+    }))
+    .sort(
+      (a, b) =>
+        b.sharedDevices.length - a.sharedDevices.length ||
+        b.sharedIps.length - a.sharedIps.length ||
+        String(b.lastSeen).localeCompare(String(a.lastSeen)),
+    );
+  return lookup;
+}
@@ -0,0 +1,299 @@
+import { adminDb } from "../config/firebaseAdmin";
+import { env } from "../config/env";
+
+export const LOGIN_ATTEMPTS_COLLECTION = "loginAttempts";
+
+// Failures before backoff starts, and the cap on a single backoff delay
+const FREE_ATTEMPTS = 3;
+const MAX_BACKOFF_MS = 5 * 60 * 1000;
+// A quiet period this long wipes the failure count
+const FAILURE_WINDOW_MS = 60 * 60 * 1000;
+// How often the memory store sweeps out records that no longer matter
+const PRUNE_INTERVAL_MS = 60 * 1000;
+
+export interface LoginAttemptRecord {
+  failures: number;
+  lastFailureAt: string;
+  blockedUntil: string | null;
+  lockedUntil: string | null;
+}
+
+/**
+ * Storage for attempt counters. Memory is fine for a single local process;
+ * production runs several instances so it needs the shared Firestore store.
+ * `update` applies `mutate` atomically; returning null deletes the record.
+ */
+export interface LoginAttemptStore {
+  get(key: string): Promise<LoginAttemptRecord | null>;
+  update(
+    key: string,
+    mutate: (current: LoginAttemptRecord | null) => LoginAttemptRecord | null,
+  ): Promise<LoginAttemptRecord | null>;
+  delete(key: string): Promise<void>;
+}
+
+export class MemoryLoginAttemptStore implements LoginAttemptStore {
+  private records = new Map<string, LoginAttemptRecord>();
+  private lastPrunedAt = 0;
+
+  async get(key: string) {
+    return this.records.get(key) || null;
+  }
+
+  async update(
+    key: string,
+    mutate: (current: LoginAttemptRecord | null) => LoginAttemptRecord | null,
+  ) {
+    this.prune(Date.now());
+    const next = mutate(this.records.get(key) || null);
+    if (next) this.records.set(key, next);
+    else this.records.delete(key);
+    return next;
+  }
+
+  async delete(key: string) {
+    this.records.delete(key);
+  }
+
+  /** Drop records whose failures have aged out and that block nothing */
+  private prune(now: number) {
+    if (now - this.lastPrunedAt < PRUNE_INTERVAL_MS) return;
+    this.lastPrunedAt = now;
+    for (const [key, record] of this.records) {
+      if (isExpired(record, now)) this.records.delete(key);
+    }
+  }
+}
+
+export class FirestoreLoginAttemptStore implements LoginAttemptStore {
+  private doc(key: string) {
+    // Keys contain ':' and '@'; encode so they are always valid document ids
+    return adminDb
+      .collection(LOGIN_ATTEMPTS_COLLECTION)
+      .doc(encodeURIComponent(key));
+  }
+
+  async get(key: string) {
+    const snapshot = await this.doc(key).get();
+    return snapshot.exists ? (snapshot.data() as LoginAttemptRecord) : null;
+  }
+
+  async update(
+    key: string,
+    mutate: (current: LoginAttemptRecord | null) => LoginAttemptRecord | null,
+  ) {
+    const ref = this.doc(key);
+    return adminDb.runTransaction(async (tx) => {
+      const snapshot = await tx.get(ref);
+      const next = mutate(
+        snapshot.exists ? (snapshot.data() as LoginAttemptRecord) : null,
+      );
+      if (next) tx.set(ref, next);
+      else if (snapshot.exists) tx.delete(ref);
+      return next;
+    });
+  }
+
+  async delete(key: string) {
+    await this.doc(key).delete();
+  }
+}
+
+const store: LoginAttemptStore =
+  env.loginAttemptStore === "firestore"
+    ? new FirestoreLoginAttemptStore()
+    : new MemoryLoginAttemptStore();
+
+const ipKey = (ip: string) => `ip:${ip}`;
+const emailKey = (email: string) => `email:${email}`;
+
+function backoffMs(failures: number): number {
+  if (failures < FREE_ATTEMPTS) return 0;
+  return Math.min(1000 * 2 ** (failures - FREE_ATTEMPTS), MAX_BACKOFF_MS);
+}
+
+function recordFailure(
+  current: LoginAttemptRecord | null,
+  now: number,
+  lockable: boolean,
+): LoginAttemptRecord {
+  const stale =
+    !current ||
+    now - new Date(current.lastFailureAt).getTime() > FAILURE_WINDOW_MS;
+  const failures = (stale ? 0 : current!.failures) + 1;
+  const lockedOut = lockable && failures >= env.loginMaxFailures;
+
+  return {
+    failures,
+    lastFailureAt: new Date(now).toISOString(),
+    blockedUntil: new Date(now + backoffMs(failures)).toISOString(),
+    lockedUntil: lockedOut
+      ? new Date(now + env.loginLockoutMinutes * 60 * 1000).toISOString()
+      : stale
+        ? null
+        : current!.lockedUntil,
+  };
+}
+
+/**
+ * Undo one reserved attempt: the count drops back and the backoff is worked
+ * out again from it. A lockout this attempt set is lifted too.
+ */
+function releaseFailure(
+  current: LoginAttemptRecord | null,
+  reservedLock: string | null,
+): LoginAttemptRecord | null {
+  if (!current || current.failures <= 1) return null;
+  const failures = current.failures - 1;
+  return {
+    failures,
+    lastFailureAt: current.lastFailureAt,
+    blockedUntil: new Date(
+      new Date(current.lastFailureAt).getTime() + backoffMs(failures),
+    ).toISOString(),
+    lockedUntil:
+      reservedLock && current.lockedUntil === reservedLock
+        ? null
+        : current.lockedUntil,
+  };
+}
+
+function remainingMs(until: string | null, now: number): number {
+  return until ? Math.max(0, new Date(until).getTime() - now) : 0;
+}
+
+function isExpired(record: LoginAttemptRecord, now: number): boolean {
+  return (
+    now - new Date(record.lastFailureAt).getTime() > FAILURE_WINDOW_MS &&
+    remainingMs(record.lockedUntil, now) === 0 &&
+    remainingMs(record.blockedUntil, now) === 0
+  );
+}
+
+export interface LoginThrottleResult {
+  allowed: boolean;
+  reason?: "locked" | "backoff";
+  retryAfterSeconds?: number;
+}
+
+/**
+ * A login attempt that has been let through and already counted as a failure.
+ */
+export interface LoginAttempt extends LoginThrottleResult {
+  /** The lockout this attempt started, should it turn out to fail */
+  lockedUntil: string | null;
+  failures: number;
+}
+
+function throttleFor(
+  record: LoginAttemptRecord | null,
+  now: number,
+): LoginThrottleResult {
+  const lockedMs = remainingMs(record?.lockedUntil || null, now);
+  if (lockedMs > 0) {
+    return {
+      allowed: false,
+      reason: "locked",
+      retryAfterSeconds: Math.ceil(lockedMs / 1000),
+    };
+  }
+  const backoff = remainingMs(record?.blockedUntil || null, now);
+  if (backoff > 0) {
+    return {
+      allowed: false,
+      reason: "backoff",
+      retryAfterSeconds: Math.ceil(backoff / 1000),
+    };
+  }
+  return { allowed: true };
+}
+
+/**
+ * Check a counter and, if it lets the attempt through, count the attempt as a
+ * failure in the same atomic update.
+ */
+async function reserveKey(
+  key: string,
+  now: number,
+  lockable: boolean,
+): Promise<{
+  throttle: LoginThrottleResult;
+  record: LoginAttemptRecord | null;
+}> {
+  let throttle: LoginThrottleResult = { allowed: true };
+  const record = await store.update(key, (current) => {
+    throttle = throttleFor(current, now);
+    return throttle.allowed ? recordFailure(current, now, lockable) : current;
+  });
+  return { throttle, record };
+}
+
+/**
+ * Let a login attempt from this IP for this email through, or say how long to
+ * wait. An attempt that is let through counts as a failure straight away, so
+ * parallel guesses cannot all pass the check before any of them is recorded;
+ * call releaseLoginAttempt once the credential turns out to be right.
+ */
+export async function reserveLoginAttempt(
+  ip: string,
+  email: string,
+): Promise<LoginAttempt> {
+  const now = Date.now();
+  const emailResult = await reserveKey(emailKey(email), now, true);
+  if (!emailResult.throttle.allowed) {
+    return { ...emailResult.throttle, lockedUntil: null, failures: 0 };
+  }
+  const emailRecord = emailResult.record as LoginAttemptRecord;
+
+  // Set to exactly now + lockout only by this attempt; a re-lock after expiry counts too
+  const lockedUntil =
+    emailRecord.lockedUntil ===
+    new Date(now + env.loginLockoutMinutes * 60 * 1000).toISOString()
+      ? emailRecord.lockedUntil
+      : null;
+
+  const ipResult = await reserveKey(ipKey(ip), now, false);
+  if (!ipResult.throttle.allowed) {
+    await store.update(emailKey(email), (current) =>
+      releaseFailure(current, lockedUntil),
+    );
+    return { ...ipResult.throttle, lockedUntil: null, failures: 0 };
+  }
+
+  return { allowed: true, lockedUntil, failures: emailRecord.failures };
+}
+
+/**
+ * Take back a reserved attempt whose password or code was right.
+ */
+export async function releaseLoginAttempt(
+  ip: string,
+  email: string,
+  attempt: LoginAttempt,
+): Promise<void> {
+  await Promise.all([
+    store.update(ipKey(ip), (current) => releaseFailure(current, null)),
+    store.update(emailKey(email), (current) =>
+      releaseFailure(current, attempt.lockedUntil),
+    ),
+  ]);
+}
+
+/**
+ * A successful sign-in clears the email's counters. The IP keeps its history
+ * so one valid account can't be used to reset backoff for guessing others.
+ */
+export async function recordLoginSuccess(email: string): Promise<void> {
+  await store.delete(emailKey(email));
+}
+
+export async function getLockout(email: string): Promise<string | null> {
+  const record = await store.get(emailKey(email));
+  return remainingMs(record?.lockedUntil || null, Date.now()) > 0
+    ? record!.lockedUntil
+    : null;
+}
+
+export async function unlockEmail(email: string): Promise<void> {
+  await store.delete(emailKey(email));
+}
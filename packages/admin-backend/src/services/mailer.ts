@@ -0,0 +1,99 @@
+import { adminDb } from "../config/firebaseAdmin";
+import { errorMessage } from "../utils/errors";
+
+const RESEND_API_BASE = process.env.RESEND_API_BASE || "https://api.resend.com";
+
+/**
+ * Send email via Resend API (primary) — same pattern as api-gateway-services-wildmind
+ * Requires: RESEND_API_KEY and SMTP_FROM in .env
+ */
+export async function sendEmailViaResend(
+  to: string,
+  subject: string,
+  text: string,
+  html?: string,
+): Promise<boolean> {
+  const resendApiKey = process.env.RESEND_API_KEY;
+  const from = process.env.SMTP_FROM;
+
+  if (!resendApiKey) {
+    console.warn("[ADMIN MAIL] RESEND_API_KEY not configured");
+    return false;
+  }
+  if (!from) {
+    console.warn("[ADMIN MAIL] SMTP_FROM not configured");
+    return false;
+  }
+
+  try {
+    const payload: Record<string, string> = { from, to, subject, text };
+    if (html) payload.html = html;
+
+    console.log(`[ADMIN MAIL] Sending email via Resend to ${to}`);
+
+    const resp = await fetch(`${RESEND_API_BASE}/emails`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${resendApiKey}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(payload),
+    });
+
+    if (resp.ok) {
+      const result = await resp.json().catch(() => ({}));
+      console.log(`[ADMIN MAIL] Resend: email sent to ${to}`, result);
+      return true;
+    } else {
+      const errTxt = await resp.text().catch(() => "");
+      console.error(
+        `[ADMIN MAIL] Resend failed: ${resp.status} ${resp.statusText}`,
+        errTxt,
+      );
+      return false;
+    }
+  } catch (e) {
+    console.error(`[ADMIN MAIL] Resend error: ${errorMessage(e, String(e))}`);
+    return false;
+  }
+}
+
+const HTML_ESCAPES: Record<string, string> = {
+  "&": "&amp;",
+  "<": "&lt;",
+  ">": "&gt;",
+  '"': "&quot;",
+  "'": "&#39;",
+};
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, (char) => HTML_ESCAPES[char]);
+}
+
+/**
+ * Email a user and record it in emailLogs whether or not it was delivered.
+ * The plain-text body is also sent as simple HTML with line breaks kept; it is
+ * escaped first, since it can quote text the user wrote.
+ */
+export async function sendLoggedEmail(message: {
+  uid: string;
+  to: string;
+  subject: string;
+  body: string;
+  sentBy: string;
+}): Promise<boolean> {
+  const { uid, to, subject, body, sentBy } = message;
+  const htmlBody = `<div style="font-family: sans-serif; line-height: 1.6;">${escapeHtml(body).replace(/\n/g, "<br>")}</div>`;
+  const sent = await sendEmailViaResend(to, subject, body, htmlBody);
+
+  await adminDb.collection("emailLogs").add({
+    uid,
+    to,
+    subject,
+    body,
+    sentAt: new Date().toISOString(),
+    sentBy,
+    sent,
+  });
+  return sent;
+}
@@ -0,0 +1,550 @@
+import crypto from "crypto";
+import zlib from "zlib";
+import { promisify } from "util";
+import { adminDb, admin } from "../config/firebaseAdmin";
+import { archiveStore } from "./archiveStore";
+import {
+  AUDIT_CHAIN_ARCHIVE_DOC,
+  AUDIT_CHAIN_COLLECTION,
+  AUDIT_CHAIN_GENESIS_HASH,
+  AUDIT_LOGS_COLLECTION,
+  AuditChainAnchor,
+  AuditLogRecord,
+  hashAuditRecord,
+} from "./auditLog";
+import { errorMessage } from "../utils/errors";
+
+const gzip = promisify(zlib.gzip);
+const gunzip = promisify(zlib.gunzip);
+
+export const RETENTION_ARCHIVES_COLLECTION = "retentionArchives";
+const ADMIN_SETTINGS_COLLECTION = "adminSettings";
+const RETENTION_POLICY_DOC = "retentionPolicy";
+const RETENTION_STATUS_DOC = "retentionStatus";
+// Deletes share a batch with the chain anchor update, so stay under Firestore's 500 writes
+const ARCHIVE_BATCH_SIZE = 400;
+// Bounds a single run; anything left over is picked up by the next one
+const MAX_BATCHES_PER_RUN = 25;
+export const MIN_RETENTION_DAYS = 30;
+export const MAX_REHYDRATE_ENTRIES = 10000;
+// Rehydrated copies are working material for an investigation, not a restore
+const REHYDRATED_TTL_DAYS = 7;
+const TIMESTAMP_KEY = "__timestamp__";
+
+export const RETENTION_COLLECTIONS = [
+  "auditLogs",
+  "adminAuditLogs",
+  "emailLogs",
+  "creditHistory",
+] as const;
+export type RetentionCollection = (typeof RETENTION_COLLECTIONS)[number];
+
+/** Days to keep entries of each collection; null keeps them forever. */
+export type RetentionPolicy = Record<RetentionCollection, number | null>;
+
+export const DEFAULT_RETENTION_POLICY: RetentionPolicy = {
+  auditLogs: null,
+  adminAuditLogs: null,
+  emailLogs: null,
+  creditHistory: null,
+};
+
+interface CollectionConfig {
+  timestampField: string;
+  /** adminAuditLogs predates the ISO-string convention and stores Firestore timestamps */
+  timestampType: "iso" | "timestamp";
+}
+
+const COLLECTIONS: Record<RetentionCollection, CollectionConfig> = {
+  auditLogs: { timestampField: "createdAt", timestampType: "iso" },
+  adminAuditLogs: { timestampField: "createdAt", timestampType: "timestamp" },
+  emailLogs: { timestampField: "sentAt", timestampType: "iso" },
+  creditHistory: { timestampField: "adjustedAt", timestampType: "iso" },
+};
+
+/** Stored shape of a retentionArchives document, one per archive file. */
+export interface ArchiveRecord {
+  collection: RetentionCollection;
+  key: string;
+  store: "local" | "bucket";
+  /** Oldest and newest entry in the file */
+  from: string;
+  to: string;
+  count: number;
+  sizeBytes: number;
+  sha256: string;
+  createdAt: string;
+  runId: string;
+}
+
+export interface RetentionRunResult {
+  collection: RetentionCollection;
+  archived: number;
+  files: number;
+}
+
+export interface RetentionStatus {
+  ranAt: string;
+  durationMs: number;
+  trigger: "scheduled" | "manual";
+  triggeredBy: string | null;
+  results: RetentionRunResult[];
+  rehydratedCleared: number;
+  error: string | null;
+}
+
+export interface RehydrateResult {
+  targetCollection: string;
+  archives: number;
+  rehydrated: number;
+  truncated: boolean;
+}
+
+export function isRetentionCollection(
+  value: unknown,
+): value is RetentionCollection {
+  return (
+    typeof value === "string" &&
+    (RETENTION_COLLECTIONS as readonly string[]).includes(value)
+  );
+}
+
+export function rehydratedCollectionName(collection: RetentionCollection) {
+  return `rehydrated_${collection}`;
+}
+
+export async function getRetentionPolicy(): Promise<RetentionPolicy> {
+  const doc = await adminDb
+    .collection(ADMIN_SETTINGS_COLLECTION)
+    .doc(RETENTION_POLICY_DOC)
+    .get();
+  const stored = doc.data()?.collections || {};
+  const policy = { ...DEFAULT_RETENTION_POLICY };
+  for (const collection of RETENTION_COLLECTIONS) {
+    if (typeof stored[collection] === "number") {
+      policy[collection] = stored[collection];
+    }
+  }
+  return policy;
+}
+
+export async function saveRetentionPolicy(
+  policy: RetentionPolicy,
+  updatedBy: string,
+): Promise<void> {
+  await adminDb
+    .collection(ADMIN_SETTINGS_COLLECTION)
+    .doc(RETENTION_POLICY_DOC)
+    .set({
+      collections: policy,
+      updatedAt: new Date().toISOString(),
+      updatedBy,
+    });
+}
+
+export async function getRetentionStatus(): Promise<RetentionStatus | null> {
+  const doc = await adminDb
+    .collection(ADMIN_SETTINGS_COLLECTION)
+    .doc(RETENTION_STATUS_DOC)
+    .get();
+  return doc.exists ? (doc.data() as RetentionStatus) : null;
+}
+
+export async function listArchives(
+  collection?: RetentionCollection,
+): Promise<(ArchiveRecord & { id: string })[]> {
+  let query: FirebaseFirestore.Query = adminDb
+    .collection(RETENTION_ARCHIVES_COLLECTION)
+    .orderBy("createdAt", "desc");
+  if (collection) query = query.where("collection", "==", collection);
+  const snapshot = await query.limit(200).get();
+  return snapshot.docs.map((doc) => ({
+    id: doc.id,
+    ...(doc.data() as ArchiveRecord),
+  }));
+}
+
+// Firestore timestamps don't survive JSON; tag them so rehydration restores the type
+function encodeValue(value: unknown): unknown {
+  if (value instanceof admin.firestore.Timestamp) {
+    return { [TIMESTAMP_KEY]: value.toDate().toISOString() };
+  }
+  if (Array.isArray(value)) return value.map(encodeValue);
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, v]) => [key, encodeValue(v)]),
+    );
+  }
+  return value;
+}
+
+function decodeValue(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(decodeValue);
+  if (value && typeof value === "object") {
+    const keys = Object.keys(value);
+    if (keys.length === 1 && keys[0] === TIMESTAMP_KEY) {
+      return admin.firestore.Timestamp.fromDate(
+        new Date((value as Record<string, string>)[TIMESTAMP_KEY]),
+      );
+    }
+    return Object.fromEntries(
+      Object.entries(value).map(([key, v]) => [key, decodeValue(v)]),
+    );
+  }
+  return value;
+}
+
+/** An entry's time as an ISO string, whichever way the collection stores it. */
+function entryTime(
+  data: FirebaseFirestore.DocumentData,
+  config: CollectionConfig,
+): string {
+  const raw = data[config.timestampField];
+  if (raw instanceof admin.firestore.Timestamp) {
+    return raw.toDate().toISOString();
+  }
+  return typeof raw === "string" ? raw : "";
+}
+
+function cutoffValue(config: CollectionConfig, cutoff: string) {
+  return config.timestampType === "timestamp"
+    ? admin.firestore.Timestamp.fromDate(new Date(cutoff))
+    : cutoff;
+}
+
+/**
+ * Write docs to one gzipped JSONL file and record it. The docs are only deleted
+ * by the caller after this succeeds, so a failed write loses nothing.
+ */
+async function writeArchive(
+  collection: RetentionCollection,
+  docs: FirebaseFirestore.QueryDocumentSnapshot[],
+  runId: string,
+): Promise<ArchiveRecord> {
+  const config = COLLECTIONS[collection];
+  const createdAt = new Date().toISOString();
+  const lines = docs.map((doc) =>
+    JSON.stringify({ id: doc.id, data: encodeValue(doc.data()) }),
+  );
+  const times = docs
+    .map((doc) => entryTime(doc.data(), config))
+    .filter(Boolean)
+    .sort();
+  const from = times[0] || createdAt;
+  const to = times[times.length - 1] || createdAt;
+
+  const data = await gzip(Buffer.from(`${lines.join("\n")}\n`));
+  const key = `${collection}/${from.replace(/[:.]/g, "-")}_${runId}_${crypto.randomBytes(4).toString("hex")}.jsonl.gz`;
+  await archiveStore.put(key, data);
+
+  const record: ArchiveRecord = {
+    collection,
+    key,
+    store: archiveStore.kind,
+    from,
+    to,
+    count: docs.length,
+    sizeBytes: data.length,
+    sha256: crypto.createHash("sha256").update(data).digest("hex"),
+    createdAt,
+    runId,
+  };
+  await adminDb.collection(RETENTION_ARCHIVES_COLLECTION).add(record);
+  return record;
+}
+
+/**
+ * Archive entries older than the cutoff in timestamp order.
+ * `skip` leaves matching docs in place (chained audit entries have their own pass).
+ */
+async function archiveByTimestamp(
+  collection: RetentionCollection,
+  cutoff: string,
+  runId: string,
+  skip?: (data: FirebaseFirestore.DocumentData) => boolean,
+): Promise<RetentionRunResult> {
+  const config = COLLECTIONS[collection];
+  const result: RetentionRunResult = { collection, archived: 0, files: 0 };
+  let last: FirebaseFirestore.QueryDocumentSnapshot | undefined;
+
+  for (let i = 0; i < MAX_BATCHES_PER_RUN; i++) {
+    let query = adminDb
+      .collection(collection)
+      .where(config.timestampField, "<", cutoffValue(config, cutoff))
+      .orderBy(config.timestampField)
+      .limit(ARCHIVE_BATCH_SIZE);
+    if (last) query = query.startAfter(last);
+    const snapshot = await query.get();
+    if (snapshot.empty) break;
+    last = snapshot.docs[snapshot.docs.length - 1];
+
+    const docs = skip
+      ? snapshot.docs.filter((doc) => !skip(doc.data()))
+      : snapshot.docs;
+    if (docs.length) {
+      await writeArchive(collection, docs, runId);
+      const batch = adminDb.batch();
+      docs.forEach((doc) => batch.delete(doc.ref));
+      await batch.commit();
+      result.archived += docs.length;
+      result.files++;
+    }
+    if (snapshot.size < ARCHIVE_BATCH_SIZE) break;
+  }
+  return result;
+}
+
+/**
+ * Archive the oldest hash-chained audit entries, strictly in sequence order, and
+ * move the chain's archive anchor past them in the same batch as the deletes, so
+ * verification starts from the last archived link instead of reporting the gap.
+ * Stops at the first entry that is too recent, out of sequence or doesn't check
+ * out, leaving anything suspicious in place for verification to flag.
+ */
+async function archiveAuditChain(
+  cutoff: string,
+  runId: string,
+): Promise<RetentionRunResult> {
+  const result: RetentionRunResult = {
+    collection: "auditLogs",
+    archived: 0,
+    files: 0,
+  };
+  const anchorRef = adminDb
+    .collection(AUDIT_CHAIN_COLLECTION)
+    .doc(AUDIT_CHAIN_ARCHIVE_DOC);
+  const anchor = (await anchorRef.get()).data() as AuditChainAnchor | undefined;
+  let sequence = anchor?.sequence || 0;
+  let prevHash = anchor?.hash || AUDIT_CHAIN_GENESIS_HASH;
+
+  for (let i = 0; i < MAX_BATCHES_PER_RUN; i++) {
+    const snapshot = await adminDb
+      .collection(AUDIT_LOGS_COLLECTION)
+      .where("sequence", ">", sequence)
+      .orderBy("sequence")
+      .limit(ARCHIVE_BATCH_SIZE)
+      .get();
+
+    const docs: FirebaseFirestore.QueryDocumentSnapshot[] = [];
+    let linkHash = prevHash;
+    for (const doc of snapshot.docs) {
+      const record = doc.data() as AuditLogRecord;
+      if (
+        record.createdAt >= cutoff ||
+        record.sequence !== sequence + docs.length + 1 ||
+        record.prevHash !== linkHash ||
+        hashAuditRecord(record) !== record.hash
+      ) {
+        break;
+      }
+      docs.push(doc);
+      linkHash = record.hash as string;
+    }
+    if (!docs.length) break;
+
+    await writeArchive("auditLogs", docs, runId);
+    const lastDoc = docs[docs.length - 1];
+    const lastRecord = lastDoc.data() as AuditLogRecord;
+    const nextAnchor: AuditChainAnchor = {
+      sequence: lastRecord.sequence as number,
+      hash: lastRecord.hash as string,
+      entryId: lastDoc.id,
+      archivedAt: new Date().toISOString(),
+    };
+    const batch = adminDb.batch();
+    docs.forEach((doc) => batch.delete(doc.ref));
+    batch.set(anchorRef, nextAnchor);
+    await batch.commit();
+
+    result.archived += docs.length;
+    result.files++;
+    sequence = nextAnchor.sequence;
+    prevHash = nextAnchor.hash;
+    if (docs.length < ARCHIVE_BATCH_SIZE) break;
+  }
+  return result;
+}
+
+async function clearExpiredRehydrations(): Promise<number> {
+  const cutoff = new Date(
+    Date.now() - REHYDRATED_TTL_DAYS * 24 * 60 * 60 * 1000,
+  ).toISOString();
+  let cleared = 0;
+  for (const collection of RETENTION_COLLECTIONS) {
+    for (;;) {
+      const snapshot = await adminDb
+        .collection(rehydratedCollectionName(collection))
+        .where("_rehydration.rehydratedAt", "<", cutoff)
+        .limit(ARCHIVE_BATCH_SIZE)
+        .get();
+      if (snapshot.empty) break;
+      const batch = adminDb.batch();
+      snapshot.docs.forEach((doc) => batch.delete(doc.ref));
+      await batch.commit();
+      cleared += snapshot.size;
+    }
+  }
+  return cleared;
+}
+
+let activeRun: Promise<RetentionStatus> | null = null;
+
+/**
+ * Move entries past their collection's retention window into archives.
+ * A run already in progress on this instance is shared rather than started twice.
+ */
+export function runRetention(
+  trigger: RetentionStatus["trigger"],
+  triggeredBy: string | null = null,
+): Promise<RetentionStatus> {
+  if (!activeRun) {
+    activeRun = executeRetention(trigger, triggeredBy).finally(() => {
+      activeRun = null;
+    });
+  }
+  return activeRun;
+}
+
+async function executeRetention(
+  trigger: RetentionStatus["trigger"],
+  triggeredBy: string | null,
+): Promise<RetentionStatus> {
+  const startedAt = Date.now();
+  const runId = new Date(startedAt).toISOString().replace(/[:.]/g, "-");
+  const policy = await getRetentionPolicy();
+  const results: RetentionRunResult[] = [];
+  const errors: string[] = [];
+
+  for (const collection of RETENTION_COLLECTIONS) {
+    const days = policy[collection];
+    if (days === null) continue;
+    const cutoff = new Date(
+      startedAt - days * 24 * 60 * 60 * 1000,
+    ).toISOString();
+    try {
+      if (collection === "auditLogs") {
+        const chained = await archiveAuditChain(cutoff, runId);
+        // Entries from before the hash chain have no sequence
+        const legacy = await archiveByTimestamp(
+          collection,
+          cutoff,
+          runId,
+          (data) => data.sequence !== undefined,
+        );
+        results.push({
+          collection,
+          archived: chained.archived + legacy.archived,
+          files: chained.files + legacy.files,
+        });
+      } else {
+        results.push(await archiveByTimestamp(collection, cutoff, runId));
+      }
+    } catch (err) {
+      console.error(`[Retention] Archiving ${collection} failed:`, err);
+      errors.push(`${collection}: ${errorMessage(err, String(err))}`);
+    }
+  }
+
+  let rehydratedCleared = 0;
+  try {
+    rehydratedCleared = await clearExpiredRehydrations();
+  } catch (err) {
+    console.error("[Retention] Clearing rehydrated entries failed:", err);
+    errors.push(`rehydrated: ${errorMessage(err, String(err))}`);
+  }
+
+  const status: RetentionStatus = {
+    ranAt: new Date().toISOString(),
+    durationMs: Date.now() - startedAt,
+    trigger,
+    triggeredBy,
+    results,
+    rehydratedCleared,
+    error: errors.length ? errors.join("; ") : null,
+  };
+  await adminDb
+    .collection(ADMIN_SETTINGS_COLLECTION)
+    .doc(RETENTION_STATUS_DOC)
+    .set(status);
+  return status;
+}
+
+/**
+ * Copy archived entries of one collection between `from` and `to` (inclusive, ISO)
+ * into `rehydrated_<collection>` under their original ids, for querying during an
+ * investigation. The originals are never restored in place: audit entries would
+ * collide with the hash chain. Rehydrated copies are cleared after a week.
+ */
+export async function rehydrateArchives(
+  collection: RetentionCollection,
+  from: string,
+  to: string,
+  requestedBy: string,
+): Promise<RehydrateResult> {
+  const config = COLLECTIONS[collection];
+  const target = adminDb.collection(rehydratedCollectionName(collection));
+  const snapshot = await adminDb
+    .collection(RETENTION_ARCHIVES_COLLECTION)
+    .where("collection", "==", collection)
+    .where("to", ">=", from)
+    .orderBy("to")
+    .get();
+  const archives = snapshot.docs
+    .map((doc) => doc.data() as ArchiveRecord)
+    .filter((archive) => archive.from <= to);
+
+  const rehydration = {
+    rehydratedAt: new Date().toISOString(),
+    rehydratedBy: requestedBy,
+  };
+  let rehydrated = 0;
+  let truncated = false;
+
+  for (const archive of archives) {
+    if (archive.store !== archiveStore.kind) {
+      throw new Error(
+        `Archive ${archive.key} is in the ${archive.store} store but ${archiveStore.kind} is configured`,
+      );
+    }
+    const raw = await archiveStore.get(archive.key);
+    const checksum = crypto.createHash("sha256").update(raw).digest("hex");
+    if (checksum !== archive.sha256) {
+      throw new Error(`Archive ${archive.key} failed its checksum`);
+    }
+
+    const lines = (await gunzip(raw)).toString("utf8").split("\n");
+    let batch = adminDb.batch();
+    let pending = 0;
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      const { id, data } = JSON.parse(line);
+      const time =
+        entryTime(data, config) || data[config.timestampField]?.[TIMESTAMP_KEY];
+      if (!time || time < from || time > to) continue;
+      if (rehydrated >= MAX_REHYDRATE_ENTRIES) {
+        truncated = true;
+        break;
+      }
+
+      batch.set(target.doc(id), {
+        ...(decodeValue(data) as FirebaseFirestore.DocumentData),
+        _rehydration: { ...rehydration, archiveKey: archive.key },
+      });
+      rehydrated++;
+      if (++pending === ARCHIVE_BATCH_SIZE) {
+        await batch.commit();
+        batch = adminDb.batch();
+        pending = 0;
+      }
+    }
+    if (pending) await batch.commit();
+    if (truncated) break;
+  }
+
+  return {
+    targetCollection: rehydratedCollectionName(collection),
+    archives: archives.length,
+    rehydrated,
+    truncated,
+  };
+}
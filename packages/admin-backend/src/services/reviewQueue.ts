@@ -0,0 +1,253 @@
+import { admin, adminDb } from "../config/firebaseAdmin";
+
+export const REVIEW_CLAIMS_COLLECTION = "reviewClaims";
+
+// A claim lapses if its holder walks away; claiming again renews it
+export const REVIEW_CLAIM_TTL_MINUTES = 30;
+
+// Users read per page of the riskScore backfill
+const BACKFILL_PAGE_SIZE = 400;
+
+/**
+ * Stored shape of a reviewClaims document, keyed by the uid under review.
+ * Only one admin works a flagged user at a time.
+ */
+export interface ReviewClaim {
+  uid: string;
+  adminId: string;
+  adminEmail: string;
+  claimedAt: string;
+  expiresAt: string;
+}
+
+export interface ReviewClaimActor {
+  adminId: string;
+  adminEmail: string;
+}
+
+export type ClaimResult =
+  | { status: "claimed"; claim: ReviewClaim }
+  | { status: "claimed_by_other"; claim: ReviewClaim }
+  | { status: "not_found" }
+  | { status: "not_under_review" };
+
+export type ReleaseResult =
+  | { status: "released" }
+  | { status: "not_claimed" }
+  | { status: "claimed_by_other"; claim: ReviewClaim };
+
+export interface ReviewQueueEntry {
+  uid: string;
+  email: string | null;
+  username: string | null;
+  displayName: string | null;
+  riskScore: number;
+  riskReasons: { signal: string; points: number; detail: string }[];
+  riskScoredAt: string | null;
+  reviewReason: string | null;
+  reviewFlaggedAt: string | null;
+  reviewFlaggedBy: string | null;
+  warningCount: number;
+  isSuspended: boolean;
+  isBanned: boolean;
+  claim: ReviewClaim | null;
+}
+
+export interface ReviewQueuePage {
+  entries: ReviewQueueEntry[];
+  /** Pass back as `cursor` for the next page; null on the last page */
+  nextCursor: string | null;
+}
+
+export type ReviewQueueResult =
+  { status: "ok"; page: ReviewQueuePage } | { status: "invalid_cursor" };
+
+function claimRef(uid: string) {
+  return adminDb.collection(REVIEW_CLAIMS_COLLECTION).doc(uid);
+}
+
+function isActive(claim: ReviewClaim | undefined, now = Date.now()) {
+  return !!claim && new Date(claim.expiresAt).getTime() > now;
+}
+
+/**
+ * The claim on a user if one is held and unexpired.
+ */
+export async function getActiveClaim(uid: string): Promise<ReviewClaim | null> {
+  const doc = await claimRef(uid).get();
+  const claim = doc.data() as ReviewClaim | undefined;
+  return isActive(claim) ? (claim as ReviewClaim) : null;
+}
+
+/**
+ * Another admin's unexpired claim on a user, or null if the user is free or
+ * the claim is `adminId`'s own. Every action the review queue offers checks
+ * this so two moderators can't act on the same user.
+ */
+export async function claimHeldByOther(
+  uid: string,
+  adminId: string | undefined,
+): Promise<ReviewClaim | null> {
+  const claim = await getActiveClaim(uid);
+  return claim && claim.adminId !== adminId ? claim : null;
+}
+
+export function reviewClaimedMessage(claim: ReviewClaim): string {
+  return `Review is claimed by ${claim.adminEmail}`;
+}
+
+/**
+ * Claim a flagged user for review, or renew your own claim. Runs in a
+ * transaction so two admins claiming at once cannot both succeed.
+ */
+export async function claimReview(
+  uid: string,
+  actor: ReviewClaimActor,
+): Promise<ClaimResult> {
+  const userRef = adminDb.collection("users").doc(uid);
+  return adminDb.runTransaction(async (tx) => {
+    const [userDoc, claimDoc] = await Promise.all([
+      tx.get(userRef),
+      tx.get(claimRef(uid)),
+    ]);
+    if (!userDoc.exists) return { status: "not_found" };
+    if (!userDoc.data()?.isUnderReview) return { status: "not_under_review" };
+
+    const existing = claimDoc.data() as ReviewClaim | undefined;
+    if (isActive(existing) && existing!.adminId !== actor.adminId) {
+      return { status: "claimed_by_other", claim: existing! };
+    }
+
+    const now = new Date();
+    const claim: ReviewClaim = {
+      uid,
+      adminId: actor.adminId,
+      adminEmail: actor.adminEmail,
+      claimedAt:
+        existing && existing.adminId === actor.adminId && isActive(existing)
+          ? existing.claimedAt
+          : now.toISOString(),
+      expiresAt: new Date(
+        now.getTime() + REVIEW_CLAIM_TTL_MINUTES * 60 * 1000,
+      ).toISOString(),
+    };
+    tx.set(claimRef(uid), claim);
+    return { status: "claimed", claim };
+  });
+}
+
+/**
+ * Give up your claim on a user. Someone else's unexpired claim stays put.
+ */
+export async function releaseReview(
+  uid: string,
+  adminId: string,
+): Promise<ReleaseResult> {
+  return adminDb.runTransaction(async (tx) => {
+    const doc = await tx.get(claimRef(uid));
+    const claim = doc.data() as ReviewClaim | undefined;
+    if (!isActive(claim)) return { status: "not_claimed" };
+    if (claim!.adminId !== adminId) {
+      return { status: "claimed_by_other", claim: claim! };
+    }
+    tx.delete(claimRef(uid));
+    return { status: "released" };
+  });
+}
+
+/**
+ * Drop any claim once the review is finished.
+ */
+export async function clearClaim(uid: string): Promise<void> {
+  await claimRef(uid).delete();
+}
+
+/**
+ * One page of users under review, highest risk score first, with who is
+ * working each one. `cursor` is the uid of the last user on the previous page.
+ * Users without a numeric riskScore drop out of the ordered query. Flagging
+ * stores one (see applyReviewFlag); users flagged before that, or outside this
+ * backend, need backfillReviewRiskScores (npm run backfill:review-risk-scores).
+ */
+export async function listReviewQueue(
+  limit: number,
+  cursor?: string,
+): Promise<ReviewQueueResult> {
+  let query = adminDb
+    .collection("users")
+    .where("isUnderReview", "==", true)
+    .orderBy("riskScore", "desc");
+  if (cursor) {
+    const cursorDoc = await adminDb.collection("users").doc(cursor).get();
+    if (!cursorDoc.exists) return { status: "invalid_cursor" };
+    query = query.startAfter(cursorDoc);
+  }
+  // One extra tells us whether there is another page
+  const snapshot = await query.limit(limit + 1).get();
+  const docs = snapshot.docs.slice(0, limit);
+  const nextCursor = snapshot.size > limit ? docs[docs.length - 1].id : null;
+  if (docs.length === 0) {
+    return { status: "ok", page: { entries: [], nextCursor: null } };
+  }
+
+  const claimDocs = await adminDb.getAll(
+    ...docs.map((doc) => claimRef(doc.id)),
+  );
+  const now = Date.now();
+
+  const entries = docs.map((doc, i) => {
+    const user = doc.data();
+    const claim = claimDocs[i].data() as ReviewClaim | undefined;
+    return {
+      uid: doc.id,
+      email: user.email || null,
+      username: user.username || null,
+      displayName: user.displayName || null,
+      riskScore: user.riskScore || 0,
+      riskReasons: user.riskReasons || [],
+      riskScoredAt: user.riskScoredAt || null,
+      reviewReason: user.reviewReason || null,
+      reviewFlaggedAt: user.reviewFlaggedAt || null,
+      reviewFlaggedBy: user.reviewFlaggedBy || null,
+      warningCount: user.warningCount || 0,
+      isSuspended: !!user.isSuspended,
+      isBanned: !!user.isBanned,
+      claim: isActive(claim, now) ? (claim as ReviewClaim) : null,
+    };
+  });
+  return { status: "ok", page: { entries, nextCursor } };
+}
+
+/**
+ * Give users under review without a numeric riskScore a score of 0, as
+ * flagging does, so the review queue lists them. The scheduled rescore fills
+ * in the real score later. Returns how many users were (or would be) updated.
+ */
+export async function backfillReviewRiskScores(
+  options: { dryRun?: boolean } = {},
+): Promise<number> {
+  let updated = 0;
+  let cursor: FirebaseFirestore.QueryDocumentSnapshot | undefined;
+  for (;;) {
+    let query = adminDb
+      .collection("users")
+      .where("isUnderReview", "==", true)
+      .orderBy(admin.firestore.FieldPath.documentId())
+      .limit(BACKFILL_PAGE_SIZE);
+    if (cursor) query = query.startAfter(cursor);
+    const snapshot = await query.get();
+    if (snapshot.empty) break;
+
+    const batch = adminDb.batch();
+    const unscored = snapshot.docs.filter(
+      (doc) => typeof doc.data().riskScore !== "number",
+    );
+    unscored.forEach((doc) => batch.update(doc.ref, { riskScore: 0 }));
+    if (unscored.length > 0 && !options.dryRun) await batch.commit();
+    updated += unscored.length;
+
+    if (snapshot.size < BACKFILL_PAGE_SIZE) break;
+    cursor = snapshot.docs[snapshot.docs.length - 1];
+  }
+  return updated;
+}
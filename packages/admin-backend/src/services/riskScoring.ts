@@ -0,0 +1,411 @@
+import { adminDb, admin } from "../config/firebaseAdmin";
+import { env } from "../config/env";
+import { SYSTEM_ACTOR } from "./auditLog";
+import {
+  IdentifierType,
+  accountsForIdentifier,
+  findLinkedAccounts,
+  toIso,
+} from "./linkedAccounts";
+import { blockedIpDocId } from "../controllers/ipController";
+import { applyReviewFlag } from "../controllers/moderationController";
+
+const ADMIN_SETTINGS_COLLECTION = "adminSettings";
+const RESCORE_STATE_DOC = "riskRescore";
+
+// Pages of users read per step of a scheduled rescore
+const RESCORE_PAGE_SIZE = 200;
+// Pause between pages, so a scheduled rescore doesn't compete with live traffic
+const RESCORE_PAGE_PAUSE_MS = 2000;
+// Recent generations looked at for the failure ratio
+const GENERATION_SAMPLE_SIZE = 50;
+// Too few generations say nothing about failures
+const MIN_GENERATIONS_FOR_RATIO = 10;
+// Linked accounts created this close to the user count as one signup burst
+const SIGNUP_BURST_WINDOW_MS = 24 * 60 * 60 * 1000;
+// Strongest links looked at; the long tail is shared IPs that add little
+const MAX_LINKED_SCORED = 200;
+const MAX_RISK_SCORE = 100;
+
+// Statuses the generation pipeline uses for a failed job (see analytics)
+const FAILED_GENERATION_STATUSES = ["failed", "error", "cancelled", "canceled"];
+
+export type RiskSignal =
+  | "warnings"
+  | "linked_banned"
+  | "blocked_identifiers"
+  | "signup_burst"
+  | "failed_generations";
+
+/** One rule that fired, stored on the user as riskReasons */
+export interface RiskReason {
+  signal: RiskSignal;
+  points: number;
+  detail: string;
+}
+
+export interface RiskAssessment {
+  uid: string;
+  score: number;
+  reasons: RiskReason[];
+  /** True when this assessment put the user under review */
+  flagged: boolean;
+}
+
+export interface RiskRescoreResult {
+  scored: number;
+  flagged: number;
+  failed: number;
+}
+
+/**
+ * Where the scheduled rescore stopped: the id of the last user it read, or
+ * null once it reached the end and the next run starts over.
+ */
+interface RescoreState {
+  cursor: string | null;
+}
+
+type UserData = FirebaseFirestore.DocumentData;
+
+interface RiskContext {
+  uid: string;
+  user: UserData;
+  /** Linked accounts with their user docs, loaded once for the rules that need them */
+  linked: { uid: string; strength: string; user: UserData | null }[];
+}
+
+type RiskRule = (context: RiskContext) => Promise<RiskReason | null>;
+
+function capped(points: number, max: number) {
+  return Math.min(points, max);
+}
+
+/** 10 points per warning on record, up to 30. */
+const warningsRule: RiskRule = async ({ user }) => {
+  const count = user.warningCount || 0;
+  if (count <= 0) return null;
+  return {
+    signal: "warnings",
+    points: capped(count * 10, 30),
+    detail: `${count} warning${count !== 1 ? "s" : ""} on record`,
+  };
+};
+
+/** Banned accounts on a shared device (25 each) or shared IPs (10 each), up to 50. */
+const linkedBannedRule: RiskRule = async ({ linked }) => {
+  const banned = linked.filter((link) => link.user?.isBanned);
+  if (banned.length === 0) return null;
+  const points = banned.reduce(
+    (sum, link) => sum + (link.strength === "strong" ? 25 : 10),
+    0,
+  );
+  const onDevice = banned.filter((link) => link.strength === "strong").length;
+  return {
+    signal: "linked_banned",
+    points: capped(points, 50),
+    detail: `${banned.length} linked account${banned.length !== 1 ? "s" : ""} banned${onDevice ? ` (${onDevice} on a shared device)` : ""}`,
+  };
+};
+
+/** 20 points per blocked IP or device in the user's login history, up to 40. */
+const blockedIdentifiersRule: RiskRule = async ({ user }) => {
+  const history: FirebaseFirestore.DocumentData[] = Array.isArray(
+    user.loginHistory,
+  )
+    ? user.loginHistory
+    : [];
+  const ips = new Set<string>();
+  const devices = new Set<string>();
+  history.forEach((entry) => {
+    if (typeof entry?.ip === "string" && entry.ip) ips.add(entry.ip);
+    // Device ids with a slash can't be doc ids, so they can't be blocked either
+    if (
+      typeof entry?.deviceId === "string" &&
+      entry.deviceId &&
+      !entry.deviceId.includes("/")
+    )
+      devices.add(entry.deviceId);
+  });
+
+  const refs = [
+    ...Array.from(ips).map((ip) =>
+      adminDb.collection("blockedIPs").doc(blockedIpDocId(ip)),
+    ),
+    ...Array.from(devices).map((deviceId) =>
+      adminDb.collection("blockedDevices").doc(deviceId),
+    ),
+  ];
+  if (refs.length === 0) return null;
+  const docs = await adminDb.getAll(...refs);
+  const blockedIps = docs.slice(0, ips.size).filter((doc) => doc.exists).length;
+  const blockedDevices = docs
+    .slice(ips.size)
+    .filter((doc) => doc.exists).length;
+  const total = blockedIps + blockedDevices;
+  if (total === 0) return null;
+
+  const parts: string[] = [];
+  if (blockedIps)
+    parts.push(`${blockedIps} blocked IP${blockedIps !== 1 ? "s" : ""}`);
+  if (blockedDevices)
+    parts.push(
+      `${blockedDevices} blocked device${blockedDevices !== 1 ? "s" : ""}`,
+    );
+  return {
+    signal: "blocked_identifiers",
+    points: capped(total * 20, 40),
+    detail: `Signed in from ${parts.join(" and ")}`,
+  };
+};
+
+/** Linked accounts created within a day of this one: 10 points each, up to 30. */
+const signupBurstRule: RiskRule = async ({ user, linked }) => {
+  const createdAt = toIso(user.createdAt);
+  if (!createdAt) return null;
+  const created = new Date(createdAt).getTime();
+  const burst = linked.filter((link) => {
+    const other = toIso(link.user?.createdAt);
+    return (
+      !!other &&
+      Math.abs(new Date(other).getTime() - created) <= SIGNUP_BURST_WINDOW_MS
+    );
+  }).length;
+  if (burst === 0) return null;
+  return {
+    signal: "signup_burst",
+    points: capped(burst * 10, 30),
+    detail: `${burst} linked account${burst !== 1 ? "s" : ""} created within 24 hours of this one`,
+  };
+};
+
+/** Half or more of recent generations failed: 15 points, 25 at 80%. */
+const failedGenerationsRule: RiskRule = async ({ uid }) => {
+  const snapshot = await adminDb
+    .collection("generations")
+    .where("createdBy.uid", "==", uid)
+    .orderBy("createdAt", "desc")
+    .limit(GENERATION_SAMPLE_SIZE)
+    .select("status")
+    .get();
+  if (snapshot.size < MIN_GENERATIONS_FOR_RATIO) return null;
+
+  const failed = snapshot.docs.filter((doc) =>
+    FAILED_GENERATION_STATUSES.includes(
+      String(doc.data().status || "").toLowerCase(),
+    ),
+  ).length;
+  const ratio = failed / snapshot.size;
+  if (ratio < 0.5) return null;
+  return {
+    signal: "failed_generations",
+    points: ratio >= 0.8 ? 25 : 15,
+    detail: `${failed} of the last ${snapshot.size} generations failed`,
+  };
+};
+
+const RISK_RULES: RiskRule[] = [
+  warningsRule,
+  linkedBannedRule,
+  blockedIdentifiersRule,
+  signupBurstRule,
+  failedGenerationsRule,
+];
+
+async function loadLinked(uid: string, user: UserData) {
+  const lookup = await findLinkedAccounts(uid, user);
+  const links = lookup.accounts.slice(0, MAX_LINKED_SCORED);
+  if (links.length === 0) return [];
+  const docs = await adminDb.getAll(
+    ...links.map((link) => adminDb.collection("users").doc(link.uid)),
+  );
+  return links.map((link, i) => ({
+    uid: link.uid,
+    strength: link.strength,
+    user: docs[i].exists ? docs[i].data() || {} : null,
+  }));
+}
+
+/**
+ * Whether a score should put the user under review. A review an admin cleared
+ * stays cleared until the score climbs past what it was when they cleared it.
+ */
+function shouldFlag(user: UserData, score: number): boolean {
+  if (score < env.riskReviewThreshold || user.isUnderReview) return false;
+  if (user.isBanned) return false;
+  return score > (user.reviewClearedRiskScore || 0);
+}
+
+/**
+ * Recompute a user's risk score from the rules above, store it with the
+ * reasons behind it, and put the user under review once it crosses
+ * ADMIN_RISK_REVIEW_THRESHOLD. `trigger` says what prompted the rescore.
+ */
+export async function scoreUser(
+  uid: string,
+  trigger: string,
+  userData?: UserData,
+): Promise<RiskAssessment | null> {
+  let user = userData;
+  if (!user) {
+    const doc = await adminDb.collection("users").doc(uid).get();
+    if (!doc.exists) return null;
+    user = doc.data() || {};
+  }
+
+  const context: RiskContext = {
+    uid,
+    user,
+    linked: await loadLinked(uid, user),
+  };
+  const reasons = (
+    await Promise.all(RISK_RULES.map((rule) => rule(context)))
+  ).filter((reason): reason is RiskReason => reason !== null);
+  const score = capped(
+    reasons.reduce((sum, reason) => sum + reason.points, 0),
+    MAX_RISK_SCORE,
+  );
+
+  const unchanged =
+    user.riskScore === score &&
+    JSON.stringify(user.riskReasons || []) === JSON.stringify(reasons);
+  if (!unchanged) {
+    await adminDb.collection("users").doc(uid).update({
+      riskScore: score,
+      riskReasons: reasons,
+      riskScoredAt: new Date().toISOString(),
+      riskScoreTrigger: trigger,
+    });
+  }
+
+  const flagged = shouldFlag(user, score);
+  if (flagged) {
+    await applyReviewFlag(
+      uid,
+      `Risk score ${score}: ${reasons.map((reason) => reason.detail).join("; ")}`,
+      SYSTEM_ACTOR,
+    );
+  }
+  return { uid, score, reasons, flagged };
+}
+
+/**
+ * Rescore users after an event without holding up the request that caused
+ * it. Errors are logged; the scheduled rescore catches anything missed.
+ */
+export function rescoreInBackground(uids: string[], trigger: string): void {
+  const unique = Array.from(new Set(uids.filter(Boolean)));
+  if (unique.length === 0) return;
+  void (async () => {
+    for (const uid of unique) {
+      try {
+        await scoreUser(uid, trigger);
+      } catch (error) {
+        console.error(`Risk rescore failed for ${uid} (${trigger}):`, error);
+      }
+    }
+  })();
+}
+
+/**
+ * Rescore everyone linked to a user, e.g. after that user is banned or unbanned.
+ */
+export function rescoreLinkedInBackground(uid: string, trigger: string): void {
+  void (async () => {
+    try {
+      const doc = await adminDb.collection("users").doc(uid).get();
+      if (!doc.exists) return;
+      const lookup = await findLinkedAccounts(uid, doc.data() || {});
+      rescoreInBackground(
+        lookup.accounts.map((link) => link.uid),
+        trigger,
+      );
+    } catch (error) {
+      console.error(`Linked risk rescore failed for ${uid}:`, error);
+    }
+  })();
+}
+
+/**
+ * Rescore everyone who has signed in from a device or IP, e.g. after it is blocked.
+ */
+export function rescoreIdentifierInBackground(
+  type: IdentifierType,
+  value: string,
+  trigger: string,
+): void {
+  accountsForIdentifier(type, value)
+    .then((uids) => rescoreInBackground(uids, trigger))
+    .catch((error) =>
+      console.error(`Risk rescore failed for ${type} ${value}:`, error),
+    );
+}
+
+function rescoreStateRef() {
+  return adminDb.collection(ADMIN_SETTINGS_COLLECTION).doc(RESCORE_STATE_DOC);
+}
+
+/**
+ * Rescore users who aren't banned, a page at a time, reading at most
+ * `maxUsers` (ADMIN_RISK_SCORING_USERS_PER_RUN) and pausing between pages.
+ * Each run carries on after the last user the previous one read, so the whole
+ * user base is covered over several runs.
+ */
+export async function rescoreAllUsers(
+  options: { maxUsers?: number; pauseMs?: number } = {},
+): Promise<RiskRescoreResult> {
+  const maxUsers = options.maxUsers ?? env.riskScoringUsersPerRun;
+  const pauseMs = options.pauseMs ?? RESCORE_PAGE_PAUSE_MS;
+  const result: RiskRescoreResult = { scored: 0, flagged: 0, failed: 0 };
+
+  const state = (await rescoreStateRef().get()).data() as
+    RescoreState | undefined;
+  let cursor: FirebaseFirestore.DocumentSnapshot | undefined;
+  if (state?.cursor) {
+    const doc = await adminDb.collection("users").doc(state.cursor).get();
+    // The user may have been deleted since; starting over only costs a run
+    if (doc.exists) cursor = doc;
+  }
+
+  let read = 0;
+  let finished = false;
+  while (read < maxUsers) {
+    if (read > 0 && pauseMs > 0) {
+      await new Promise((resolve) => setTimeout(resolve, pauseMs));
+    }
+    const limit = Math.min(RESCORE_PAGE_SIZE, maxUsers - read);
+    let query = adminDb
+      .collection("users")
+      .orderBy(admin.firestore.FieldPath.documentId())
+      .limit(limit);
+    if (cursor) query = query.startAfter(cursor);
+    const snapshot = await query.get();
+    read += snapshot.size;
+
+    for (const doc of snapshot.docs) {
+      const user = doc.data();
+      // Banned users flagged before scoring existed still need a riskScore to
+      // show in the review queue
+      const unscoredInReview =
+        user.isUnderReview && typeof user.riskScore !== "number";
+      if (user.isBanned && !unscoredInReview) continue;
+      try {
+        const assessment = await scoreUser(doc.id, "scheduled", user);
+        result.scored += 1;
+        if (assessment?.flagged) result.flagged += 1;
+      } catch (error) {
+        result.failed += 1;
+        console.error(`Risk scoring failed for ${doc.id}:`, error);
+      }
+    }
+    if (snapshot.size < limit) {
+      finished = true;
+      break;
+    }
+    cursor = snapshot.docs[snapshot.docs.length - 1];
+  }
+
+  const next: RescoreState = { cursor: finished ? null : cursor?.id || null };
+  await rescoreStateRef().set({ ...next, updatedAt: new Date().toISOString() });
+  return result;
+}
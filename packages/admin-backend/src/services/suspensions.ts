@@ -0,0 +1,86 @@
+import { adminDb, admin } from "../config/firebaseAdmin";
+import { env } from "../config/env";
+import { AuditActor, SYSTEM_ACTOR, logAuditAction } from "./auditLog";
+import { sendLoggedEmail } from "./mailer";
+
+// Enough for any realistic backlog; the rest is picked up on the next run
+const EXPIRY_BATCH_LIMIT = 200;
+
+export interface SuspensionExpiryResult {
+  expired: number;
+  failed: number;
+}
+
+/**
+ * Lift a suspension and audit it. Used by the unsuspend endpoint and by the
+ * expiry job, which passes the system actor and why it acted.
+ */
+export async function liftSuspension(
+  uid: string,
+  actor: AuditActor,
+  details: Record<string, unknown> = {},
+): Promise<void> {
+  await adminDb.collection("users").doc(uid).update({
+    isSuspended: false,
+    suspendReason: admin.firestore.FieldValue.delete(),
+    suspendedAt: admin.firestore.FieldValue.delete(),
+    suspendedBy: admin.firestore.FieldValue.delete(),
+    suspendedUntil: admin.firestore.FieldValue.delete(),
+  });
+
+  await logAuditAction({
+    ...actor,
+    action: "UNSUSPEND_USER",
+    targetUid: uid,
+    details,
+  });
+}
+
+/**
+ * Lift every suspension whose suspendedUntil has passed, as the system actor.
+ * When ADMIN_SUSPENSION_EXPIRY_EMAIL is on, the user is told by email.
+ */
+export async function expireSuspensions(
+  now = new Date(),
+): Promise<SuspensionExpiryResult> {
+  const snapshot = await adminDb
+    .collection("users")
+    .where("isSuspended", "==", true)
+    .where("suspendedUntil", "<=", now.toISOString())
+    .limit(EXPIRY_BATCH_LIMIT)
+    .get();
+
+  const result: SuspensionExpiryResult = { expired: 0, failed: 0 };
+  for (const doc of snapshot.docs) {
+    const user = doc.data();
+    try {
+      await liftSuspension(doc.id, SYSTEM_ACTOR, {
+        reason: "suspension_expired",
+        suspendedUntil: user.suspendedUntil,
+        suspendReason: user.suspendReason || null,
+        suspendedBy: user.suspendedBy || null,
+      });
+      result.expired++;
+    } catch (err) {
+      console.error(
+        `[Suspensions] Failed to lift suspension of ${doc.id}:`,
+        err,
+      );
+      result.failed++;
+      continue;
+    }
+
+    if (env.suspensionExpiryEmail && user.email) {
+      await sendLoggedEmail({
+        uid: doc.id,
+        to: user.email,
+        subject: "Your account suspension has ended",
+        body: "Your account suspension has ended and you can sign in again.\n\nPlease keep our community guidelines in mind.",
+        sentBy: SYSTEM_ACTOR.adminEmail,
+      }).catch((err) =>
+        console.error(`[Suspensions] Failed to email ${doc.id}:`, err),
+      );
+    }
+  }
+  return result;
+}
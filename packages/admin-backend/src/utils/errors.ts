@@ -0,0 +1,7 @@
+/**
+ * Message of a caught error for an API response, or `fallback` when the
+ * thrown value isn't an Error or has no message.
+ */
+export function errorMessage(error: unknown, fallback: string): string {
+  return error instanceof Error && error.message ? error.message : fallback;
+}
@@ -0,0 +1,26 @@
+import crypto from 'crypto';
+import { env } from '../config/env';
+
+/**
+ * AES-256-GCM for small secrets we must be able to read back (e.g. TOTP seeds).
+ * Output format: base64(iv).base64(tag).base64(ciphertext)
+ */
+
+function getKey(): Buffer {
+  return crypto.createHash('sha256').update(env.secretEncryptionKey).digest();
+}
+
+export function encryptSecret(plaintext: string): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', getKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  const tag = cipher.getAuthTag();
+  return [iv, tag, ciphertext].map((part) => part.toString('base64')).join('.');
+}
+
+export function decryptSecret(payload: string): string {
+  const [iv, tag, ciphertext] = payload.split('.').map((part) => Buffer.from(part, 'base64'));
+  const decipher = crypto.createDecipheriv('aes-256-gcm', getKey(), iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+}
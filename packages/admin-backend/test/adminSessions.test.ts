@@ -0,0 +1,163 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { fakeDb } from "./helpers/fakeFirestore";
+import { mockRequest } from "./helpers/http";
+
+vi.mock("../src/config/firebaseAdmin", () => import("./helpers/fakeFirestore"));
+
+import {
+  createSession,
+  getIdleTimeoutMs,
+  getLiveSession,
+  listLiveSessions,
+  REFRESH_TOKEN_TTL_MS,
+  revokeAdminSessions,
+  revokeSession,
+  rotateRefreshToken,
+} from "../src/services/adminSessions";
+
+const req = mockRequest({
+  ip: "127.0.0.1",
+  headers: { "user-agent": "vitest" },
+});
+const ADMIN = { id: "admin-2", email: "ops@example.com", role: "admin" };
+
+describe("admin sessions", () => {
+  beforeEach(() => {
+    fakeDb.reset();
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2025-01-01T00:00:00Z"));
+  });
+
+  afterEach(() => vi.useRealTimers());
+
+  it("records who signed in and from where", async () => {
+    const { sessionId } = await createSession(req, ADMIN);
+
+    const stored = (
+      await fakeDb.doc(`adminSessions/${sessionId}`).get()
+    ).data();
+    expect(stored).toMatchObject({
+      adminId: "admin-2",
+      adminEmail: "ops@example.com",
+      ipAddress: "127.0.0.1",
+      userAgent: "vitest",
+      revokedAt: null,
+    });
+  });
+
+  it("stores only a hash of the refresh token", async () => {
+    const { sessionId, refreshToken } = await createSession(req, ADMIN);
+
+    expect(refreshToken.startsWith(`${sessionId}.`)).toBe(true);
+    const stored = (
+      await fakeDb.doc(`adminSessions/${sessionId}`).get()
+    ).data();
+    expect(stored).toMatchObject({
+      adminId: "admin-2",
+      ipAddress: "127.0.0.1",
+      revokedAt: null,
+    });
+    expect(JSON.stringify(stored)).not.toContain(refreshToken);
+  });
+
+  it("rotates a refresh token and accepts only the new one afterwards", async () => {
+    const { refreshToken } = await createSession(req, ADMIN);
+
+    const rotated = await rotateRefreshToken(refreshToken);
+    expect(rotated.status).toBe("rotated");
+    if (rotated.status !== "rotated") return;
+    expect(rotated.refreshToken).not.toBe(refreshToken);
+
+    expect((await rotateRefreshToken(rotated.refreshToken)).status).toBe(
+      "rotated",
+    );
+  });
+
+  it("treats a second tab presenting the previous token within the grace window as concurrent", async () => {
+    const { sessionId, refreshToken } = await createSession(req, ADMIN);
+    await rotateRefreshToken(refreshToken);
+
+    vi.setSystemTime(Date.now() + 10 * 1000);
+    expect((await rotateRefreshToken(refreshToken)).status).toBe("concurrent");
+    expect(await getLiveSession(sessionId)).not.toBeNull();
+  });
+
+  it("revokes the session when a rotated token is replayed later", async () => {
+    const { sessionId, refreshToken } = await createSession(req, ADMIN);
+    const rotated = await rotateRefreshToken(refreshToken);
+
+    vi.setSystemTime(Date.now() + 60 * 1000);
+    expect((await rotateRefreshToken(refreshToken)).status).toBe("reused");
+    expect(await getLiveSession(sessionId)).toBeNull();
+    if (rotated.status === "rotated") {
+      expect((await rotateRefreshToken(rotated.refreshToken)).status).toBe(
+        "invalid",
+      );
+    }
+  });
+
+  it("rejects unknown and malformed tokens", async () => {
+    const { sessionId } = await createSession(req, ADMIN);
+    expect((await rotateRefreshToken(`${sessionId}.forged`)).status).toBe(
+      "invalid",
+    );
+    expect((await rotateRefreshToken("missing.token")).status).toBe("invalid");
+    expect((await rotateRefreshToken("")).status).toBe("invalid");
+  });
+
+  it("ends a session after the role's idle timeout and keeps active ones alive", async () => {
+    const { sessionId } = await createSession(req, ADMIN);
+    const idle = getIdleTimeoutMs(ADMIN.role);
+
+    vi.setSystemTime(Date.now() + idle - 1000);
+    expect(await getLiveSession(sessionId)).not.toBeNull();
+
+    // That request counted as activity
+    vi.setSystemTime(Date.now() + idle - 1000);
+    expect(await getLiveSession(sessionId)).not.toBeNull();
+
+    vi.setSystemTime(Date.now() + idle);
+    expect(await getLiveSession(sessionId)).toBeNull();
+  });
+
+  it("stops returning a session once it is revoked or expired", async () => {
+    const { sessionId: revoked } = await createSession(req, ADMIN);
+    const { sessionId: expiring } = await createSession(req, ADMIN);
+    await revokeSession(revoked, "admin-1");
+
+    expect(await getLiveSession(revoked)).toBeNull();
+    expect(await getLiveSession(expiring)).not.toBeNull();
+
+    vi.setSystemTime(Date.now() + REFRESH_TOKEN_TTL_MS);
+    expect(await getLiveSession(expiring)).toBeNull();
+  });
+
+  it("lists only live sessions once one is revoked", async () => {
+    const { sessionId: first } = await createSession(req, ADMIN);
+    const { sessionId: second } = await createSession(req, ADMIN);
+    await createSession(req, {
+      id: "admin-3",
+      email: "other@example.com",
+      role: "admin",
+    });
+    await revokeSession(first, "admin-1");
+
+    const sessions = await listLiveSessions("admin-2");
+    expect(sessions.map((session) => session.id)).toEqual([second]);
+    expect(await listLiveSessions()).toHaveLength(2);
+  });
+
+  it("revokes every live session of one admin", async () => {
+    await createSession(req, ADMIN);
+    await createSession(req, ADMIN);
+    const { sessionId: other } = await createSession(req, {
+      id: "admin-3",
+      email: "other@example.com",
+      role: "admin",
+    });
+
+    expect(await revokeAdminSessions("admin-2", "admin-1")).toBe(2);
+    expect(await listLiveSessions("admin-2")).toEqual([]);
+    expect(await getLiveSession(other)).not.toBeNull();
+  });
+});
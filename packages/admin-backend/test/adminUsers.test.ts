@@ -0,0 +1,66 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { fakeDb } from "./helpers/fakeFirestore";
+import { mockRequest, run } from "./helpers/http";
+
+vi.mock("../src/config/firebaseAdmin", () => import("./helpers/fakeFirestore"));
+
+import {
+  createAdminUser,
+  deleteAdminUser,
+} from "../src/controllers/adminUsersController";
+
+type CreateBody = { data: { admin: { id: string } } };
+
+function create(email: string) {
+  return run(
+    createAdminUser,
+    mockRequest({
+      body: {
+        email,
+        username: "ops",
+        password: "correct horse battery",
+        role: "moderator",
+      },
+      adminId: "admin-1",
+      adminEmail: "root@example.com",
+    }),
+  );
+}
+
+describe("admin accounts", () => {
+  beforeEach(() => fakeDb.reset());
+
+  it("creates one account when the same email is submitted twice at once", async () => {
+    const results = await Promise.all([
+      create("Ops@Example.com"),
+      create(" ops@example.com"),
+    ]);
+    expect(results.map(({ res }) => res.statusCode).sort()).toEqual([200, 409]);
+
+    const admins = await fakeDb.collection("adminUsers").get();
+    expect(admins.size).toBe(1);
+    expect(
+      (await fakeDb.doc("adminEmails/ops@example.com").get()).data(),
+    ).toEqual({ adminId: admins.docs[0].id });
+  });
+
+  it("refuses an email held by an account created before adminEmails", async () => {
+    await fakeDb.doc("adminUsers/legacy").set({ email: "ops@example.com" });
+    expect((await create("ops@example.com")).res.statusCode).toBe(409);
+  });
+
+  it("frees the email when the account is deleted", async () => {
+    const { res } = await create("ops@example.com");
+    const id = (res.body as CreateBody).data.admin.id;
+
+    const deleted = await run(
+      deleteAdminUser,
+      mockRequest({ params: { id }, adminId: "admin-1" }),
+    );
+    expect(deleted.res.statusCode).toBe(200);
+    expect((await fakeDb.doc("adminEmails/ops@example.com").get()).exists).toBe(
+      false,
+    );
+    expect((await create("ops@example.com")).res.statusCode).toBe(200);
+  });
+});
@@ -0,0 +1,156 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { fakeDb } from "./helpers/fakeFirestore";
+import { mockRequest, run } from "./helpers/http";
+
+vi.mock("../src/config/firebaseAdmin", () => import("./helpers/fakeFirestore"));
+vi.mock("../src/services/mailer", () => ({
+  sendLoggedEmail: vi.fn().mockResolvedValue(true),
+}));
+
+import {
+  approveAppeal,
+  denyAppeal,
+  submitAppeal,
+} from "../src/controllers/appealsController";
+import { getAppeal } from "../src/services/appeals";
+import { sendLoggedEmail } from "../src/services/mailer";
+
+type AppealBody = { data: { appeal: { id: string } } };
+
+function submit(uid: string, message = "It was a mistake") {
+  return run(
+    submitAppeal,
+    mockRequest({ body: { uid, message }, apiKeyName: "main-app" }),
+  );
+}
+
+async function submittedId(uid: string) {
+  return ((await submit(uid)).res.body as AppealBody).data.appeal.id;
+}
+
+function decide(handler: typeof approveAppeal, id: string, note?: string) {
+  return run(
+    handler,
+    mockRequest({
+      params: { id },
+      body: { note },
+      adminId: "admin-1",
+      adminEmail: "ops@example.com",
+    }),
+  );
+}
+
+describe("appeals", () => {
+  beforeEach(async () => {
+    fakeDb.reset();
+    vi.mocked(sendLoggedEmail).mockReset().mockResolvedValue(true);
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2025-01-01T00:00:00Z"));
+    await fakeDb.doc("users/suspended").set({
+      email: "suspended@example.com",
+      isSuspended: true,
+      suspendReason: "spam",
+    });
+    await fakeDb.doc("users/banned").set({
+      email: "banned@example.com",
+      isBanned: true,
+      banReason: "fraud",
+    });
+    await fakeDb.doc("users/clean").set({ email: "clean@example.com" });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it("records one pending appeal per user against the current sanction", async () => {
+    const first = await submit("suspended");
+    expect(first.res.statusCode).toBe(201);
+    expect(first.res.body).toMatchObject({
+      data: {
+        appeal: {
+          sanction: "suspension",
+          sanctionReason: "spam",
+          submittedBy: "main-app",
+          status: "pending",
+        },
+      },
+    });
+
+    expect((await submit("suspended")).res.statusCode).toBe(409);
+    expect((await submit("clean")).res.statusCode).toBe(400);
+    expect((await submit("missing")).res.statusCode).toBe(404);
+  });
+
+  it("creates only one appeal when two are submitted at once", async () => {
+    const results = await Promise.all([
+      submit("suspended"),
+      submit("suspended"),
+    ]);
+    expect(results.map(({ res }) => res.statusCode).sort()).toEqual([201, 409]);
+    expect((await fakeDb.collection("userAppeals").get()).size).toBe(1);
+  });
+
+  it("accepts a new appeal once the previous one is decided", async () => {
+    const id = await submittedId("suspended");
+    await decide(denyAppeal, id);
+
+    expect(
+      (await submit("suspended", "Please look again")).res.statusCode,
+    ).toBe(201);
+    expect((await fakeDb.collection("userAppeals").get()).size).toBe(2);
+  });
+
+  it("lifts the suspension on approval and emails the user", async () => {
+    const id = await submittedId("suspended");
+
+    const { res } = await decide(approveAppeal, id, "Sorry about that");
+    expect(res.body).toMatchObject({
+      message: "Appeal approved and suspension lifted",
+    });
+    expect(
+      (await fakeDb.doc("users/suspended").get()).data()?.isSuspended,
+    ).toBe(false);
+    expect(sendLoggedEmail).toHaveBeenCalledWith(
+      expect.objectContaining({
+        to: "suspended@example.com",
+        subject: "Your appeal was approved",
+      }),
+    );
+    expect(await getAppeal(id)).toMatchObject({
+      status: "approved",
+      decisionNote: "Sorry about that",
+      outcomeEmailSent: true,
+    });
+  });
+
+  it("decides an appeal only once", async () => {
+    const id = await submittedId("suspended");
+
+    expect((await decide(denyAppeal, id)).res.statusCode).toBe(200);
+    const again = await decide(approveAppeal, id);
+    expect(again.res.statusCode).toBe(409);
+    expect(again.res.body).toEqual({ error: "Appeal has already been denied" });
+    expect(
+      (await fakeDb.doc("users/suspended").get()).data()?.isSuspended,
+    ).toBe(true);
+  });
+
+  it("puts the appeal back in the queue when lifting the sanction fails", async () => {
+    // The in-memory Firestore has no Auth, so re-enabling the account throws
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const id = await submittedId("banned");
+
+    expect((await decide(approveAppeal, id)).res.statusCode).toBe(500);
+    expect(await getAppeal(id)).toMatchObject({
+      status: "pending",
+      decidedBy: null,
+    });
+    expect(sendLoggedEmail).not.toHaveBeenCalled();
+    expect((await fakeDb.doc("pendingAppeals/banned").get()).data()).toEqual({
+      appealId: id,
+      submittedAt: "2025-01-01T00:00:00.000Z",
+    });
+  });
+});
@@ -0,0 +1,144 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { fakeDb } from "./helpers/fakeFirestore";
+
+vi.mock("../src/config/firebaseAdmin", () => import("./helpers/fakeFirestore"));
+
+import {
+  DEFAULT_APPROVAL_POLICY,
+  decideApproval,
+  getApprovalPolicy,
+  listApprovals,
+  requestApproval,
+  saveApprovalPolicy,
+} from "../src/services/approvals";
+
+const REQUESTER = { adminId: "admin-1", adminEmail: "one@example.com" };
+const APPROVER = { adminId: "admin-2", adminEmail: "two@example.com" };
+const HOUR = 60 * 60 * 1000;
+
+function requestBan(reason = "spam") {
+  return requestApproval({
+    action: "BAN_USER",
+    targetUid: "user-1",
+    params: { reason },
+    requester: REQUESTER,
+    expiryHours: 24,
+  });
+}
+
+describe("approvals", () => {
+  beforeEach(() => {
+    fakeDb.reset();
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2025-01-01T00:00:00Z"));
+  });
+
+  afterEach(() => vi.useRealTimers());
+
+  it("returns the pending request instead of queueing an identical one", async () => {
+    const first = await requestBan();
+    const again = await requestBan();
+    const different = await requestBan("abuse");
+
+    expect(first.created).toBe(true);
+    expect(again).toEqual({ approval: first.approval, created: false });
+    expect(different.created).toBe(true);
+    expect(await listApprovals("pending")).toHaveLength(2);
+  });
+
+  it("queues one request when the same one is made twice at once", async () => {
+    const results = await Promise.all([requestBan(), requestBan()]);
+    expect(results.map((result) => result.created).sort()).toEqual([
+      false,
+      true,
+    ]);
+    expect(results[0].approval.id).toBe(results[1].approval.id);
+    expect((await fakeDb.collection("pendingApprovals").get()).size).toBe(1);
+  });
+
+  it("queues the same request again once the earlier one is closed", async () => {
+    const first = await requestBan();
+    await decideApproval(first.approval.id, REQUESTER, "rejected");
+    expect((await fakeDb.collection("pendingApprovalKeys").get()).size).toBe(0);
+
+    const again = await requestBan();
+    expect(again.created).toBe(true);
+    expect(again.approval.id).not.toBe(first.approval.id);
+  });
+
+  it("lets a second admin approve but not the requester", async () => {
+    const { approval } = await requestBan();
+
+    expect(await decideApproval(approval.id, REQUESTER, "approved")).toEqual({
+      status: "self_approval",
+    });
+
+    const result = await decideApproval(
+      approval.id,
+      APPROVER,
+      "approved",
+      "ok",
+    );
+    expect(result).toMatchObject({
+      status: "decided",
+      approval: {
+        status: "approved",
+        decidedBy: "admin-2",
+        decisionNote: "ok",
+        params: { reason: "spam" },
+      },
+    });
+  });
+
+  it("lets the requester withdraw their own request", async () => {
+    const { approval } = await requestBan();
+
+    const result = await decideApproval(approval.id, REQUESTER, "rejected");
+    expect(result).toMatchObject({
+      status: "decided",
+      approval: { status: "rejected" },
+    });
+  });
+
+  it("decides a request only once when two admins race", async () => {
+    const { approval } = await requestBan();
+    const third = { adminId: "admin-3", adminEmail: "three@example.com" };
+
+    const results = await Promise.all([
+      decideApproval(approval.id, APPROVER, "approved"),
+      decideApproval(approval.id, third, "rejected"),
+    ]);
+    expect(results.map((result) => result.status)).toEqual([
+      "decided",
+      "not_pending",
+    ]);
+    expect(results[1]).toEqual({ status: "not_pending", current: "approved" });
+  });
+
+  it("expires requests that were not decided in time", async () => {
+    const { approval } = await requestBan();
+    vi.setSystemTime(Date.now() + 24 * HOUR);
+
+    expect(await decideApproval(approval.id, APPROVER, "approved")).toEqual({
+      status: "expired",
+    });
+    expect((await decideApproval("missing", APPROVER, "approved")).status).toBe(
+      "not_found",
+    );
+
+    const { approval: stale } = await requestBan();
+    vi.setSystemTime(Date.now() + 25 * HOUR);
+    expect(await listApprovals("pending")).toEqual([]);
+    expect((await listApprovals("expired")).map((a) => a.id)).toContain(
+      stale.id,
+    );
+  });
+
+  it("falls back to the default policy until one is saved", async () => {
+    expect(await getApprovalPolicy()).toEqual(DEFAULT_APPROVAL_POLICY);
+
+    const policy = { ...DEFAULT_APPROVAL_POLICY, banUser: false };
+    await saveApprovalPolicy(policy, "admin-1");
+    expect(await getApprovalPolicy()).toEqual(policy);
+  });
+});
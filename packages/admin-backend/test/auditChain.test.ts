@@ -0,0 +1,140 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { Timestamp } from "firebase-admin/firestore";
+import { admin, fakeDb } from "./helpers/fakeFirestore";
+
+vi.mock("../src/config/firebaseAdmin", () => import("./helpers/fakeFirestore"));
+
+import {
+  AUDIT_CHAIN_GENESIS_HASH,
+  AuditLogRecord,
+  SYSTEM_ACTOR,
+  hashAuditRecord,
+  logAuditAction,
+} from "../src/services/auditLog";
+import { verifyAuditChain } from "../src/services/auditChain";
+
+async function writeEntries(count: number) {
+  for (let i = 1; i <= count; i++) {
+    await logAuditAction({
+      adminEmail: "system",
+      action: "test_action",
+      targetUid: `user-${i}`,
+      details: { index: i },
+    });
+  }
+}
+
+async function entryAt(sequence: number) {
+  const snapshot = await fakeDb
+    .collection("auditLogs")
+    .where("sequence", "==", sequence)
+    .get();
+  return snapshot.docs[0];
+}
+
+describe("audit chain", () => {
+  beforeEach(() => fakeDb.reset());
+
+  it("links each entry to the previous one and moves the head", async () => {
+    await writeEntries(3);
+
+    const first = (await entryAt(1)).data() as AuditLogRecord;
+    const second = (await entryAt(2)).data() as AuditLogRecord;
+    expect(first.prevHash).toBe(AUDIT_CHAIN_GENESIS_HASH);
+    expect(second.prevHash).toBe(first.hash);
+    expect(hashAuditRecord(second)).toBe(second.hash);
+
+    const head = (await fakeDb.doc("auditChain/head").get()).data();
+    expect(head?.sequence).toBe(3);
+    expect(head?.lastHash).toBe(
+      ((await entryAt(3)).data() as AuditLogRecord).hash,
+    );
+  });
+
+  it("verifies an untouched chain", async () => {
+    await writeEntries(4);
+
+    const result = await verifyAuditChain("manual", "admin-1");
+    expect(result.ok).toBe(true);
+    expect(result.entriesChecked).toBe(4);
+    expect(result.brokenAt).toBeNull();
+    expect((await fakeDb.doc("auditChain/verification").get()).data()?.ok).toBe(
+      true,
+    );
+  });
+
+  it("stores non-JSON details in a form that still verifies", async () => {
+    await logAuditAction({
+      ...SYSTEM_ACTOR,
+      action: "update_generation",
+      details: {
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+        when: Timestamp.fromMillis(0),
+        date: new Date(0),
+        ratio: Number.NaN,
+        tags: ["a", undefined],
+      },
+    });
+
+    const record = (await entryAt(1)).data() as AuditLogRecord;
+    expect(record.details).toEqual({
+      when: "1970-01-01T00:00:00.000Z",
+      date: "1970-01-01T00:00:00.000Z",
+      ratio: null,
+      tags: ["a", null],
+    });
+    expect((await verifyAuditChain("manual")).ok).toBe(true);
+  });
+
+  it("reports an edited entry", async () => {
+    await writeEntries(3);
+    await (await entryAt(2)).ref.update({ "details.index": 99 });
+
+    const result = await verifyAuditChain("manual");
+    expect(result.ok).toBe(false);
+    expect(result.brokenAt).toMatchObject({
+      sequence: 2,
+      reason: "hash_mismatch",
+    });
+  });
+
+  it("reports an entry deleted from the middle", async () => {
+    await writeEntries(3);
+    await (await entryAt(2)).ref.delete();
+
+    const result = await verifyAuditChain("manual");
+    expect(result.brokenAt).toEqual({
+      sequence: 2,
+      entryId: null,
+      reason: "missing_entry",
+    });
+  });
+
+  it("reports an entry deleted from the tail", async () => {
+    await writeEntries(3);
+    await (await entryAt(3)).ref.delete();
+
+    const result = await verifyAuditChain("manual");
+    expect(result.brokenAt).toEqual({
+      sequence: 3,
+      entryId: null,
+      reason: "missing_entry",
+    });
+  });
+
+  it("reports an entry re-hashed after being edited", async () => {
+    await writeEntries(3);
+    const doc = await entryAt(2);
+    const forged = {
+      ...(doc.data() as AuditLogRecord),
+      prevHash: "f".repeat(64),
+    };
+    await doc.ref.set({ ...forged, hash: hashAuditRecord(forged) });
+
+    const result = await verifyAuditChain("manual");
+    expect(result.brokenAt).toMatchObject({
+      sequence: 2,
+      reason: "prev_hash_mismatch",
+    });
+  });
+});
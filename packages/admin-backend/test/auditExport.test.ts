@@ -0,0 +1,137 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { EventEmitter } from "events";
+import { Response } from "express";
+import { fakeDb } from "./helpers/fakeFirestore";
+import { mockRequest, run } from "./helpers/http";
+
+vi.mock("../src/config/firebaseAdmin", () => import("./helpers/fakeFirestore"));
+
+import { exportAuditLogs } from "../src/controllers/auditController";
+import {
+  AUDIT_LOGS_COLLECTION,
+  logAuditAction,
+} from "../src/services/auditLog";
+
+/** A response that collects everything streamed to it. */
+function streamResponse() {
+  const res = Object.assign(new EventEmitter(), {
+    headers: {} as Record<string, string>,
+    chunks: [] as string[],
+    statusCode: 200,
+    headersSent: false,
+    destroyed: false,
+    ended: false,
+    setHeader(name: string, value: string) {
+      res.headers[name] = value;
+    },
+    write(chunk: string) {
+      res.headersSent = true;
+      res.chunks.push(chunk);
+      return true;
+    },
+    end() {
+      res.ended = true;
+    },
+    status(code: number) {
+      res.statusCode = code;
+      return res;
+    },
+    json(body: unknown) {
+      res.chunks.push(JSON.stringify(body));
+      return res;
+    },
+  });
+  return res;
+}
+
+async function exportLogs(query: Record<string, string>) {
+  const res = streamResponse();
+  await exportAuditLogs(
+    mockRequest({ method: "GET", query, adminEmail: "root@example.com" }),
+    res as unknown as Response,
+  );
+  return res;
+}
+
+async function seed(
+  action: string,
+  createdAt: string,
+  extra: { details?: Record<string, unknown>; userAgent?: string } = {},
+) {
+  vi.setSystemTime(new Date(createdAt));
+  await logAuditAction({
+    adminEmail: "ops@example.com",
+    action,
+    targetUid: "user-1",
+    ...extra,
+  });
+}
+
+describe("exportAuditLogs", () => {
+  beforeEach(async () => {
+    fakeDb.reset();
+    vi.useFakeTimers({ toFake: ["Date"] });
+    await seed("BAN_USER", "2025-01-01T10:00:00Z", {
+      userAgent: "=HYPERLINK()",
+    });
+    await seed("WARN_USER", "2025-01-02T10:00:00Z", {
+      details: { note: 'said "hi", left' },
+    });
+    await seed("BAN_USER", "2025-01-03T10:00:00Z");
+  });
+
+  afterEach(() => vi.useRealTimers());
+
+  it("streams matching entries as CSV, newest first, with cells escaped", async () => {
+    const res = await exportLogs({
+      format: "csv",
+      from: "2025-01-01",
+      to: "2025-01-02",
+    });
+
+    const [header, ...rows] = res.chunks.join("").trim().split("\n");
+    expect(res.headers["Content-Type"]).toContain("text/csv");
+    expect(header.split(",")).toContain("createdAt");
+    expect(rows).toHaveLength(2);
+    expect(rows[0]).toContain('"{""note"":""said \\""hi\\"", left""}"');
+    expect(rows[1]).toContain(",'=HYPERLINK(),");
+    expect(res.ended).toBe(true);
+  });
+
+  it("streams JSONL filtered by action and audits the export itself", async () => {
+    const res = await exportLogs({ format: "jsonl", actions: "BAN_USER" });
+
+    const entries = res.chunks
+      .join("")
+      .trim()
+      .split("\n")
+      .map((line) => JSON.parse(line));
+    expect(entries.map((entry) => entry.createdAt)).toEqual([
+      "2025-01-03T10:00:00.000Z",
+      "2025-01-01T10:00:00.000Z",
+    ]);
+
+    const exports = await fakeDb
+      .collection(AUDIT_LOGS_COLLECTION)
+      .where("action", "==", "EXPORT_AUDIT_LOGS")
+      .get();
+    expect(exports.docs[0].data()).toMatchObject({
+      adminEmail: "root@example.com",
+      details: { format: "jsonl", exported: 2 },
+    });
+  });
+
+  it("rejects unknown formats and inverted ranges", async () => {
+    for (const query of [
+      { format: "xlsx" },
+      { from: "2025-01-03", to: "2025-01-01" },
+      { from: "yesterday" },
+    ]) {
+      const { res } = await run(
+        exportAuditLogs,
+        mockRequest({ method: "GET", query }),
+      );
+      expect(res.statusCode).toBe(400);
+    }
+  });
+});
@@ -0,0 +1,129 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { readFileSync } from "fs";
+import path from "path";
+import { fakeDb } from "./helpers/fakeFirestore";
+import { mockRequest, run } from "./helpers/http";
+
+vi.mock("../src/config/firebaseAdmin", () => import("./helpers/fakeFirestore"));
+
+import {
+  getAuditLogs,
+  getAuditSummary,
+} from "../src/controllers/auditController";
+import { AuditLogEntry, logAuditAction } from "../src/services/auditLog";
+
+interface ListBody {
+  data: { logs: { action: string }[]; hasMore: boolean; scanned?: number };
+}
+
+interface SummaryBody {
+  data: { groups: { key: string; count: number; lastAt: string }[] };
+}
+
+async function seed(
+  createdAt: string,
+  entry: Omit<AuditLogEntry, "adminEmail">,
+) {
+  vi.setSystemTime(new Date(createdAt));
+  await logAuditAction({ adminEmail: "ops@example.com", ...entry });
+}
+
+// Equality filters buildAuditQuery can combine, in the order the indexes list them
+const EQUALITY_FIELDS = ["adminEmail", "targetUid", "resource", "action"];
+
+function auditLogIndexes(): string[] {
+  const file = JSON.parse(
+    readFileSync(path.join(__dirname, "../firestore.indexes.json"), "utf8"),
+  ) as {
+    indexes: {
+      collectionGroup: string;
+      fields: { fieldPath: string; order?: string }[];
+    }[];
+  };
+  return file.indexes
+    .filter((index) => index.collectionGroup === "auditLogs")
+    .map((index) =>
+      index.fields.map((f) => `${f.fieldPath}:${f.order}`).join(","),
+    );
+}
+
+function query(params: Record<string, string>) {
+  return mockRequest({ method: "GET", query: params });
+}
+
+describe("audit filters", () => {
+  beforeEach(async () => {
+    fakeDb.reset();
+    vi.useFakeTimers({ toFake: ["Date"] });
+    await seed("2025-01-01T10:00:00Z", {
+      action: "BAN_USER",
+      targetUid: "user-1",
+      details: { reason: "Chargeback fraud" },
+    });
+    await seed("2025-01-02T10:00:00Z", {
+      action: "UPDATE_FEATURE_FLAG",
+      resource: "feature_flag",
+      resourceId: "new-editor",
+    });
+    await seed("2025-01-03T10:00:00Z", {
+      action: "WARN_USER",
+      targetUid: "user-2",
+      details: { reason: "spam" },
+    });
+    vi.setSystemTime(new Date("2025-01-04T00:00:00Z"));
+  });
+
+  afterEach(() => vi.useRealTimers());
+
+  it("filters by resource and time window", async () => {
+    const byResource = await run(getAuditLogs, query({ resource: "user" }));
+    expect(
+      (byResource.res.body as ListBody).data.logs.map((log) => log.action),
+    ).toEqual(["WARN_USER", "BAN_USER"]);
+
+    const byWindow = await run(
+      getAuditLogs,
+      query({ from: "2025-01-02", to: "2025-01-02" }),
+    );
+    expect(
+      (byWindow.res.body as ListBody).data.logs.map((log) => log.action),
+    ).toEqual(["UPDATE_FEATURE_FLAG"]);
+  });
+
+  it("finds text in details and resource ids, case-insensitively", async () => {
+    const { res } = await run(getAuditLogs, query({ q: "FRAUD" }));
+    const body = res.body as ListBody;
+    expect(body.data.logs.map((log) => log.action)).toEqual(["BAN_USER"]);
+    expect(body.data).toMatchObject({ hasMore: false, scanned: 3 });
+
+    const byId = await run(getAuditLogs, query({ q: "new-editor" }));
+    expect((byId.res.body as ListBody).data.logs).toHaveLength(1);
+  });
+
+  it("counts entries per group, most frequent first", async () => {
+    const { res } = await run(getAuditSummary, query({ groupBy: "resource" }));
+    expect((res.body as SummaryBody).data.groups).toEqual([
+      { key: "user", count: 2, lastAt: "2025-01-03T10:00:00.000Z" },
+      {
+        key: "feature_flag",
+        count: 1,
+        lastAt: "2025-01-02T10:00:00.000Z",
+      },
+    ]);
+
+    const invalid = await run(getAuditSummary, query({ groupBy: "day" }));
+    expect(invalid.res.statusCode).toBe(400);
+  });
+
+  it("has a composite index for every combination of filters", () => {
+    const indexes = auditLogIndexes();
+    for (let mask = 1; mask < 1 << EQUALITY_FIELDS.length; mask++) {
+      const fields = EQUALITY_FIELDS.filter((_, i) => mask & (1 << i));
+      expect(indexes).toContain(
+        [...fields.map((f) => `${f}:ASCENDING`), "createdAt:DESCENDING"].join(
+          ",",
+        ),
+      );
+    }
+  });
+});
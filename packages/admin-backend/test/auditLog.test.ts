@@ -0,0 +1,153 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { Timestamp } from "firebase-admin/firestore";
+import { fakeDb } from "./helpers/fakeFirestore";
+import { mockRequest } from "./helpers/http";
+
+vi.mock("../src/config/firebaseAdmin", () => import("./helpers/fakeFirestore"));
+
+import {
+  AUDIT_LOGS_COLLECTION,
+  auditActor,
+  logAuditAction,
+  toAuditLogRecord,
+} from "../src/services/auditLog";
+import { migrateAuditLogs } from "../src/services/auditLogMigration";
+
+describe("audit log", () => {
+  beforeEach(() => {
+    fakeDb.reset();
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2025-01-01T00:00:00Z"));
+  });
+
+  afterEach(() => vi.useRealTimers());
+
+  it("files user-targeted actions under the user resource", () => {
+    expect(
+      toAuditLogRecord({
+        adminEmail: "ops@example.com",
+        action: "BAN_USER",
+        targetUid: "user-1",
+      }),
+    ).toEqual({
+      adminId: "system",
+      adminEmail: "ops@example.com",
+      action: "BAN_USER",
+      resource: "user",
+      resourceId: "user-1",
+      targetUid: "user-1",
+      details: {},
+      ipAddress: "",
+      userAgent: "",
+      createdAt: "2025-01-01T00:00:00.000Z",
+    });
+
+    expect(
+      toAuditLogRecord({
+        adminEmail: "ops@example.com",
+        action: "UPDATE_FEATURE_FLAG",
+      }),
+    ).toMatchObject({ resource: "system" });
+  });
+
+  it("records the admin, API key and client of a request", () => {
+    const req = mockRequest({
+      adminId: "admin-2",
+      adminEmail: "ops@example.com",
+      apiKeyId: "key-1",
+      apiKeyName: "reporting",
+      ip: "10.0.0.1",
+      headers: { "user-agent": "curl" },
+    });
+
+    expect(auditActor(req)).toEqual({
+      adminEmail: "ops@example.com",
+      adminId: "admin-2",
+      apiKeyId: "key-1",
+      apiKeyName: "reporting",
+      ipAddress: "10.0.0.1",
+      userAgent: "curl",
+    });
+  });
+
+  it("writes every action to the unified collection", async () => {
+    await logAuditAction({
+      adminEmail: "ops@example.com",
+      adminId: "admin-2",
+      action: "SCORE_GENERATION",
+      resource: "generation",
+      resourceId: "gen-1",
+      details: { score: 7 },
+    });
+
+    const snapshot = await fakeDb.collection(AUDIT_LOGS_COLLECTION).get();
+    expect(snapshot.docs.map((doc) => doc.data())).toEqual([
+      expect.objectContaining({
+        action: "SCORE_GENERATION",
+        resource: "generation",
+        resourceId: "gen-1",
+        details: { score: 7 },
+        createdAt: "2025-01-01T00:00:00.000Z",
+      }),
+    ]);
+  });
+
+  it("migrates old-shape entries once and picks up ones written later", async () => {
+    await fakeDb.doc("auditLogs/old-1").set({
+      adminEmail: "ops@example.com",
+      action: "BAN_USER",
+      targetUid: "user-1",
+      timestamp: "2024-06-01T00:00:00.000Z",
+    });
+    await fakeDb.doc("adminAuditLogs/score-1").set({
+      adminEmail: "ops@example.com",
+      adminId: "unknown",
+      action: "update_aesthetic_score",
+      resourceId: "gen-1",
+      createdAt: Timestamp.fromDate(new Date("2024-05-01T00:00:00Z")),
+    });
+    await logAuditAction({ adminEmail: "ops@example.com", action: "NEW" });
+
+    expect(await migrateAuditLogs()).toEqual({ backfilled: 1, copied: 1 });
+    expect((await fakeDb.doc("auditLogs/old-1").get()).data()).toMatchObject({
+      resource: "user",
+      resourceId: "user-1",
+      createdAt: "2024-06-01T00:00:00.000Z",
+    });
+    expect(
+      (await fakeDb.doc("auditLogs/legacy_score-1").get()).data(),
+    ).toMatchObject({
+      action: "UPDATE_AESTHETIC_SCORE",
+      resource: "generation",
+      adminId: "system",
+      createdAt: "2024-05-01T00:00:00.000Z",
+    });
+
+    expect(await migrateAuditLogs()).toEqual({ backfilled: 0, copied: 0 });
+
+    await fakeDb.doc("auditLogs/old-2").set({
+      adminEmail: "ops@example.com",
+      action: "UNBAN_USER",
+      targetUid: "user-1",
+      timestamp: "2024-06-02T00:00:00.000Z",
+    });
+    expect(await migrateAuditLogs()).toEqual({ backfilled: 1, copied: 0 });
+  });
+
+  it("writes nothing on a dry run", async () => {
+    await fakeDb.doc("auditLogs/old-1").set({
+      adminEmail: "ops@example.com",
+      action: "BAN_USER",
+      timestamp: "2024-06-01T00:00:00.000Z",
+    });
+
+    expect(await migrateAuditLogs({ dryRun: true })).toEqual({
+      backfilled: 1,
+      copied: 0,
+    });
+    expect((await fakeDb.doc("auditLogs/old-1").get()).data()?.createdAt).toBe(
+      undefined,
+    );
+    expect(await migrateAuditLogs()).toEqual({ backfilled: 1, copied: 0 });
+  });
+});
@@ -0,0 +1,150 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { fakeDb } from "./helpers/fakeFirestore";
+import { mockRequest, run } from "./helpers/http";
+
+vi.mock("../src/config/firebaseAdmin", () => import("./helpers/fakeFirestore"));
+
+import { revertAuditEntry } from "../src/controllers/auditRevertController";
+import { applyCreditAdjustment } from "../src/controllers/creditController";
+import { bulkUpdateAestheticScore } from "../src/controllers/generationsController";
+import { applyRoleChange } from "../src/controllers/moderationController";
+import { Permission } from "../src/config/permissions";
+import { AUDIT_LOGS_COLLECTION } from "../src/services/auditLog";
+
+const ACTOR = { adminEmail: "ops@example.com", adminId: "admin-2" };
+
+async function latestEntryId(action: string) {
+  const snapshot = await fakeDb
+    .collection(AUDIT_LOGS_COLLECTION)
+    .where("action", "==", action)
+    .get();
+  return snapshot.docs[snapshot.size - 1].id;
+}
+
+function revert(id: string, permissions: Permission[] = ["users:role"]) {
+  return run(
+    revertAuditEntry,
+    mockRequest({
+      params: { id },
+      adminEmail: "root@example.com",
+      adminPermissions: permissions,
+    }),
+  );
+}
+
+async function user(uid: string) {
+  return (await fakeDb.doc(`users/${uid}`).get()).data();
+}
+
+describe("revertAuditEntry", () => {
+  beforeEach(async () => {
+    fakeDb.reset();
+    await fakeDb.doc("users/user-1").set({ role: "user", creditBalance: 100 });
+  });
+
+  afterEach(() => vi.restoreAllMocks());
+
+  it("restores the previous role and refuses a second revert", async () => {
+    await applyRoleChange("user-1", "moderator", ACTOR);
+    const id = await latestEntryId("SET_ROLE");
+
+    const first = await revert(id);
+    expect(first.res.statusCode).toBe(200);
+    expect((await user("user-1"))?.role).toBe("user");
+
+    const second = await revert(id);
+    expect(second.res.statusCode).toBe(409);
+    expect((await user("user-1"))?.role).toBe("user");
+  });
+
+  it("applies the inverse once when two admins revert at once", async () => {
+    await applyRoleChange("user-1", "moderator", ACTOR);
+    const id = await latestEntryId("SET_ROLE");
+
+    const results = await Promise.all([revert(id), revert(id)]);
+    expect(results.map(({ res }) => res.statusCode).sort()).toEqual([200, 409]);
+    const reverts = await fakeDb
+      .collection(AUDIT_LOGS_COLLECTION)
+      .where("details.revertOf", "==", id)
+      .get();
+    expect(reverts.size).toBe(1);
+  });
+
+  it("refuses when the state has changed since the entry", async () => {
+    await applyRoleChange("user-1", "moderator", ACTOR);
+    const id = await latestEntryId("SET_ROLE");
+    await applyRoleChange("user-1", "creator", ACTOR);
+
+    const { res } = await revert(id);
+    expect(res.statusCode).toBe(409);
+    expect(res.body).toEqual({
+      error: "Cannot revert: Role has since changed to creator",
+    });
+    expect((await user("user-1"))?.role).toBe("creator");
+  });
+
+  it("takes back a credit grant only while the balance is unchanged", async () => {
+    await applyCreditAdjustment("user-1", 50, "goodwill", ACTOR);
+    const id = await latestEntryId("ADD_CREDITS");
+    await fakeDb.doc("users/user-1").update({ creditBalance: 120 });
+
+    const conflict = await revert(id, ["credits:adjust"]);
+    expect(conflict.res.statusCode).toBe(409);
+
+    await fakeDb.doc("users/user-1").update({ creditBalance: 150 });
+    const reverted = await revert(id, ["credits:adjust"]);
+    expect(reverted.res.statusCode).toBe(200);
+    expect((await user("user-1"))?.creditBalance).toBe(100);
+  });
+
+  it("requires the permission of the original action", async () => {
+    await applyRoleChange("user-1", "moderator", ACTOR);
+    const id = await latestEntryId("SET_ROLE");
+
+    const { res } = await revert(id, ["credits:adjust"]);
+    expect(res.statusCode).toBe(403);
+  });
+
+  it("rejects actions that have no inverse", async () => {
+    await applyCreditAdjustment("user-1", -10, "refund", ACTOR);
+    const id = await latestEntryId("DEDUCT_CREDITS");
+
+    expect((await revert(id, ["credits:adjust"])).res.statusCode).toBe(400);
+    expect((await revert("missing")).res.statusCode).toBe(404);
+  });
+
+  it("grades in bulk through the single-score path and reverts a bulk grade", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    await fakeDb.doc("generations/gen-1").set({
+      createdBy: { uid: "user-1" },
+      images: [{ url: "a.png" }],
+    });
+    await fakeDb
+      .doc("generationHistory/user-1/items/gen-1")
+      .set({ images: [{ url: "a.png" }] });
+
+    const { res } = await run(
+      bulkUpdateAestheticScore,
+      mockRequest({
+        body: { bulk: ["gen-1", "missing"], score: 9 },
+        adminEmail: "ops@example.com",
+      }),
+    );
+    expect(res.body).toMatchObject({ data: { successful: 1, failed: 1 } });
+    expect((await fakeDb.doc("generations/gen-1").get()).data()).toMatchObject({
+      aestheticScore: 9,
+      images: [{ url: "a.png", aestheticScore: 9 }],
+      scoreUpdatedBy: "ops@example.com",
+    });
+    expect(
+      (await fakeDb.doc("generationHistory/user-1/items/gen-1").get()).data(),
+    ).toMatchObject({ aestheticScore: 9 });
+
+    const id = await latestEntryId("BULK_UPDATE_AESTHETIC_SCORE");
+    const reverted = await revert(id, ["generations:score"]);
+    expect(reverted.res.statusCode).toBe(200);
+    expect(
+      (await fakeDb.doc("generations/gen-1").get()).data()?.aestheticScore,
+    ).toBeUndefined();
+  });
+});
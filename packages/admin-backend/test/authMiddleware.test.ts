@@ -0,0 +1,173 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import jwt from "jsonwebtoken";
+import { fakeDb } from "./helpers/fakeFirestore";
+import { mockRequest, run } from "./helpers/http";
+
+vi.mock("../src/config/firebaseAdmin", () => import("./helpers/fakeFirestore"));
+vi.mock("../src/services/adminApiKeys", async (importOriginal) => {
+  const actual =
+    await importOriginal<typeof import("../src/services/adminApiKeys")>();
+  return { ...actual, verifyApiKey: vi.fn(actual.verifyApiKey) };
+});
+
+import { env } from "../src/config/env";
+import { requireAdmin } from "../src/middleware/authMiddleware";
+import {
+  createApiKey,
+  revokeApiKey,
+  verifyApiKey,
+} from "../src/services/adminApiKeys";
+import { createSession, revokeSession } from "../src/services/adminSessions";
+import { BOOTSTRAP_ADMIN_ID } from "../src/services/adminUsers";
+
+function sessionToken(sid: string, extra: Record<string, unknown> = {}) {
+  return jwt.sign(
+    { adminId: BOOTSTRAP_ADMIN_ID, email: "root@example.com", sid, ...extra },
+    env.jwtSecret,
+  );
+}
+
+describe("requireAdmin", () => {
+  beforeEach(() => {
+    fakeDb.reset();
+  });
+
+  async function liveSession() {
+    const { sessionId } = await createSession(mockRequest(), {
+      id: BOOTSTRAP_ADMIN_ID,
+      email: "root@example.com",
+      role: "super_admin",
+    });
+    return sessionId;
+  }
+
+  it("accepts a token whose session is live", async () => {
+    const sessionId = await liveSession();
+    const req = mockRequest({
+      cookies: { admin_token: sessionToken(sessionId) },
+    });
+
+    const { next } = await run(requireAdmin, req);
+    expect(next).toHaveBeenCalledOnce();
+    expect(req).toMatchObject({
+      adminId: BOOTSTRAP_ADMIN_ID,
+      adminRole: "super_admin",
+      sessionId,
+    });
+  });
+
+  it("rejects a token whose session was revoked", async () => {
+    const sessionId = await liveSession();
+    await revokeSession(sessionId, "admin-2");
+
+    const { res, next } = await run(
+      requireAdmin,
+      mockRequest({ cookies: { admin_token: sessionToken(sessionId) } }),
+    );
+    expect(res.statusCode).toBe(401);
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it("rejects tokens without a session and two-factor challenge tokens", async () => {
+    const sessionId = await liveSession();
+    for (const token of [
+      jwt.sign(
+        { adminId: BOOTSTRAP_ADMIN_ID, email: "root@example.com" },
+        env.jwtSecret,
+      ),
+      sessionToken(sessionId, { purpose: "mfa" }),
+      sessionToken(sessionId).slice(0, -2),
+    ]) {
+      const { res } = await run(
+        requireAdmin,
+        mockRequest({ cookies: { admin_token: token } }),
+      );
+      expect(res.statusCode).toBe(401);
+    }
+  });
+
+  it("rejects a session that belongs to a different admin", async () => {
+    const { sessionId } = await createSession(mockRequest(), {
+      id: "admin-2",
+      email: "ops@example.com",
+      role: "admin",
+    });
+
+    const { res } = await run(
+      requireAdmin,
+      mockRequest({ cookies: { admin_token: sessionToken(sessionId) } }),
+    );
+    expect(res.statusCode).toBe(401);
+  });
+});
+
+describe("requireAdmin with an API key", () => {
+  beforeEach(() => {
+    fakeDb.reset();
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2025-01-01T00:00:00Z"));
+  });
+
+  afterEach(() => vi.useRealTimers());
+
+  function bearer(key: string) {
+    return mockRequest({ headers: { authorization: `Bearer ${key}` } });
+  }
+
+  async function apiKey(createdBy = BOOTSTRAP_ADMIN_ID) {
+    return createApiKey({
+      name: "reporting",
+      scopes: ["users:read", "audit:read"],
+      createdBy,
+      createdByEmail: "root@example.com",
+      expiresAt: "2025-02-01T00:00:00.000Z",
+    });
+  }
+
+  it("acts as the creator, limited to the key's scopes", async () => {
+    const { key, apiKey: record } = await apiKey();
+    const req = bearer(key);
+
+    const { next } = await run(requireAdmin, req);
+    expect(next).toHaveBeenCalledOnce();
+    expect(req).toMatchObject({
+      adminId: BOOTSTRAP_ADMIN_ID,
+      adminPermissions: ["users:read", "audit:read"],
+      apiKeyId: record.id,
+    });
+  });
+
+  it("rejects unknown, tampered, revoked and expired keys", async () => {
+    const { key } = await apiKey();
+    const { key: revoked, apiKey: revokedRecord } = await apiKey();
+    await revokeApiKey(revokedRecord.id, "admin-2");
+
+    for (const presented of ["wmk_unknown", `${key}x`, revoked]) {
+      const { res, next } = await run(requireAdmin, bearer(presented));
+      expect(res.statusCode).toBe(401);
+      expect(next).not.toHaveBeenCalled();
+    }
+
+    vi.setSystemTime(new Date("2025-02-01T00:00:00Z"));
+    const { res } = await run(requireAdmin, bearer(key));
+    expect(res.statusCode).toBe(401);
+  });
+
+  it("rejects a key whose creator no longer has an active account", async () => {
+    const { key } = await apiKey("admin-9");
+
+    const { res } = await run(requireAdmin, bearer(key));
+    expect(res.statusCode).toBe(401);
+  });
+
+  it("answers 500 when the key lookup fails", async () => {
+    const { key } = await apiKey();
+    vi.mocked(verifyApiKey).mockRejectedValueOnce(new Error("unavailable"));
+    vi.spyOn(console, "error").mockImplementation(() => {});
+
+    const { res, next } = await run(requireAdmin, bearer(key));
+    expect(res.statusCode).toBe(500);
+    expect(next).not.toHaveBeenCalled();
+    vi.mocked(console.error).mockRestore();
+  });
+});
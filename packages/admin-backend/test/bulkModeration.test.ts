@@ -0,0 +1,180 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { fakeDb } from "./helpers/fakeFirestore";
+import { mockRequest, run } from "./helpers/http";
+
+vi.mock("../src/config/firebaseAdmin", () => import("./helpers/fakeFirestore"));
+
+import {
+  bulkBan,
+  bulkSetRole,
+  bulkWarn,
+  MAX_BULK_USERS,
+} from "../src/controllers/bulkModerationController";
+
+function bulk(body: Record<string, unknown>) {
+  return mockRequest({
+    body,
+    adminId: "admin-1",
+    adminEmail: "ops@example.com",
+  });
+}
+
+async function auditEntries(action: string) {
+  const snapshot = await fakeDb
+    .collection("auditLogs")
+    .where("action", "==", action)
+    .get();
+  return snapshot.docs.map((doc) => doc.data());
+}
+
+describe("bulk moderation", () => {
+  beforeEach(async () => {
+    fakeDb.reset();
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2025-01-01T00:00:00Z"));
+    await fakeDb.doc("users/user-1").set({ role: "user" });
+    await fakeDb.doc("users/user-2").set({ role: "creator" });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it("fails the user whose audit entry could not be written and carries on", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    await fakeDb.doc("users/user-2").set({ role: "user" });
+    // The first transaction is user-1's SET_ROLE entry on the chain head
+    const runTransaction = fakeDb.runTransaction.bind(fakeDb);
+    vi.spyOn(fakeDb, "runTransaction")
+      .mockRejectedValueOnce(new Error("contention"))
+      .mockImplementation(runTransaction);
+
+    const { res } = await run(
+      bulkSetRole,
+      bulk({ uids: ["user-1", "user-2"], role: "creator" }),
+    );
+
+    expect(res.body).toMatchObject({
+      data: {
+        results: [
+          {
+            uid: "user-1",
+            status: "failed",
+            error: "Failed to write audit log",
+          },
+          { uid: "user-2", status: "ok" },
+        ],
+      },
+    });
+    expect(await auditEntries("SET_ROLE")).toMatchObject([
+      { targetUid: "user-2" },
+    ]);
+    expect(await auditEntries("BULK_MODERATION")).toMatchObject([
+      {
+        details: {
+          failed: [{ uid: "user-1", error: "Failed to write audit log" }],
+        },
+      },
+    ]);
+  });
+
+  it("answers 500 when the batch entry itself cannot be written", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const runTransaction = fakeDb.runTransaction.bind(fakeDb);
+    // user-1's SET_ROLE entry goes through; the BULK_MODERATION one does not
+    vi.spyOn(fakeDb, "runTransaction")
+      .mockImplementationOnce(runTransaction)
+      .mockRejectedValueOnce(new Error("contention"))
+      .mockImplementation(runTransaction);
+
+    const { res } = await run(
+      bulkSetRole,
+      bulk({ uids: ["user-1"], role: "creator" }),
+    );
+    expect(res.statusCode).toBe(500);
+    expect(await auditEntries("BULK_MODERATION")).toEqual([]);
+  });
+
+  it("reports a result per user and audits the batch", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const { res } = await run(
+      bulkSetRole,
+      bulk({ uids: ["user-1", "user-2", "missing"], role: "creator" }),
+    );
+
+    expect(res.statusCode).toBe(200);
+    expect(res.body).toEqual({
+      success: true,
+      message: "1 of 3 users updated, 1 skipped, 1 failed",
+      data: {
+        results: [
+          { uid: "user-1", status: "ok" },
+          { uid: "user-2", status: "skipped", detail: "Already creator" },
+          { uid: "missing", status: "failed", error: "User not found" },
+        ],
+        summary: { ok: 1, pending_approval: 0, skipped: 1, failed: 1 },
+      },
+    });
+
+    expect((await fakeDb.doc("users/user-1").get()).data()?.role).toBe(
+      "creator",
+    );
+    expect(await auditEntries("SET_ROLE")).toHaveLength(1);
+    expect(await auditEntries("BULK_MODERATION")).toMatchObject([
+      {
+        details: {
+          operation: "set_role",
+          role: "creator",
+          uids: ["user-1", "user-2", "missing"],
+          failed: [{ uid: "missing", error: "User not found" }],
+        },
+      },
+    ]);
+  });
+
+  it("queues bans for approval when the policy covers them", async () => {
+    const { res } = await run(
+      bulkBan,
+      bulk({ uids: ["user-1", "user-2"], reason: "spam ring" }),
+    );
+
+    expect(res.body).toMatchObject({
+      data: { summary: { pending_approval: 2 } },
+    });
+    expect((await fakeDb.collection("pendingApprovals").get()).size).toBe(2);
+    expect((await fakeDb.doc("users/user-1").get()).data()?.isBanned).toBe(
+      undefined,
+    );
+  });
+
+  it("warns every user in the list", async () => {
+    const { res } = await run(
+      bulkWarn,
+      bulk({ uids: ["user-1", "user-2"], reason: "spam" }),
+    );
+
+    expect(res.body).toMatchObject({
+      data: { summary: { ok: 2, failed: 0 } },
+    });
+    expect((await fakeDb.collection("userWarnings").get()).size).toBe(2);
+  });
+
+  it("rejects unusable uid lists and missing reasons", async () => {
+    const tooMany = Array.from(
+      { length: MAX_BULK_USERS + 1 },
+      (_, i) => `user-${i}`,
+    );
+    for (const body of [
+      { uids: [], reason: "spam" },
+      { uids: ["user-1", "user-1"], reason: "spam" },
+      { uids: ["user-1", ""], reason: "spam" },
+      { uids: tooMany, reason: "spam" },
+      { uids: ["user-1"], reason: "  " },
+    ]) {
+      const { res } = await run(bulkWarn, bulk(body));
+      expect(res.statusCode).toBe(400);
+    }
+    expect(await auditEntries("BULK_MODERATION")).toHaveLength(0);
+  });
+});
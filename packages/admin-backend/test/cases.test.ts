@@ -0,0 +1,168 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { fakeDb } from "./helpers/fakeFirestore";
+import { mockRequest, run } from "./helpers/http";
+
+vi.mock("../src/config/firebaseAdmin", () => import("./helpers/fakeFirestore"));
+
+import {
+  addCaseNote,
+  createCase,
+  linkCaseAction,
+  updateCase,
+} from "../src/controllers/casesController";
+import { getCase, listCaseNotes } from "../src/services/cases";
+
+function asAdmin(overrides: Parameters<typeof mockRequest>[0]) {
+  return mockRequest({
+    adminId: "admin-1",
+    adminEmail: "ops@example.com",
+    ...overrides,
+  });
+}
+
+async function openCase(body: Record<string, unknown> = {}) {
+  const { res } = await run(
+    createCase,
+    asAdmin({
+      body: {
+        subjectType: "generation",
+        subjectId: "gen-1",
+        title: " Scraped artwork ",
+        ...body,
+      },
+    }),
+  );
+  return res;
+}
+
+async function openCaseId() {
+  const res = await openCase();
+  return (res.body as { data: { case: { id: string } } }).data.case.id;
+}
+
+describe("moderation cases", () => {
+  beforeEach(async () => {
+    fakeDb.reset();
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2025-01-01T00:00:00Z"));
+    await fakeDb.doc("generations/gen-1").set({ createdBy: { uid: "user-1" } });
+    await fakeDb.doc("adminUsers/admin-2").set({
+      email: "lead@example.com",
+      role: "moderator",
+      isActive: true,
+    });
+  });
+
+  afterEach(() => vi.useRealTimers());
+
+  it("opens a case on a generation about the generation's creator", async () => {
+    const res = await openCase({
+      evidence: [{ type: "ip", ref: "203.0.113.7", note: "same IP" }],
+    });
+
+    expect(res.statusCode).toBe(201);
+    expect(res.body).toMatchObject({
+      data: {
+        case: {
+          subjectUid: "user-1",
+          title: "Scraped artwork",
+          status: "open",
+          evidence: [
+            { type: "ip", ref: "203.0.113.7", addedBy: "ops@example.com" },
+          ],
+        },
+      },
+    });
+  });
+
+  it("rejects missing subjects and evidence that points nowhere", async () => {
+    expect((await openCase({ subjectId: "gen-missing" })).statusCode).toBe(404);
+    expect(
+      (await openCase({ evidence: [{ type: "ip", ref: "not-an-ip" }] }))
+        .statusCode,
+    ).toBe(400);
+    expect(
+      (await openCase({ evidence: [{ type: "warning", ref: "warn-1" }] }))
+        .statusCode,
+    ).toBe(400);
+    expect((await fakeDb.collection("moderationCases").get()).size).toBe(0);
+  });
+
+  it("keeps note threads one level deep", async () => {
+    const id = await openCaseId();
+    const note = (body: string, parentId?: string) => {
+      vi.setSystemTime(Date.now() + 1000);
+      return run(
+        addCaseNote,
+        asAdmin({ params: { id }, body: { body, parentId } }),
+      );
+    };
+
+    const top = (await note("First look")).res.body as {
+      data: { note: { id: string } };
+    };
+    const reply = (await note("Agreed", top.data.note.id)).res.body as {
+      data: { note: { id: string } };
+    };
+    await note("Replying to the reply", reply.data.note.id);
+
+    const notes = await listCaseNotes(id);
+    expect(notes.map((n) => n.parentId)).toEqual([
+      null,
+      top.data.note.id,
+      top.data.note.id,
+    ]);
+    expect((await getCase(id))?.noteCount).toBe(3);
+    expect((await note("Orphan", "missing")).res.statusCode).toBe(400);
+  });
+
+  it("records the resolution and clears it when the case is reopened", async () => {
+    const id = await openCaseId();
+
+    await run(
+      updateCase,
+      asAdmin({
+        params: { id },
+        body: {
+          status: "resolved",
+          resolution: "Banned",
+          assigneeId: "admin-2",
+        },
+      }),
+    );
+    expect(await getCase(id)).toMatchObject({
+      status: "resolved",
+      resolution: "Banned",
+      resolvedBy: "ops@example.com",
+      assigneeEmail: "lead@example.com",
+    });
+
+    await run(
+      updateCase,
+      asAdmin({ params: { id }, body: { status: "open" } }),
+    );
+    expect(await getCase(id)).toMatchObject({
+      status: "open",
+      resolution: null,
+      resolvedAt: null,
+    });
+
+    const { res } = await run(
+      updateCase,
+      asAdmin({ params: { id }, body: { assigneeId: "missing" } }),
+    );
+    expect(res.statusCode).toBe(400);
+  });
+
+  it("links an audit entry once", async () => {
+    const id = await openCaseId();
+    await fakeDb.doc("auditLogs/audit-1").set({ action: "BAN_USER" });
+    const link = (auditId: string) =>
+      run(linkCaseAction, asAdmin({ params: { id }, body: { auditId } }));
+
+    expect((await link("audit-1")).res.statusCode).toBe(200);
+    expect((await link("audit-1")).res.statusCode).toBe(409);
+    expect((await link("audit-missing")).res.statusCode).toBe(404);
+    expect((await getCase(id))?.linkedAuditIds).toEqual(["audit-1"]);
+  });
+});
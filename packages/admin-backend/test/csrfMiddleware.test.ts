@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import jwt from "jsonwebtoken";
+import { mockRequest, run } from "./helpers/http";
+
+import { env } from "../src/config/env";
+import {
+  CSRF_HEADER,
+  csrfProtection,
+  csrfTokenForSession,
+} from "../src/middleware/csrfMiddleware";
+
+function sessionToken(sid: string) {
+  return jwt.sign(
+    { adminId: "admin-2", email: "ops@example.com", sid },
+    env.jwtSecret,
+  );
+}
+
+describe("csrfProtection", () => {
+  it("lets safe methods, exempt paths and cookieless requests through", async () => {
+    const admin_token = sessionToken("sid-1");
+    for (const req of [
+      mockRequest({ method: "GET", cookies: { admin_token } }),
+      mockRequest({ path: "/auth/login", cookies: { admin_token } }),
+      mockRequest({
+        path: "/auth/2fa/enroll/confirm",
+        cookies: { admin_token },
+      }),
+      mockRequest({ headers: { authorization: "Bearer wmk_key" } }),
+    ]) {
+      const { next } = await run(csrfProtection, req);
+      expect(next).toHaveBeenCalledOnce();
+    }
+  });
+
+  it("rejects a cookie-authenticated write without the session's token", async () => {
+    const cookies = { admin_token: sessionToken("sid-1") };
+
+    const missing = await run(
+      csrfProtection,
+      mockRequest({ path: "/users/abc/ban", cookies }),
+    );
+    expect(missing.res.statusCode).toBe(403);
+    expect(missing.next).not.toHaveBeenCalled();
+
+    const otherSession = await run(
+      csrfProtection,
+      mockRequest({
+        path: "/users/abc/ban",
+        cookies,
+        headers: { [CSRF_HEADER]: csrfTokenForSession("sid-2") },
+      }),
+    );
+    expect(otherSession.res.statusCode).toBe(403);
+  });
+
+  it("accepts the session's token", async () => {
+    const { next } = await run(
+      csrfProtection,
+      mockRequest({
+        path: "/users/abc/ban",
+        cookies: { admin_token: sessionToken("sid-1") },
+        headers: { [CSRF_HEADER]: csrfTokenForSession("sid-1") },
+      }),
+    );
+    expect(next).toHaveBeenCalledOnce();
+  });
+});
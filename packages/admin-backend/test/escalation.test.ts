@@ -0,0 +1,185 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { fakeDb } from "./helpers/fakeFirestore";
+import { mockRequest, run } from "./helpers/http";
+
+vi.mock("../src/config/firebaseAdmin", () => import("./helpers/fakeFirestore"));
+
+import { issueWarning } from "../src/controllers/warningController";
+import {
+  EscalationRule,
+  matchEscalationRules,
+  saveEscalationPolicy,
+  validateEscalationRules,
+} from "../src/services/escalation";
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = new Date("2025-01-10T00:00:00Z");
+
+function rule(overrides: Partial<EscalationRule> = {}): EscalationRule {
+  return {
+    id: "rule-1",
+    name: "Three strikes",
+    warnings: 3,
+    windowDays: 7,
+    action: "review",
+    suspendDays: null,
+    enabled: true,
+    ...overrides,
+  };
+}
+
+function daysAgo(days: number) {
+  return new Date(NOW.getTime() - days * DAY).toISOString();
+}
+
+describe("matchEscalationRules", () => {
+  it("fires on the warning that reaches the threshold within the window", () => {
+    const issuedAt = [daysAgo(0), daysAgo(2), daysAgo(6)];
+    expect(matchEscalationRules([rule()], issuedAt, NOW)).toEqual([
+      { rule: rule(), count: 3 },
+    ]);
+  });
+
+  it("ignores warnings outside the window and disabled rules", () => {
+    const issuedAt = [daysAgo(0), daysAgo(2), daysAgo(8)];
+    expect(matchEscalationRules([rule()], issuedAt, NOW)).toEqual([]);
+    expect(
+      matchEscalationRules(
+        [rule({ enabled: false })],
+        [daysAgo(0), daysAgo(1), daysAgo(2)],
+        NOW,
+      ),
+    ).toEqual([]);
+  });
+});
+
+describe("validateEscalationRules", () => {
+  it("assigns ids to new rules and drops suspendDays from review rules", () => {
+    const result = validateEscalationRules([
+      {
+        name: " Strikes ",
+        warnings: 3,
+        windowDays: 7,
+        action: "review",
+        suspendDays: 5,
+        enabled: true,
+      },
+    ]);
+    expect(result.status).toBe("ok");
+    if (result.status !== "ok") return;
+    expect(result.rules[0]).toMatchObject({
+      name: "Strikes",
+      suspendDays: null,
+    });
+    expect(result.rules[0].id).toMatch(/^[0-9a-f-]{36}$/);
+  });
+
+  it("rejects incomplete rules", () => {
+    for (const input of [
+      "rules",
+      [
+        {
+          name: "",
+          warnings: 3,
+          windowDays: 7,
+          action: "review",
+          enabled: true,
+        },
+      ],
+      [
+        {
+          name: "x",
+          warnings: 0,
+          windowDays: 7,
+          action: "review",
+          enabled: true,
+        },
+      ],
+      [{ name: "x", warnings: 3, windowDays: 7, action: "ban", enabled: true }],
+      [
+        {
+          name: "x",
+          warnings: 3,
+          windowDays: 7,
+          action: "suspend",
+          enabled: true,
+        },
+      ],
+    ]) {
+      expect(validateEscalationRules(input).status).toBe("invalid");
+    }
+  });
+});
+
+describe("issueWarning with escalation rules", () => {
+  beforeEach(async () => {
+    fakeDb.reset();
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(NOW);
+    await fakeDb.doc("users/user-1").set({ warningCount: 0 });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  function warn() {
+    return run(
+      issueWarning,
+      mockRequest({
+        params: { uid: "user-1" },
+        body: { reason: "spam" },
+        adminEmail: "ops@example.com",
+      }),
+    );
+  }
+
+  it("flags the user for review as the system on the threshold warning", async () => {
+    await saveEscalationPolicy({ rules: [rule({ warnings: 2 })] }, "root");
+
+    expect((await warn()).res.body).toMatchObject({ escalations: [] });
+    const { res } = await warn();
+    expect(res.body).toMatchObject({
+      escalations: [{ ruleId: "rule-1", action: "review" }],
+    });
+
+    const user = (await fakeDb.doc("users/user-1").get()).data();
+    expect(user).toMatchObject({
+      isUnderReview: true,
+      reviewFlaggedBy: "system",
+      warningCount: 2,
+    });
+  });
+
+  it("escalates once when warnings are issued at the same time", async () => {
+    await saveEscalationPolicy({ rules: [rule({ warnings: 2 })] }, "root");
+
+    const results = await Promise.all([warn(), warn(), warn()]);
+    const escalations = results.flatMap(
+      ({ res }) => (res.body as { escalations: unknown[] }).escalations,
+    );
+    expect(escalations).toEqual([
+      { ruleId: "rule-1", ruleName: "Three strikes", action: "review" },
+    ]);
+    expect((await fakeDb.doc("users/user-1").get()).data()).toMatchObject({
+      isUnderReview: true,
+      warningCount: 3,
+    });
+  });
+
+  it("keeps the warning when the sanction fails", async () => {
+    // The in-memory Firestore has no Auth, so revoking the user's tokens throws
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    await saveEscalationPolicy(
+      { rules: [rule({ warnings: 1, action: "suspend", suspendDays: 3 })] },
+      "root",
+    );
+
+    const { res } = await warn();
+    expect(res.statusCode).toBe(200);
+    expect(res.body).toMatchObject({ success: true, escalations: [] });
+    expect(res.body).toHaveProperty("escalationError");
+    expect((await fakeDb.collection("userWarnings").get()).size).toBe(1);
+  });
+});
@@ -0,0 +1,558 @@
+import crypto from "crypto";
+import { DocumentData, Timestamp } from "firebase-admin/firestore";
+
+/**
+ * In-memory stand-in for the slice of the Firestore admin API the services use:
+ * documents and subcollections, where/orderBy/startAfter/limit queries,
+ * transactions, batches, getAll and count. Transactions run one at a time,
+ * which is how Firestore's retries make concurrent ones behave.
+ *
+ * Tests swap it in with:
+ *   vi.mock("../src/config/firebaseAdmin", () => import("./helpers/fakeFirestore"));
+ */
+
+type Data = DocumentData;
+type WhereOp = "==" | "!=" | "<" | "<=" | ">" | ">=" | "in" | "array-contains";
+
+const DOCUMENT_ID = "__name__";
+
+type FieldValueKind =
+  "delete" | "serverTimestamp" | "increment" | "arrayUnion" | "arrayRemove";
+
+class FakeFieldValue {
+  constructor(
+    readonly kind: FieldValueKind,
+    readonly operand?: unknown,
+  ) {}
+}
+
+const FieldValue = {
+  delete: () => new FakeFieldValue("delete"),
+  serverTimestamp: () => new FakeFieldValue("serverTimestamp"),
+  increment: (n: number) => new FakeFieldValue("increment", n),
+  arrayUnion: (...items: unknown[]) => new FakeFieldValue("arrayUnion", items),
+  arrayRemove: (...items: unknown[]) =>
+    new FakeFieldValue("arrayRemove", items),
+};
+
+const FieldPath = {
+  documentId: () => DOCUMENT_ID,
+};
+
+function isPlainObject(value: unknown): value is Data {
+  if (!value || typeof value !== "object") return false;
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+const isDelete = (value: unknown) =>
+  value instanceof FakeFieldValue && value.kind === "delete";
+
+/**
+ * Copy a value the way Firestore stores it: sentinels resolved against the
+ * field's current value, undefined dropped.
+ */
+function storeValue(value: unknown, current?: unknown): unknown {
+  if (value instanceof FakeFieldValue) {
+    const existing = Array.isArray(current) ? current : [];
+    const items = (value.operand as unknown[]) || [];
+    switch (value.kind) {
+      case "serverTimestamp":
+        return Timestamp.now();
+      case "increment":
+        return (
+          (typeof current === "number" ? current : 0) +
+          (value.operand as number)
+        );
+      case "arrayUnion":
+        return [
+          ...existing,
+          ...items.filter(
+            (item) => !existing.some((e) => valuesEqual(e, item)),
+          ),
+        ];
+      case "arrayRemove":
+        return existing.filter(
+          (e) => !items.some((item) => valuesEqual(e, item)),
+        );
+      default:
+        return undefined;
+    }
+  }
+  if (value instanceof Date) return Timestamp.fromDate(value);
+  if (Array.isArray(value)) return value.map((item) => storeValue(item));
+  if (isPlainObject(value)) {
+    const result: Data = {};
+    for (const [key, item] of Object.entries(value)) {
+      if (item === undefined || isDelete(item)) continue;
+      result[key] = storeValue(item);
+    }
+    return result;
+  }
+  return value;
+}
+
+function cloneValue<T>(value: T): T {
+  if (Array.isArray(value)) return value.map(cloneValue) as T;
+  if (isPlainObject(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, cloneValue(item)]),
+    ) as T;
+  }
+  return value;
+}
+
+function getField(data: Data, field: string): unknown {
+  return field
+    .split(".")
+    .reduce<unknown>(
+      (value, part) => (value == null ? undefined : (value as Data)[part]),
+      data,
+    );
+}
+
+/** set(..., { merge: true }): nested maps merge, FieldValue.delete() removes. */
+function mergeInto(target: Data, source: Data) {
+  for (const [key, value] of Object.entries(source)) {
+    if (value === undefined) continue;
+    if (isDelete(value)) {
+      delete target[key];
+    } else if (isPlainObject(value) && isPlainObject(target[key])) {
+      mergeInto(target[key], value);
+    } else {
+      target[key] = storeValue(value, target[key]);
+    }
+  }
+}
+
+/** update(): keys are field paths, so "a.b" sets a nested field. */
+function applyUpdate(target: Data, updates: Data) {
+  for (const [path, value] of Object.entries(updates)) {
+    if (value === undefined) continue;
+    const parts = path.split(".");
+    let node = target;
+    for (const part of parts.slice(0, -1)) {
+      if (!isPlainObject(node[part])) node[part] = {};
+      node = node[part];
+    }
+    const last = parts[parts.length - 1];
+    if (isDelete(value)) delete node[last];
+    else node[last] = storeValue(value, node[last]);
+  }
+}
+
+function typeRank(value: unknown): number {
+  if (value === null || value === undefined) return 0;
+  if (typeof value === "boolean") return 1;
+  if (typeof value === "number") return 2;
+  if (value instanceof Timestamp) return 3;
+  if (typeof value === "string") return 4;
+  return 5;
+}
+
+function compareValues(a: unknown, b: unknown): number {
+  const rankDiff = typeRank(a) - typeRank(b);
+  if (rankDiff !== 0) return rankDiff;
+  if (a instanceof Timestamp) return a.toMillis() - (b as Timestamp).toMillis();
+  if (typeof a === "boolean" || typeof a === "number")
+    return Number(a) - Number(b);
+  if (typeof a === "string")
+    return a < (b as string) ? -1 : a > (b as string) ? 1 : 0;
+  return 0;
+}
+
+function valuesEqual(a: unknown, b: unknown): boolean {
+  if (a instanceof Timestamp && b instanceof Timestamp) return a.isEqual(b);
+  return a === b;
+}
+
+export class FakeDocumentSnapshot {
+  constructor(
+    readonly ref: FakeDocumentReference,
+    private readonly stored: Data | undefined,
+  ) {}
+
+  get id() {
+    return this.ref.id;
+  }
+
+  get exists() {
+    return this.stored !== undefined;
+  }
+
+  data(): Data | undefined {
+    return this.stored === undefined ? undefined : cloneValue(this.stored);
+  }
+
+  get(field: string) {
+    return this.stored === undefined
+      ? undefined
+      : cloneValue(getField(this.stored, field));
+  }
+}
+
+export class FakeQuerySnapshot {
+  constructor(readonly docs: FakeDocumentSnapshot[]) {}
+
+  get empty() {
+    return this.docs.length === 0;
+  }
+
+  get size() {
+    return this.docs.length;
+  }
+
+  forEach(callback: (doc: FakeDocumentSnapshot) => void) {
+    this.docs.forEach(callback);
+  }
+}
+
+interface QueryState {
+  filters: { field: string; op: WhereOp; value: unknown }[];
+  orders: { field: string; direction: "asc" | "desc" }[];
+  limit?: number;
+  startAfter?: FakeDocumentSnapshot;
+}
+
+export class FakeQuery {
+  constructor(
+    protected readonly db: FakeFirestore,
+    readonly path: string,
+    protected readonly state: QueryState = { filters: [], orders: [] },
+  ) {}
+
+  private with(changes: Partial<QueryState>) {
+    return new FakeQuery(this.db, this.path, {
+      ...this.state,
+      filters: [...this.state.filters],
+      orders: [...this.state.orders],
+      ...changes,
+    });
+  }
+
+  where(field: string, op: WhereOp, value: unknown) {
+    return this.with({
+      filters: [...this.state.filters, { field, op, value }],
+    });
+  }
+
+  orderBy(field: string, direction: "asc" | "desc" = "asc") {
+    return this.with({ orders: [...this.state.orders, { field, direction }] });
+  }
+
+  limit(limit: number) {
+    return this.with({ limit });
+  }
+
+  startAfter(snapshot: FakeDocumentSnapshot) {
+    return this.with({ startAfter: snapshot });
+  }
+
+  /** Field masks don't matter for an in-memory store */
+  select(..._fields: string[]) {
+    return this.with({});
+  }
+
+  count() {
+    return {
+      get: async () => {
+        const size = this.run().length;
+        return { data: () => ({ count: size }) };
+      },
+    };
+  }
+
+  async get() {
+    return new FakeQuerySnapshot(this.run());
+  }
+
+  private valueOf(snapshot: FakeDocumentSnapshot, field: string) {
+    return field === DOCUMENT_ID ? snapshot.ref.path : snapshot.get(field);
+  }
+
+  private matches(snapshot: FakeDocumentSnapshot) {
+    return this.state.filters.every(({ field, op, value }) => {
+      const actual = this.valueOf(snapshot, field);
+      if (actual === undefined) return false;
+      switch (op) {
+        case "==":
+          return valuesEqual(actual, value);
+        case "!=":
+          return !valuesEqual(actual, value);
+        case "in":
+          return (value as unknown[]).some((item) => valuesEqual(actual, item));
+        case "array-contains":
+          return (
+            Array.isArray(actual) &&
+            actual.some((item) => valuesEqual(item, value))
+          );
+        default: {
+          if (typeRank(actual) !== typeRank(value)) return false;
+          const diff = compareValues(actual, value);
+          return op === "<"
+            ? diff < 0
+            : op === "<="
+              ? diff <= 0
+              : op === ">"
+                ? diff > 0
+                : diff >= 0;
+        }
+      }
+    });
+  }
+
+  /** Order by each orderBy field, then by document id in the last field's direction. */
+  private compare(a: FakeDocumentSnapshot, b: FakeDocumentSnapshot) {
+    const orders = [...this.state.orders];
+    if (!orders.some((order) => order.field === DOCUMENT_ID)) {
+      orders.push({
+        field: DOCUMENT_ID,
+        direction: orders.length ? orders[orders.length - 1].direction : "asc",
+      });
+    }
+    for (const { field, direction } of orders) {
+      const diff = compareValues(
+        this.valueOf(a, field),
+        this.valueOf(b, field),
+      );
+      if (diff !== 0) return direction === "desc" ? -diff : diff;
+    }
+    return 0;
+  }
+
+  private run(): FakeDocumentSnapshot[] {
+    let docs = this.db
+      .listCollection(this.path)
+      .filter((snapshot) => this.matches(snapshot))
+      // Firestore leaves out documents missing an ordered field
+      .filter((snapshot) =>
+        this.state.orders.every(
+          ({ field }) => this.valueOf(snapshot, field) !== undefined,
+        ),
+      )
+      .sort((a, b) => this.compare(a, b));
+    const cursor = this.state.startAfter;
+    if (cursor)
+      docs = docs.filter((snapshot) => this.compare(snapshot, cursor) > 0);
+    return this.state.limit !== undefined
+      ? docs.slice(0, this.state.limit)
+      : docs;
+  }
+}
+
+export class FakeCollectionReference extends FakeQuery {
+  get id() {
+    return this.path.split("/").pop() as string;
+  }
+
+  doc(id: string = crypto.randomBytes(10).toString("hex")) {
+    return new FakeDocumentReference(this.db, `${this.path}/${id}`);
+  }
+
+  async add(data: Data) {
+    const ref = this.doc();
+    await ref.set(data);
+    return ref;
+  }
+}
+
+export class FakeDocumentReference {
+  constructor(
+    private readonly db: FakeFirestore,
+    readonly path: string,
+  ) {}
+
+  get id() {
+    return this.path.split("/").pop() as string;
+  }
+
+  collection(name: string) {
+    return new FakeCollectionReference(this.db, `${this.path}/${name}`);
+  }
+
+  async get() {
+    return this.db.snapshot(this);
+  }
+
+  async set(data: Data, options?: { merge?: boolean }) {
+    this.db.write({ kind: "set", ref: this, data, merge: !!options?.merge });
+  }
+
+  async create(data: Data) {
+    this.db.write({ kind: "create", ref: this, data });
+  }
+
+  async update(data: Data) {
+    this.db.write({ kind: "update", ref: this, data });
+  }
+
+  async delete() {
+    this.db.write({ kind: "delete", ref: this });
+  }
+}
+
+type Write =
+  | { kind: "set"; ref: FakeDocumentReference; data: Data; merge: boolean }
+  | { kind: "create"; ref: FakeDocumentReference; data: Data }
+  | { kind: "update"; ref: FakeDocumentReference; data: Data }
+  | { kind: "delete"; ref: FakeDocumentReference };
+
+class FakeWriteBatch {
+  protected writes: Write[] = [];
+
+  constructor(protected readonly db: FakeFirestore) {}
+
+  set(ref: FakeDocumentReference, data: Data, options?: { merge?: boolean }) {
+    this.writes.push({ kind: "set", ref, data, merge: !!options?.merge });
+    return this;
+  }
+
+  create(ref: FakeDocumentReference, data: Data) {
+    this.writes.push({ kind: "create", ref, data });
+    return this;
+  }
+
+  update(ref: FakeDocumentReference, data: Data) {
+    this.writes.push({ kind: "update", ref, data });
+    return this;
+  }
+
+  delete(ref: FakeDocumentReference) {
+    this.writes.push({ kind: "delete", ref });
+    return this;
+  }
+
+  async commit() {
+    this.db.commit(this.writes);
+  }
+}
+
+class FakeTransaction extends FakeWriteBatch {
+  async get(target: FakeDocumentReference | FakeQuery) {
+    return target instanceof FakeDocumentReference
+      ? this.db.snapshot(target)
+      : target.get();
+  }
+
+  pending() {
+    return this.writes;
+  }
+}
+
+export class FakeFirestore {
+  private docs = new Map<string, Data>();
+  private transactionQueue: Promise<unknown> = Promise.resolve();
+
+  /** Forget every document */
+  reset() {
+    this.docs.clear();
+  }
+
+  /** Every stored document path, for assertions */
+  paths() {
+    return Array.from(this.docs.keys()).sort();
+  }
+
+  collection(path: string) {
+    return new FakeCollectionReference(this, path);
+  }
+
+  doc(path: string) {
+    return new FakeDocumentReference(this, path);
+  }
+
+  batch() {
+    return new FakeWriteBatch(this);
+  }
+
+  async getAll(...refs: FakeDocumentReference[]) {
+    return refs.map((ref) => this.snapshot(ref));
+  }
+
+  runTransaction<T>(body: (tx: FakeTransaction) => Promise<T>): Promise<T> {
+    const run = this.transactionQueue.then(async () => {
+      const tx = new FakeTransaction(this);
+      const result = await body(tx);
+      this.commit(tx.pending());
+      return result;
+    });
+    this.transactionQueue = run.catch(() => undefined);
+    return run;
+  }
+
+  settings(_settings: Data) {}
+
+  snapshot(ref: FakeDocumentReference) {
+    return new FakeDocumentSnapshot(ref, this.docs.get(ref.path));
+  }
+
+  listCollection(path: string) {
+    const depth = path.split("/").length + 1;
+    return Array.from(this.docs.keys())
+      .filter(
+        (docPath) =>
+          docPath.startsWith(`${path}/`) && docPath.split("/").length === depth,
+      )
+      .map((docPath) =>
+        this.snapshot(new FakeDocumentReference(this, docPath)),
+      );
+  }
+
+  write(write: Write) {
+    this.commit([write]);
+  }
+
+  /** Apply writes atomically: check them all first, then apply. */
+  commit(writes: Write[]) {
+    for (const write of writes) {
+      if (write.kind === "create" && this.docs.has(write.ref.path)) {
+        throw new Error(`ALREADY_EXISTS: ${write.ref.path}`);
+      }
+      if (write.kind === "update" && !this.docs.has(write.ref.path)) {
+        throw new Error(`NOT_FOUND: ${write.ref.path}`);
+      }
+    }
+    for (const write of writes) {
+      const path = write.ref.path;
+      switch (write.kind) {
+        case "delete":
+          this.docs.delete(path);
+          break;
+        case "update": {
+          const next = cloneValue(this.docs.get(path) as Data);
+          applyUpdate(next, write.data);
+          this.docs.set(path, next);
+          break;
+        }
+        case "set":
+          if (write.merge) {
+            const next = cloneValue(this.docs.get(path) || {});
+            mergeInto(next, write.data);
+            this.docs.set(path, next);
+          } else {
+            this.docs.set(path, storeValue(write.data) as Data);
+          }
+          break;
+        case "create":
+          this.docs.set(path, storeValue(write.data) as Data);
+          break;
+      }
+    }
+  }
+}
+
+export const fakeDb = new FakeFirestore();
+
+/** Exports matching src/config/firebaseAdmin */
+export const adminDb = fakeDb;
+export const admin = {
+  firestore: {
+    Timestamp,
+    FieldValue,
+    FieldPath,
+    DocumentReference: FakeDocumentReference,
+  },
+  storage: () => {
+    throw new Error("Cloud Storage is not available in tests");
+  },
+};
@@ -0,0 +1,61 @@
+import { NextFunction, Request, Response } from "express";
+import { vi } from "vitest";
+import { AdminRequest } from "../../src/middleware/authMiddleware";
+
+/** A request with just the fields the middleware and controllers read. */
+export function mockRequest(
+  overrides: Partial<AdminRequest> = {},
+): AdminRequest {
+  return {
+    method: "POST",
+    path: "/",
+    headers: {},
+    cookies: {},
+    params: {},
+    query: {},
+    body: {},
+    ...overrides,
+  } as unknown as AdminRequest;
+}
+
+export interface MockResponse extends Response {
+  statusCode: number;
+  body: unknown;
+  headers: Record<string, string>;
+}
+
+/** A response that records the status, headers and JSON body it was given. */
+export function mockResponse(): MockResponse {
+  const res = { statusCode: 200, body: undefined, headers: {} } as MockResponse;
+  res.setHeader = (name: string, value: string) => {
+    res.headers[name] = value;
+    return res;
+  };
+  res.status = (code: number) => {
+    res.statusCode = code;
+    return res;
+  };
+  res.json = (body: unknown) => {
+    res.body = body;
+    return res;
+  };
+  return res;
+}
+
+type Handler = (
+  req: AdminRequest,
+  res: Response,
+  next: NextFunction,
+) => unknown;
+
+/** Run a middleware or controller and return what it responded with. */
+export async function run(
+  handler:
+    Handler | ((req: Request, res: Response, next: NextFunction) => unknown),
+  req: AdminRequest,
+) {
+  const res = mockResponse();
+  const next = vi.fn();
+  await (handler as Handler)(req, res, next);
+  return { res, next };
+}
@@ -0,0 +1,201 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { Timestamp } from "firebase-admin/firestore";
+import { fakeDb } from "./helpers/fakeFirestore";
+
+vi.mock("../src/config/firebaseAdmin", () => import("./helpers/fakeFirestore"));
+
+import {
+  IdentifierRecord,
+  LINKED_IDENTIFIERS_COLLECTION,
+  MAX_ACCOUNTS_PER_IDENTIFIER,
+  accountsForIdentifier,
+  findLinkedAccounts,
+  indexUser,
+  rebuildLinkedAccountIndex,
+} from "../src/services/linkedAccounts";
+
+function login(deviceId: string, ip: string, timestamp: string) {
+  return { deviceId, ip, timestamp };
+}
+
+async function addUser(
+  uid: string,
+  loginHistory: object[],
+  lastLoginAt: unknown = new Date().toISOString(),
+) {
+  await fakeDb.doc(`users/${uid}`).set({ loginHistory, lastLoginAt });
+}
+
+async function lookup(uid: string) {
+  const user = (await fakeDb.doc(`users/${uid}`).get()).data() || {};
+  return findLinkedAccounts(uid, user);
+}
+
+describe("linked accounts", () => {
+  beforeEach(() => {
+    fakeDb.reset();
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2025-03-01T00:00:00Z"));
+  });
+
+  afterEach(() => vi.useRealTimers());
+
+  it("grades links by what the accounts share", async () => {
+    await addUser("target", [
+      login("device-a", "198.51.100.1", "2025-01-01T00:00:00Z"),
+      login("device-b", "198.51.100.2", "2025-01-02T00:00:00Z"),
+    ]);
+    await addUser("same-device", [
+      login("device-a", "203.0.113.9", "2025-01-03T00:00:00Z"),
+    ]);
+    await addUser("two-ips", [
+      login("device-x", "198.51.100.1", "2025-01-01T00:00:00Z"),
+      login("device-y", "198.51.100.2", "2025-01-01T00:00:00Z"),
+    ]);
+    await addUser("one-ip", [
+      login("device-z", "198.51.100.2", "2025-01-01T00:00:00Z"),
+    ]);
+    await addUser("stranger", [
+      login("device-q", "192.0.2.1", "2025-01-01T00:00:00Z"),
+    ]);
+    expect(await rebuildLinkedAccountIndex()).toEqual({
+      users: 5,
+      identifiers: 14,
+      failed: 0,
+    });
+
+    const result = await lookup("target");
+    expect(result).toMatchObject({ devices: 2, ips: 2, crowded: [] });
+    expect(
+      result.accounts.map(({ uid, strength }) => ({ uid, strength })),
+    ).toEqual([
+      { uid: "same-device", strength: "strong" },
+      { uid: "two-ips", strength: "medium" },
+      { uid: "one-ip", strength: "weak" },
+    ]);
+    expect(result.accounts[0]).toMatchObject({
+      sharedDevices: ["device-a"],
+      lastSeen: "2025-01-03T00:00:00.000Z",
+    });
+  });
+
+  it("reports crowded identifiers instead of following them", async () => {
+    await addUser("target", [
+      login("device-a", "198.51.100.1", "2025-01-01T00:00:00Z"),
+    ]);
+    for (let i = 0; i < MAX_ACCOUNTS_PER_IDENTIFIER; i++) {
+      await addUser(`carrier-${i}`, [
+        login(`device-${i}`, "198.51.100.1", "2025-01-01T00:00:00Z"),
+      ]);
+    }
+    await rebuildLinkedAccountIndex();
+
+    const result = await lookup("target");
+    expect(result.accounts).toEqual([]);
+    expect(result.crowded).toEqual([
+      {
+        type: "ip",
+        value: "198.51.100.1",
+        accounts: MAX_ACCOUNTS_PER_IDENTIFIER + 1,
+      },
+    ]);
+
+    // The identifier doc stops growing at the cap; the rest overflow
+    const identifiers = await fakeDb
+      .collection(LINKED_IDENTIFIERS_COLLECTION)
+      .where("type", "==", "ip")
+      .get();
+    const shared = identifiers.docs[0].data() as IdentifierRecord;
+    expect(shared.crowded).toBe(true);
+    expect(Object.keys(shared.accounts)).toHaveLength(
+      MAX_ACCOUNTS_PER_IDENTIFIER,
+    );
+    expect(await accountsForIdentifier("ip", "198.51.100.1")).toHaveLength(
+      MAX_ACCOUNTS_PER_IDENTIFIER + 1,
+    );
+  });
+
+  it("keeps links after loginHistory is trimmed", async () => {
+    await addUser("target", [
+      login("device-a", "198.51.100.1", "2025-01-01T00:00:00Z"),
+    ]);
+    await addUser("alt", [
+      login("device-a", "203.0.113.9", "2025-01-01T00:00:00Z"),
+    ]);
+    await rebuildLinkedAccountIndex();
+    vi.setSystemTime(Date.now() + 60 * 60 * 1000);
+    await addUser("alt", [
+      login("device-new", "203.0.113.9", "2025-02-01T00:00:00Z"),
+    ]);
+    expect((await rebuildLinkedAccountIndex()).users).toBe(1);
+
+    expect((await lookup("target")).accounts.map((a) => a.uid)).toEqual([
+      "alt",
+    ]);
+  });
+
+  it("only re-reads users who logged in since the last run", async () => {
+    await addUser("target", [
+      login("device-a", "198.51.100.1", "2025-01-01T00:00:00Z"),
+    ]);
+    await addUser("string-login", [
+      login("device-b", "203.0.113.1", "2025-01-01T00:00:00Z"),
+    ]);
+    await addUser("timestamp-login", [
+      login("device-c", "203.0.113.2", "2025-01-01T00:00:00Z"),
+    ]);
+    expect((await rebuildLinkedAccountIndex()).users).toBe(3);
+    expect((await rebuildLinkedAccountIndex()).users).toBe(0);
+
+    vi.setSystemTime(Date.now() + 60 * 60 * 1000);
+    await addUser("string-login", [
+      login("device-a", "203.0.113.1", "2025-03-01T01:00:00Z"),
+    ]);
+    await addUser(
+      "timestamp-login",
+      [login("device-a", "203.0.113.2", "2025-03-01T01:00:00Z")],
+      Timestamp.now(),
+    );
+    expect(await rebuildLinkedAccountIndex()).toEqual({
+      users: 2,
+      identifiers: 4,
+      failed: 0,
+    });
+    expect((await lookup("target")).accounts.map((a) => a.uid).sort()).toEqual([
+      "string-login",
+      "timestamp-login",
+    ]);
+  });
+
+  it("rewrites an identifier only when the user's use of it changed", async () => {
+    const user = {
+      loginHistory: [login("device-a", "198.51.100.1", "2025-01-01T00:00:00Z")],
+    };
+    const ids = await indexUser("target", user);
+    const stamp = async () =>
+      (
+        await fakeDb.doc(`${LINKED_IDENTIFIERS_COLLECTION}/${ids[0]}`).get()
+      ).data()?.updatedAt;
+    const first = await stamp();
+
+    vi.setSystemTime(Date.now() + 60 * 1000);
+    await indexUser("target", user);
+    expect(await stamp()).toBe(first);
+
+    user.loginHistory.push(
+      login("device-a", "198.51.100.1", "2025-02-01T00:00:00Z"),
+    );
+    await indexUser("target", user);
+    expect(await stamp()).not.toBe(first);
+  });
+
+  it("looks accounts up without writing to the index", async () => {
+    await addUser("target", [
+      login("device-a", "198.51.100.1", "2025-01-01T00:00:00Z"),
+    ]);
+    expect((await lookup("target")).devices).toBe(0);
+    expect(
+      (await fakeDb.collection(LINKED_IDENTIFIERS_COLLECTION).get()).size,
+    ).toBe(0);
+  });
+});
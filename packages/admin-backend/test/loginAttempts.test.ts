@@ -0,0 +1,151 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("../src/config/firebaseAdmin", () => import("./helpers/fakeFirestore"));
+
+import {
+  LoginAttempt,
+  MemoryLoginAttemptStore,
+  getLockout,
+  recordLoginSuccess,
+  releaseLoginAttempt,
+  reserveLoginAttempt,
+  unlockEmail,
+} from "../src/services/loginAttempts";
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+
+/** Make `times` attempts that get through and fail, a minute apart. */
+async function fail(ip: string, email: string, times: number) {
+  let attempt: LoginAttempt | undefined;
+  for (let i = 0; i < times; i++) {
+    vi.setSystemTime(Date.now() + MINUTE);
+    attempt = await reserveLoginAttempt(ip, email);
+    expect(attempt.allowed).toBe(true);
+  }
+  return attempt as LoginAttempt;
+}
+
+describe("login attempts", () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2025-01-01T00:00:00Z"));
+  });
+
+  afterEach(() => vi.useRealTimers());
+
+  it("lets the first failures through without delay", async () => {
+    await fail("10.0.0.1", "free@example.com", 2);
+    expect(
+      (await reserveLoginAttempt("10.0.0.1", "free@example.com")).allowed,
+    ).toBe(true);
+  });
+
+  it("backs off exponentially once the free attempts are used", async () => {
+    await fail("10.0.0.2", "backoff@example.com", 3);
+    expect(
+      await reserveLoginAttempt("10.0.0.2", "backoff@example.com"),
+    ).toMatchObject({
+      allowed: false,
+      reason: "backoff",
+      retryAfterSeconds: 1,
+    });
+
+    vi.setSystemTime(Date.now() + SECOND);
+    expect(
+      (await reserveLoginAttempt("10.0.0.2", "backoff@example.com")).allowed,
+    ).toBe(true);
+    expect(
+      (await reserveLoginAttempt("10.0.0.2", "backoff@example.com"))
+        .retryAfterSeconds,
+    ).toBe(2);
+  });
+
+  it("backs off by IP across different emails", async () => {
+    await reserveLoginAttempt("10.0.0.3", "a@example.com");
+    await reserveLoginAttempt("10.0.0.3", "b@example.com");
+    await reserveLoginAttempt("10.0.0.3", "c@example.com");
+
+    const result = await reserveLoginAttempt("10.0.0.3", "d@example.com");
+    expect(result).toMatchObject({ allowed: false, reason: "backoff" });
+  });
+
+  it("counts parallel attempts before any of them has been checked", async () => {
+    const results = await Promise.all(
+      Array.from({ length: 6 }, () =>
+        reserveLoginAttempt("10.0.0.8", "burst@example.com"),
+      ),
+    );
+    expect(results.filter((result) => result.allowed)).toHaveLength(3);
+  });
+
+  it("locks the email after the maximum failures, from any IP", async () => {
+    const fourth = await fail("10.0.0.4", "locked@example.com", 4);
+    expect(fourth.lockedUntil).toBeNull();
+
+    const fifth = await fail("10.0.0.4", "locked@example.com", 1);
+    expect(fifth.lockedUntil).toBe(
+      new Date(Date.now() + 15 * MINUTE).toISOString(),
+    );
+    expect(await getLockout("locked@example.com")).toBe(fifth.lockedUntil);
+    expect(
+      await reserveLoginAttempt("10.9.9.9", "locked@example.com"),
+    ).toMatchObject({
+      allowed: false,
+      reason: "locked",
+      retryAfterSeconds: 15 * 60,
+    });
+
+    vi.setSystemTime(Date.now() + 15 * MINUTE);
+    expect(await getLockout("locked@example.com")).toBeNull();
+  });
+
+  it("takes back an attempt whose credentials were right", async () => {
+    await fail("10.0.0.9", "right@example.com", 2);
+    const third = await fail("10.0.0.9", "right@example.com", 1);
+    await releaseLoginAttempt("10.0.0.9", "right@example.com", third);
+    expect(
+      (await reserveLoginAttempt("10.0.0.9", "right@example.com")).allowed,
+    ).toBe(true);
+
+    await fail("10.0.1.0", "relock@example.com", 4);
+    const fifth = await fail("10.0.1.0", "relock@example.com", 1);
+    expect(fifth.lockedUntil).not.toBeNull();
+    await releaseLoginAttempt("10.0.1.0", "relock@example.com", fifth);
+    expect(await getLockout("relock@example.com")).toBeNull();
+  });
+
+  it("clears the email's counters on success and on unlock, but not the IP's", async () => {
+    await fail("10.0.0.5", "success@example.com", 3);
+    await recordLoginSuccess("success@example.com");
+    expect(
+      (await reserveLoginAttempt("10.0.0.6", "success@example.com")).allowed,
+    ).toBe(true);
+    expect(
+      (await reserveLoginAttempt("10.0.0.5", "other@example.com")).reason,
+    ).toBe("backoff");
+
+    await fail("10.0.0.7", "unlock@example.com", 5);
+    await unlockEmail("unlock@example.com");
+    expect(await getLockout("unlock@example.com")).toBeNull();
+  });
+
+  it("drops expired records from the memory store", async () => {
+    const store = new MemoryLoginAttemptStore();
+    const record = {
+      failures: 1,
+      lastFailureAt: new Date().toISOString(),
+      blockedUntil: null,
+      lockedUntil: null,
+    };
+    await store.update("ip:10.0.0.1", () => record);
+
+    vi.setSystemTime(Date.now() + 2 * 60 * MINUTE);
+    await store.update("ip:10.0.0.2", () => ({
+      ...record,
+      lastFailureAt: new Date().toISOString(),
+    }));
+    expect(await store.get("ip:10.0.0.1")).toBeNull();
+    expect(await store.get("ip:10.0.0.2")).not.toBeNull();
+  });
+});
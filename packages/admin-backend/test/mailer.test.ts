@@ -0,0 +1,47 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { fakeDb } from "./helpers/fakeFirestore";
+
+vi.mock("../src/config/firebaseAdmin", () => import("./helpers/fakeFirestore"));
+
+import { sendLoggedEmail } from "../src/services/mailer";
+
+describe("sendLoggedEmail", () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    fakeDb.reset();
+    vi.stubEnv("RESEND_API_KEY", "re_test");
+    vi.stubEnv("SMTP_FROM", "admin@example.com");
+    vi.stubGlobal("fetch", fetchMock);
+    fetchMock.mockReset().mockResolvedValue(new Response("{}"));
+    vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it("escapes the body before sending it as HTML", async () => {
+    const body = 'You wrote: <img src=x onerror="alert(1)"> & more\nThanks';
+    const sent = await sendLoggedEmail({
+      uid: "user-1",
+      to: "user@example.com",
+      subject: "Your appeal was denied",
+      body,
+      sentBy: "ops@example.com",
+    });
+    expect(sent).toBe(true);
+
+    const payload = JSON.parse(fetchMock.mock.calls[0][1].body);
+    expect(payload.text).toBe(body);
+    expect(payload.html).toContain(
+      "You wrote: &lt;img src=x onerror=&quot;alert(1)&quot;&gt; &amp; more<br>Thanks",
+    );
+    expect(payload.html).not.toContain("<img");
+
+    const logs = await fakeDb.collection("emailLogs").get();
+    expect(logs.docs[0].data()).toMatchObject({ body, sent: true });
+  });
+});
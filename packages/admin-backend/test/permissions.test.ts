@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import {
+  resolvePermissions,
+  ROLE_PERMISSIONS,
+} from "../src/config/permissions";
+import { requirePermission } from "../src/middleware/permissionMiddleware";
+import { mockRequest, run } from "./helpers/http";
+
+describe("permissions", () => {
+  it("gives super admins everything and admins everything but admin management", () => {
+    expect(resolvePermissions("super_admin")).toContain("admins:manage");
+    expect(resolvePermissions("admin")).not.toContain("admins:manage");
+    expect(resolvePermissions("admin")).toContain("credits:adjust");
+  });
+
+  it("adds known per-account grants and ignores unknown ones", () => {
+    const granted = resolvePermissions("support", [
+      "credits:adjust",
+      "root:all",
+    ]);
+    expect(granted).toEqual([...ROLE_PERMISSIONS.support, "credits:adjust"]);
+  });
+
+  it("lets a request through only with every required permission", async () => {
+    const guard = requirePermission("users:read", "users:ban");
+
+    const allowed = await run(
+      guard,
+      mockRequest({ adminPermissions: resolvePermissions("moderator") }),
+    );
+    expect(allowed.next).toHaveBeenCalledOnce();
+
+    const denied = await run(
+      guard,
+      mockRequest({ adminPermissions: resolvePermissions("support") }),
+    );
+    expect(denied.next).not.toHaveBeenCalled();
+    expect(denied.res.statusCode).toBe(403);
+    expect(denied.res.body).toEqual({
+      error: "Forbidden - missing permission: users:ban",
+    });
+  });
+});
@@ -0,0 +1,78 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { fakeDb } from "./helpers/fakeFirestore";
+import { mockRequest, mockResponse } from "./helpers/http";
+
+vi.mock("../src/config/firebaseAdmin", () => import("./helpers/fakeFirestore"));
+
+import { AdminRequest } from "../src/middleware/authMiddleware";
+import {
+  getRequestContext,
+  requestContext,
+} from "../src/middleware/requestContext";
+import {
+  AUDIT_LOGS_COLLECTION,
+  logAuditAction,
+} from "../src/services/auditLog";
+
+/** Run `handler` inside the request context, the way routes run after the middleware. */
+function withContext(req: AdminRequest, handler: () => Promise<void>) {
+  const res = mockResponse();
+  return new Promise<typeof res>((resolve, reject) => {
+    requestContext(req, res, () => {
+      handler().then(() => resolve(res), reject);
+    });
+  });
+}
+
+function apiRequest(headers: Record<string, string> = {}) {
+  return mockRequest({
+    method: "POST",
+    originalUrl: "/api/admin/users/user-1/ban?force=1",
+    ip: "10.0.0.1",
+    headers: { "user-agent": "vitest", ...headers },
+  });
+}
+
+describe("requestContext", () => {
+  beforeEach(() => fakeDb.reset());
+
+  it("stamps audit entries with the request that made them", async () => {
+    const req = apiRequest();
+    const res = await withContext(req, async () => {
+      // Set by requireAdmin after the middleware ran
+      req.sessionId = "sid-1";
+      await logAuditAction({
+        adminEmail: "ops@example.com",
+        action: "BAN_USER",
+        targetUid: "user-1",
+      });
+    });
+
+    const snapshot = await fakeDb.collection(AUDIT_LOGS_COLLECTION).get();
+    expect(snapshot.docs[0].data()).toMatchObject({
+      requestId: res.headers["X-Request-Id"],
+      route: "POST /api/admin/users/user-1/ban",
+      sessionId: "sid-1",
+      ipAddress: "10.0.0.1",
+      userAgent: "vitest",
+    });
+  });
+
+  it("keeps a well-formed upstream request id and replaces anything else", async () => {
+    const kept = await withContext(
+      apiRequest({ "x-request-id": "proxy-1234abcd" }),
+      async () => {},
+    );
+    expect(kept.headers["X-Request-Id"]).toBe("proxy-1234abcd");
+
+    const replaced = await withContext(
+      apiRequest({ "x-request-id": "<script>" }),
+      async () => {},
+    );
+    expect(replaced.headers["X-Request-Id"]).toMatch(/^[0-9a-f-]{36}$/);
+  });
+
+  it("has no context outside a request", () => {
+    expect(getRequestContext()).toBeNull();
+  });
+});
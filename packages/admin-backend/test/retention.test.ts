@@ -0,0 +1,179 @@
+import { afterAll, beforeEach, describe, expect, it, vi } from "vitest";
+import fs from "fs/promises";
+import { fakeDb } from "./helpers/fakeFirestore";
+
+// The archive store reads its directory from env at import
+const archiveDir = await vi.hoisted(async () => {
+  const { mkdtempSync } = await import("fs");
+  const { tmpdir } = await import("os");
+  const { join } = await import("path");
+  const dir = mkdtempSync(join(tmpdir(), "retention-test-"));
+  process.env.ADMIN_ARCHIVE_DIR = dir;
+  return dir;
+});
+
+vi.mock("../src/config/firebaseAdmin", () => import("./helpers/fakeFirestore"));
+
+import { logAuditAction } from "../src/services/auditLog";
+import { verifyAuditChain } from "../src/services/auditChain";
+import {
+  ArchiveRecord,
+  rehydrateArchives,
+  runRetention,
+  saveRetentionPolicy,
+  DEFAULT_RETENTION_POLICY,
+} from "../src/services/retention";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/** Write audit entries as if they were made `daysAgo` days ago */
+async function writeEntriesAt(daysAgo: number, count: number) {
+  vi.useFakeTimers({ toFake: ["Date"] });
+  vi.setSystemTime(Date.now() - daysAgo * DAY);
+  try {
+    for (let i = 0; i < count; i++) {
+      await logAuditAction({
+        adminEmail: "system",
+        action: "test_action",
+        details: { i },
+      });
+    }
+  } finally {
+    vi.useRealTimers();
+  }
+}
+
+async function archives() {
+  const snapshot = await fakeDb.collection("retentionArchives").get();
+  return snapshot.docs.map((doc) => doc.data() as ArchiveRecord);
+}
+
+describe("retention", () => {
+  beforeEach(() => fakeDb.reset());
+
+  afterAll(() => fs.rm(archiveDir, { recursive: true, force: true }));
+
+  it("leaves everything alone when no collection has a window", async () => {
+    await writeEntriesAt(400, 2);
+
+    const status = await runRetention("manual", "admin-1");
+    expect(status.results).toEqual([]);
+    expect((await fakeDb.collection("auditLogs").get()).size).toBe(2);
+  });
+
+  it("archives expired chained entries and moves the anchor so the chain still verifies", async () => {
+    await writeEntriesAt(100, 3);
+    await writeEntriesAt(1, 2);
+    await saveRetentionPolicy(
+      { ...DEFAULT_RETENTION_POLICY, auditLogs: 30 },
+      "admin-1",
+    );
+
+    const status = await runRetention("manual", "admin-1");
+    expect(status.error).toBeNull();
+    expect(status.results).toEqual([
+      { collection: "auditLogs", archived: 3, files: 1 },
+    ]);
+
+    const remaining = await fakeDb
+      .collection("auditLogs")
+      .orderBy("sequence")
+      .get();
+    expect(remaining.docs.map((doc) => doc.get("sequence"))).toEqual([4, 5]);
+    expect((await fakeDb.doc("auditChain/archive").get()).get("sequence")).toBe(
+      3,
+    );
+
+    const [archive] = await archives();
+    expect(archive).toMatchObject({
+      collection: "auditLogs",
+      count: 3,
+      store: "local",
+    });
+    await expect(fs.stat(`${archiveDir}/${archive.key}`)).resolves.toBeTruthy();
+
+    const verification = await verifyAuditChain("manual");
+    expect(verification.ok).toBe(true);
+    expect(verification.archivedThrough).toBe(3);
+    expect(verification.entriesChecked).toBe(2);
+  });
+
+  it("stops archiving at an entry that fails its hash", async () => {
+    await writeEntriesAt(100, 3);
+    const second = await fakeDb
+      .collection("auditLogs")
+      .where("sequence", "==", 2)
+      .get();
+    await second.docs[0].ref.update({ action: "edited" });
+    await saveRetentionPolicy(
+      { ...DEFAULT_RETENTION_POLICY, auditLogs: 30 },
+      "admin-1",
+    );
+
+    const status = await runRetention("manual");
+    expect(status.results).toEqual([
+      { collection: "auditLogs", archived: 1, files: 1 },
+    ]);
+
+    const verification = await verifyAuditChain("manual");
+    expect(verification.brokenAt).toMatchObject({
+      sequence: 2,
+      reason: "hash_mismatch",
+    });
+  });
+
+  it("round-trips archived entries through rehydration", async () => {
+    const oldSentAt = new Date(Date.now() - 90 * DAY).toISOString();
+    const recentSentAt = new Date(Date.now() - DAY).toISOString();
+    await fakeDb
+      .doc("emailLogs/old")
+      .set({ to: "a@example.com", sentAt: oldSentAt });
+    await fakeDb
+      .doc("emailLogs/recent")
+      .set({ to: "b@example.com", sentAt: recentSentAt });
+    await saveRetentionPolicy(
+      { ...DEFAULT_RETENTION_POLICY, emailLogs: 30 },
+      "admin-1",
+    );
+
+    await runRetention("scheduled");
+    expect(
+      fakeDb.paths().filter((path) => path.startsWith("emailLogs/")),
+    ).toEqual(["emailLogs/recent"]);
+
+    const result = await rehydrateArchives(
+      "emailLogs",
+      new Date(Date.now() - 100 * DAY).toISOString(),
+      new Date().toISOString(),
+      "admin-1",
+    );
+    expect(result).toEqual({
+      targetCollection: "rehydrated_emailLogs",
+      archives: 1,
+      rehydrated: 1,
+      truncated: false,
+    });
+    const copy = (await fakeDb.doc("rehydrated_emailLogs/old").get()).data();
+    expect(copy).toMatchObject({ to: "a@example.com", sentAt: oldSentAt });
+    expect(copy?._rehydration.rehydratedBy).toBe("admin-1");
+  });
+
+  it("refuses to rehydrate an archive whose checksum no longer matches", async () => {
+    await fakeDb.doc("emailLogs/old").set({
+      to: "a@example.com",
+      sentAt: new Date(Date.now() - 90 * DAY).toISOString(),
+    });
+    await saveRetentionPolicy(
+      { ...DEFAULT_RETENTION_POLICY, emailLogs: 30 },
+      "admin-1",
+    );
+    await runRetention("scheduled");
+
+    const [archive] = await archives();
+    await fs.appendFile(`${archiveDir}/${archive.key}`, "tampered");
+
+    await expect(
+      rehydrateArchives("emailLogs", archive.from, archive.to, "admin-1"),
+    ).rejects.toThrow(/checksum/);
+  });
+});
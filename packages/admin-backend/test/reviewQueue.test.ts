@@ -0,0 +1,234 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { fakeDb } from "./helpers/fakeFirestore";
+import { mockRequest, run } from "./helpers/http";
+
+vi.mock("../src/config/firebaseAdmin", () => import("./helpers/fakeFirestore"));
+
+import {
+  bulkBan,
+  bulkSetRole,
+  bulkSuspend,
+  bulkWarn,
+} from "../src/controllers/bulkModerationController";
+import { clearUserReview } from "../src/controllers/moderationController";
+import { issueWarning } from "../src/controllers/warningController";
+import {
+  REVIEW_CLAIM_TTL_MINUTES,
+  backfillReviewRiskScores,
+  claimReview,
+  listReviewQueue,
+  releaseReview,
+} from "../src/services/reviewQueue";
+
+const ONE = { adminId: "admin-1", adminEmail: "one@example.com" };
+const TWO = { adminId: "admin-2", adminEmail: "two@example.com" };
+const NOW = new Date("2025-01-01T00:00:00Z");
+
+async function flag(uid: string, data: Record<string, unknown> = {}) {
+  await fakeDb.doc(`users/${uid}`).set({ isUnderReview: true, ...data });
+}
+
+describe("review queue", () => {
+  beforeEach(() => {
+    fakeDb.reset();
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(NOW);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it("lets one admin hold a claim until it lapses", async () => {
+    await flag("user-1");
+
+    expect(await claimReview("user-1", ONE)).toMatchObject({
+      status: "claimed",
+    });
+    expect(await claimReview("user-1", TWO)).toMatchObject({
+      status: "claimed_by_other",
+      claim: { adminEmail: "one@example.com" },
+    });
+    expect(await releaseReview("user-1", TWO.adminId)).toMatchObject({
+      status: "claimed_by_other",
+    });
+
+    vi.setSystemTime(
+      NOW.getTime() + (REVIEW_CLAIM_TTL_MINUTES + 1) * 60 * 1000,
+    );
+    expect(await claimReview("user-1", TWO)).toMatchObject({
+      status: "claimed",
+      claim: { adminId: "admin-2" },
+    });
+  });
+
+  it("keeps the original claim time when the holder renews", async () => {
+    await flag("user-1");
+    await claimReview("user-1", ONE);
+
+    vi.setSystemTime(NOW.getTime() + 10 * 60 * 1000);
+    const renewed = await claimReview("user-1", ONE);
+    expect(renewed).toMatchObject({
+      status: "claimed",
+      claim: {
+        claimedAt: NOW.toISOString(),
+        expiresAt: new Date(
+          NOW.getTime() + (10 + REVIEW_CLAIM_TTL_MINUTES) * 60 * 1000,
+        ).toISOString(),
+      },
+    });
+    expect(await releaseReview("user-1", ONE.adminId)).toEqual({
+      status: "released",
+    });
+    expect(await releaseReview("user-1", ONE.adminId)).toEqual({
+      status: "not_claimed",
+    });
+  });
+
+  it("only claims users that are under review", async () => {
+    await fakeDb.doc("users/clean").set({});
+    expect(await claimReview("clean", ONE)).toEqual({
+      status: "not_under_review",
+    });
+    expect(await claimReview("missing", ONE)).toEqual({
+      status: "not_found",
+    });
+  });
+
+  it("lists the riskiest users first, a page at a time", async () => {
+    await flag("low", { riskScore: 20 });
+    await flag("high", { riskScore: 80 });
+    await flag("unscored", { riskScore: 0 });
+    await flag("low-older", { riskScore: 20 });
+    await fakeDb.doc("users/clean").set({ riskScore: 90 });
+    await claimReview("high", ONE);
+
+    const first = await listReviewQueue(2);
+    if (first.status !== "ok") throw new Error(first.status);
+    expect(first.page.entries.map((entry) => entry.uid)).toEqual([
+      "high",
+      "low-older",
+    ]);
+    expect(first.page.entries[0].claim).toMatchObject({ adminId: "admin-1" });
+    expect(first.page.entries[1].claim).toBeNull();
+    expect(first.page.nextCursor).toBe("low-older");
+
+    const second = await listReviewQueue(2, "low-older");
+    expect(second).toMatchObject({
+      status: "ok",
+      page: {
+        entries: [{ uid: "low" }, { uid: "unscored" }],
+        nextCursor: null,
+      },
+    });
+    expect(await listReviewQueue(2, "missing")).toEqual({
+      status: "invalid_cursor",
+    });
+  });
+
+  it("turns away queue actions on a user someone else has claimed", async () => {
+    await flag("user-1", { riskScore: 70 });
+    await claimReview("user-1", ONE);
+
+    const { res } = await run(
+      issueWarning,
+      mockRequest({
+        params: { uid: "user-1" },
+        body: { reason: "spam" },
+        adminId: "admin-2",
+      }),
+    );
+    expect(res.statusCode).toBe(409);
+    expect((await fakeDb.doc("users/user-1").get()).data()?.warningCount).toBe(
+      undefined,
+    );
+  });
+
+  it("refuses to clear a review someone else has claimed", async () => {
+    await flag("user-1", { riskScore: 70 });
+    await claimReview("user-1", ONE);
+    const clear = (adminId: string) =>
+      run(clearUserReview, mockRequest({ params: { uid: "user-1" }, adminId }));
+
+    expect((await clear("admin-2")).res.statusCode).toBe(409);
+    expect((await clear("admin-1")).res.statusCode).toBe(200);
+    expect((await fakeDb.doc("users/user-1").get()).data()).toMatchObject({
+      isUnderReview: false,
+      reviewClearedRiskScore: 70,
+    });
+    expect((await fakeDb.doc("reviewClaims/user-1").get()).exists).toBe(false);
+  });
+
+  it("fails bulk actions for users someone else has claimed", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    await flag("user-1", { riskScore: 70 });
+    await flag("user-2", { riskScore: 60 });
+    await claimReview("user-1", ONE);
+
+    const bulkCalls = [
+      [bulkSuspend, { reason: "spam" }],
+      [bulkBan, { reason: "spam" }],
+      [bulkWarn, { reason: "spam" }],
+      [bulkSetRole, { role: "creator" }],
+    ] as const;
+    for (const [handler, body] of bulkCalls) {
+      const { res } = await run(
+        handler,
+        mockRequest({
+          body: { uids: ["user-1", "user-2"], ...body },
+          adminId: "admin-2",
+          adminEmail: "two@example.com",
+        }),
+      );
+      expect(res.body).toMatchObject({
+        data: {
+          results: [
+            {
+              uid: "user-1",
+              status: "failed",
+              error: "Review is claimed by one@example.com",
+            },
+            { uid: "user-2" },
+          ],
+        },
+      });
+    }
+    expect((await fakeDb.doc("users/user-1").get()).data()).toEqual({
+      isUnderReview: true,
+      riskScore: 70,
+    });
+
+    const { res } = await run(
+      bulkWarn,
+      mockRequest({
+        body: { uids: ["user-1"], reason: "spam" },
+        adminId: "admin-1",
+        adminEmail: "one@example.com",
+      }),
+    );
+    expect(res.body).toMatchObject({ data: { summary: { ok: 1 } } });
+  });
+
+  it("backfills a riskScore so every flagged user is listed", async () => {
+    await flag("scored", { riskScore: 50 });
+    await flag("unscored");
+    await fakeDb.doc("users/not-flagged").set({ email: "x@example.com" });
+    const listed = async () => {
+      const result = await listReviewQueue(10);
+      return result.status === "ok"
+        ? result.page.entries.map((entry) => entry.uid)
+        : [];
+    };
+    expect(await listed()).toEqual(["scored"]);
+
+    expect(await backfillReviewRiskScores({ dryRun: true })).toBe(1);
+    expect(await listed()).toEqual(["scored"]);
+
+    expect(await backfillReviewRiskScores()).toBe(1);
+    expect(await listed()).toEqual(["scored", "unscored"]);
+    expect(
+      (await fakeDb.doc("users/not-flagged").get()).data()?.riskScore,
+    ).toBeUndefined();
+  });
+});
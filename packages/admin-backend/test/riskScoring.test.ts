@@ -0,0 +1,114 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { fakeDb } from "./helpers/fakeFirestore";
+
+vi.mock("../src/config/firebaseAdmin", () => import("./helpers/fakeFirestore"));
+
+import { rebuildLinkedAccountIndex } from "../src/services/linkedAccounts";
+import { rescoreAllUsers, scoreUser } from "../src/services/riskScoring";
+
+const SIGNUP = "2025-01-01T00:00:00.000Z";
+
+function login(deviceId: string, ip: string) {
+  return { deviceId, ip, timestamp: SIGNUP };
+}
+
+async function user(uid: string) {
+  return (await fakeDb.doc(`users/${uid}`).get()).data();
+}
+
+describe("risk scoring", () => {
+  beforeEach(() => fakeDb.reset());
+
+  it("adds up the rules that fire and flags the user past the threshold", async () => {
+    await fakeDb.doc("users/target").set({
+      warningCount: 2,
+      createdAt: SIGNUP,
+      loginHistory: [login("device-a", "198.51.100.1")],
+    });
+    await fakeDb.doc("users/banned-alt").set({
+      isBanned: true,
+      createdAt: "2025-01-01T06:00:00.000Z",
+      loginHistory: [login("device-a", "203.0.113.9")],
+    });
+    await fakeDb.doc("blockedIPs/198_51_100_1").set({ ip: "198.51.100.1" });
+    await rebuildLinkedAccountIndex();
+
+    const assessment = await scoreUser("target", "manual");
+    expect(assessment?.reasons.map((r) => [r.signal, r.points])).toEqual([
+      ["warnings", 20],
+      ["linked_banned", 25],
+      ["blocked_identifiers", 20],
+      ["signup_burst", 10],
+    ]);
+    expect(assessment).toMatchObject({ score: 75, flagged: true });
+    expect(await user("target")).toMatchObject({
+      riskScore: 75,
+      riskScoreTrigger: "manual",
+      isUnderReview: true,
+      reviewFlaggedBy: "system",
+    });
+  });
+
+  it("scores failed generations only once there are enough of them", async () => {
+    await fakeDb.doc("users/target").set({});
+    const addGenerations = async (statuses: string[]) => {
+      for (const [i, status] of statuses.entries()) {
+        await fakeDb.collection("generations").add({
+          createdBy: { uid: "target" },
+          createdAt: `2025-01-01T00:00:${String(i).padStart(2, "0")}.000Z`,
+          status,
+        });
+      }
+    };
+
+    await addGenerations(Array(9).fill("failed"));
+    expect((await scoreUser("target", "manual"))?.score).toBe(0);
+
+    await addGenerations(["completed"]);
+    expect((await scoreUser("target", "manual"))?.reasons).toEqual([
+      {
+        signal: "failed_generations",
+        points: 25,
+        detail: "9 of the last 10 generations failed",
+      },
+    ]);
+  });
+
+  it("leaves a cleared review alone until the score climbs past it", async () => {
+    await fakeDb.doc("users/target").set({
+      warningCount: 3,
+      reviewClearedRiskScore: 30,
+    });
+    await fakeDb.doc("users/other").set({ isBanned: true, warningCount: 9 });
+
+    expect(await rescoreAllUsers()).toEqual({
+      scored: 1,
+      flagged: 0,
+      failed: 0,
+    });
+    expect(await user("target")).toMatchObject({ riskScore: 30 });
+    expect((await user("target"))?.isUnderReview).toBeUndefined();
+    expect((await user("other"))?.riskScore).toBeUndefined();
+  });
+
+  it("reads at most the budget per run and carries on where it stopped", async () => {
+    for (const uid of ["a", "b", "c", "d", "e"]) {
+      await fakeDb.doc(`users/${uid}`).set({ warningCount: 1 });
+    }
+    const run = () => rescoreAllUsers({ maxUsers: 2, pauseMs: 0 });
+
+    expect((await run()).scored).toBe(2);
+    expect(
+      (await fakeDb.doc("adminSettings/riskRescore").get()).data(),
+    ).toMatchObject({ cursor: "b" });
+    expect((await run()).scored).toBe(2);
+    expect((await run()).scored).toBe(1);
+    expect(
+      (await fakeDb.doc("adminSettings/riskRescore").get()).data()?.cursor,
+    ).toBeNull();
+    expect((await user("e"))?.riskScore).toBe(10);
+
+    // Past the end, the next run starts over
+    expect((await run()).scored).toBe(2);
+  });
+});
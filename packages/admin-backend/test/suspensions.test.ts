@@ -0,0 +1,78 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { fakeDb } from "./helpers/fakeFirestore";
+
+vi.mock("../src/config/firebaseAdmin", () => import("./helpers/fakeFirestore"));
+vi.mock("../src/services/mailer", () => ({
+  sendLoggedEmail: vi.fn().mockResolvedValue(true),
+}));
+
+import { env } from "../src/config/env";
+import { AUDIT_LOGS_COLLECTION } from "../src/services/auditLog";
+import { sendLoggedEmail } from "../src/services/mailer";
+import { expireSuspensions } from "../src/services/suspensions";
+
+const NOW = new Date("2025-01-10T00:00:00Z");
+
+async function suspend(uid: string, suspendedUntil: string) {
+  await fakeDb.doc(`users/${uid}`).set({
+    email: `${uid}@example.com`,
+    isSuspended: true,
+    suspendReason: "spam",
+    suspendedBy: "ops@example.com",
+    suspendedUntil,
+  });
+}
+
+describe("expireSuspensions", () => {
+  beforeEach(async () => {
+    fakeDb.reset();
+    vi.mocked(sendLoggedEmail).mockClear();
+    await suspend("expired", "2025-01-09T00:00:00.000Z");
+    await suspend("active", "2025-01-11T00:00:00.000Z");
+  });
+
+  afterEach(() => {
+    env.suspensionExpiryEmail = false;
+  });
+
+  it("lifts only suspensions that have run out, as the system", async () => {
+    expect(await expireSuspensions(NOW)).toEqual({ expired: 1, failed: 0 });
+
+    const expired = (await fakeDb.doc("users/expired").get()).data();
+    expect(expired).toMatchObject({ isSuspended: false });
+    expect(expired).not.toHaveProperty("suspendedUntil");
+    expect((await fakeDb.doc("users/active").get()).data()?.isSuspended).toBe(
+      true,
+    );
+
+    const audit = await fakeDb.collection(AUDIT_LOGS_COLLECTION).get();
+    expect(audit.docs.map((doc) => doc.data())).toEqual([
+      expect.objectContaining({
+        adminId: "system",
+        action: "UNSUSPEND_USER",
+        targetUid: "expired",
+        details: expect.objectContaining({
+          reason: "suspension_expired",
+          suspendReason: "spam",
+        }),
+      }),
+    ]);
+    expect(sendLoggedEmail).not.toHaveBeenCalled();
+  });
+
+  it("emails the user when expiry emails are on", async () => {
+    env.suspensionExpiryEmail = true;
+
+    await expireSuspensions(NOW);
+    expect(sendLoggedEmail).toHaveBeenCalledOnce();
+    expect(vi.mocked(sendLoggedEmail).mock.calls[0][0]).toMatchObject({
+      uid: "expired",
+      to: "expired@example.com",
+    });
+  });
+
+  it("does nothing once the backlog is cleared", async () => {
+    await expireSuspensions(NOW);
+    expect(await expireSuspensions(NOW)).toEqual({ expired: 0, failed: 0 });
+  });
+});
@@ -0,0 +1,149 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { fakeDb } from "./helpers/fakeFirestore";
+
+vi.mock("../src/config/firebaseAdmin", () => import("./helpers/fakeFirestore"));
+
+import {
+  confirmPendingSecret,
+  consumeRecoveryCode,
+  getTwoFactor,
+  replaceRecoveryCodes,
+  savePendingSecret,
+  verifyTwoFactorCode,
+} from "../src/services/adminTwoFactor";
+import { decryptSecret, encryptSecret } from "../src/utils/secretBox";
+import { generateCode, generateSecret, matchCodeStep } from "../src/utils/totp";
+
+// RFC 6238 appendix B secret ("12345678901234567890")
+const RFC_SECRET = "GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ";
+const STEP_MS = 30 * 1000;
+
+const currentStep = () => Math.floor(Date.now() / STEP_MS);
+
+async function enroll(adminId: string) {
+  const secret = generateSecret();
+  await savePendingSecret(adminId, secret);
+  const recoveryCodes = await confirmPendingSecret(
+    adminId,
+    generateCode(secret, currentStep()),
+  );
+  return { secret, recoveryCodes: recoveryCodes as string[] };
+}
+
+describe("totp", () => {
+  it("matches the RFC 6238 SHA-1 test vector", () => {
+    expect(generateCode(RFC_SECRET, 1)).toBe("287082");
+    expect(matchCodeStep(RFC_SECRET, "287082", 1, 59 * 1000)).toBe(1);
+  });
+
+  it("accepts one step of drift either side and nothing further", () => {
+    const now = 1_000 * STEP_MS;
+    const step = (counter: number) =>
+      matchCodeStep(RFC_SECRET, generateCode(RFC_SECRET, counter), 1, now);
+    expect(step(999)).toBe(999);
+    expect(step(1001)).toBe(1001);
+    expect(step(998)).toBeNull();
+    expect(matchCodeStep(RFC_SECRET, "12345", 1, now)).toBeNull();
+  });
+
+  it("round-trips secrets through the secret box", () => {
+    const sealed = encryptSecret(RFC_SECRET);
+    expect(sealed).not.toContain(RFC_SECRET);
+    expect(decryptSecret(sealed)).toBe(RFC_SECRET);
+  });
+});
+
+describe("admin two-factor", () => {
+  beforeEach(() => {
+    fakeDb.reset();
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2025-01-01T00:00:00Z"));
+  });
+
+  afterEach(() => vi.useRealTimers());
+
+  it("only enables a pending secret with a valid code, and stores it encrypted", async () => {
+    const secret = generateSecret();
+    await savePendingSecret("admin-2", secret);
+    expect(await confirmPendingSecret("admin-2", "000000")).toBeNull();
+    expect((await getTwoFactor("admin-2"))?.enabled).toBeUndefined();
+
+    const codes = await confirmPendingSecret(
+      "admin-2",
+      generateCode(secret, currentStep()),
+    );
+    expect(codes).toHaveLength(10);
+    const record = await getTwoFactor("admin-2");
+    expect(record?.enabled).toBe(true);
+    expect(record?.pendingSecret).toBeUndefined();
+    expect(record?.secret).not.toContain(secret);
+  });
+
+  it("verifies codes for the enrolled secret only", async () => {
+    const { secret } = await enroll("admin-2");
+
+    vi.setSystemTime(Date.now() + STEP_MS);
+    expect(
+      await verifyTwoFactorCode("admin-2", generateCode(secret, currentStep())),
+    ).toBe(true);
+    expect(
+      await verifyTwoFactorCode(
+        "admin-2",
+        generateCode(generateSecret(), currentStep()),
+      ),
+    ).toBe(false);
+    expect(
+      await verifyTwoFactorCode("admin-3", generateCode(secret, currentStep())),
+    ).toBe(false);
+  });
+
+  it("rejects a code that was already used, including the enrollment code", async () => {
+    const { secret } = await enroll("admin-2");
+    const enrollmentCode = generateCode(secret, currentStep());
+    expect(await verifyTwoFactorCode("admin-2", enrollmentCode)).toBe(false);
+
+    vi.setSystemTime(Date.now() + STEP_MS);
+    const code = generateCode(secret, currentStep());
+    expect(await verifyTwoFactorCode("admin-2", code)).toBe(true);
+    expect(await verifyTwoFactorCode("admin-2", code)).toBe(false);
+
+    // Still inside the drift window, but older than the last accepted step
+    expect(await verifyTwoFactorCode("admin-2", enrollmentCode)).toBe(false);
+  });
+
+  it("lets only one of two concurrent requests use a code", async () => {
+    const { secret } = await enroll("admin-2");
+    vi.setSystemTime(Date.now() + STEP_MS);
+    const code = generateCode(secret, currentStep());
+
+    const results = await Promise.all([
+      verifyTwoFactorCode("admin-2", code),
+      verifyTwoFactorCode("admin-2", code),
+    ]);
+    expect(results.sort()).toEqual([false, true]);
+  });
+
+  it("burns a recovery code on first use, even when used twice at once", async () => {
+    const { recoveryCodes } = await enroll("admin-2");
+    const [first, second] = recoveryCodes;
+
+    const results = await Promise.all([
+      consumeRecoveryCode("admin-2", first),
+      consumeRecoveryCode("admin-2", first),
+    ]);
+    expect(results.sort()).toEqual([false, true]);
+    expect(await consumeRecoveryCode("admin-2", first)).toBe(false);
+    expect(
+      await consumeRecoveryCode("admin-2", ` ${second.toUpperCase()} `),
+    ).toBe(true);
+    expect((await getTwoFactor("admin-2"))?.recoveryCodeHashes).toHaveLength(8);
+  }, 30_000);
+
+  it("invalidates old recovery codes when they are replaced", async () => {
+    const { recoveryCodes } = await enroll("admin-2");
+    const fresh = await replaceRecoveryCodes("admin-2");
+
+    expect(await consumeRecoveryCode("admin-2", recoveryCodes[0])).toBe(false);
+    expect(await consumeRecoveryCode("admin-2", fresh[0])).toBe(true);
+  }, 30_000);
+});
@@ -0,0 +1,110 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { fakeDb } from "./helpers/fakeFirestore";
+import { mockRequest, run } from "./helpers/http";
+
+vi.mock("../src/config/firebaseAdmin", () => import("./helpers/fakeFirestore"));
+
+import {
+  addUserNote,
+  getUserNotes,
+  setUserNotePinned,
+} from "../src/controllers/userNotesController";
+
+type NotesBody = { data: { notes: { id: string; body: string }[] } };
+
+function addNote(body: string, pinned?: boolean) {
+  vi.setSystemTime(Date.now() + 1000);
+  return run(
+    addUserNote,
+    mockRequest({
+      params: { uid: "user-1" },
+      body: { body, pinned },
+      adminEmail: "ops@example.com",
+    }),
+  );
+}
+
+function pin(noteId: string, pinned: boolean, uid = "user-1") {
+  return run(
+    setUserNotePinned,
+    mockRequest({ params: { uid, noteId }, body: { pinned } }),
+  );
+}
+
+async function listNotes() {
+  const { res } = await run(
+    getUserNotes,
+    mockRequest({ params: { uid: "user-1" } }),
+  );
+  return (res.body as NotesBody).data.notes;
+}
+
+async function user() {
+  return (await fakeDb.doc("users/user-1").get()).data();
+}
+
+describe("admin notes on users", () => {
+  beforeEach(async () => {
+    fakeDb.reset();
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2025-01-01T00:00:00Z"));
+    await fakeDb.doc("users/user-1").set({ email: "user@example.com" });
+  });
+
+  afterEach(() => vi.useRealTimers());
+
+  it("lists pinned notes first, then newest first, and keeps the counters", async () => {
+    await addNote("Older");
+    const pinned = await addNote("Known chargeback abuser", true);
+    await addNote("Newest");
+
+    expect((await listNotes()).map((n) => n.body)).toEqual([
+      "Known chargeback abuser",
+      "Newest",
+      "Older",
+    ]);
+    expect(await user()).toMatchObject({
+      adminNoteCount: 3,
+      pinnedAdminNoteCount: 1,
+    });
+    expect(pinned.res.body).toMatchObject({
+      data: { note: { pinned: true, pinnedBy: "ops@example.com" } },
+    });
+  });
+
+  it("only counts and audits pin changes that change something", async () => {
+    const { res } = await addNote("Watch this one");
+    const noteId = (res.body as { data: { note: { id: string } } }).data.note
+      .id;
+
+    await pin(noteId, true);
+    await pin(noteId, true);
+    expect((await user())?.pinnedAdminNoteCount).toBe(1);
+    await pin(noteId, false);
+    expect((await user())?.pinnedAdminNoteCount).toBe(0);
+
+    const audits = await fakeDb
+      .collection("auditLogs")
+      .where("targetUid", "==", "user-1")
+      .get();
+    expect(audits.docs.map((doc) => doc.data()?.action).sort()).toEqual([
+      "ADD_ADMIN_NOTE",
+      "PIN_ADMIN_NOTE",
+      "UNPIN_ADMIN_NOTE",
+    ]);
+  });
+
+  it("refuses notes for missing users and pins on another user's note", async () => {
+    const { res } = await addNote("Hello");
+    const noteId = (res.body as { data: { note: { id: string } } }).data.note
+      .id;
+
+    expect((await pin(noteId, true, "user-2")).res.statusCode).toBe(404);
+    const missing = await run(
+      addUserNote,
+      mockRequest({ params: { uid: "user-2" }, body: { body: "Hi" } }),
+    );
+    expect(missing.res.statusCode).toBe(404);
+    expect((await addNote("   ")).res.statusCode).toBe(400);
+  });
+});
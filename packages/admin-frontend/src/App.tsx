@@ -15,6 +15,16 @@ import IPManagementPage from './pages/IPManagementPage';
 import AuditLogPage from './pages/AuditLogPage';
 import FeatureFlagsPage from './pages/FeatureFlagsPage';
 import BroadcastPage from './pages/BroadcastPage';
+import AdminUsersPage from './pages/AdminUsersPage';
+import AccountSecurityPage from './pages/AccountSecurityPage';
+import AdminSessionsPage from './pages/AdminSessionsPage';
+import ApiKeysPage from './pages/ApiKeysPage';
+import ApprovalsPage from './pages/ApprovalsPage';
+import RetentionPage from './pages/RetentionPage';
+import EscalationRulesPage from './pages/EscalationRulesPage';
+import CasesPage from './pages/CasesPage';
+import AppealsPage from './pages/AppealsPage';
+import ReviewQueuePage from './pages/ReviewQueuePage';
 
 function ProtectedRoute({ children }: { children: React.ReactNode }) {
   const { isAuthenticated, loading } = useAuth();
@@ -54,6 +64,16 @@ function App() {
                 <Route path="/audit-log" element={<AuditLogPage />} />
                 <Route path="/feature-flags" element={<FeatureFlagsPage />} />
                 <Route path="/broadcast" element={<BroadcastPage />} />
+                <Route path="/admin-users" element={<AdminUsersPage />} />
+                <Route path="/account/security" element={<AccountSecurityPage />} />
+                <Route path="/admin-sessions" element={<AdminSessionsPage />} />
+                <Route path="/api-keys" element={<ApiKeysPage />} />
+                <Route path="/approvals" element={<ApprovalsPage />} />
+                <Route path="/retention" element={<RetentionPage />} />
+                <Route path="/escalation-rules" element={<EscalationRulesPage />} />
+                <Route path="/cases" element={<CasesPage />} />
+                <Route path="/appeals" element={<AppealsPage />} />
+                <Route path="/review-queue" element={<ReviewQueuePage />} />
                 <Route path="/" element={<Navigate to="/dashboard" replace />} />
               </Route>
             </Routes>
@@ -0,0 +1,83 @@
+import { useState, useEffect } from 'react';
+import { Alert, Button, CircularProgress } from '@mui/material';
+import axios from 'axios';
+import { apiErrorMessage } from '../../utils/apiError';
+
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:5001/api/admin';
+
+interface AuditChainVerification {
+  ok: boolean;
+  checkedAt: string;
+  entriesChecked: number;
+  brokenAt: { sequence: number; entryId: string | null; reason: string } | null;
+  trigger: 'scheduled' | 'manual';
+}
+
+const BREAK_REASONS: Record<string, string> = {
+  missing_entry: 'an entry was deleted',
+  prev_hash_mismatch: 'an entry was re-linked',
+  hash_mismatch: 'an entry was edited',
+};
+
+/**
+ * Dashboard banner with the latest audit hash chain verification result.
+ */
+export default function AuditIntegrityStatus() {
+  const [verification, setVerification] = useState<AuditChainVerification | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [verifying, setVerifying] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    axios
+      .get(`${API_BASE_URL}/audit-logs/integrity`, { withCredentials: true })
+      .then((res) => setVerification(res.data.data.verification))
+      .catch((err) => setError(apiErrorMessage(err, 'Failed to load audit integrity')))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const verifyNow = async () => {
+    try {
+      setVerifying(true);
+      setError('');
+      const res = await axios.post(`${API_BASE_URL}/audit-logs/verify`, {}, { withCredentials: true });
+      setVerification(res.data.data.verification);
+    } catch (err) {
+      setError(apiErrorMessage(err, 'Verification failed'));
+    } finally {
+      setVerifying(false);
+    }
+  };
+
+  if (loading) return null;
+
+  const action = (
+    <Button color="inherit" size="small" disabled={verifying} onClick={verifyNow} startIcon={verifying ? <CircularProgress size={14} color="inherit" /> : undefined}>
+      Verify now
+    </Button>
+  );
+
+  if (error) {
+    return <Alert severity="warning" action={action} sx={{ mb: 3 }}>{error}</Alert>;
+  }
+  if (!verification) {
+    return <Alert severity="info" action={action} sx={{ mb: 3 }}>The audit trail has not been verified yet.</Alert>;
+  }
+
+  const checked = new Date(verification.checkedAt).toLocaleString();
+  if (verification.ok) {
+    return (
+      <Alert severity="success" action={action} sx={{ mb: 3 }}>
+        Audit trail intact — {verification.entriesChecked} entries verified {checked} ({verification.trigger}).
+      </Alert>
+    );
+  }
+  const broken = verification.brokenAt;
+  return (
+    <Alert severity="error" action={action} sx={{ mb: 3 }}>
+      Audit trail tampering detected at entry #{broken?.sequence}
+      {broken && ` — ${BREAK_REASONS[broken.reason] || broken.reason}`}
+      {broken?.entryId && ` (${broken.entryId})`}. Last checked {checked}.
+    </Alert>
+  );
+}
@@ -0,0 +1,184 @@
+import { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Typography,
+  Box,
+  Chip,
+  CircularProgress,
+  Alert,
+  TextField,
+  Select,
+  MenuItem,
+  FormControl,
+  InputLabel,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+} from '@mui/material';
+import axios from 'axios';
+import { useSnackbar } from './SnackbarProvider';
+import { apiErrorMessage } from '../../utils/apiError';
+
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:5001/api/admin';
+
+export type BulkAction = 'suspend' | 'ban' | 'force-logout' | 'warnings' | 'role';
+
+export interface BulkUserResult {
+  uid: string;
+  status: 'ok' | 'pending_approval' | 'skipped' | 'failed';
+  detail?: string;
+  error?: string;
+  approvalId?: string;
+}
+
+interface BulkTarget {
+  uid: string;
+  label: string;
+}
+
+interface BulkModerationDialogProps {
+  open: boolean;
+  action: BulkAction | null;
+  users: BulkTarget[];
+  onClose: () => void;
+  onDone: (results: BulkUserResult[]) => void;
+}
+
+export const BULK_ACTION_LABELS: Record<BulkAction, string> = {
+  suspend: 'Suspend',
+  ban: 'Ban',
+  'force-logout': 'Force logout',
+  warnings: 'Warn',
+  role: 'Set role',
+};
+
+const STATUS_COLORS: Record<BulkUserResult['status'], 'success' | 'info' | 'default' | 'error'> = {
+  ok: 'success',
+  pending_approval: 'info',
+  skipped: 'default',
+  failed: 'error',
+};
+
+const ROLES = ['user', 'premium', 'creator', 'moderator', 'admin'];
+
+export default function BulkModerationDialog({ open, action, users, onClose, onDone }: BulkModerationDialogProps) {
+  const { showSnackbar } = useSnackbar();
+  const [reason, setReason] = useState('');
+  const [until, setUntil] = useState('');
+  const [role, setRole] = useState('user');
+  const [submitting, setSubmitting] = useState(false);
+  const [results, setResults] = useState<BulkUserResult[] | null>(null);
+
+  useEffect(() => {
+    if (open) {
+      setReason(''); setUntil(''); setRole('user'); setResults(null);
+    }
+  }, [open, action]);
+
+  if (!action) return null;
+
+  const reasonRequired = action === 'suspend' || action === 'ban' || action === 'warnings';
+  const labels = new Map(users.map((u) => [u.uid, u.label]));
+
+  const handleSubmit = async () => {
+    try {
+      setSubmitting(true);
+      const body: Record<string, unknown> = { uids: users.map((u) => u.uid) };
+      if (action !== 'role') body.reason = reason;
+      if (action === 'suspend' && until) body.suspendedUntil = until;
+      if (action === 'role') body.role = role;
+      const res = await axios.post(`${API_BASE_URL}/bulk/${action}`, body, { withCredentials: true });
+      const data = res.data.data;
+      setResults(data.results);
+      showSnackbar(res.data.message, data.summary.failed ? 'warning' : 'success');
+      onDone(data.results);
+    } catch (err) {
+      showSnackbar(apiErrorMessage(err, 'Bulk action failed'), 'error');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={submitting ? undefined : onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>
+        {BULK_ACTION_LABELS[action]} {users.length} user{users.length !== 1 ? 's' : ''}
+      </DialogTitle>
+      <DialogContent dividers>
+        {results ? (
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell><strong>User</strong></TableCell>
+                <TableCell><strong>Result</strong></TableCell>
+                <TableCell><strong>Detail</strong></TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {results.map((r) => (
+                <TableRow key={r.uid}>
+                  <TableCell sx={{ fontSize: '0.75rem', wordBreak: 'break-all' }}>{labels.get(r.uid) || r.uid}</TableCell>
+                  <TableCell><Chip label={r.status.replace('_', ' ')} size="small" color={STATUS_COLORS[r.status]} /></TableCell>
+                  <TableCell sx={{ fontSize: '0.75rem' }}>{r.error || r.detail || ''}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        ) : (
+          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+            {action === 'ban' && (
+              <Alert severity="warning">Bans may be held for a second admin's approval, depending on the approval policy.</Alert>
+            )}
+            {action !== 'role' && (
+              <TextField
+                fullWidth
+                size="small"
+                label={reasonRequired ? 'Reason *' : 'Reason (optional)'}
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                helperText="Recorded against every selected user"
+              />
+            )}
+            {action === 'suspend' && (
+              <TextField size="small" type="date" label="Until (optional)" InputLabelProps={{ shrink: true }} value={until} onChange={(e) => setUntil(e.target.value)} />
+            )}
+            {action === 'role' && (
+              <FormControl size="small" fullWidth>
+                <InputLabel>Role</InputLabel>
+                <Select value={role} label="Role" onChange={(e) => setRole(e.target.value)}>
+                  {ROLES.map((r) => <MenuItem key={r} value={r}>{r}</MenuItem>)}
+                </Select>
+              </FormControl>
+            )}
+            <Box>
+              <Typography variant="caption" color="text.secondary">Selected users</Typography>
+              <Box sx={{ display: 'flex', gap: 0.5, flexWrap: 'wrap', mt: 0.5, maxHeight: 160, overflowY: 'auto' }}>
+                {users.map((u) => <Chip key={u.uid} label={u.label} size="small" variant="outlined" />)}
+              </Box>
+            </Box>
+          </Box>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={submitting}>{results ? 'Close' : 'Cancel'}</Button>
+        {!results && (
+          <Button
+            variant="contained"
+            color={action === 'ban' ? 'error' : action === 'role' ? 'primary' : 'warning'}
+            startIcon={submitting ? <CircularProgress size={16} /> : undefined}
+            disabled={submitting || (reasonRequired && !reason.trim())}
+            onClick={handleSubmit}
+          >
+            {BULK_ACTION_LABELS[action]}
+          </Button>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+}
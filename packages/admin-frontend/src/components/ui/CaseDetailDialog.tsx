@@ -0,0 +1,386 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Typography,
+  Box,
+  Chip,
+  Divider,
+  CircularProgress,
+  Alert,
+  IconButton,
+  TextField,
+  Select,
+  MenuItem,
+  FormControl,
+  InputLabel,
+  Paper,
+  List,
+  ListItem,
+  ListItemText,
+} from '@mui/material';
+import {
+  Close as CloseIcon,
+  Delete as DeleteIcon,
+  Add as AddIcon,
+  Link as LinkIcon,
+  LinkOff as UnlinkIcon,
+  Reply as ReplyIcon,
+} from '@mui/icons-material';
+import axios from 'axios';
+import { useSnackbar } from './SnackbarProvider';
+import { useAuth } from '../../contexts/AuthContext';
+import { apiErrorMessage } from '../../utils/apiError';
+
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:5001/api/admin';
+
+export type CaseStatus = 'open' | 'investigating' | 'resolved';
+type EvidenceType = 'generation' | 'ip' | 'device' | 'warning';
+
+export interface CaseEvidence {
+  id: string;
+  type: EvidenceType;
+  ref: string;
+  note: string | null;
+  addedBy: string;
+  addedAt: string;
+}
+
+export interface ModerationCase {
+  id: string;
+  subjectType: 'user' | 'generation';
+  subjectId: string;
+  subjectUid: string | null;
+  title: string;
+  description: string;
+  status: CaseStatus;
+  assigneeId: string | null;
+  assigneeEmail: string | null;
+  evidence: CaseEvidence[];
+  linkedAuditIds: string[];
+  noteCount: number;
+  createdByEmail: string;
+  createdAt: string;
+  updatedAt: string;
+  resolvedAt: string | null;
+  resolvedBy: string | null;
+  resolution: string | null;
+}
+
+interface CaseNote {
+  id: string;
+  parentId: string | null;
+  body: string;
+  authorEmail: string;
+  createdAt: string;
+}
+
+interface AuditEntry {
+  id: string;
+  action: string;
+  adminEmail: string;
+  createdAt: string;
+  details?: { reason?: string };
+}
+
+export interface CaseAssignee {
+  id: string;
+  email: string;
+  username: string;
+}
+
+interface CaseDetailDialogProps {
+  open: boolean;
+  caseId: string | null;
+  assignees: CaseAssignee[];
+  onClose: () => void;
+  onChanged: () => void;
+}
+
+export const CASE_STATUS_COLORS: Record<CaseStatus, 'error' | 'warning' | 'success'> = {
+  open: 'error',
+  investigating: 'warning',
+  resolved: 'success',
+};
+
+const EVIDENCE_LABELS: Record<EvidenceType, string> = {
+  generation: 'Generation',
+  ip: 'IP address',
+  device: 'Device',
+  warning: 'Warning',
+};
+
+export default function CaseDetailDialog({ open, caseId, assignees, onClose, onChanged }: CaseDetailDialogProps) {
+  const { showSnackbar } = useSnackbar();
+  const { hasPermission } = useAuth();
+  const canWrite = hasPermission('cases:write');
+  const canReadAudit = hasPermission('audit:read');
+
+  const [moderationCase, setModerationCase] = useState<ModerationCase | null>(null);
+  const [notes, setNotes] = useState<CaseNote[]>([]);
+  const [linkedActions, setLinkedActions] = useState<AuditEntry[]>([]);
+  const [recentActions, setRecentActions] = useState<AuditEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [actionLoading, setActionLoading] = useState<string | null>(null);
+  const [resolution, setResolution] = useState('');
+  const [evidenceForm, setEvidenceForm] = useState({ type: 'generation' as EvidenceType, ref: '', note: '' });
+  const [noteText, setNoteText] = useState('');
+  const [replyTo, setReplyTo] = useState<string | null>(null);
+  const [replyText, setReplyText] = useState('');
+
+  const fetchCase = useCallback(async () => {
+    if (!caseId) return;
+    try {
+      const res = await axios.get(`${API_BASE_URL}/cases/${caseId}`, { withCredentials: true });
+      if (res.data.success) {
+        const data = res.data.data;
+        setModerationCase(data.case);
+        setNotes(data.notes);
+        setLinkedActions(data.linkedActions);
+        setResolution(data.case.resolution || '');
+        if (canReadAudit && data.case.subjectUid) {
+          const audit = await axios.get(`${API_BASE_URL}/audit-logs`, {
+            params: { targetUid: data.case.subjectUid, limit: 20 },
+            withCredentials: true,
+          }).catch(() => null);
+          setRecentActions(audit?.data?.data?.logs || []);
+        }
+      }
+    } catch (err) {
+      showSnackbar(apiErrorMessage(err, 'Failed to fetch case'), 'error');
+    } finally {
+      setLoading(false);
+    }
+  }, [caseId, canReadAudit, showSnackbar]);
+
+  useEffect(() => {
+    if (open && caseId) {
+      setLoading(true);
+      setRecentActions([]);
+      setNoteText(''); setReplyTo(null); setReplyText('');
+      setEvidenceForm({ type: 'generation', ref: '', note: '' });
+      fetchCase();
+    } else {
+      setModerationCase(null);
+    }
+  }, [open, caseId, fetchCase]);
+
+  const run = async (key: string, request: () => Promise<unknown>, success: string) => {
+    try {
+      setActionLoading(key);
+      await request();
+      showSnackbar(success, 'success');
+      await fetchCase();
+      onChanged();
+      return true;
+    } catch (err) {
+      showSnackbar(apiErrorMessage(err, 'Action failed'), 'error');
+      return false;
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
+  const updateCase = (changes: Record<string, unknown>) =>
+    run('update', () => axios.put(`${API_BASE_URL}/cases/${caseId}`, changes, { withCredentials: true }), 'Case updated');
+
+  const addEvidence = async () => {
+    const ok = await run('evidence', () => axios.post(`${API_BASE_URL}/cases/${caseId}/evidence`, evidenceForm, { withCredentials: true }), 'Evidence attached');
+    if (ok) setEvidenceForm({ ...evidenceForm, ref: '', note: '' });
+  };
+
+  const addNote = async (body: string, parentId?: string) => {
+    const ok = await run('note', () => axios.post(`${API_BASE_URL}/cases/${caseId}/notes`, { body, parentId }, { withCredentials: true }), 'Note added');
+    if (ok) {
+      if (parentId) { setReplyTo(null); setReplyText(''); }
+      else setNoteText('');
+    }
+  };
+
+  const formatDate = (value: string | null) => (value ? new Date(value).toLocaleString() : 'N/A');
+  const linkedIds = new Set(moderationCase?.linkedAuditIds || []);
+  const threads = notes.filter((n) => !n.parentId);
+  const repliesTo = (id: string) => notes.filter((n) => n.parentId === id);
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+        <Box sx={{ flexGrow: 1, minWidth: 0 }}>
+          <Typography variant="h6" noWrap>{moderationCase?.title || 'Case'}</Typography>
+          {moderationCase && (
+            <Typography variant="caption" color="text.secondary">
+              {moderationCase.subjectType === 'user' ? 'User' : 'Generation'} {moderationCase.subjectId}
+              {moderationCase.subjectType === 'generation' && moderationCase.subjectUid && ` by ${moderationCase.subjectUid}`}
+              {' · '}opened by {moderationCase.createdByEmail} on {formatDate(moderationCase.createdAt)}
+            </Typography>
+          )}
+        </Box>
+        <IconButton onClick={onClose}><CloseIcon /></IconButton>
+      </DialogTitle>
+      <DialogContent dividers>
+        {loading || !moderationCase ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 6 }}><CircularProgress /></Box>
+        ) : (
+          <Box>
+            {moderationCase.description && (
+              <Typography variant="body2" sx={{ mb: 2, whiteSpace: 'pre-wrap' }}>{moderationCase.description}</Typography>
+            )}
+
+            {/* Status and assignee */}
+            <Box sx={{ display: 'flex', gap: 2, flexWrap: 'wrap', alignItems: 'center', mb: 2 }}>
+              <FormControl size="small" sx={{ minWidth: 160 }}>
+                <InputLabel>Status</InputLabel>
+                <Select value={moderationCase.status} label="Status" disabled={!canWrite || !!actionLoading}
+                  onChange={(e) => updateCase({ status: e.target.value, resolution })}>
+                  <MenuItem value="open">Open</MenuItem>
+                  <MenuItem value="investigating">Investigating</MenuItem>
+                  <MenuItem value="resolved">Resolved</MenuItem>
+                </Select>
+              </FormControl>
+              <FormControl size="small" sx={{ minWidth: 240 }}>
+                <InputLabel>Assignee</InputLabel>
+                <Select value={moderationCase.assigneeId || ''} label="Assignee" disabled={!canWrite || !!actionLoading}
+                  onChange={(e) => updateCase({ assigneeId: e.target.value || null })}>
+                  <MenuItem value="">Unassigned</MenuItem>
+                  {moderationCase.assigneeId && !assignees.some((a) => a.id === moderationCase.assigneeId) && (
+                    <MenuItem value={moderationCase.assigneeId}>{moderationCase.assigneeEmail}</MenuItem>
+                  )}
+                  {assignees.map((a) => <MenuItem key={a.id} value={a.id}>{a.email}</MenuItem>)}
+                </Select>
+              </FormControl>
+              {actionLoading === 'update' && <CircularProgress size={20} />}
+            </Box>
+            {moderationCase.status !== 'resolved' && canWrite && (
+              <TextField fullWidth size="small" label="Resolution (recorded when resolved)" value={resolution} onChange={(e) => setResolution(e.target.value)} sx={{ mb: 2 }} />
+            )}
+            {moderationCase.status === 'resolved' && (
+              <Alert severity="success" sx={{ mb: 2 }}>
+                Resolved by {moderationCase.resolvedBy} on {formatDate(moderationCase.resolvedAt)}
+                {moderationCase.resolution && <>: {moderationCase.resolution}</>}
+              </Alert>
+            )}
+
+            <Divider sx={{ my: 2 }} />
+
+            {/* Evidence */}
+            <Typography variant="subtitle1" sx={{ fontWeight: 700, mb: 1 }}>Evidence ({moderationCase.evidence.length})</Typography>
+            {moderationCase.evidence.length > 0 && (
+              <List dense disablePadding sx={{ mb: 1 }}>
+                {moderationCase.evidence.map((e) => (
+                  <ListItem key={e.id} disableGutters
+                    secondaryAction={canWrite && (
+                      <IconButton size="small" color="error" disabled={!!actionLoading}
+                        onClick={() => run(`evidence-${e.id}`, () => axios.delete(`${API_BASE_URL}/cases/${caseId}/evidence/${e.id}`, { withCredentials: true }), 'Evidence removed')}>
+                        <DeleteIcon fontSize="small" />
+                      </IconButton>
+                    )}>
+                    <Chip label={EVIDENCE_LABELS[e.type]} size="small" sx={{ mr: 1 }} />
+                    <ListItemText
+                      primary={<Typography variant="body2" sx={{ fontFamily: 'monospace', wordBreak: 'break-all' }}>{e.ref}</Typography>}
+                      secondary={`${e.note ? `${e.note} · ` : ''}added by ${e.addedBy} on ${formatDate(e.addedAt)}`}
+                    />
+                  </ListItem>
+                ))}
+              </List>
+            )}
+            {canWrite && (
+              <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap', alignItems: 'center', mb: 2 }}>
+                <Select size="small" value={evidenceForm.type} onChange={(e) => setEvidenceForm({ ...evidenceForm, type: e.target.value as EvidenceType })} sx={{ minWidth: 140 }}>
+                  {(Object.keys(EVIDENCE_LABELS) as EvidenceType[]).map((t) => <MenuItem key={t} value={t}>{EVIDENCE_LABELS[t]}</MenuItem>)}
+                </Select>
+                <TextField size="small" label="ID / address" value={evidenceForm.ref} onChange={(e) => setEvidenceForm({ ...evidenceForm, ref: e.target.value })} sx={{ minWidth: 200 }} />
+                <TextField size="small" label="Note (optional)" value={evidenceForm.note} onChange={(e) => setEvidenceForm({ ...evidenceForm, note: e.target.value })} sx={{ flexGrow: 1 }} />
+                <Button size="small" variant="outlined" startIcon={actionLoading === 'evidence' ? <CircularProgress size={14} /> : <AddIcon />}
+                  disabled={!!actionLoading || !evidenceForm.ref.trim()} onClick={addEvidence}>
+                  Attach
+                </Button>
+              </Box>
+            )}
+
+            <Divider sx={{ my: 2 }} />
+
+            {/* Linked actions */}
+            <Typography variant="subtitle1" sx={{ fontWeight: 700, mb: 1 }}>Actions taken ({linkedActions.length})</Typography>
+            {linkedActions.length === 0 ? (
+              <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>No actions linked yet.</Typography>
+            ) : (
+              <List dense disablePadding sx={{ mb: 1 }}>
+                {linkedActions.map((a) => (
+                  <ListItem key={a.id} disableGutters
+                    secondaryAction={canWrite && (
+                      <IconButton size="small" disabled={!!actionLoading}
+                        onClick={() => run(`unlink-${a.id}`, () => axios.delete(`${API_BASE_URL}/cases/${caseId}/links/${a.id}`, { withCredentials: true }), 'Action unlinked')}>
+                        <UnlinkIcon fontSize="small" />
+                      </IconButton>
+                    )}>
+                    <Chip label={a.action} size="small" color="primary" variant="outlined" sx={{ mr: 1 }} />
+                    <ListItemText primary={`${a.adminEmail} · ${formatDate(a.createdAt)}`} secondary={a.details?.reason} />
+                  </ListItem>
+                ))}
+              </List>
+            )}
+            {canWrite && recentActions.some((a) => !linkedIds.has(a.id)) && (
+              <Paper variant="outlined" sx={{ p: 1, mb: 2 }}>
+                <Typography variant="caption" color="text.secondary">Recent actions on this user — link the ones taken for this case</Typography>
+                <List dense disablePadding>
+                  {recentActions.filter((a) => !linkedIds.has(a.id)).map((a) => (
+                    <ListItem key={a.id} disableGutters
+                      secondaryAction={
+                        <Button size="small" startIcon={<LinkIcon />} disabled={!!actionLoading}
+                          onClick={() => run(`link-${a.id}`, () => axios.post(`${API_BASE_URL}/cases/${caseId}/links`, { auditId: a.id }, { withCredentials: true }), 'Action linked')}>
+                          Link
+                        </Button>
+                      }>
+                      <Chip label={a.action} size="small" variant="outlined" sx={{ mr: 1 }} />
+                      <ListItemText primary={`${a.adminEmail} · ${formatDate(a.createdAt)}`} />
+                    </ListItem>
+                  ))}
+                </List>
+              </Paper>
+            )}
+
+            <Divider sx={{ my: 2 }} />
+
+            {/* Notes */}
+            <Typography variant="subtitle1" sx={{ fontWeight: 700, mb: 1 }}>Internal notes ({notes.length})</Typography>
+            {threads.map((note) => (
+              <Paper key={note.id} variant="outlined" sx={{ p: 1.5, mb: 1 }}>
+                <Typography variant="caption" color="text.secondary">{note.authorEmail} · {formatDate(note.createdAt)}</Typography>
+                <Typography variant="body2" sx={{ whiteSpace: 'pre-wrap' }}>{note.body}</Typography>
+                {repliesTo(note.id).map((reply) => (
+                  <Box key={reply.id} sx={{ ml: 3, mt: 1, pl: 1.5, borderLeft: 2, borderColor: 'divider' }}>
+                    <Typography variant="caption" color="text.secondary">{reply.authorEmail} · {formatDate(reply.createdAt)}</Typography>
+                    <Typography variant="body2" sx={{ whiteSpace: 'pre-wrap' }}>{reply.body}</Typography>
+                  </Box>
+                ))}
+                {canWrite && (replyTo === note.id ? (
+                  <Box sx={{ display: 'flex', gap: 1, mt: 1, ml: 3 }}>
+                    <TextField size="small" fullWidth autoFocus placeholder="Reply…" value={replyText} onChange={(e) => setReplyText(e.target.value)} />
+                    <Button size="small" variant="contained" disabled={!!actionLoading || !replyText.trim()} onClick={() => addNote(replyText, note.id)}>Reply</Button>
+                    <Button size="small" onClick={() => setReplyTo(null)}>Cancel</Button>
+                  </Box>
+                ) : (
+                  <Button size="small" startIcon={<ReplyIcon />} onClick={() => { setReplyTo(note.id); setReplyText(''); }} sx={{ mt: 0.5 }}>Reply</Button>
+                ))}
+              </Paper>
+            ))}
+            {canWrite && (
+              <Box sx={{ display: 'flex', gap: 1, mt: 1 }}>
+                <TextField size="small" fullWidth multiline minRows={2} placeholder="Add a note for the team…" value={noteText} onChange={(e) => setNoteText(e.target.value)} />
+                <Button variant="contained" size="small" disabled={!!actionLoading || !noteText.trim()} onClick={() => addNote(noteText)} sx={{ alignSelf: 'flex-end' }}>
+                  {actionLoading === 'note' && !replyTo ? <CircularProgress size={16} /> : 'Add'}
+                </Button>
+              </Box>
+            )}
+          </Box>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Close</Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
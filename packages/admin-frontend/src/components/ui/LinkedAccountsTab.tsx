@@ -0,0 +1,167 @@
+import { useState, useEffect } from 'react';
+import {
+  Box,
+  Typography,
+  Paper,
+  Chip,
+  Button,
+  CircularProgress,
+  Alert,
+  Tooltip,
+} from '@mui/material';
+import {
+  Devices as DeviceIcon,
+  Public as IPIcon,
+  Block as BlockIcon,
+  OpenInNew as OpenIcon,
+} from '@mui/icons-material';
+import axios from 'axios';
+import { useSnackbar } from './SnackbarProvider';
+import { apiErrorMessage } from '../../utils/apiError';
+
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:5001/api/admin';
+
+type LinkStrength = 'strong' | 'medium' | 'weak';
+
+interface LinkedAccount {
+  uid: string;
+  strength: LinkStrength;
+  sharedDevices: string[];
+  sharedIps: string[];
+  lastSeen: string | null;
+  exists: boolean;
+  email: string | null;
+  username: string | null;
+  displayName: string | null;
+  isBanned: boolean;
+  banReason: string | null;
+  isSuspended: boolean;
+}
+
+interface LinkedAccountsData {
+  accounts: LinkedAccount[];
+  total: number;
+  bannedCount: number;
+  devices: number;
+  ips: number;
+  crowded: { type: 'device' | 'ip'; value: string; accounts: number }[];
+  crowdedThreshold: number;
+}
+
+const STRENGTH_COLORS: Record<LinkStrength, 'error' | 'warning' | 'default'> = {
+  strong: 'error',
+  medium: 'warning',
+  weak: 'default',
+};
+
+const STRENGTH_HINTS: Record<LinkStrength, string> = {
+  strong: 'Shares at least one device',
+  medium: 'Shares two or more IP addresses',
+  weak: 'Shares one IP address',
+};
+
+interface LinkedAccountsTabProps {
+  userId: string;
+  /** Open another user's details in place of this one */
+  onOpenUser?: (uid: string) => void;
+}
+
+export default function LinkedAccountsTab({ userId, onOpenUser }: LinkedAccountsTabProps) {
+  const { showSnackbar } = useSnackbar();
+  const [data, setData] = useState<LinkedAccountsData | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchLinked = async () => {
+      try {
+        setLoading(true);
+        const res = await axios.get(`${API_BASE_URL}/users/${userId}/linked-accounts`, { withCredentials: true });
+        if (res.data.success) setData(res.data.data);
+      } catch (err) {
+        showSnackbar(apiErrorMessage(err, 'Failed to fetch linked accounts'), 'error');
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchLinked();
+  }, [userId, showSnackbar]);
+
+  if (loading) {
+    return <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}><CircularProgress /></Box>;
+  }
+  if (!data) return null;
+
+  return (
+    <Box sx={{ py: 2 }}>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+        Accounts that have signed in from the same {data.devices} device{data.devices !== 1 ? 's' : ''} or {data.ips} IP address{data.ips !== 1 ? 'es' : ''} as this user.
+      </Typography>
+
+      {data.bannedCount > 0 && (
+        <Alert severity="error" icon={<BlockIcon />} sx={{ mb: 2 }}>
+          {data.bannedCount} linked account{data.bannedCount !== 1 ? 's are' : ' is'} banned — possible ban evasion.
+        </Alert>
+      )}
+      {data.crowded.length > 0 && (
+        <Alert severity="info" sx={{ mb: 2 }}>
+          Ignored {data.crowded.length} shared network{data.crowded.length !== 1 ? 's' : ''} used by more than {data.crowdedThreshold} accounts
+          ({data.crowded.map((c) => c.value).join(', ')}).
+        </Alert>
+      )}
+
+      {data.accounts.length === 0 ? (
+        <Alert severity="success">No other accounts share a device or IP with this user.</Alert>
+      ) : (
+        <>
+          {data.total > data.accounts.length && (
+            <Typography variant="caption" color="text.secondary" display="block" sx={{ mb: 1 }}>
+              Showing the {data.accounts.length} strongest of {data.total} links.
+            </Typography>
+          )}
+          {data.accounts.map((account) => (
+            <Paper key={account.uid} variant="outlined" sx={{ p: 1.5, mb: 1, borderColor: account.isBanned ? 'error.main' : 'divider' }}>
+              <Box sx={{ display: 'flex', alignItems: 'flex-start', gap: 1 }}>
+                <Box sx={{ flexGrow: 1, minWidth: 0 }}>
+                  <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap' }}>
+                    <Typography variant="body2" fontWeight={600}>
+                      {account.exists ? account.displayName || account.username || account.email || account.uid : 'Deleted account'}
+                    </Typography>
+                    <Tooltip title={STRENGTH_HINTS[account.strength]}>
+                      <Chip label={account.strength} size="small" color={STRENGTH_COLORS[account.strength]} />
+                    </Tooltip>
+                    {account.isBanned && <Chip label="Banned" size="small" color="error" icon={<BlockIcon />} />}
+                    {account.isSuspended && <Chip label="Suspended" size="small" color="warning" variant="outlined" />}
+                  </Box>
+                  <Typography variant="caption" color="text.secondary" sx={{ fontFamily: 'monospace' }}>
+                    {account.email && `${account.email} · `}{account.uid}
+                  </Typography>
+                  {account.isBanned && account.banReason && (
+                    <Typography variant="caption" color="error" display="block">Ban reason: {account.banReason}</Typography>
+                  )}
+                  <Box sx={{ display: 'flex', gap: 0.5, flexWrap: 'wrap', mt: 0.5 }}>
+                    {account.sharedDevices.map((device) => (
+                      <Chip key={device} icon={<DeviceIcon />} label={device} size="small" variant="outlined" sx={{ fontFamily: 'monospace', fontSize: '0.7rem', maxWidth: 220 }} />
+                    ))}
+                    {account.sharedIps.map((ip) => (
+                      <Chip key={ip} icon={<IPIcon />} label={ip} size="small" variant="outlined" sx={{ fontFamily: 'monospace', fontSize: '0.7rem' }} />
+                    ))}
+                  </Box>
+                  {account.lastSeen && (
+                    <Typography variant="caption" color="text.secondary" display="block" sx={{ mt: 0.5 }}>
+                      Last seen on a shared device or IP {new Date(account.lastSeen).toLocaleString()}
+                    </Typography>
+                  )}
+                </Box>
+                {onOpenUser && account.exists && (
+                  <Button size="small" endIcon={<OpenIcon fontSize="small" />} onClick={() => onOpenUser(account.uid)}>
+                    Open
+                  </Button>
+                )}
+              </Box>
+            </Paper>
+          ))}
+        </>
+      )}
+    </Box>
+  );
+}
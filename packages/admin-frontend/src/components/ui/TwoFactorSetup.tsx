@@ -0,0 +1,191 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  Box,
+  Button,
+  Typography,
+  TextField,
+  Alert,
+  CircularProgress,
+  Paper,
+} from '@mui/material';
+import axios from 'axios';
+import { apiErrorMessage } from '../../utils/apiError';
+import { AdminProfile } from '../../contexts/AuthContext';
+
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:5001/api/admin';
+
+interface TwoFactorSetupProps {
+  /** Path of the setup endpoint, e.g. /auth/2fa/setup or /auth/2fa/enroll/setup */
+  setupPath: string;
+  /** Path of the matching enable endpoint */
+  enablePath: string;
+  /** Present during login enrollment; sent with both requests */
+  challengeToken?: string;
+  /** Called with the enable response once the admin has acknowledged their recovery codes */
+  onComplete: (data: TwoFactorEnableResponse) => void;
+  onCancel?: () => void;
+}
+
+/** Recovery codes come back in `data` (self-service) or at the top level with the admin (login enrollment) */
+export interface TwoFactorEnableResponse {
+  data?: { recoveryCodes: string[] };
+  recoveryCodes?: string[];
+  admin?: AdminProfile;
+  csrfToken?: string;
+}
+
+interface SetupData {
+  secret: string;
+  otpauthUrl: string;
+  qrCodeDataUrl: string;
+}
+
+export default function TwoFactorSetup({
+  setupPath,
+  enablePath,
+  challengeToken,
+  onComplete,
+  onCancel,
+}: TwoFactorSetupProps) {
+  const [setup, setSetup] = useState<SetupData | null>(null);
+  const [code, setCode] = useState('');
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [enableResponse, setEnableResponse] = useState<TwoFactorEnableResponse | null>(null);
+
+  const startSetup = useCallback(async () => {
+    setLoading(true);
+    setError('');
+    try {
+      const response = await axios.post(
+        `${API_BASE_URL}${setupPath}`,
+        challengeToken ? { challengeToken } : {},
+        { withCredentials: true }
+      );
+      setSetup(response.data.data);
+    } catch (err) {
+      setError(apiErrorMessage(err, 'Failed to start two-factor setup'));
+    } finally {
+      setLoading(false);
+    }
+  }, [setupPath, challengeToken]);
+
+  useEffect(() => {
+    startSetup();
+  }, [startSetup]);
+
+  const handleEnable = async () => {
+    setSubmitting(true);
+    setError('');
+    try {
+      const response = await axios.post(
+        `${API_BASE_URL}${enablePath}`,
+        challengeToken ? { challengeToken, code } : { code },
+        { withCredentials: true }
+      );
+      setEnableResponse(response.data);
+    } catch (err) {
+      setError(apiErrorMessage(err, 'Invalid verification code'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const recoveryCodes: string[] =
+    enableResponse?.data?.recoveryCodes || enableResponse?.recoveryCodes || [];
+
+  if (loading) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  if (enableResponse) {
+    return (
+      <Box>
+        <Alert severity="success" sx={{ mb: 2 }}>
+          Two-factor authentication is enabled.
+        </Alert>
+        <Typography variant="body2" sx={{ mb: 1 }}>
+          Save these recovery codes somewhere safe. Each code can be used once to sign in if
+          you lose access to your authenticator app. They will not be shown again.
+        </Typography>
+        <Paper variant="outlined" sx={{ p: 2, mb: 2 }}>
+          <Box
+            sx={{
+              display: 'grid',
+              gridTemplateColumns: 'repeat(2, 1fr)',
+              gap: 1,
+              fontFamily: 'monospace',
+            }}
+          >
+            {recoveryCodes.map((recoveryCode) => (
+              <Typography key={recoveryCode} sx={{ fontFamily: 'monospace' }}>
+                {recoveryCode}
+              </Typography>
+            ))}
+          </Box>
+        </Paper>
+        <Button fullWidth variant="contained" onClick={() => onComplete(enableResponse)}>
+          I have saved my recovery codes
+        </Button>
+      </Box>
+    );
+  }
+
+  return (
+    <Box>
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error}
+        </Alert>
+      )}
+
+      {setup && (
+        <>
+          <Typography variant="body2" sx={{ mb: 2 }}>
+            Scan this QR code with an authenticator app (Google Authenticator, 1Password, Authy…),
+            then enter the 6-digit code it shows.
+          </Typography>
+          <Box sx={{ display: 'flex', justifyContent: 'center', mb: 2 }}>
+            <img src={setup.qrCodeDataUrl} alt="Two-factor QR code" width={200} height={200} />
+          </Box>
+          <Typography variant="caption" color="text.secondary" display="block" sx={{ mb: 2 }}>
+            Can't scan? Enter this key manually:{' '}
+            <Box component="span" sx={{ fontFamily: 'monospace', wordBreak: 'break-all' }}>
+              {setup.secret}
+            </Box>
+          </Typography>
+          <TextField
+            fullWidth
+            label="Verification code"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            inputProps={{ inputMode: 'numeric', autoComplete: 'one-time-code', maxLength: 6 }}
+            margin="normal"
+            disabled={submitting}
+          />
+        </>
+      )}
+
+      <Box sx={{ display: 'flex', gap: 1, mt: 2 }}>
+        {onCancel && (
+          <Button fullWidth onClick={onCancel} disabled={submitting}>
+            Cancel
+          </Button>
+        )}
+        <Button
+          fullWidth
+          variant="contained"
+          onClick={handleEnable}
+          disabled={!setup || code.length !== 6 || submitting}
+        >
+          {submitting ? <CircularProgress size={24} color="inherit" /> : 'Enable 2FA'}
+        </Button>
+      </Box>
+    </Box>
+  );
+}
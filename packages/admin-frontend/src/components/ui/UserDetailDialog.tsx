@@ -1,4 +1,5 @@
 import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
 import {
   Dialog,
   DialogTitle,
@@ -31,6 +32,8 @@ import {
   TableRow,
 } from '@mui/material';
 import UserGenerationsTab from './UserGenerationsTab';
+import UserNotesTab from './UserNotesTab';
+import LinkedAccountsTab from './LinkedAccountsTab';
 import {
   Close as CloseIcon,
   Person as PersonIcon,
@@ -47,9 +50,13 @@ import {
   Delete as DeleteIcon,
   LogoutOutlined as LogoutIcon,
   Add as AddIcon,
+  Assignment as CaseIcon,
+  PushPin as PinIcon,
+  Refresh as RefreshIcon,
 } from '@mui/icons-material';
 import axios from 'axios';
 import { useSnackbar } from './SnackbarProvider';
+import { useAuth } from '../../contexts/AuthContext';
 
 const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:5001/api/admin';
 
@@ -57,6 +64,8 @@ interface UserDetailDialogProps {
   open: boolean;
   onClose: () => void;
   userId: string;
+  /** Switch the dialog to another user, e.g. a linked account */
+  onOpenUser?: (uid: string) => void;
 }
 
 interface User {
@@ -72,11 +81,17 @@ interface User {
   isBanned?: boolean;
   isUnderReview?: boolean;
   riskScore?: number;
+  riskReasons?: { signal: string; points: number; detail: string }[];
+  riskScoredAt?: string;
   knownDeviceHashes?: string[];
   suspendReason?: string;
+  suspendedUntil?: string;
   banReason?: string;
+  reviewReason?: string;
   role?: string;
   warningCount?: number;
+  adminNoteCount?: number;
+  pinnedAdminNoteCount?: number;
   createdAt?: Date | string;
   lastLoginAt?: Date | string;
   updatedAt?: Date | string;
@@ -90,10 +105,12 @@ interface Warning { id: string; reason: string; issuedAt: string; issuedBy: stri
 interface CreditEntry { id: string; amount: number; reason: string; previousBalance: number; newBalance: number; adjustedAt: string; adjustedBy: string; }
 interface LoginEntry { ip?: string; deviceId?: string; browser?: string; os?: string; timestamp?: string; }
 
-export default function UserDetailDialog({ open, onClose, userId }: UserDetailDialogProps) {
+export default function UserDetailDialog({ open, onClose, userId, onOpenUser }: UserDetailDialogProps) {
   const theme = useTheme();
   const isMobile = useMediaQuery(theme.breakpoints.down('sm'));
+  const navigate = useNavigate();
   const { showSnackbar } = useSnackbar();
+  const { hasPermission } = useAuth();
   const [user, setUser] = useState<User | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
@@ -173,8 +190,13 @@ export default function UserDetailDialog({ open, onClose, userId }: UserDetailDi
   const doAction = async (actionKey: string, endpoint: string, method: 'post' | 'patch' | 'delete', body?: any) => {
     try {
       setActionLoading(actionKey);
-      await axios({ method, url: `${API_BASE_URL}${endpoint}`, data: body, withCredentials: true });
-      showSnackbar('Action completed successfully', 'success');
+      const res = await axios({ method, url: `${API_BASE_URL}${endpoint}`, data: body, withCredentials: true });
+      // High-impact actions may be held for a second admin's approval (202)
+      if (res.data?.pendingApproval) showSnackbar(res.data.message, 'info');
+      // A warning can set off an escalation rule; say what it did
+      else if (res.data?.escalations?.length) showSnackbar(res.data.message, 'warning');
+      else if (res.data?.escalationError) showSnackbar(`Warning issued, but escalation failed: ${res.data.escalationError}`, 'warning');
+      else showSnackbar('Action completed successfully', 'success');
       fetchUserDetails();
       if (tabValue === 2) { setModDataLoaded(false); fetchModerationData(); }
     } catch (err: any) {
@@ -212,7 +234,7 @@ export default function UserDetailDialog({ open, onClose, userId }: UserDetailDi
       </Typography>
 
       <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap', mb: 3 }}>
-        {user?.isSuspended ? (
+        {hasPermission('users:suspend') && (user?.isSuspended ? (
           <Button size="small" variant="outlined" color="success" startIcon={actionLoading === 'unsuspend' ? <CircularProgress size={14} /> : <CheckCircleIcon />}
             disabled={!!actionLoading} onClick={() => doAction('unsuspend', `/users/${userId}/unsuspend`, 'post')}>
             Unsuspend
@@ -228,9 +250,9 @@ export default function UserDetailDialog({ open, onClose, userId }: UserDetailDi
               Suspend
             </Button>
           </Box>
-        )}
+        ))}
 
-        {user?.isBanned ? (
+        {hasPermission('users:ban') && (user?.isBanned ? (
           <Button size="small" variant="outlined" color="success"
             startIcon={actionLoading === 'unban' ? <CircularProgress size={14} /> : <CheckCircleIcon />}
             disabled={!!actionLoading} onClick={() => doAction('unban', `/users/${userId}/unban`, 'post')}>
@@ -246,16 +268,25 @@ export default function UserDetailDialog({ open, onClose, userId }: UserDetailDi
               Ban User
             </Button>
           </Box>
+        ))}
+
+        {hasPermission('users:logout') && (
+          <Button size="small" variant="outlined" color="secondary"
+            startIcon={actionLoading === 'logout' ? <CircularProgress size={14} /> : <LogoutIcon />}
+            disabled={!!actionLoading}
+            onClick={() => { if (window.confirm('Force logout this user from all devices?')) doAction('logout', `/users/${userId}/force-logout`, 'post'); }}>
+            Force Logout
+          </Button>
         )}
 
-        <Button size="small" variant="outlined" color="secondary"
-          startIcon={actionLoading === 'logout' ? <CircularProgress size={14} /> : <LogoutIcon />}
-          disabled={!!actionLoading}
-          onClick={() => { if (window.confirm('Force logout this user from all devices?')) doAction('logout', `/users/${userId}/force-logout`, 'post'); }}>
-          Force Logout
-        </Button>
+        {hasPermission('cases:write') && (
+          <Button size="small" variant="outlined" startIcon={<CaseIcon />}
+            onClick={() => { onClose(); navigate(`/cases?subjectType=user&subjectId=${encodeURIComponent(userId)}`); }}>
+            Open Case
+          </Button>
+        )}
 
-        {!user?.emailVerified && (
+        {!user?.emailVerified && hasPermission('users:verify') && (
           <Button size="small" variant="outlined" color="primary"
             startIcon={actionLoading === 'verify' ? <CircularProgress size={14} /> : <EmailIcon />}
             disabled={!!actionLoading}
@@ -267,7 +298,7 @@ export default function UserDetailDialog({ open, onClose, userId }: UserDetailDi
 
       {(user?.isSuspended || user?.isBanned) && (
         <Alert severity={user?.isBanned ? 'error' : 'warning'} sx={{ mb: 2 }}>
-          {user?.isBanned ? `Banned: ${user.banReason}` : `Suspended: ${user.suspendReason}`}
+          {user?.isBanned ? `Banned: ${user.banReason}` : `Suspended: ${user.suspendReason}${user.suspendedUntil ? ` (until ${formatDate(user.suspendedUntil)})` : ''}`}
         </Alert>
       )}
 
@@ -275,7 +306,7 @@ export default function UserDetailDialog({ open, onClose, userId }: UserDetailDi
         <Alert
           severity="warning"
           sx={{ mb: 2, alignItems: 'center' }}
-          action={
+          action={hasPermission('users:review') && (
             <Button
               color="inherit"
               size="small"
@@ -284,12 +315,41 @@ export default function UserDetailDialog({ open, onClose, userId }: UserDetailDi
             >
               {actionLoading === 'clearReview' ? <CircularProgress size={14} color="inherit" /> : 'Clear Review'}
             </Button>
-          }
+          )}
         >
           <strong>Account Under Review</strong> — Risk Score: {user.riskScore || 0}. Automated generation blocks applied.
+          {user.reviewReason && <> Reason: {user.reviewReason}</>}
         </Alert>
       )}
 
+      {/* Risk Score */}
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+        <Typography variant="body2" sx={{ fontWeight: 600 }}>Risk score</Typography>
+        <Chip label={user?.riskScore || 0} size="small" color={user?.isUnderReview ? 'error' : (user?.riskScore || 0) > 0 ? 'warning' : 'default'} />
+        {user?.riskScoredAt && (
+          <Typography variant="caption" color="text.secondary">computed {formatDate(user.riskScoredAt)}</Typography>
+        )}
+        {hasPermission('users:review') && (
+          <Button size="small" sx={{ ml: 'auto' }}
+            startIcon={actionLoading === 'riskScore' ? <CircularProgress size={14} /> : <RefreshIcon />}
+            disabled={!!actionLoading}
+            onClick={() => doAction('riskScore', `/users/${userId}/risk-score`, 'post')}>
+            Recompute
+          </Button>
+        )}
+      </Box>
+      {user?.riskReasons?.length ? (
+        <Box component="ul" sx={{ m: 0, pl: 3, mb: 1 }}>
+          {user.riskReasons.map((reason) => (
+            <Typography component="li" variant="body2" key={reason.signal}>
+              {reason.detail} <Typography component="span" variant="caption" color="text.secondary">(+{reason.points})</Typography>
+            </Typography>
+          ))}
+        </Box>
+      ) : (
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>No risk signals.</Typography>
+      )}
+
       <Divider sx={{ my: 2 }} />
 
       {/* Role Management */}
@@ -297,19 +357,23 @@ export default function UserDetailDialog({ open, onClose, userId }: UserDetailDi
         <PersonIcon fontSize="small" /> Role Management
       </Typography>
       <Box sx={{ display: 'flex', gap: 2, alignItems: 'center', mb: 3 }}>
-        <FormControl size="small" sx={{ minWidth: 160 }}>
-          <InputLabel>Role</InputLabel>
-          <Select value={selectedRole} label="Role" onChange={(e) => setSelectedRole(e.target.value)}>
-            {['user', 'premium', 'creator', 'moderator', 'admin'].map((r) => (
-              <MenuItem key={r} value={r}>{r.charAt(0).toUpperCase() + r.slice(1)}</MenuItem>
-            ))}
-          </Select>
-        </FormControl>
-        <Button variant="contained" size="small" disabled={!!actionLoading || selectedRole === (user?.role || 'user')}
-          startIcon={actionLoading === 'role' ? <CircularProgress size={14} /> : null}
-          onClick={() => doAction('role', `/users/${userId}/role`, 'patch', { role: selectedRole })}>
-          Update Role
-        </Button>
+        {hasPermission('users:role') && (
+          <>
+            <FormControl size="small" sx={{ minWidth: 160 }}>
+              <InputLabel>Role</InputLabel>
+              <Select value={selectedRole} label="Role" onChange={(e) => setSelectedRole(e.target.value)}>
+                {['user', 'premium', 'creator', 'moderator', 'admin'].map((r) => (
+                  <MenuItem key={r} value={r}>{r.charAt(0).toUpperCase() + r.slice(1)}</MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+            <Button variant="contained" size="small" disabled={!!actionLoading || selectedRole === (user?.role || 'user')}
+              startIcon={actionLoading === 'role' ? <CircularProgress size={14} /> : null}
+              onClick={() => doAction('role', `/users/${userId}/role`, 'patch', { role: selectedRole })}>
+              Update Role
+            </Button>
+          </>
+        )}
         <Chip label={`Current: ${user?.role || 'user'}`} size="small" color="primary" variant="outlined" />
       </Box>
 
@@ -320,16 +384,18 @@ export default function UserDetailDialog({ open, onClose, userId }: UserDetailDi
         <AccountBalanceIcon fontSize="small" /> Credit Adjustment
         <Chip label={`Balance: ${user?.creditBalance ?? 'N/A'}`} size="small" sx={{ ml: 1 }} />
       </Typography>
-      <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap', alignItems: 'flex-end', mb: 2 }}>
-        <TextField size="small" label="Amount" type="number" value={creditAmount} onChange={(e) => setCreditAmount(e.target.value)} sx={{ width: 120 }} helperText="Use negative to deduct" />
-        <TextField size="small" label="Reason *" value={creditReason} onChange={(e) => setCreditReason(e.target.value)} sx={{ minWidth: 200 }} />
-        <Button variant="outlined" size="small" color="success"
-          startIcon={actionLoading === 'credit' ? <CircularProgress size={14} /> : <AddIcon />}
-          disabled={!!actionLoading || !creditAmount || !creditReason.trim()}
-          onClick={() => doAction('credit', `/users/${userId}/adjust-credits`, 'post', { amount: parseInt(creditAmount), reason: creditReason })}>
-          Apply
-        </Button>
-      </Box>
+      {hasPermission('credits:adjust') && (
+        <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap', alignItems: 'flex-end', mb: 2 }}>
+          <TextField size="small" label="Amount" type="number" value={creditAmount} onChange={(e) => setCreditAmount(e.target.value)} sx={{ width: 120 }} helperText="Use negative to deduct" />
+          <TextField size="small" label="Reason *" value={creditReason} onChange={(e) => setCreditReason(e.target.value)} sx={{ minWidth: 200 }} />
+          <Button variant="outlined" size="small" color="success"
+            startIcon={actionLoading === 'credit' ? <CircularProgress size={14} /> : <AddIcon />}
+            disabled={!!actionLoading || !creditAmount || !creditReason.trim()}
+            onClick={() => doAction('credit', `/users/${userId}/adjust-credits`, 'post', { amount: parseInt(creditAmount), reason: creditReason })}>
+            Apply
+          </Button>
+        </Box>
+      )}
 
       {creditHistory.length > 0 && (
         <Paper variant="outlined" sx={{ mb: 2 }}>
@@ -357,15 +423,17 @@ export default function UserDetailDialog({ open, onClose, userId }: UserDetailDi
         <WarningIcon fontSize="small" color="warning" /> Warnings
         <Chip label={user?.warningCount || 0} size="small" color={user?.warningCount ? 'warning' : 'default'} />
       </Typography>
-      <Box sx={{ display: 'flex', gap: 1, alignItems: 'flex-end', mb: 2 }}>
-        <TextField size="small" label="Warning Reason *" value={warningText} onChange={(e) => setWarningText(e.target.value)} sx={{ minWidth: 240 }} />
-        <Button variant="outlined" color="warning" size="small"
-          startIcon={actionLoading === 'warn' ? <CircularProgress size={14} /> : <WarningIcon />}
-          disabled={!!actionLoading || !warningText.trim()}
-          onClick={() => doAction('warn', `/users/${userId}/warnings`, 'post', { reason: warningText }).then(() => { setWarningText(''); })}>
-          Issue Warning
-        </Button>
-      </Box>
+      {hasPermission('warnings:write') && (
+        <Box sx={{ display: 'flex', gap: 1, alignItems: 'flex-end', mb: 2 }}>
+          <TextField size="small" label="Warning Reason *" value={warningText} onChange={(e) => setWarningText(e.target.value)} sx={{ minWidth: 240 }} />
+          <Button variant="outlined" color="warning" size="small"
+            startIcon={actionLoading === 'warn' ? <CircularProgress size={14} /> : <WarningIcon />}
+            disabled={!!actionLoading || !warningText.trim()}
+            onClick={() => doAction('warn', `/users/${userId}/warnings`, 'post', { reason: warningText }).then(() => { setWarningText(''); })}>
+            Issue Warning
+          </Button>
+        </Box>
+      )}
 
       {warnings.length > 0 && (
         <Paper variant="outlined" sx={{ mb: 2 }}>
@@ -378,7 +446,7 @@ export default function UserDetailDialog({ open, onClose, userId }: UserDetailDi
                   <TableCell sx={{ fontSize: '0.7rem' }}>{w.issuedBy}</TableCell>
                   <TableCell sx={{ fontSize: '0.7rem' }}>{new Date(w.issuedAt).toLocaleDateString()}</TableCell>
                   <TableCell align="center">
-                    <IconButton size="small" color="error" onClick={() => doAction(`delwarn-${w.id}`, `/users/${userId}/warnings/${w.id}`, 'delete')}>
+                    <IconButton size="small" color="error" disabled={!hasPermission('warnings:write')} onClick={() => doAction(`delwarn-${w.id}`, `/users/${userId}/warnings/${w.id}`, 'delete')}>
                       <DeleteIcon fontSize="small" />
                     </IconButton>
                   </TableCell>
@@ -416,7 +484,7 @@ export default function UserDetailDialog({ open, onClose, userId }: UserDetailDi
                   <TableCell sx={{ fontSize: '0.7rem' }}>{[entry.browser, entry.os].filter(Boolean).join(' / ') || '—'}</TableCell>
                   <TableCell sx={{ fontSize: '0.7rem' }}>{entry.timestamp ? new Date(entry.timestamp).toLocaleDateString() : '—'}</TableCell>
                   <TableCell align="center">
-                    {entry.ip && (
+                    {entry.ip && hasPermission('ips:block') && (
                       <Button size="small" variant="outlined" color="error" sx={{ fontSize: '0.65rem', px: 0.5, py: 0.2, minWidth: 0 }}
                         onClick={async () => {
                           const reason = prompt(`Reason for blocking IP ${entry.ip}?`);
@@ -432,7 +500,7 @@ export default function UserDetailDialog({ open, onClose, userId }: UserDetailDi
                     )}
                   </TableCell>
                   <TableCell align="center">
-                    {entry.deviceId && (
+                    {entry.deviceId && hasPermission('devices:block') && (
                       <Button size="small" variant="outlined" color="error" sx={{ fontSize: '0.65rem', px: 0.5, py: 0.2, minWidth: 0 }}
                         onClick={async () => {
                           const reason = prompt(`Reason for blocking device ${entry.deviceId}?`);
@@ -466,10 +534,12 @@ export default function UserDetailDialog({ open, onClose, userId }: UserDetailDi
         </Box>
       </DialogTitle>
 
-      <Tabs value={tabValue} onChange={(_, v) => setTabValue(v)} sx={{ px: { xs: 2, sm: 3 }, borderBottom: 1, borderColor: 'divider' }}>
+      <Tabs value={tabValue} onChange={(_, v) => setTabValue(v)} variant="scrollable" scrollButtons="auto" sx={{ px: { xs: 2, sm: 3 }, borderBottom: 1, borderColor: 'divider' }}>
         <Tab label="Overview" />
         <Tab label="Generations" />
         <Tab label="Moderation" icon={user?.isBanned ? <BlockIcon color="error" fontSize="small" /> : user?.isSuspended || user?.isUnderReview ? <WarningIcon color="warning" fontSize="small" /> : undefined} iconPosition="end" />
+        <Tab label={`Notes${user?.adminNoteCount ? ` (${user.adminNoteCount})` : ''}`} icon={user?.pinnedAdminNoteCount ? <PinIcon color="warning" fontSize="small" /> : undefined} iconPosition="end" />
+        <Tab label="Linked accounts" />
       </Tabs>
 
       <DialogContent dividers sx={{ px: { xs: 2, sm: 3 }, py: { xs: 2, sm: 3 } }}>
@@ -567,7 +637,7 @@ export default function UserDetailDialog({ open, onClose, userId }: UserDetailDi
                       {Object.entries(user).filter(([key]) =>
                         !['uid', 'id', 'email', 'username', 'displayName', 'photoURL', 'emailVerified', 'isActive', 'isSuspended', 'isBanned', 'isUnderReview', 'riskScore',
                           'createdAt', 'lastLoginAt', 'updatedAt', 'creditBalance', 'deviceInfo', 'totalGenerations', 'role', 'warningCount', 'knownDeviceHashes',
-                          'suspendReason', 'banReason'].includes(key)
+                          'suspendReason', 'banReason', 'riskReasons', 'riskScoredAt'].includes(key)
                       ).map(([key, value]) => {
                         if (value === null || value === undefined || value === '') return null;
                         return (
@@ -590,6 +660,8 @@ export default function UserDetailDialog({ open, onClose, userId }: UserDetailDi
         )}
 
         {tabValue === 1 && <UserGenerationsTab userId={userId} />}
+        {tabValue === 3 && <UserNotesTab userId={userId} onChanged={fetchUserDetails} />}
+        {tabValue === 4 && <LinkedAccountsTab userId={userId} onOpenUser={onOpenUser} />}
 
         {tabValue === 2 && (
           loading ? <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}><CircularProgress /></Box> :
@@ -0,0 +1,141 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  Box,
+  Typography,
+  Paper,
+  Button,
+  IconButton,
+  TextField,
+  Tooltip,
+  CircularProgress,
+  Alert,
+  FormControlLabel,
+  Checkbox,
+} from '@mui/material';
+import {
+  PushPin as PinIcon,
+  PushPinOutlined as UnpinnedIcon,
+} from '@mui/icons-material';
+import axios from 'axios';
+import { useSnackbar } from './SnackbarProvider';
+import { useAuth } from '../../contexts/AuthContext';
+import { apiErrorMessage } from '../../utils/apiError';
+
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:5001/api/admin';
+
+interface AdminNote {
+  id: string;
+  body: string;
+  authorEmail: string;
+  createdAt: string;
+  pinned: boolean;
+  pinnedBy?: string;
+}
+
+interface UserNotesTabProps {
+  userId: string;
+  /** Called after a note is added or pinned, so the dialog can refresh the user's counters */
+  onChanged?: () => void;
+}
+
+export default function UserNotesTab({ userId, onChanged }: UserNotesTabProps) {
+  const { showSnackbar } = useSnackbar();
+  const { hasPermission } = useAuth();
+  const canWrite = hasPermission('notes:write');
+  const [notes, setNotes] = useState<AdminNote[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState<string | null>(null);
+  const [text, setText] = useState('');
+  const [pinNew, setPinNew] = useState(false);
+
+  const fetchNotes = useCallback(async () => {
+    try {
+      const res = await axios.get(`${API_BASE_URL}/users/${userId}/notes`, { withCredentials: true });
+      if (res.data.success) setNotes(res.data.data.notes);
+    } catch (err) {
+      showSnackbar(apiErrorMessage(err, 'Failed to fetch notes'), 'error');
+    } finally {
+      setLoading(false);
+    }
+  }, [userId, showSnackbar]);
+
+  useEffect(() => {
+    setLoading(true);
+    fetchNotes();
+  }, [userId, fetchNotes]);
+
+  const addNote = async () => {
+    try {
+      setSaving('add');
+      await axios.post(`${API_BASE_URL}/users/${userId}/notes`, { body: text, pinned: pinNew }, { withCredentials: true });
+      setText(''); setPinNew(false);
+      await fetchNotes();
+      onChanged?.();
+    } catch (err) {
+      showSnackbar(apiErrorMessage(err, 'Failed to add note'), 'error');
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  const togglePin = async (note: AdminNote) => {
+    try {
+      setSaving(note.id);
+      await axios.put(`${API_BASE_URL}/users/${userId}/notes/${note.id}/pin`, { pinned: !note.pinned }, { withCredentials: true });
+      await fetchNotes();
+      onChanged?.();
+    } catch (err) {
+      showSnackbar(apiErrorMessage(err, 'Failed to update note'), 'error');
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  return (
+    <Box sx={{ py: 2 }}>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+        Private to admins. Notes can't be edited or deleted once added; pin the ones everyone should see first.
+      </Typography>
+
+      {canWrite && (
+        <Box sx={{ mb: 3 }}>
+          <TextField fullWidth multiline minRows={2} size="small" placeholder="Why is this account being watched?" value={text} onChange={(e) => setText(e.target.value)} />
+          <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mt: 1 }}>
+            <FormControlLabel control={<Checkbox size="small" checked={pinNew} onChange={(e) => setPinNew(e.target.checked)} />} label="Pin" />
+            <Button variant="contained" size="small" disabled={!!saving || !text.trim()} onClick={addNote}
+              startIcon={saving === 'add' ? <CircularProgress size={14} /> : undefined}>
+              Add Note
+            </Button>
+          </Box>
+        </Box>
+      )}
+
+      {loading ? (
+        <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}><CircularProgress /></Box>
+      ) : notes.length === 0 ? (
+        <Alert severity="info">No notes on this user.</Alert>
+      ) : (
+        notes.map((note) => (
+          <Paper key={note.id} variant="outlined" sx={{ p: 1.5, mb: 1, borderColor: note.pinned ? 'warning.main' : 'divider' }}>
+            <Box sx={{ display: 'flex', alignItems: 'flex-start', gap: 1 }}>
+              <Box sx={{ flexGrow: 1, minWidth: 0 }}>
+                <Typography variant="caption" color="text.secondary">
+                  {note.authorEmail} · {new Date(note.createdAt).toLocaleString()}
+                  {note.pinned && note.pinnedBy && ` · pinned by ${note.pinnedBy}`}
+                </Typography>
+                <Typography variant="body2" sx={{ whiteSpace: 'pre-wrap', wordBreak: 'break-word' }}>{note.body}</Typography>
+              </Box>
+              <Tooltip title={note.pinned ? 'Unpin' : 'Pin'}>
+                <span>
+                  <IconButton size="small" color={note.pinned ? 'warning' : 'default'} disabled={!canWrite || !!saving} onClick={() => togglePin(note)}>
+                    {saving === note.id ? <CircularProgress size={16} /> : note.pinned ? <PinIcon fontSize="small" /> : <UnpinnedIcon fontSize="small" />}
+                  </IconButton>
+                </span>
+              </Tooltip>
+            </Box>
+          </Paper>
+        ))
+      )}
+    </Box>
+  );
+}
@@ -1,14 +1,66 @@
 import { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import axios from 'axios';
+import axios, { AxiosError, InternalAxiosRequestConfig } from 'axios';
 
 const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:5001/api/admin';
 
+// Auth endpoints that must never trigger a refresh-and-retry of their own
+const NO_REFRESH_PATHS = ['/auth/login', '/auth/logout', '/auth/refresh', '/auth/2fa/verify', '/auth/2fa/enroll'];
+
+type RetriableRequest = InternalAxiosRequestConfig & { _retriedAfterRefresh?: boolean };
+
+const UNSAFE_METHODS = ['post', 'put', 'patch', 'delete'];
+
+// Session-bound CSRF token, kept in memory only and echoed on every state-changing request
+let csrfToken: string | null = null;
+
+function setCsrfToken(token: string | null | undefined) {
+  csrfToken = token || null;
+}
+
+// Shared across every request that hits a 401 at the same time, so only one refresh call is made
+let refreshInFlight: Promise<boolean> | null = null;
+
+function refreshSession(): Promise<boolean> {
+  if (!refreshInFlight) {
+    refreshInFlight = axios
+      .post(`${API_BASE_URL}/auth/refresh`, {}, { withCredentials: true })
+      .then((response) => {
+        setCsrfToken(response.data.csrfToken);
+        return !!response.data.success;
+      })
+      .catch(() => false)
+      .finally(() => {
+        refreshInFlight = null;
+      });
+  }
+  return refreshInFlight;
+}
+
+export interface AdminProfile {
+  id: string;
+  email: string;
+  role: string;
+  permissions: string[];
+}
+
+/**
+ * Outcome of the password step. When 2FA is on (or enforced but not yet set up)
+ * the backend returns a short-lived challenge token instead of a session.
+ */
+export type LoginResult =
+  | { status: 'authenticated' }
+  | { status: 'two_factor'; challengeToken: string }
+  | { status: 'two_factor_setup'; challengeToken: string };
+
 interface AuthContextType {
   isAuthenticated: boolean;
   loading: boolean;
-  admin: { id: string; email: string; role: string } | null;
-  login: (email: string, password: string) => Promise<void>;
+  admin: AdminProfile | null;
+  login: (email: string, password: string) => Promise<LoginResult>;
+  verifyTwoFactor: (challengeToken: string, payload: { code?: string; recoveryCode?: string }) => Promise<void>;
+  completeLogin: (admin: AdminProfile, csrfToken?: string) => void;
   logout: () => Promise<void>;
+  hasPermission: (permission: string) => boolean;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -16,10 +68,51 @@ const AuthContext = createContext<AuthContextType | undefined>(undefined);
 export function AuthProvider({ children }: { children: ReactNode }) {
   const [isAuthenticated, setIsAuthenticated] = useState(false);
   const [loading, setLoading] = useState(true);
-  const [admin, setAdmin] = useState<{ id: string; email: string; role: string } | null>(null);
+  const [admin, setAdmin] = useState<AdminProfile | null>(null);
 
   useEffect(() => {
+    const csrfInterceptor = axios.interceptors.request.use((config) => {
+      const url = config.url || '';
+      if (csrfToken && url.startsWith(API_BASE_URL) && UNSAFE_METHODS.includes((config.method || 'get').toLowerCase())) {
+        config.headers.set('X-CSRF-Token', csrfToken);
+      }
+      return config;
+    });
+
+    // Access tokens are short-lived: on a 401, refresh the session once and replay the request
+    const interceptor = axios.interceptors.response.use(
+      (response) => response,
+      async (error: AxiosError) => {
+        const config = error.config as RetriableRequest | undefined;
+        const url = config?.url || '';
+        if (
+          error.response?.status !== 401 ||
+          !config ||
+          config._retriedAfterRefresh ||
+          !url.startsWith(API_BASE_URL) ||
+          NO_REFRESH_PATHS.some((path) => url.startsWith(`${API_BASE_URL}${path}`))
+        ) {
+          return Promise.reject(error);
+        }
+
+        config._retriedAfterRefresh = true;
+        if (await refreshSession()) {
+          return axios(config);
+        }
+
+        // Refresh token expired, idle timeout hit, or the session was revoked
+        setIsAuthenticated(false);
+        setAdmin(null);
+        return Promise.reject(error);
+      }
+    );
+
     checkAuth();
+
+    return () => {
+      axios.interceptors.request.eject(csrfInterceptor);
+      axios.interceptors.response.eject(interceptor);
+    };
   }, []);
 
   const checkAuth = async () => {
@@ -28,8 +121,9 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         withCredentials: true,
       });
       if (response.data.success) {
+        setCsrfToken(response.data.csrfToken);
         setIsAuthenticated(true);
-        // You can fetch admin details here if needed
+        setAdmin(response.data.admin || null);
       }
     } catch (error) {
       setIsAuthenticated(false);
@@ -38,25 +132,56 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   };
 
-  const login = async (email: string, password: string) => {
+  const completeLogin = (profile: AdminProfile, token?: string) => {
+    setCsrfToken(token);
+    setIsAuthenticated(true);
+    setAdmin(profile);
+  };
+
+  const login = async (email: string, password: string): Promise<LoginResult> => {
     try {
       const response = await axios.post(
         `${API_BASE_URL}/auth/login`,
         { email, password },
         { withCredentials: true }
       );
+      if (response.data.requiresTwoFactor) {
+        return { status: 'two_factor', challengeToken: response.data.challengeToken };
+      }
+      if (response.data.requiresTwoFactorSetup) {
+        return { status: 'two_factor_setup', challengeToken: response.data.challengeToken };
+      }
       if (response.data.success) {
-        setIsAuthenticated(true);
-        setAdmin(response.data.admin);
+        completeLogin(response.data.admin, response.data.csrfToken);
       }
+      return { status: 'authenticated' };
     } catch (error: any) {
       throw new Error(error.response?.data?.error || 'Login failed');
     }
   };
 
+  const verifyTwoFactor = async (
+    challengeToken: string,
+    payload: { code?: string; recoveryCode?: string }
+  ) => {
+    try {
+      const response = await axios.post(
+        `${API_BASE_URL}/auth/2fa/verify`,
+        { challengeToken, ...payload },
+        { withCredentials: true }
+      );
+      if (response.data.success) {
+        completeLogin(response.data.admin, response.data.csrfToken);
+      }
+    } catch (error: any) {
+      throw new Error(error.response?.data?.error || 'Verification failed');
+    }
+  };
+
   const logout = async () => {
     try {
       await axios.post(`${API_BASE_URL}/auth/logout`, {}, { withCredentials: true });
+      setCsrfToken(null);
       setIsAuthenticated(false);
       setAdmin(null);
     } catch (error) {
@@ -64,8 +189,10 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   };
 
+  const hasPermission = (permission: string) => !!admin?.permissions?.includes(permission);
+
   return (
-    <AuthContext.Provider value={{ isAuthenticated, loading, admin, login, logout }}>
+    <AuthContext.Provider value={{ isAuthenticated, loading, admin, login, verifyTwoFactor, completeLogin, logout, hasPermission }}>
       {children}
     </AuthContext.Provider>
   );
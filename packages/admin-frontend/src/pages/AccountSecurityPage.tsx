@@ -0,0 +1,303 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import {
+    Box, Container, AppBar, Toolbar, Typography, Button, IconButton,
+    Paper, Chip, TextField, Dialog, DialogTitle, DialogContent,
+    DialogActions, CircularProgress, Alert, Table, TableBody, TableCell,
+    TableHead, TableRow, Tooltip,
+} from '@mui/material';
+import {
+    ArrowBack as ArrowBackIcon,
+    Security as SecurityIcon,
+    VpnKey as KeyIcon,
+    Devices as DevicesIcon,
+} from '@mui/icons-material';
+import axios from 'axios';
+import { useSnackbar } from '../components/ui/SnackbarProvider';
+import TwoFactorSetup from '../components/ui/TwoFactorSetup';
+import { useAuth } from '../contexts/AuthContext';
+import { apiErrorMessage } from '../utils/apiError';
+
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:5001/api/admin';
+
+interface TwoFactorStatus {
+    enabled: boolean;
+    enabledAt: string | null;
+    recoveryCodesRemaining: number;
+    enforced: boolean;
+}
+
+interface SessionInfo {
+    id: string;
+    ipAddress: string;
+    userAgent: string;
+    createdAt: string;
+    lastActivityAt: string;
+    isCurrent: boolean;
+}
+
+type CodeAction = 'disable' | 'regenerate';
+
+export default function AccountSecurityPage() {
+    const navigate = useNavigate();
+    const { showSnackbar } = useSnackbar();
+    const { admin } = useAuth();
+    const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [setupOpen, setSetupOpen] = useState(false);
+    const [codeAction, setCodeAction] = useState<CodeAction | null>(null);
+    const [code, setCode] = useState('');
+    const [actionLoading, setActionLoading] = useState(false);
+    const [newRecoveryCodes, setNewRecoveryCodes] = useState<string[] | null>(null);
+    const [sessions, setSessions] = useState<SessionInfo[]>([]);
+    const [sessionsLoading, setSessionsLoading] = useState(true);
+    const [revokingId, setRevokingId] = useState<string | null>(null);
+
+    const fetchStatus = useCallback(async () => {
+        try {
+            setLoading(true);
+            const res = await axios.get(`${API_BASE_URL}/auth/2fa`, { withCredentials: true });
+            if (res.data.success) setStatus(res.data.data);
+        } catch (err) {
+            showSnackbar(apiErrorMessage(err, 'Failed to fetch 2FA status'), 'error');
+        } finally {
+            setLoading(false);
+        }
+    }, [showSnackbar]);
+
+    const fetchSessions = useCallback(async () => {
+        try {
+            setSessionsLoading(true);
+            const res = await axios.get(`${API_BASE_URL}/auth/sessions`, { withCredentials: true });
+            if (res.data.success) setSessions(res.data.data.sessions);
+        } catch (err) {
+            showSnackbar(apiErrorMessage(err, 'Failed to fetch sessions'), 'error');
+        } finally {
+            setSessionsLoading(false);
+        }
+    }, [showSnackbar]);
+
+    useEffect(() => { fetchStatus(); fetchSessions(); }, [fetchStatus, fetchSessions]);
+
+    const handleRevokeSession = async (session: SessionInfo) => {
+        if (!window.confirm('Sign out this session?')) return;
+        try {
+            setRevokingId(session.id);
+            await axios.delete(`${API_BASE_URL}/auth/sessions/${session.id}`, { withCredentials: true });
+            showSnackbar('Session revoked', 'success');
+            fetchSessions();
+        } catch (err) {
+            showSnackbar(apiErrorMessage(err, 'Failed to revoke session'), 'error');
+        } finally {
+            setRevokingId(null);
+        }
+    };
+
+    const closeCodeDialog = () => {
+        setCodeAction(null);
+        setCode('');
+    };
+
+    const handleCodeAction = async () => {
+        if (!codeAction) return;
+        try {
+            setActionLoading(true);
+            if (codeAction === 'disable') {
+                await axios.post(`${API_BASE_URL}/auth/2fa/disable`, { code }, { withCredentials: true });
+                showSnackbar('Two-factor authentication disabled', 'success');
+            } else {
+                const res = await axios.post(`${API_BASE_URL}/auth/2fa/recovery-codes`, { code }, { withCredentials: true });
+                setNewRecoveryCodes(res.data.data.recoveryCodes);
+                showSnackbar('Recovery codes regenerated', 'success');
+            }
+            closeCodeDialog();
+            fetchStatus();
+        } catch (err) {
+            showSnackbar(apiErrorMessage(err, 'Verification failed'), 'error');
+        } finally {
+            setActionLoading(false);
+        }
+    };
+
+    return (
+        <Box sx={{ minHeight: '100vh', bgcolor: 'background.default' }}>
+            <AppBar position="sticky" elevation={1}>
+                <Toolbar>
+                    <IconButton edge="start" color="inherit" onClick={() => navigate('/dashboard')} sx={{ mr: 2 }}>
+                        <ArrowBackIcon />
+                    </IconButton>
+                    <SecurityIcon sx={{ mr: 1 }} />
+                    <Typography variant="h6" component="h1" sx={{ flexGrow: 1 }}>
+                        Account Security
+                    </Typography>
+                </Toolbar>
+            </AppBar>
+
+            <Container maxWidth="xl" sx={{ py: 4 }}>
+                <Paper elevation={2} sx={{ p: 3, maxWidth: 720 }}>
+                    <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+                        <KeyIcon color="primary" />
+                        <Typography variant="h6">Two-factor authentication</Typography>
+                        {status && (
+                            <Chip
+                                label={status.enabled ? 'Enabled' : 'Disabled'}
+                                size="small"
+                                color={status.enabled ? 'success' : 'default'}
+                                variant="outlined"
+                            />
+                        )}
+                    </Box>
+                    <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+                        Signed in as {admin?.email}. With 2FA on, signing in also requires a code from your authenticator app.
+                    </Typography>
+
+                    {loading ? (
+                        <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}><CircularProgress /></Box>
+                    ) : status?.enabled ? (
+                        <>
+                            <Typography variant="body2" sx={{ mb: 1 }}>
+                                Enabled {status.enabledAt ? new Date(status.enabledAt).toLocaleString() : ''}
+                            </Typography>
+                            <Typography variant="body2" sx={{ mb: 2 }}>
+                                Recovery codes remaining: <strong>{status.recoveryCodesRemaining}</strong>
+                            </Typography>
+                            {status.recoveryCodesRemaining <= 2 && (
+                                <Alert severity="warning" sx={{ mb: 2 }}>
+                                    You are running low on recovery codes. Generate a new set.
+                                </Alert>
+                            )}
+                            {newRecoveryCodes && (
+                                <Alert severity="info" sx={{ mb: 2 }} onClose={() => setNewRecoveryCodes(null)}>
+                                    Save these new recovery codes; the old ones no longer work:
+                                    <Box sx={{ fontFamily: 'monospace', mt: 1 }}>
+                                        {newRecoveryCodes.map((c) => <div key={c}>{c}</div>)}
+                                    </Box>
+                                </Alert>
+                            )}
+                            <Box sx={{ display: 'flex', gap: 1 }}>
+                                <Button variant="outlined" onClick={() => setCodeAction('regenerate')}>
+                                    Regenerate recovery codes
+                                </Button>
+                                {!status.enforced && (
+                                    <Button variant="outlined" color="error" onClick={() => setCodeAction('disable')}>
+                                        Disable 2FA
+                                    </Button>
+                                )}
+                            </Box>
+                        </>
+                    ) : (
+                        <>
+                            {status?.enforced && (
+                                <Alert severity="warning" sx={{ mb: 2 }}>
+                                    Two-factor authentication is required for all admins.
+                                </Alert>
+                            )}
+                            <Button variant="contained" onClick={() => setSetupOpen(true)}>
+                                Set up 2FA
+                            </Button>
+                        </>
+                    )}
+                </Paper>
+
+                <Paper elevation={2} sx={{ p: 3, mt: 3, maxWidth: 960 }}>
+                    <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 2 }}>
+                        <DevicesIcon color="primary" />
+                        <Typography variant="h6">Active sessions</Typography>
+                    </Box>
+                    {sessionsLoading ? (
+                        <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}><CircularProgress /></Box>
+                    ) : (
+                        <Table size="small">
+                            <TableHead>
+                                <TableRow>
+                                    <TableCell><strong>IP Address</strong></TableCell>
+                                    <TableCell><strong>Browser</strong></TableCell>
+                                    <TableCell><strong>Signed In</strong></TableCell>
+                                    <TableCell><strong>Last Active</strong></TableCell>
+                                    <TableCell align="center"><strong>Actions</strong></TableCell>
+                                </TableRow>
+                            </TableHead>
+                            <TableBody>
+                                {sessions.map((session) => (
+                                    <TableRow key={session.id} hover>
+                                        <TableCell sx={{ fontFamily: 'monospace' }}>{session.ipAddress || '—'}</TableCell>
+                                        <TableCell sx={{ maxWidth: 280 }}>
+                                            <Tooltip title={session.userAgent}>
+                                                <Typography variant="body2" noWrap>{session.userAgent || '—'}</Typography>
+                                            </Tooltip>
+                                        </TableCell>
+                                        <TableCell>{new Date(session.createdAt).toLocaleString()}</TableCell>
+                                        <TableCell>{new Date(session.lastActivityAt).toLocaleString()}</TableCell>
+                                        <TableCell align="center">
+                                            {session.isCurrent ? (
+                                                <Chip label="This device" size="small" color="primary" variant="outlined" />
+                                            ) : (
+                                                <Button
+                                                    size="small"
+                                                    color="error"
+                                                    variant="outlined"
+                                                    disabled={revokingId === session.id}
+                                                    onClick={() => handleRevokeSession(session)}
+                                                >
+                                                    Revoke
+                                                </Button>
+                                            )}
+                                        </TableCell>
+                                    </TableRow>
+                                ))}
+                            </TableBody>
+                        </Table>
+                    )}
+                </Paper>
+            </Container>
+
+            {/* Setup Dialog */}
+            <Dialog open={setupOpen} onClose={() => setSetupOpen(false)} maxWidth="xs" fullWidth>
+                <DialogTitle>Set up two-factor authentication</DialogTitle>
+                <DialogContent>
+                    {setupOpen && (
+                        <TwoFactorSetup
+                            setupPath="/auth/2fa/setup"
+                            enablePath="/auth/2fa/enable"
+                            onComplete={() => {
+                                setSetupOpen(false);
+                                showSnackbar('Two-factor authentication enabled', 'success');
+                                fetchStatus();
+                            }}
+                            onCancel={() => setSetupOpen(false)}
+                        />
+                    )}
+                </DialogContent>
+            </Dialog>
+
+            {/* Confirm-with-code Dialog */}
+            <Dialog open={codeAction !== null} onClose={closeCodeDialog} maxWidth="xs" fullWidth>
+                <DialogTitle>
+                    {codeAction === 'disable' ? 'Disable two-factor authentication' : 'Regenerate recovery codes'}
+                </DialogTitle>
+                <DialogContent>
+                    <TextField
+                        fullWidth
+                        label="Current authenticator code"
+                        value={code}
+                        onChange={(e) => setCode(e.target.value)}
+                        inputProps={{ inputMode: 'numeric', autoComplete: 'one-time-code', maxLength: 6 }}
+                        sx={{ mt: 2 }}
+                    />
+                </DialogContent>
+                <DialogActions sx={{ p: 2 }}>
+                    <Button onClick={closeCodeDialog}>Cancel</Button>
+                    <Button
+                        variant="contained"
+                        color={codeAction === 'disable' ? 'error' : 'primary'}
+                        startIcon={actionLoading ? <CircularProgress size={16} /> : undefined}
+                        disabled={actionLoading || code.length !== 6}
+                        onClick={handleCodeAction}
+                    >
+                        Confirm
+                    </Button>
+                </DialogActions>
+            </Dialog>
+        </Box>
+    );
+}
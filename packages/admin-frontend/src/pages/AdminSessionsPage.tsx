@@ -0,0 +1,157 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import {
+    Box, Container, AppBar, Toolbar, Typography, Button, IconButton,
+    Paper, Table, TableBody, TableCell, TableContainer, TableHead,
+    TableRow, Chip, CircularProgress, Alert, Tooltip, TextField,
+} from '@mui/material';
+import {
+    ArrowBack as ArrowBackIcon,
+    Devices as DevicesIcon,
+    Refresh as RefreshIcon,
+} from '@mui/icons-material';
+import axios from 'axios';
+import { useSnackbar } from '../components/ui/SnackbarProvider';
+import { apiErrorMessage } from '../utils/apiError';
+
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:5001/api/admin';
+
+interface AdminSessionInfo {
+    id: string;
+    adminId: string;
+    adminEmail: string;
+    ipAddress: string;
+    userAgent: string;
+    createdAt: string;
+    expiresAt: string;
+    lastActivityAt: string;
+    isCurrent: boolean;
+}
+
+export default function AdminSessionsPage() {
+    const navigate = useNavigate();
+    const { showSnackbar } = useSnackbar();
+    const [sessions, setSessions] = useState<AdminSessionInfo[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [filter, setFilter] = useState('');
+    const [actionLoading, setActionLoading] = useState<string | null>(null);
+
+    const fetchSessions = useCallback(async () => {
+        try {
+            setLoading(true);
+            const res = await axios.get(`${API_BASE_URL}/admin-sessions`, { withCredentials: true });
+            if (res.data.success) setSessions(res.data.data.sessions);
+        } catch (err) {
+            showSnackbar(apiErrorMessage(err, 'Failed to fetch admin sessions'), 'error');
+        } finally {
+            setLoading(false);
+        }
+    }, [showSnackbar]);
+
+    useEffect(() => { fetchSessions(); }, [fetchSessions]);
+
+    const handleRevoke = async (session: AdminSessionInfo) => {
+        if (!window.confirm(`Sign out ${session.adminEmail} from ${session.ipAddress || 'this session'}?`)) return;
+        try {
+            setActionLoading(session.id);
+            await axios.delete(`${API_BASE_URL}/admin-sessions/${session.id}`, { withCredentials: true });
+            showSnackbar('Session revoked', 'success');
+            fetchSessions();
+        } catch (err) {
+            showSnackbar(apiErrorMessage(err, 'Failed to revoke session'), 'error');
+        } finally {
+            setActionLoading(null);
+        }
+    };
+
+    const filtered = sessions.filter((s) =>
+        !filter.trim() ||
+        s.adminEmail.toLowerCase().includes(filter.trim().toLowerCase()) ||
+        s.ipAddress.includes(filter.trim())
+    );
+
+    return (
+        <Box sx={{ minHeight: '100vh', bgcolor: 'background.default' }}>
+            <AppBar position="sticky" elevation={1}>
+                <Toolbar>
+                    <IconButton edge="start" color="inherit" onClick={() => navigate('/dashboard')} sx={{ mr: 2 }}>
+                        <ArrowBackIcon />
+                    </IconButton>
+                    <DevicesIcon sx={{ mr: 1 }} />
+                    <Typography variant="h6" component="h1" sx={{ flexGrow: 1 }}>
+                        Admin Sessions
+                    </Typography>
+                    <IconButton color="inherit" onClick={fetchSessions}>
+                        <RefreshIcon />
+                    </IconButton>
+                </Toolbar>
+            </AppBar>
+
+            <Container maxWidth="xl" sx={{ py: 4 }}>
+                <Paper elevation={2} sx={{ p: 2, mb: 3 }}>
+                    <TextField
+                        size="small"
+                        label="Filter by email or IP"
+                        value={filter}
+                        onChange={(e) => setFilter(e.target.value)}
+                        sx={{ minWidth: 280 }}
+                    />
+                </Paper>
+
+                {loading ? (
+                    <Box sx={{ display: 'flex', justifyContent: 'center', py: 8 }}><CircularProgress /></Box>
+                ) : filtered.length === 0 ? (
+                    <Alert severity="info">No active admin sessions.</Alert>
+                ) : (
+                    <TableContainer component={Paper} elevation={2}>
+                        <Table>
+                            <TableHead>
+                                <TableRow sx={{ bgcolor: 'grey.100' }}>
+                                    <TableCell><strong>Admin</strong></TableCell>
+                                    <TableCell><strong>IP Address</strong></TableCell>
+                                    <TableCell><strong>Browser</strong></TableCell>
+                                    <TableCell><strong>Signed In</strong></TableCell>
+                                    <TableCell><strong>Last Active</strong></TableCell>
+                                    <TableCell><strong>Expires</strong></TableCell>
+                                    <TableCell align="center"><strong>Actions</strong></TableCell>
+                                </TableRow>
+                            </TableHead>
+                            <TableBody>
+                                {filtered.map((session) => (
+                                    <TableRow key={session.id} hover>
+                                        <TableCell>{session.adminEmail}</TableCell>
+                                        <TableCell sx={{ fontFamily: 'monospace' }}>{session.ipAddress || '—'}</TableCell>
+                                        <TableCell sx={{ maxWidth: 280 }}>
+                                            <Tooltip title={session.userAgent}>
+                                                <Typography variant="body2" noWrap>{session.userAgent || '—'}</Typography>
+                                            </Tooltip>
+                                        </TableCell>
+                                        <TableCell>{new Date(session.createdAt).toLocaleString()}</TableCell>
+                                        <TableCell>{new Date(session.lastActivityAt).toLocaleString()}</TableCell>
+                                        <TableCell>{new Date(session.expiresAt).toLocaleString()}</TableCell>
+                                        <TableCell align="center">
+                                            {session.isCurrent ? (
+                                                <Chip label="Your session" size="small" color="primary" variant="outlined" />
+                                            ) : (
+                                                <Button
+                                                    size="small"
+                                                    variant="outlined"
+                                                    color="error"
+                                                    startIcon={actionLoading === session.id ? <CircularProgress size={14} /> : undefined}
+                                                    disabled={actionLoading === session.id}
+                                                    onClick={() => handleRevoke(session)}
+                                                >
+                                                    Revoke
+                                                </Button>
+                                            )}
+                                        </TableCell>
+                                    </TableRow>
+                                ))}
+                            </TableBody>
+                        </Table>
+                    </TableContainer>
+                )}
+            </Container>
+        </Box>
+    );
+}
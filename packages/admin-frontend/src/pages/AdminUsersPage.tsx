@@ -0,0 +1,351 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import {
+    Box, Container, AppBar, Toolbar, Typography, Button, IconButton,
+    Paper, Table, TableBody, TableCell, TableContainer, TableHead,
+    TableRow, Chip, TextField, Dialog, DialogTitle, DialogContent,
+    DialogActions, CircularProgress, Alert, Tooltip, Select, MenuItem,
+    FormControl, InputLabel,
+} from '@mui/material';
+import {
+    ArrowBack as ArrowBackIcon,
+    AdminPanelSettings as AdminIcon,
+    Add as AddIcon,
+    Block as BlockIcon,
+    CheckCircle as CheckCircleIcon,
+    Delete as DeleteIcon,
+    LockReset as LockResetIcon,
+    LockOpen as LockOpenIcon,
+} from '@mui/icons-material';
+import axios from 'axios';
+import { useSnackbar } from '../components/ui/SnackbarProvider';
+import { useAuth } from '../contexts/AuthContext';
+import { apiErrorMessage } from '../utils/apiError';
+
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:5001/api/admin';
+
+const ADMIN_ROLES = ['super_admin', 'admin', 'moderator', 'support'];
+
+const ROLE_COLORS: Record<string, 'error' | 'warning' | 'info' | 'default'> = {
+    super_admin: 'error',
+    admin: 'warning',
+    moderator: 'info',
+    support: 'default',
+};
+
+interface AdminAccount {
+    id: string;
+    email: string;
+    username: string;
+    role: string;
+    isActive: boolean;
+    createdAt: string;
+    createdBy: string;
+    lastLoginAt?: string;
+    twoFactorEnabled: boolean;
+    lockedUntil: string | null;
+}
+
+interface BootstrapAdmin {
+    id: string;
+    email: string;
+    twoFactorEnabled: boolean;
+    lockedUntil: string | null;
+}
+
+const EMPTY_FORM = { email: '', username: '', password: '', role: 'support' };
+
+export default function AdminUsersPage() {
+    const navigate = useNavigate();
+    const { showSnackbar } = useSnackbar();
+    const { admin } = useAuth();
+    const [admins, setAdmins] = useState<AdminAccount[]>([]);
+    const [bootstrapAdmin, setBootstrapAdmin] = useState<BootstrapAdmin | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [createDialogOpen, setCreateDialogOpen] = useState(false);
+    const [createForm, setCreateForm] = useState(EMPTY_FORM);
+    const [actionLoading, setActionLoading] = useState<string | null>(null);
+    const [unlockDialogOpen, setUnlockDialogOpen] = useState(false);
+    const [unlockEmail, setUnlockEmail] = useState('');
+
+    const fetchAdmins = useCallback(async () => {
+        try {
+            setLoading(true);
+            const res = await axios.get(`${API_BASE_URL}/admin-users`, { withCredentials: true });
+            if (res.data.success) {
+                setAdmins(res.data.data.admins);
+                setBootstrapAdmin(res.data.data.bootstrapAdmin);
+            }
+        } catch (err) {
+            showSnackbar(apiErrorMessage(err, 'Failed to fetch admin accounts'), 'error');
+        } finally {
+            setLoading(false);
+        }
+    }, [showSnackbar]);
+
+    useEffect(() => { fetchAdmins(); }, [fetchAdmins]);
+
+    const handleCreate = async () => {
+        if (!createForm.email.trim() || !createForm.username.trim() || !createForm.password) {
+            showSnackbar('Email, username and password are required', 'error');
+            return;
+        }
+        try {
+            setActionLoading('create');
+            await axios.post(`${API_BASE_URL}/admin-users`, {
+                email: createForm.email.trim(),
+                username: createForm.username.trim(),
+                password: createForm.password,
+                role: createForm.role,
+            }, { withCredentials: true });
+            showSnackbar('Admin account created', 'success');
+            setCreateDialogOpen(false);
+            setCreateForm(EMPTY_FORM);
+            fetchAdmins();
+        } catch (err) {
+            showSnackbar(apiErrorMessage(err, 'Failed to create admin account'), 'error');
+        } finally {
+            setActionLoading(null);
+        }
+    };
+
+    const handleToggleActive = async (account: AdminAccount) => {
+        try {
+            setActionLoading(account.id);
+            await axios.patch(`${API_BASE_URL}/admin-users/${account.id}/status`, { isActive: !account.isActive }, { withCredentials: true });
+            showSnackbar(`Admin ${account.isActive ? 'disabled' : 'enabled'}`, 'success');
+            fetchAdmins();
+        } catch (err) {
+            showSnackbar(apiErrorMessage(err, 'Failed to update admin'), 'error');
+        } finally {
+            setActionLoading(null);
+        }
+    };
+
+    const handleDelete = async (account: AdminAccount) => {
+        if (!window.confirm(`Delete admin account ${account.email}? This cannot be undone.`)) return;
+        try {
+            setActionLoading(account.id);
+            await axios.delete(`${API_BASE_URL}/admin-users/${account.id}`, { withCredentials: true });
+            showSnackbar('Admin account deleted', 'success');
+            fetchAdmins();
+        } catch (err) {
+            showSnackbar(apiErrorMessage(err, 'Failed to delete admin'), 'error');
+        } finally {
+            setActionLoading(null);
+        }
+    };
+
+    const handleResetTwoFactor = async (account: { id: string; email: string }) => {
+        if (!window.confirm(`Reset two-factor authentication for ${account.email}? They will need to enroll again.`)) return;
+        try {
+            setActionLoading(account.id);
+            await axios.post(`${API_BASE_URL}/admin-users/${account.id}/2fa/reset`, {}, { withCredentials: true });
+            showSnackbar('Two-factor authentication reset', 'success');
+            fetchAdmins();
+        } catch (err) {
+            showSnackbar(apiErrorMessage(err, 'Failed to reset 2FA'), 'error');
+        } finally {
+            setActionLoading(null);
+        }
+    };
+
+    const handleUnlock = async (email: string) => {
+        if (!email.trim()) {
+            showSnackbar('Email is required', 'error');
+            return;
+        }
+        try {
+            setActionLoading(`unlock:${email}`);
+            const res = await axios.post(`${API_BASE_URL}/admin-users/unlock`, { email: email.trim() }, { withCredentials: true });
+            showSnackbar(res.data.message || 'Account unlocked', 'success');
+            setUnlockDialogOpen(false);
+            setUnlockEmail('');
+            fetchAdmins();
+        } catch (err) {
+            showSnackbar(apiErrorMessage(err, 'Failed to unlock account'), 'error');
+        } finally {
+            setActionLoading(null);
+        }
+    };
+
+    return (
+        <Box sx={{ minHeight: '100vh', bgcolor: 'background.default' }}>
+            <AppBar position="sticky" elevation={1}>
+                <Toolbar>
+                    <IconButton edge="start" color="inherit" onClick={() => navigate('/dashboard')} sx={{ mr: 2 }}>
+                        <ArrowBackIcon />
+                    </IconButton>
+                    <AdminIcon sx={{ mr: 1 }} />
+                    <Typography variant="h6" component="h1" sx={{ flexGrow: 1 }}>
+                        Admin Accounts
+                    </Typography>
+                    <Button color="inherit" size="small" startIcon={<LockOpenIcon />} onClick={() => setUnlockDialogOpen(true)} sx={{ mr: 1 }}>
+                        Unlock Login
+                    </Button>
+                    <Button color="inherit" variant="outlined" size="small" startIcon={<AddIcon />} onClick={() => setCreateDialogOpen(true)}>
+                        New Admin
+                    </Button>
+                </Toolbar>
+            </AppBar>
+
+            <Container maxWidth="xl" sx={{ py: 4 }}>
+                {bootstrapAdmin && (
+                    <Alert severity="warning" sx={{ mb: 3 }}>
+                        The bootstrap account <strong>{bootstrapAdmin.email}</strong> from the server environment is still enabled.
+                        Once every team member has a named account, set <code>ADMIN_BOOTSTRAP_ENABLED=false</code> on the backend.
+                        {bootstrapAdmin.lockedUntil && (
+                            <Box sx={{ mt: 1 }}>
+                                Login is locked until {new Date(bootstrapAdmin.lockedUntil).toLocaleString()}.{' '}
+                                <Button size="small" color="warning" variant="outlined" disabled={actionLoading === `unlock:${bootstrapAdmin.email}`} onClick={() => handleUnlock(bootstrapAdmin.email)}>
+                                    Unlock
+                                </Button>
+                            </Box>
+                        )}
+                        {bootstrapAdmin.twoFactorEnabled && bootstrapAdmin.id !== admin?.id && (
+                            <Box sx={{ mt: 1 }}>
+                                <Button size="small" color="warning" variant="outlined" disabled={actionLoading === bootstrapAdmin.id} onClick={() => handleResetTwoFactor(bootstrapAdmin)}>
+                                    Reset bootstrap 2FA
+                                </Button>
+                            </Box>
+                        )}
+                    </Alert>
+                )}
+
+                {loading ? (
+                    <Box sx={{ display: 'flex', justifyContent: 'center', py: 8 }}><CircularProgress /></Box>
+                ) : admins.length === 0 ? (
+                    <Alert severity="info">No admin accounts yet. Create one for each team member.</Alert>
+                ) : (
+                    <TableContainer component={Paper} elevation={2}>
+                        <Table>
+                            <TableHead>
+                                <TableRow sx={{ bgcolor: 'grey.100' }}>
+                                    <TableCell><strong>Email</strong></TableCell>
+                                    <TableCell><strong>Username</strong></TableCell>
+                                    <TableCell><strong>Role</strong></TableCell>
+                                    <TableCell><strong>Status</strong></TableCell>
+                                    <TableCell><strong>2FA</strong></TableCell>
+                                    <TableCell><strong>Last Login</strong></TableCell>
+                                    <TableCell><strong>Created</strong></TableCell>
+                                    <TableCell align="center"><strong>Actions</strong></TableCell>
+                                </TableRow>
+                            </TableHead>
+                            <TableBody>
+                                {admins.map((account) => (
+                                    <TableRow key={account.id} hover>
+                                        <TableCell>{account.email}</TableCell>
+                                        <TableCell>{account.username}</TableCell>
+                                        <TableCell>
+                                            <Chip label={account.role} size="small" color={ROLE_COLORS[account.role] || 'default'} />
+                                        </TableCell>
+                                        <TableCell>
+                                            <Chip label={account.isActive ? 'Active' : 'Disabled'} size="small" color={account.isActive ? 'success' : 'default'} variant="outlined" />
+                                            {account.lockedUntil && (
+                                                <Tooltip title={`Locked until ${new Date(account.lockedUntil).toLocaleString()}`}>
+                                                    <Chip label="Locked" size="small" color="error" sx={{ ml: 1 }} />
+                                                </Tooltip>
+                                            )}
+                                        </TableCell>
+                                        <TableCell>
+                                            <Chip label={account.twoFactorEnabled ? 'On' : 'Off'} size="small" color={account.twoFactorEnabled ? 'success' : 'default'} variant="outlined" />
+                                        </TableCell>
+                                        <TableCell>{account.lastLoginAt ? new Date(account.lastLoginAt).toLocaleString() : 'Never'}</TableCell>
+                                        <TableCell>
+                                            <Typography variant="body2">{new Date(account.createdAt).toLocaleDateString()}</Typography>
+                                            <Typography variant="caption" color="text.secondary">by {account.createdBy}</Typography>
+                                        </TableCell>
+                                        <TableCell align="center">
+                                            {account.id !== admin?.id && (
+                                                <Box sx={{ display: 'flex', gap: 1, justifyContent: 'center' }}>
+                                                    <Button
+                                                        size="small"
+                                                        variant="outlined"
+                                                        color={account.isActive ? 'warning' : 'success'}
+                                                        startIcon={actionLoading === account.id ? <CircularProgress size={14} /> : account.isActive ? <BlockIcon /> : <CheckCircleIcon />}
+                                                        disabled={actionLoading === account.id}
+                                                        onClick={() => handleToggleActive(account)}
+                                                    >
+                                                        {account.isActive ? 'Disable' : 'Enable'}
+                                                    </Button>
+                                                    {account.lockedUntil && (
+                                                        <Tooltip title="Unlock login">
+                                                            <span>
+                                                                <IconButton size="small" color="success" disabled={actionLoading === `unlock:${account.email}`} onClick={() => handleUnlock(account.email)}>
+                                                                    <LockOpenIcon fontSize="small" />
+                                                                </IconButton>
+                                                            </span>
+                                                        </Tooltip>
+                                                    )}
+                                                    {account.twoFactorEnabled && (
+                                                        <Tooltip title="Reset 2FA">
+                                                            <span>
+                                                                <IconButton size="small" color="warning" disabled={actionLoading === account.id} onClick={() => handleResetTwoFactor(account)}>
+                                                                    <LockResetIcon fontSize="small" />
+                                                                </IconButton>
+                                                            </span>
+                                                        </Tooltip>
+                                                    )}
+                                                    <Tooltip title="Delete admin">
+                                                        <span>
+                                                            <IconButton size="small" color="error" disabled={actionLoading === account.id} onClick={() => handleDelete(account)}>
+                                                                <DeleteIcon fontSize="small" />
+                                                            </IconButton>
+                                                        </span>
+                                                    </Tooltip>
+                                                </Box>
+                                            )}
+                                        </TableCell>
+                                    </TableRow>
+                                ))}
+                            </TableBody>
+                        </Table>
+                    </TableContainer>
+                )}
+            </Container>
+
+            {/* Create Admin Dialog */}
+            <Dialog open={createDialogOpen} onClose={() => setCreateDialogOpen(false)} maxWidth="sm" fullWidth>
+                <DialogTitle sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                    <AdminIcon color="primary" /> New Admin Account
+                </DialogTitle>
+                <DialogContent>
+                    <TextField fullWidth label="Email *" type="email" value={createForm.email} onChange={(e) => setCreateForm({ ...createForm, email: e.target.value })} sx={{ mt: 2, mb: 2 }} />
+                    <TextField fullWidth label="Username *" value={createForm.username} onChange={(e) => setCreateForm({ ...createForm, username: e.target.value })} sx={{ mb: 2 }} />
+                    <TextField fullWidth label="Initial Password *" type="password" value={createForm.password} onChange={(e) => setCreateForm({ ...createForm, password: e.target.value })} sx={{ mb: 2 }} helperText="At least 10 characters" autoComplete="new-password" />
+                    <FormControl fullWidth>
+                        <InputLabel>Role</InputLabel>
+                        <Select value={createForm.role} label="Role" onChange={(e) => setCreateForm({ ...createForm, role: e.target.value })}>
+                            {ADMIN_ROLES.map((r) => <MenuItem key={r} value={r}>{r}</MenuItem>)}
+                        </Select>
+                    </FormControl>
+                </DialogContent>
+                <DialogActions sx={{ p: 2 }}>
+                    <Button onClick={() => setCreateDialogOpen(false)}>Cancel</Button>
+                    <Button variant="contained" startIcon={actionLoading === 'create' ? <CircularProgress size={16} /> : <AddIcon />} disabled={actionLoading === 'create'} onClick={handleCreate}>
+                        Create
+                    </Button>
+                </DialogActions>
+            </Dialog>
+
+            {/* Unlock Login Dialog */}
+            <Dialog open={unlockDialogOpen} onClose={() => setUnlockDialogOpen(false)} maxWidth="xs" fullWidth>
+                <DialogTitle sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                    <LockOpenIcon color="primary" /> Unlock Login
+                </DialogTitle>
+                <DialogContent>
+                    <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+                        Clears the lockout and failed-attempt counters for an email address.
+                    </Typography>
+                    <TextField fullWidth label="Email *" type="email" value={unlockEmail} onChange={(e) => setUnlockEmail(e.target.value)} />
+                </DialogContent>
+                <DialogActions sx={{ p: 2 }}>
+                    <Button onClick={() => setUnlockDialogOpen(false)}>Cancel</Button>
+                    <Button variant="contained" startIcon={actionLoading === `unlock:${unlockEmail}` ? <CircularProgress size={16} /> : <LockOpenIcon />} disabled={actionLoading === `unlock:${unlockEmail}`} onClick={() => handleUnlock(unlockEmail)}>
+                        Unlock
+                    </Button>
+                </DialogActions>
+            </Dialog>
+        </Box>
+    );
+}
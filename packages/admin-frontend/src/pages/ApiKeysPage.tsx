@@ -0,0 +1,248 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import {
+    Box, Container, AppBar, Toolbar, Typography, Button, IconButton,
+    Paper, Table, TableBody, TableCell, TableContainer, TableHead,
+    TableRow, Chip, TextField, Dialog, DialogTitle, DialogContent,
+    DialogActions, CircularProgress, Alert, Tooltip, FormGroup,
+    FormControlLabel, Checkbox,
+} from '@mui/material';
+import {
+    ArrowBack as ArrowBackIcon,
+    Key as KeyIcon,
+    Add as AddIcon,
+    Block as BlockIcon,
+    ContentCopy as CopyIcon,
+} from '@mui/icons-material';
+import axios from 'axios';
+import { useSnackbar } from '../components/ui/SnackbarProvider';
+import { useAuth } from '../contexts/AuthContext';
+import { apiErrorMessage } from '../utils/apiError';
+
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:5001/api/admin';
+
+interface ApiKey {
+    id: string;
+    name: string;
+    scopes: string[];
+    createdBy: string;
+    createdByEmail: string;
+    createdAt: string;
+    expiresAt: string;
+    lastUsedAt: string | null;
+    revokedAt: string | null;
+    revokedBy: string | null;
+}
+
+const EMPTY_FORM = { name: '', expiresInDays: '30', scopes: [] as string[] };
+
+function keyStatus(key: ApiKey): { label: string; color: 'success' | 'default' | 'error' } {
+    if (key.revokedAt) return { label: 'Revoked', color: 'error' };
+    if (new Date(key.expiresAt).getTime() <= Date.now()) return { label: 'Expired', color: 'default' };
+    return { label: 'Active', color: 'success' };
+}
+
+export default function ApiKeysPage() {
+    const navigate = useNavigate();
+    const { showSnackbar } = useSnackbar();
+    const { admin } = useAuth();
+    const [keys, setKeys] = useState<ApiKey[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [createDialogOpen, setCreateDialogOpen] = useState(false);
+    const [createForm, setCreateForm] = useState(EMPTY_FORM);
+    const [createdKey, setCreatedKey] = useState<string | null>(null);
+    const [actionLoading, setActionLoading] = useState<string | null>(null);
+
+    const fetchKeys = useCallback(async () => {
+        try {
+            setLoading(true);
+            const res = await axios.get(`${API_BASE_URL}/api-keys`, { withCredentials: true });
+            if (res.data.success) setKeys(res.data.data.keys);
+        } catch (err) {
+            showSnackbar(apiErrorMessage(err, 'Failed to fetch API keys'), 'error');
+        } finally {
+            setLoading(false);
+        }
+    }, [showSnackbar]);
+
+    useEffect(() => { fetchKeys(); }, [fetchKeys]);
+
+    const toggleScope = (scope: string) => {
+        setCreateForm((form) => ({
+            ...form,
+            scopes: form.scopes.includes(scope)
+                ? form.scopes.filter((s) => s !== scope)
+                : [...form.scopes, scope],
+        }));
+    };
+
+    const handleCreate = async () => {
+        if (!createForm.name.trim() || createForm.scopes.length === 0) {
+            showSnackbar('Name and at least one scope are required', 'error');
+            return;
+        }
+        try {
+            setActionLoading('create');
+            const res = await axios.post(`${API_BASE_URL}/api-keys`, {
+                name: createForm.name.trim(),
+                scopes: createForm.scopes,
+                expiresInDays: parseInt(createForm.expiresInDays, 10),
+            }, { withCredentials: true });
+            setCreatedKey(res.data.data.key);
+            setCreateDialogOpen(false);
+            setCreateForm(EMPTY_FORM);
+            fetchKeys();
+        } catch (err) {
+            showSnackbar(apiErrorMessage(err, 'Failed to create API key'), 'error');
+        } finally {
+            setActionLoading(null);
+        }
+    };
+
+    const handleRevoke = async (key: ApiKey) => {
+        if (!window.confirm(`Revoke API key "${key.name}"? Scripts using it will stop working immediately.`)) return;
+        try {
+            setActionLoading(key.id);
+            await axios.delete(`${API_BASE_URL}/api-keys/${key.id}`, { withCredentials: true });
+            showSnackbar('API key revoked', 'success');
+            fetchKeys();
+        } catch (err) {
+            showSnackbar(apiErrorMessage(err, 'Failed to revoke API key'), 'error');
+        } finally {
+            setActionLoading(null);
+        }
+    };
+
+    const copyCreatedKey = async () => {
+        if (!createdKey) return;
+        await navigator.clipboard.writeText(createdKey);
+        showSnackbar('Copied to clipboard', 'success');
+    };
+
+    return (
+        <Box sx={{ minHeight: '100vh', bgcolor: 'background.default' }}>
+            <AppBar position="sticky" elevation={1}>
+                <Toolbar>
+                    <IconButton edge="start" color="inherit" onClick={() => navigate('/dashboard')} sx={{ mr: 2 }}>
+                        <ArrowBackIcon />
+                    </IconButton>
+                    <KeyIcon sx={{ mr: 1 }} />
+                    <Typography variant="h6" component="h1" sx={{ flexGrow: 1 }}>
+                        API Keys
+                    </Typography>
+                    <Button color="inherit" variant="outlined" size="small" startIcon={<AddIcon />} onClick={() => setCreateDialogOpen(true)}>
+                        New Key
+                    </Button>
+                </Toolbar>
+            </AppBar>
+
+            <Container maxWidth="xl" sx={{ py: 4 }}>
+                <Alert severity="info" sx={{ mb: 3 }}>
+                    Send keys as <code>Authorization: Bearer wmk_…</code>. A key acts as the admin who created it,
+                    limited to its scopes, and every call is attributed to it in the audit log.
+                </Alert>
+
+                {loading ? (
+                    <Box sx={{ display: 'flex', justifyContent: 'center', py: 8 }}><CircularProgress /></Box>
+                ) : keys.length === 0 ? (
+                    <Alert severity="info">No API keys yet.</Alert>
+                ) : (
+                    <TableContainer component={Paper} elevation={2}>
+                        <Table>
+                            <TableHead>
+                                <TableRow sx={{ bgcolor: 'grey.100' }}>
+                                    <TableCell><strong>Name</strong></TableCell>
+                                    <TableCell><strong>Owner</strong></TableCell>
+                                    <TableCell><strong>Scopes</strong></TableCell>
+                                    <TableCell><strong>Status</strong></TableCell>
+                                    <TableCell><strong>Expires</strong></TableCell>
+                                    <TableCell><strong>Last Used</strong></TableCell>
+                                    <TableCell align="center"><strong>Actions</strong></TableCell>
+                                </TableRow>
+                            </TableHead>
+                            <TableBody>
+                                {keys.map((key) => {
+                                    const status = keyStatus(key);
+                                    return (
+                                        <TableRow key={key.id} hover>
+                                            <TableCell>
+                                                <Typography variant="body2">{key.name}</Typography>
+                                                <Typography variant="caption" color="text.secondary" sx={{ fontFamily: 'monospace' }}>wmk_{key.id}…</Typography>
+                                            </TableCell>
+                                            <TableCell>{key.createdByEmail}</TableCell>
+                                            <TableCell sx={{ maxWidth: 320 }}>
+                                                <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5 }}>
+                                                    {key.scopes.map((scope) => <Chip key={scope} label={scope} size="small" variant="outlined" />)}
+                                                </Box>
+                                            </TableCell>
+                                            <TableCell>
+                                                <Chip label={status.label} size="small" color={status.color} variant="outlined" />
+                                            </TableCell>
+                                            <TableCell>{new Date(key.expiresAt).toLocaleDateString()}</TableCell>
+                                            <TableCell>{key.lastUsedAt ? new Date(key.lastUsedAt).toLocaleString() : 'Never'}</TableCell>
+                                            <TableCell align="center">
+                                                {!key.revokedAt && (
+                                                    <Tooltip title="Revoke key">
+                                                        <span>
+                                                            <IconButton size="small" color="error" disabled={actionLoading === key.id} onClick={() => handleRevoke(key)}>
+                                                                <BlockIcon fontSize="small" />
+                                                            </IconButton>
+                                                        </span>
+                                                    </Tooltip>
+                                                )}
+                                            </TableCell>
+                                        </TableRow>
+                                    );
+                                })}
+                            </TableBody>
+                        </Table>
+                    </TableContainer>
+                )}
+            </Container>
+
+            {/* Create Key Dialog */}
+            <Dialog open={createDialogOpen} onClose={() => setCreateDialogOpen(false)} maxWidth="sm" fullWidth>
+                <DialogTitle sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                    <KeyIcon color="primary" /> New API Key
+                </DialogTitle>
+                <DialogContent>
+                    <TextField fullWidth label="Name *" value={createForm.name} onChange={(e) => setCreateForm({ ...createForm, name: e.target.value })} sx={{ mt: 2, mb: 2 }} helperText="What the key is for, e.g. 'index audit script'" />
+                    <TextField fullWidth label="Expires in (days)" type="number" value={createForm.expiresInDays} onChange={(e) => setCreateForm({ ...createForm, expiresInDays: e.target.value })} sx={{ mb: 2 }} inputProps={{ min: 1, max: 365 }} />
+                    <Typography variant="subtitle2" sx={{ mb: 1 }}>Scopes *</Typography>
+                    <FormGroup sx={{ display: 'grid', gridTemplateColumns: 'repeat(2, 1fr)' }}>
+                        {(admin?.permissions || []).map((scope) => (
+                            <FormControlLabel
+                                key={scope}
+                                control={<Checkbox size="small" checked={createForm.scopes.includes(scope)} onChange={() => toggleScope(scope)} />}
+                                label={<Typography variant="body2">{scope}</Typography>}
+                            />
+                        ))}
+                    </FormGroup>
+                </DialogContent>
+                <DialogActions sx={{ p: 2 }}>
+                    <Button onClick={() => setCreateDialogOpen(false)}>Cancel</Button>
+                    <Button variant="contained" startIcon={actionLoading === 'create' ? <CircularProgress size={16} /> : <AddIcon />} disabled={actionLoading === 'create'} onClick={handleCreate}>
+                        Create
+                    </Button>
+                </DialogActions>
+            </Dialog>
+
+            {/* Show-once Key Dialog */}
+            <Dialog open={createdKey !== null} onClose={() => setCreatedKey(null)} maxWidth="sm" fullWidth>
+                <DialogTitle>API key created</DialogTitle>
+                <DialogContent>
+                    <Alert severity="warning" sx={{ mb: 2 }}>
+                        Copy this key now. It is stored hashed and will not be shown again.
+                    </Alert>
+                    <Paper variant="outlined" sx={{ p: 2, display: 'flex', alignItems: 'center', gap: 1 }}>
+                        <Typography sx={{ fontFamily: 'monospace', wordBreak: 'break-all', flexGrow: 1 }}>{createdKey}</Typography>
+                        <IconButton onClick={copyCreatedKey}><CopyIcon /></IconButton>
+                    </Paper>
+                </DialogContent>
+                <DialogActions sx={{ p: 2 }}>
+                    <Button variant="contained" onClick={() => setCreatedKey(null)}>Done</Button>
+                </DialogActions>
+            </Dialog>
+        </Box>
+    );
+}
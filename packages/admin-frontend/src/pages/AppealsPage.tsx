@@ -0,0 +1,315 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import {
+    Box, Container, AppBar, Toolbar, Typography, Button, IconButton,
+    Paper, Table, TableBody, TableCell, TableContainer, TableHead,
+    TableRow, Chip, TextField, Dialog, DialogTitle, DialogContent,
+    DialogActions, CircularProgress, Alert, MenuItem, Select,
+    FormControl, InputLabel, Divider, List, ListItem, ListItemText,
+} from '@mui/material';
+import {
+    ArrowBack as ArrowBackIcon,
+    Gavel as AppealsIcon,
+    Check as ApproveIcon,
+    Close as DenyIcon,
+    Refresh as RefreshIcon,
+} from '@mui/icons-material';
+import axios from 'axios';
+import { useSnackbar } from '../components/ui/SnackbarProvider';
+import { useAuth } from '../contexts/AuthContext';
+import { apiErrorMessage } from '../utils/apiError';
+
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:5001/api/admin';
+
+interface Appeal {
+    id: string;
+    uid: string;
+    userEmail: string | null;
+    sanction: 'ban' | 'suspension';
+    sanctionReason: string | null;
+    sanctionedAt: string | null;
+    sanctionedBy: string | null;
+    message: string;
+    status: 'pending' | 'approved' | 'denied';
+    submittedAt: string;
+    submittedBy: string;
+    decidedByEmail: string | null;
+    decidedAt: string | null;
+    decisionNote: string | null;
+    outcomeEmailSent: boolean | null;
+}
+
+interface AppealContext {
+    appeal: Appeal;
+    user: {
+        email: string | null;
+        username: string | null;
+        displayName: string | null;
+        isBanned: boolean;
+        isSuspended: boolean;
+        suspendedUntil: string | null;
+    } | null;
+    warnings: { id: string; reason: string; issuedBy: string; issuedAt: string }[];
+    history: { id: string; action: string; adminEmail: string; createdAt: string; details?: { reason?: string } }[];
+}
+
+const STATUS_COLORS: Record<Appeal['status'], 'warning' | 'success' | 'default'> = {
+    pending: 'warning',
+    approved: 'success',
+    denied: 'default',
+};
+
+export default function AppealsPage() {
+    const navigate = useNavigate();
+    const { showSnackbar } = useSnackbar();
+    const { hasPermission } = useAuth();
+    const canDecide = hasPermission('appeals:decide');
+
+    const [appeals, setAppeals] = useState<Appeal[]>([]);
+    const [status, setStatus] = useState('pending');
+    const [loading, setLoading] = useState(true);
+    const [selected, setSelected] = useState<AppealContext | null>(null);
+    const [detailLoading, setDetailLoading] = useState<string | null>(null);
+    const [deciding, setDeciding] = useState<'approve' | 'deny' | null>(null);
+    const [note, setNote] = useState('');
+
+    const fetchAppeals = useCallback(async () => {
+        try {
+            setLoading(true);
+            const res = await axios.get(`${API_BASE_URL}/appeals`, { params: { status }, withCredentials: true });
+            if (res.data.success) setAppeals(res.data.data.appeals);
+        } catch (err) {
+            showSnackbar(apiErrorMessage(err, 'Failed to fetch appeals'), 'error');
+        } finally {
+            setLoading(false);
+        }
+    }, [status, showSnackbar]);
+
+    useEffect(() => { fetchAppeals(); }, [fetchAppeals]);
+
+    const openAppeal = async (appeal: Appeal) => {
+        try {
+            setDetailLoading(appeal.id);
+            const res = await axios.get(`${API_BASE_URL}/appeals/${appeal.id}`, { withCredentials: true });
+            setNote('');
+            setSelected(res.data.data);
+        } catch (err) {
+            showSnackbar(apiErrorMessage(err, 'Failed to load appeal'), 'error');
+        } finally {
+            setDetailLoading(null);
+        }
+    };
+
+    const handleDecision = async (type: 'approve' | 'deny') => {
+        if (!selected) return;
+        try {
+            setDeciding(type);
+            const res = await axios.post(`${API_BASE_URL}/appeals/${selected.appeal.id}/${type}`, { note: note.trim() || undefined }, { withCredentials: true });
+            showSnackbar(res.data.message, 'success');
+            setSelected(null);
+            fetchAppeals();
+        } catch (err) {
+            showSnackbar(apiErrorMessage(err, `Failed to ${type} appeal`), 'error');
+            fetchAppeals();
+        } finally {
+            setDeciding(null);
+        }
+    };
+
+    const appeal = selected?.appeal;
+    const stillInEffect = selected?.user && appeal
+        ? (appeal.sanction === 'ban' ? selected.user.isBanned : selected.user.isSuspended)
+        : false;
+
+    return (
+        <Box sx={{ minHeight: '100vh', bgcolor: 'background.default' }}>
+            <AppBar position="sticky" elevation={1}>
+                <Toolbar>
+                    <IconButton edge="start" color="inherit" onClick={() => navigate('/dashboard')} sx={{ mr: 2 }}>
+                        <ArrowBackIcon />
+                    </IconButton>
+                    <AppealsIcon sx={{ mr: 1 }} />
+                    <Typography variant="h6" component="h1" sx={{ flexGrow: 1 }}>
+                        Appeals
+                    </Typography>
+                    <IconButton color="inherit" onClick={fetchAppeals}>
+                        <RefreshIcon />
+                    </IconButton>
+                </Toolbar>
+            </AppBar>
+
+            <Container maxWidth="xl" sx={{ py: 4 }}>
+                <Box sx={{ mb: 2 }}>
+                    <FormControl size="small" sx={{ minWidth: 180 }}>
+                        <InputLabel>Status</InputLabel>
+                        <Select value={status} label="Status" onChange={(e) => setStatus(e.target.value)}>
+                            <MenuItem value="pending">Pending</MenuItem>
+                            <MenuItem value="approved">Approved</MenuItem>
+                            <MenuItem value="denied">Denied</MenuItem>
+                            <MenuItem value="all">All</MenuItem>
+                        </Select>
+                    </FormControl>
+                </Box>
+
+                {loading ? (
+                    <Box sx={{ display: 'flex', justifyContent: 'center', py: 8 }}><CircularProgress /></Box>
+                ) : appeals.length === 0 ? (
+                    <Alert severity="info">No {status === 'all' ? '' : status} appeals.</Alert>
+                ) : (
+                    <TableContainer component={Paper} elevation={2}>
+                        <Table>
+                            <TableHead>
+                                <TableRow sx={{ bgcolor: 'grey.100' }}>
+                                    <TableCell><strong>User</strong></TableCell>
+                                    <TableCell><strong>Sanction</strong></TableCell>
+                                    <TableCell><strong>Appeal</strong></TableCell>
+                                    <TableCell><strong>Submitted</strong></TableCell>
+                                    <TableCell><strong>Status</strong></TableCell>
+                                </TableRow>
+                            </TableHead>
+                            <TableBody>
+                                {appeals.map((a) => (
+                                    <TableRow key={a.id} hover sx={{ cursor: 'pointer' }} onClick={() => openAppeal(a)}>
+                                        <TableCell>
+                                            <Typography variant="body2">{a.userEmail || 'No email'}</Typography>
+                                            <Typography variant="caption" color="text.secondary" sx={{ fontFamily: 'monospace' }}>{a.uid}</Typography>
+                                        </TableCell>
+                                        <TableCell sx={{ maxWidth: 260 }}>
+                                            <Chip label={a.sanction} size="small" color={a.sanction === 'ban' ? 'error' : 'warning'} variant="outlined" sx={{ mb: 0.5 }} />
+                                            <Typography variant="body2" noWrap>{a.sanctionReason || '—'}</Typography>
+                                        </TableCell>
+                                        <TableCell sx={{ maxWidth: 360 }}>
+                                            <Typography variant="body2" noWrap>{a.message}</Typography>
+                                        </TableCell>
+                                        <TableCell sx={{ whiteSpace: 'nowrap' }}>
+                                            {detailLoading === a.id ? <CircularProgress size={16} /> : new Date(a.submittedAt).toLocaleString()}
+                                        </TableCell>
+                                        <TableCell>
+                                            <Chip label={a.status} size="small" color={STATUS_COLORS[a.status]} />
+                                            {a.decidedByEmail && (
+                                                <Typography variant="caption" color="text.secondary" display="block">by {a.decidedByEmail}</Typography>
+                                            )}
+                                        </TableCell>
+                                    </TableRow>
+                                ))}
+                            </TableBody>
+                        </Table>
+                    </TableContainer>
+                )}
+            </Container>
+
+            {/* Review Dialog */}
+            <Dialog open={selected !== null} onClose={() => setSelected(null)} maxWidth="md" fullWidth>
+                <DialogTitle>
+                    Appeal against {appeal?.sanction} — {selected?.user?.email || appeal?.uid}
+                </DialogTitle>
+                {selected && appeal && (
+                    <DialogContent dividers>
+                        <Typography variant="subtitle2" gutterBottom>Original {appeal.sanction}</Typography>
+                        <Paper variant="outlined" sx={{ p: 1.5, mb: 2 }}>
+                            <Typography variant="body2">{appeal.sanctionReason || 'No reason recorded'}</Typography>
+                            <Typography variant="caption" color="text.secondary">
+                                {appeal.sanctionedBy && `by ${appeal.sanctionedBy} · `}
+                                {appeal.sanctionedAt && new Date(appeal.sanctionedAt).toLocaleString()}
+                            </Typography>
+                        </Paper>
+                        {appeal.status === 'pending' && !stillInEffect && (
+                            <Alert severity="info" sx={{ mb: 2 }}>
+                                The {appeal.sanction} is no longer in effect. Approving will only close the appeal.
+                            </Alert>
+                        )}
+                        {selected.user?.isSuspended && selected.user.suspendedUntil && (
+                            <Alert severity="info" sx={{ mb: 2 }}>
+                                Suspended until {new Date(selected.user.suspendedUntil).toLocaleString()}
+                            </Alert>
+                        )}
+
+                        <Typography variant="subtitle2" gutterBottom>User's appeal</Typography>
+                        <Paper variant="outlined" sx={{ p: 1.5, mb: 2 }}>
+                            <Typography variant="body2" sx={{ whiteSpace: 'pre-wrap', wordBreak: 'break-word' }}>{appeal.message}</Typography>
+                            <Typography variant="caption" color="text.secondary">
+                                Submitted {new Date(appeal.submittedAt).toLocaleString()} via {appeal.submittedBy}
+                            </Typography>
+                        </Paper>
+
+                        <Typography variant="subtitle2">Warnings ({selected.warnings.length})</Typography>
+                        {selected.warnings.length === 0 ? (
+                            <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>No warnings.</Typography>
+                        ) : (
+                            <List dense sx={{ mb: 1 }}>
+                                {selected.warnings.map((w) => (
+                                    <ListItem key={w.id} disableGutters>
+                                        <ListItemText primary={w.reason} secondary={`${w.issuedBy} · ${new Date(w.issuedAt).toLocaleString()}`} />
+                                    </ListItem>
+                                ))}
+                            </List>
+                        )}
+
+                        <Typography variant="subtitle2">Audit history</Typography>
+                        {selected.history.length === 0 ? (
+                            <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>No admin actions recorded.</Typography>
+                        ) : (
+                            <List dense sx={{ mb: 1, maxHeight: 240, overflow: 'auto' }}>
+                                {selected.history.map((entry) => (
+                                    <ListItem key={entry.id} disableGutters>
+                                        <ListItemText
+                                            primary={<><Chip label={entry.action} size="small" variant="outlined" sx={{ mr: 1 }} />{entry.details?.reason || ''}</>}
+                                            secondary={`${entry.adminEmail} · ${new Date(entry.createdAt).toLocaleString()}`}
+                                        />
+                                    </ListItem>
+                                ))}
+                            </List>
+                        )}
+
+                        <Divider sx={{ my: 2 }} />
+                        {appeal.status === 'pending' ? (
+                            canDecide && (
+                                <TextField
+                                    fullWidth
+                                    multiline
+                                    rows={3}
+                                    label="Message to the user (optional)"
+                                    helperText={appeal.userEmail ? `Included in the outcome email to ${appeal.userEmail}` : 'This user has no email address; no email will be sent'}
+                                    value={note}
+                                    onChange={(e) => setNote(e.target.value)}
+                                />
+                            )
+                        ) : (
+                            <Alert severity={appeal.status === 'approved' ? 'success' : 'info'}>
+                                {appeal.status === 'approved' ? 'Approved' : 'Denied'} by {appeal.decidedByEmail}
+                                {appeal.decidedAt && ` on ${new Date(appeal.decidedAt).toLocaleString()}`}.
+                                {appeal.decisionNote && ` Message: ${appeal.decisionNote}`}
+                                {appeal.outcomeEmailSent === false && ' The outcome email could not be sent.'}
+                            </Alert>
+                        )}
+                    </DialogContent>
+                )}
+                <DialogActions sx={{ p: 2 }}>
+                    <Button onClick={() => setSelected(null)}>Close</Button>
+                    {appeal?.status === 'pending' && canDecide && (
+                        <>
+                            <Button
+                                variant="outlined"
+                                color="error"
+                                startIcon={deciding === 'deny' ? <CircularProgress size={16} /> : <DenyIcon />}
+                                disabled={!!deciding}
+                                onClick={() => handleDecision('deny')}
+                            >
+                                Deny
+                            </Button>
+                            <Button
+                                variant="contained"
+                                color="success"
+                                startIcon={deciding === 'approve' ? <CircularProgress size={16} /> : <ApproveIcon />}
+                                disabled={!!deciding}
+                                onClick={() => handleDecision('approve')}
+                            >
+                                Approve{stillInEffect ? ` & lift ${appeal.sanction}` : ''}
+                            </Button>
+                        </>
+                    )}
+                </DialogActions>
+            </Dialog>
+        </Box>
+    );
+}
@@ -0,0 +1,313 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import {
+    Box, Container, AppBar, Toolbar, Typography, Button, IconButton,
+    Paper, Table, TableBody, TableCell, TableContainer, TableHead,
+    TableRow, Chip, TextField, Dialog, DialogTitle, DialogContent,
+    DialogActions, CircularProgress, Alert, Tooltip, MenuItem, Select,
+    FormControl, InputLabel, FormControlLabel, Switch, Grid,
+} from '@mui/material';
+import {
+    ArrowBack as ArrowBackIcon,
+    HowToReg as ApprovalsIcon,
+    Check as ApproveIcon,
+    Close as RejectIcon,
+    Refresh as RefreshIcon,
+    Save as SaveIcon,
+} from '@mui/icons-material';
+import axios from 'axios';
+import { useSnackbar } from '../components/ui/SnackbarProvider';
+import { useAuth } from '../contexts/AuthContext';
+import { apiErrorMessage } from '../utils/apiError';
+
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:5001/api/admin';
+
+interface Approval {
+    id: string;
+    action: 'BAN_USER' | 'SET_ROLE_ADMIN' | 'DEDUCT_CREDITS';
+    targetUid: string;
+    params: Record<string, unknown>;
+    status: 'pending' | 'approved' | 'rejected' | 'expired' | 'failed';
+    requestedBy: string;
+    requestedByEmail: string;
+    requestedAt: string;
+    expiresAt: string;
+    decidedByEmail: string | null;
+    decidedAt: string | null;
+    decisionNote: string | null;
+    error: string | null;
+}
+
+interface ApprovalPolicy {
+    banUser: boolean;
+    promoteToAdmin: boolean;
+    creditDeductionThreshold: number;
+    expiryHours: number;
+}
+
+const ACTION_LABELS: Record<Approval['action'], string> = {
+    BAN_USER: 'Ban user',
+    SET_ROLE_ADMIN: 'Promote to admin',
+    DEDUCT_CREDITS: 'Deduct credits',
+};
+
+const STATUS_COLORS: Record<Approval['status'], 'warning' | 'success' | 'default' | 'error'> = {
+    pending: 'warning',
+    approved: 'success',
+    rejected: 'default',
+    expired: 'default',
+    failed: 'error',
+};
+
+function describeParams(approval: Approval): string {
+    switch (approval.action) {
+        case 'BAN_USER': return `Reason: ${approval.params.reason}`;
+        case 'SET_ROLE_ADMIN': return `New role: ${approval.params.role}`;
+        case 'DEDUCT_CREDITS': return `${approval.params.amount} credits — ${approval.params.reason}`;
+    }
+}
+
+export default function ApprovalsPage() {
+    const navigate = useNavigate();
+    const { showSnackbar } = useSnackbar();
+    const { admin, hasPermission } = useAuth();
+    const [approvals, setApprovals] = useState<Approval[]>([]);
+    const [status, setStatus] = useState('pending');
+    const [loading, setLoading] = useState(true);
+    const [actionLoading, setActionLoading] = useState<string | null>(null);
+    const [decision, setDecision] = useState<{ approval: Approval; type: 'approve' | 'reject' } | null>(null);
+    const [note, setNote] = useState('');
+    const [policy, setPolicy] = useState<ApprovalPolicy | null>(null);
+    const canEditPolicy = hasPermission('admins:manage');
+    const canDecide = hasPermission('approvals:decide');
+
+    const fetchApprovals = useCallback(async () => {
+        try {
+            setLoading(true);
+            const res = await axios.get(`${API_BASE_URL}/approvals`, { params: { status }, withCredentials: true });
+            if (res.data.success) setApprovals(res.data.data.approvals);
+        } catch (err) {
+            showSnackbar(apiErrorMessage(err, 'Failed to fetch approvals'), 'error');
+        } finally {
+            setLoading(false);
+        }
+    }, [status, showSnackbar]);
+
+    const fetchPolicy = useCallback(async () => {
+        try {
+            const res = await axios.get(`${API_BASE_URL}/approvals/policy`, { withCredentials: true });
+            if (res.data.success) setPolicy(res.data.data.policy);
+        } catch (err) {
+            showSnackbar(apiErrorMessage(err, 'Failed to fetch approval policy'), 'error');
+        }
+    }, [showSnackbar]);
+
+    useEffect(() => { fetchApprovals(); }, [fetchApprovals]);
+    useEffect(() => { fetchPolicy(); }, [fetchPolicy]);
+
+    const openDecision = (approval: Approval, type: 'approve' | 'reject') => {
+        setNote('');
+        setDecision({ approval, type });
+    };
+
+    const handleDecision = async () => {
+        if (!decision) return;
+        const { approval, type } = decision;
+        try {
+            setActionLoading(approval.id);
+            const res = await axios.post(`${API_BASE_URL}/approvals/${approval.id}/${type}`, { note: note.trim() || undefined }, { withCredentials: true });
+            showSnackbar(res.data.message, 'success');
+            setDecision(null);
+            fetchApprovals();
+        } catch (err) {
+            showSnackbar(apiErrorMessage(err, `Failed to ${type} request`), 'error');
+            fetchApprovals();
+        } finally {
+            setActionLoading(null);
+        }
+    };
+
+    const handleSavePolicy = async () => {
+        if (!policy) return;
+        try {
+            setActionLoading('policy');
+            const res = await axios.put(`${API_BASE_URL}/approvals/policy`, policy, { withCredentials: true });
+            setPolicy(res.data.data.policy);
+            showSnackbar('Approval policy saved', 'success');
+        } catch (err) {
+            showSnackbar(apiErrorMessage(err, 'Failed to save approval policy'), 'error');
+        } finally {
+            setActionLoading(null);
+        }
+    };
+
+    return (
+        <Box sx={{ minHeight: '100vh', bgcolor: 'background.default' }}>
+            <AppBar position="sticky" elevation={1}>
+                <Toolbar>
+                    <IconButton edge="start" color="inherit" onClick={() => navigate('/dashboard')} sx={{ mr: 2 }}>
+                        <ArrowBackIcon />
+                    </IconButton>
+                    <ApprovalsIcon sx={{ mr: 1 }} />
+                    <Typography variant="h6" component="h1" sx={{ flexGrow: 1 }}>
+                        Pending Approvals
+                    </Typography>
+                    <IconButton color="inherit" onClick={fetchApprovals}>
+                        <RefreshIcon />
+                    </IconButton>
+                </Toolbar>
+            </AppBar>
+
+            <Container maxWidth="xl" sx={{ py: 4 }}>
+                {policy && (
+                    <Paper elevation={2} sx={{ p: 3, mb: 3 }}>
+                        <Typography variant="subtitle1" fontWeight={600} sx={{ mb: 2 }}>Approval policy</Typography>
+                        <Grid container spacing={2} alignItems="center">
+                            <Grid item xs={12} sm={6} md={3}>
+                                <FormControlLabel
+                                    control={<Switch checked={policy.banUser} disabled={!canEditPolicy} onChange={(e) => setPolicy({ ...policy, banUser: e.target.checked })} />}
+                                    label="Bans need approval"
+                                />
+                            </Grid>
+                            <Grid item xs={12} sm={6} md={3}>
+                                <FormControlLabel
+                                    control={<Switch checked={policy.promoteToAdmin} disabled={!canEditPolicy} onChange={(e) => setPolicy({ ...policy, promoteToAdmin: e.target.checked })} />}
+                                    label="Promotion to admin needs approval"
+                                />
+                            </Grid>
+                            <Grid item xs={12} sm={6} md={2}>
+                                <TextField fullWidth size="small" type="number" label="Credit deduction threshold" value={policy.creditDeductionThreshold} disabled={!canEditPolicy} onChange={(e) => setPolicy({ ...policy, creditDeductionThreshold: parseInt(e.target.value, 10) || 0 })} helperText="0 = never" inputProps={{ min: 0 }} />
+                            </Grid>
+                            <Grid item xs={12} sm={6} md={2}>
+                                <TextField fullWidth size="small" type="number" label="Expires after (hours)" value={policy.expiryHours} disabled={!canEditPolicy} onChange={(e) => setPolicy({ ...policy, expiryHours: parseInt(e.target.value, 10) || 0 })} inputProps={{ min: 1, max: 168 }} />
+                            </Grid>
+                            {canEditPolicy && (
+                                <Grid item xs={12} md={2}>
+                                    <Button variant="contained" startIcon={actionLoading === 'policy' ? <CircularProgress size={16} /> : <SaveIcon />} disabled={actionLoading === 'policy'} onClick={handleSavePolicy}>
+                                        Save
+                                    </Button>
+                                </Grid>
+                            )}
+                        </Grid>
+                    </Paper>
+                )}
+
+                <Box sx={{ mb: 2 }}>
+                    <FormControl size="small" sx={{ minWidth: 180 }}>
+                        <InputLabel>Status</InputLabel>
+                        <Select value={status} label="Status" onChange={(e) => setStatus(e.target.value)}>
+                            <MenuItem value="pending">Pending</MenuItem>
+                            <MenuItem value="approved">Approved</MenuItem>
+                            <MenuItem value="rejected">Rejected</MenuItem>
+                            <MenuItem value="expired">Expired</MenuItem>
+                            <MenuItem value="failed">Failed</MenuItem>
+                            <MenuItem value="all">All</MenuItem>
+                        </Select>
+                    </FormControl>
+                </Box>
+
+                {loading ? (
+                    <Box sx={{ display: 'flex', justifyContent: 'center', py: 8 }}><CircularProgress /></Box>
+                ) : approvals.length === 0 ? (
+                    <Alert severity="info">No {status === 'all' ? '' : status} approval requests.</Alert>
+                ) : (
+                    <TableContainer component={Paper} elevation={2}>
+                        <Table>
+                            <TableHead>
+                                <TableRow sx={{ bgcolor: 'grey.100' }}>
+                                    <TableCell><strong>Action</strong></TableCell>
+                                    <TableCell><strong>Target UID</strong></TableCell>
+                                    <TableCell><strong>Details</strong></TableCell>
+                                    <TableCell><strong>Requested By</strong></TableCell>
+                                    <TableCell><strong>Requested</strong></TableCell>
+                                    <TableCell><strong>Status</strong></TableCell>
+                                    <TableCell align="center"><strong>Actions</strong></TableCell>
+                                </TableRow>
+                            </TableHead>
+                            <TableBody>
+                                {approvals.map((approval) => {
+                                    const isOwn = approval.requestedBy === admin?.id;
+                                    return (
+                                        <TableRow key={approval.id} hover>
+                                            <TableCell>
+                                                <Chip label={ACTION_LABELS[approval.action]} size="small" color="error" variant="outlined" />
+                                            </TableCell>
+                                            <TableCell sx={{ fontFamily: 'monospace', fontSize: '0.8rem' }}>{approval.targetUid}</TableCell>
+                                            <TableCell sx={{ maxWidth: 320 }}>
+                                                <Typography variant="body2">{describeParams(approval)}</Typography>
+                                                {approval.decisionNote && (
+                                                    <Typography variant="caption" color="text.secondary">Note: {approval.decisionNote}</Typography>
+                                                )}
+                                                {approval.error && (
+                                                    <Typography variant="caption" color="error" display="block">Error: {approval.error}</Typography>
+                                                )}
+                                            </TableCell>
+                                            <TableCell>{approval.requestedByEmail}{isOwn && ' (you)'}</TableCell>
+                                            <TableCell>
+                                                <Typography variant="body2">{new Date(approval.requestedAt).toLocaleString()}</Typography>
+                                                {approval.status === 'pending' && (
+                                                    <Typography variant="caption" color="text.secondary">Expires {new Date(approval.expiresAt).toLocaleString()}</Typography>
+                                                )}
+                                            </TableCell>
+                                            <TableCell>
+                                                <Chip label={approval.status} size="small" color={STATUS_COLORS[approval.status]} />
+                                                {approval.decidedByEmail && (
+                                                    <Typography variant="caption" color="text.secondary" display="block">by {approval.decidedByEmail}</Typography>
+                                                )}
+                                            </TableCell>
+                                            <TableCell align="center">
+                                                {approval.status === 'pending' && canDecide && (
+                                                    <Box sx={{ display: 'flex', justifyContent: 'center', gap: 0.5 }}>
+                                                        <Tooltip title={isOwn ? 'A second admin must approve your request' : 'Approve'}>
+                                                            <span>
+                                                                <IconButton size="small" color="success" disabled={isOwn || actionLoading === approval.id} onClick={() => openDecision(approval, 'approve')}>
+                                                                    <ApproveIcon fontSize="small" />
+                                                                </IconButton>
+                                                            </span>
+                                                        </Tooltip>
+                                                        <Tooltip title={isOwn ? 'Withdraw' : 'Reject'}>
+                                                            <span>
+                                                                <IconButton size="small" color="error" disabled={actionLoading === approval.id} onClick={() => openDecision(approval, 'reject')}>
+                                                                    <RejectIcon fontSize="small" />
+                                                                </IconButton>
+                                                            </span>
+                                                        </Tooltip>
+                                                    </Box>
+                                                )}
+                                            </TableCell>
+                                        </TableRow>
+                                    );
+                                })}
+                            </TableBody>
+                        </Table>
+                    </TableContainer>
+                )}
+            </Container>
+
+            {/* Approve / Reject Dialog */}
+            <Dialog open={decision !== null} onClose={() => setDecision(null)} maxWidth="sm" fullWidth>
+                <DialogTitle>{decision?.type === 'approve' ? 'Approve request' : 'Reject request'}</DialogTitle>
+                <DialogContent>
+                    {decision && (
+                        <Alert severity={decision.type === 'approve' ? 'warning' : 'info'} sx={{ mb: 2 }}>
+                            {ACTION_LABELS[decision.approval.action]} for <code>{decision.approval.targetUid}</code> — {describeParams(decision.approval)}.
+                            {decision.type === 'approve' && ' This takes effect immediately.'}
+                        </Alert>
+                    )}
+                    <TextField fullWidth multiline rows={2} label="Note (optional)" value={note} onChange={(e) => setNote(e.target.value)} />
+                </DialogContent>
+                <DialogActions sx={{ p: 2 }}>
+                    <Button onClick={() => setDecision(null)}>Cancel</Button>
+                    <Button
+                        variant="contained"
+                        color={decision?.type === 'approve' ? 'success' : 'error'}
+                        disabled={!!decision && actionLoading === decision.approval.id}
+                        onClick={handleDecision}
+                    >
+                        {decision?.type === 'approve' ? 'Approve' : 'Reject'}
+                    </Button>
+                </DialogActions>
+            </Dialog>
+        </Box>
+    );
+}
@@ -4,15 +4,22 @@ import {
     Box, Container, AppBar, Toolbar, Typography, IconButton,
     Paper, Table, TableBody, TableCell, TableContainer, TableHead,
     TableRow, Chip, TextField, CircularProgress, Alert, Button,
-    Select, MenuItem, FormControl, InputLabel,
+    Select, MenuItem, FormControl, InputLabel, Dialog, DialogTitle,
+    DialogContent, DialogActions, Checkbox, ListItemText,
+    ToggleButton, ToggleButtonGroup, InputAdornment,
 } from '@mui/material';
 import {
     ArrowBack as ArrowBackIcon,
     History as HistoryIcon,
     Refresh as RefreshIcon,
+    Download as DownloadIcon,
+    Search as SearchIcon,
+    Undo as UndoIcon,
 } from '@mui/icons-material';
 import axios from 'axios';
 import { useSnackbar } from '../components/ui/SnackbarProvider';
+import { useAuth } from '../contexts/AuthContext';
+import { apiErrorMessage } from '../utils/apiError';
 
 const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:5001/api/admin';
 
@@ -37,15 +44,140 @@ const ACTION_COLORS: Record<string, 'error' | 'warning' | 'success' | 'info' | '
     SEND_EMAIL: 'info',
     CREATE_ANNOUNCEMENT: 'info',
     DEACTIVATE_ANNOUNCEMENT: 'default',
+    CREATE_ADMIN: 'info',
+    ENABLE_ADMIN: 'success',
+    DISABLE_ADMIN: 'warning',
+    DELETE_ADMIN: 'error',
+    ENABLE_2FA: 'success',
+    DISABLE_2FA: 'warning',
+    RESET_2FA: 'warning',
+    REGENERATE_2FA_RECOVERY_CODES: 'info',
+    USE_2FA_RECOVERY_CODE: 'warning',
+    REVOKE_ADMIN_SESSION: 'warning',
+    LOGIN_LOCKOUT: 'error',
+    UNLOCK_ADMIN_LOGIN: 'success',
+    REFRESH_TOKEN_REUSE: 'error',
+    CREATE_API_KEY: 'info',
+    REVOKE_API_KEY: 'warning',
+    REQUEST_APPROVAL: 'info',
+    REJECT_APPROVAL: 'default',
+    EXPORT_AUDIT_LOGS: 'info',
+    UPDATE_RETENTION_POLICY: 'warning',
+    RUN_RETENTION: 'info',
+    REHYDRATE_ARCHIVE: 'info',
+    UPDATE_APPROVAL_POLICY: 'warning',
+    UPDATE_ESCALATION_RULES: 'warning',
+    FLAG_FOR_REVIEW: 'warning',
+    BULK_MODERATION: 'warning',
+    CREATE_CASE: 'info',
+    UPDATE_CASE: 'info',
+    ADD_CASE_EVIDENCE: 'default',
+    REMOVE_CASE_EVIDENCE: 'default',
+    ADD_CASE_NOTE: 'default',
+    LINK_CASE_ACTION: 'default',
+    UNLINK_CASE_ACTION: 'default',
+    ADD_ADMIN_NOTE: 'default',
+    PIN_ADMIN_NOTE: 'default',
+    UNPIN_ADMIN_NOTE: 'default',
+    SUBMIT_APPEAL: 'info',
+    APPROVE_APPEAL: 'success',
+    DENY_APPEAL: 'default',
+    UPDATE_AESTHETIC_SCORE: 'info',
+    BULK_UPDATE_AESTHETIC_SCORE: 'info',
+    REMOVE_FROM_ARTSTATION: 'warning',
+    UPDATE_GENERATION: 'info',
+    DELETE_GENERATION: 'error',
+};
+
+// Actions that can be undone from here, with the permission reverting them needs
+const REVERSIBLE_ACTIONS: Record<string, string> = {
+    SET_ROLE: 'users:role',
+    SET_GLOBAL_FLAG: 'flags:write',
+    SET_USER_FLAG: 'flags:write',
+    BLOCK_IP: 'ips:block',
+    ADD_CREDITS: 'credits:adjust',
+    UPDATE_AESTHETIC_SCORE: 'generations:score',
+    BULK_UPDATE_AESTHETIC_SCORE: 'generations:score',
+};
+
+const RESOURCES = [
+    'user', 'admin_user', 'admin_session', 'admin_login', 'api_key', 'approval', 'approval_policy',
+    'announcement', 'feature_flag', 'generation', 'ip', 'device', 'audit_log', 'retention', 'retention_policy', 'escalation_rules', 'moderation_case', 'appeal', 'system',
+];
+
+const GROUP_BY_LABELS: Record<string, string> = {
+    admin: 'Admin',
+    action: 'Action',
+    resource: 'Resource',
+    target: 'Target user',
+};
+
+// Filter each grouped view narrows the list to when a group is clicked
+const GROUP_BY_FILTERS: Record<string, keyof AuditFilters> = {
+    admin: 'adminEmail',
+    resource: 'resource',
+    target: 'targetUid',
+};
+
+interface AuditFilters {
+    adminEmail: string;
+    targetUid: string;
+    resource: string;
+    actions: string[];
+    /** datetime-local values */
+    from: string;
+    to: string;
+    q: string;
+}
+
+interface AuditGroup {
+    key: string;
+    count: number;
+    lastAt: string;
+}
+
+interface AuditSummary {
+    groups: AuditGroup[];
+    total: number;
+    truncated: boolean;
+}
+
+const EMPTY_FILTERS: AuditFilters = { adminEmail: '', targetUid: '', resource: '', actions: [], from: '', to: '', q: '' };
+
+// datetime-local inputs want local time without seconds or zone
+const toLocalInput = (date: Date) => {
+    const local = new Date(date.getTime() - date.getTimezoneOffset() * 60000);
+    return local.toISOString().slice(0, 16);
+};
+
+const toQueryParams = (filters: AuditFilters) => {
+    const params: Record<string, string> = {};
+    if (filters.adminEmail.trim()) params.adminEmail = filters.adminEmail.trim();
+    if (filters.targetUid.trim()) params.targetUid = filters.targetUid.trim();
+    if (filters.resource) params.resource = filters.resource;
+    if (filters.actions.length) params.actions = filters.actions.join(',');
+    if (filters.from) params.from = new Date(filters.from).toISOString();
+    if (filters.to) params.to = new Date(filters.to).toISOString();
+    if (filters.q.trim()) params.q = filters.q.trim();
+    return params;
 };
 
 interface AuditLog {
     id: string;
     adminEmail: string;
+    apiKeyId?: string;
+    apiKeyName?: string;
     action: string;
+    resource: string;
+    resourceId?: string;
     targetUid?: string;
     details: Record<string, any>;
-    timestamp: string;
+    ipAddress: string;
+    userAgent: string;
+    requestId?: string;
+    route?: string;
+    sessionId?: string;
+    createdAt: string;
 }
 
 export default function AuditLogPage() {
@@ -53,32 +185,129 @@ export default function AuditLogPage() {
     const { showSnackbar } = useSnackbar();
     const [logs, setLogs] = useState<AuditLog[]>([]);
     const [loading, setLoading] = useState(true);
-    const [filterAdmin, setFilterAdmin] = useState('');
-    const [filterTarget, setFilterTarget] = useState('');
-    const [filterAction, setFilterAction] = useState('');
+    const [loadingMore, setLoadingMore] = useState(false);
+    const [nextCursor, setNextCursor] = useState<string | null>(null);
+    const [scanned, setScanned] = useState<number | null>(null);
+    const [filters, setFilters] = useState<AuditFilters>(EMPTY_FILTERS);
+    const [applied, setApplied] = useState<AuditFilters>(EMPTY_FILTERS);
+    const [view, setView] = useState<'list' | 'grouped'>('list');
+    const [groupBy, setGroupBy] = useState('action');
+    const [summary, setSummary] = useState<AuditSummary | null>(null);
+    const [exportOpen, setExportOpen] = useState(false);
+    const [exporting, setExporting] = useState(false);
+    const [exportForm, setExportForm] = useState({ format: 'csv', from: '', to: '', actions: [] as string[] });
+    const [revertTarget, setRevertTarget] = useState<AuditLog | null>(null);
+    const [reverting, setReverting] = useState(false);
+    const { hasPermission } = useAuth();
 
-    const fetchLogs = useCallback(async () => {
+    const fetchLogs = useCallback(async (cursor?: string) => {
         try {
-            setLoading(true);
-            const params: any = { limit: 100 };
-            if (filterAdmin.trim()) params.adminEmail = filterAdmin.trim();
-            if (filterTarget.trim()) params.targetUid = filterTarget.trim();
+            if (cursor) setLoadingMore(true);
+            else setLoading(true);
+            const params: Record<string, string | number> = { ...toQueryParams(applied), limit: 100 };
+            if (cursor) params.cursor = cursor;
             const res = await axios.get(`${API_BASE_URL}/audit-logs`, { params, withCredentials: true });
-            if (res.data.success) setLogs(res.data.data.logs);
-        } catch (err: any) {
-            showSnackbar(err.response?.data?.error || 'Failed to fetch audit logs', 'error');
+            if (res.data.success) {
+                const data = res.data.data;
+                setLogs((prev) => (cursor ? [...prev, ...data.logs] : data.logs));
+                setNextCursor(data.hasMore ? data.nextCursor : null);
+                setScanned((prev) => (data.scanned === undefined ? null : (cursor ? prev || 0 : 0) + data.scanned));
+            }
+        } catch (err) {
+            showSnackbar(apiErrorMessage(err, 'Failed to fetch audit logs'), 'error');
         } finally {
             setLoading(false);
+            setLoadingMore(false);
         }
-    }, [filterAdmin, filterTarget]);
+    }, [applied, showSnackbar]);
+
+    const fetchSummary = useCallback(async () => {
+        try {
+            setLoading(true);
+            const params = { ...toQueryParams(applied), groupBy };
+            const res = await axios.get(`${API_BASE_URL}/audit-logs/summary`, { params, withCredentials: true });
+            if (res.data.success) setSummary(res.data.data);
+        } catch (err) {
+            showSnackbar(apiErrorMessage(err, 'Failed to summarise audit logs'), 'error');
+        } finally {
+            setLoading(false);
+        }
+    }, [applied, groupBy, showSnackbar]);
+
+    const refresh = useCallback(() => (view === 'grouped' ? fetchSummary() : fetchLogs()), [view, fetchSummary, fetchLogs]);
 
-    useEffect(() => { fetchLogs(); }, [fetchLogs]);
+    useEffect(() => { refresh(); }, [refresh]);
 
-    const filteredLogs = filterAction
-        ? logs.filter((l) => l.action === filterAction)
-        : logs;
+    const applyFilters = (next: AuditFilters) => {
+        setFilters(next);
+        setApplied(next);
+    };
+
+    const applyPreset = (preset: 'today' | '24h' | '7d') => {
+        const from = new Date();
+        if (preset === 'today') from.setHours(0, 0, 0, 0);
+        else from.setTime(from.getTime() - (preset === '24h' ? 1 : 7) * 24 * 60 * 60 * 1000);
+        applyFilters({ ...filters, from: toLocalInput(from), to: '' });
+    };
+
+    // Drill from a group into the matching entries, keeping the other filters
+    const openGroup = (key: string) => {
+        const field = GROUP_BY_FILTERS[groupBy];
+        const next = field
+            ? { ...applied, [field]: key === '(none)' ? '' : key }
+            : { ...applied, actions: [key] };
+        applyFilters(next);
+        setView('list');
+    };
 
     const uniqueActions = Array.from(new Set(logs.map((l) => l.action))).sort();
+    const exportableActions = Array.from(new Set([...Object.keys(ACTION_COLORS), ...uniqueActions])).sort();
+
+    const handleRevert = async () => {
+        if (!revertTarget) return;
+        try {
+            setReverting(true);
+            const res = await axios.post(`${API_BASE_URL}/audit-logs/${revertTarget.id}/revert`, {}, { withCredentials: true });
+            showSnackbar(res.data.message || 'Action reverted', 'success');
+            setRevertTarget(null);
+            fetchLogs();
+        } catch (err) {
+            showSnackbar(apiErrorMessage(err, 'Failed to revert action'), 'error');
+        } finally {
+            setReverting(false);
+        }
+    };
+
+    const canRevert = (log: AuditLog) =>
+        !!REVERSIBLE_ACTIONS[log.action] && hasPermission(REVERSIBLE_ACTIONS[log.action]);
+
+    const handleExport = async () => {
+        try {
+            setExporting(true);
+            const params: Record<string, string> = { format: exportForm.format };
+            if (exportForm.from) params.from = exportForm.from;
+            if (exportForm.to) params.to = exportForm.to;
+            if (exportForm.actions.length) params.actions = exportForm.actions.join(',');
+            const { adminEmail, targetUid, resource, q } = toQueryParams(applied);
+            Object.assign(params, { adminEmail, targetUid, resource, q });
+            const res = await axios.get(`${API_BASE_URL}/audit-logs/export`, { params, responseType: 'blob', withCredentials: true });
+
+            const url = URL.createObjectURL(res.data);
+            const link = document.createElement('a');
+            link.href = url;
+            link.download = `audit-logs-${new Date().toISOString().slice(0, 10)}.${exportForm.format}`;
+            link.click();
+            URL.revokeObjectURL(url);
+            setExportOpen(false);
+        } catch (err) {
+            // Error bodies arrive as a Blob because of responseType
+            const data = axios.isAxiosError(err) ? err.response?.data : undefined;
+            const body = data instanceof Blob ? JSON.parse(await data.text()) : data;
+            showSnackbar(body?.error || 'Failed to export audit logs', 'error');
+        } finally {
+            setExporting(false);
+        }
+    };
 
     return (
         <Box sx={{ minHeight: '100vh', bgcolor: 'background.default' }}>
@@ -91,7 +320,12 @@ export default function AuditLogPage() {
                     <Typography variant="h6" component="h1" sx={{ flexGrow: 1 }}>
                         Audit Log
                     </Typography>
-                    <IconButton color="inherit" onClick={fetchLogs} title="Refresh">
+                    {hasPermission('audit:export') && (
+                        <Button color="inherit" variant="outlined" size="small" startIcon={<DownloadIcon />} onClick={() => setExportOpen(true)} sx={{ mr: 1 }}>
+                            Export
+                        </Button>
+                    )}
+                    <IconButton color="inherit" onClick={refresh} title="Refresh">
                         <RefreshIcon />
                     </IconButton>
                 </Toolbar>
@@ -99,71 +333,286 @@ export default function AuditLogPage() {
 
             <Container maxWidth="xl" sx={{ py: 4 }}>
                 {/* Filters */}
-                <Paper elevation={2} sx={{ p: 2, mb: 3, display: 'flex', gap: 2, flexWrap: 'wrap', alignItems: 'center' }}>
-                    <TextField size="small" label="Filter by Admin Email" value={filterAdmin} onChange={(e) => setFilterAdmin(e.target.value)} sx={{ minWidth: 220 }} />
-                    <TextField size="small" label="Filter by Target User UID" value={filterTarget} onChange={(e) => setFilterTarget(e.target.value)} sx={{ minWidth: 220 }} />
-                    <FormControl size="small" sx={{ minWidth: 200 }}>
-                        <InputLabel>Filter by Action</InputLabel>
-                        <Select value={filterAction} label="Filter by Action" onChange={(e) => setFilterAction(e.target.value)}>
-                            <MenuItem value="">All Actions</MenuItem>
-                            {uniqueActions.map((a) => <MenuItem key={a} value={a}>{a}</MenuItem>)}
-                        </Select>
-                    </FormControl>
-                    <Button variant="outlined" size="small" onClick={fetchLogs}>Apply Filters</Button>
+                <Paper elevation={2} sx={{ p: 2, mb: 3 }}>
+                    <Box sx={{ display: 'flex', gap: 2, flexWrap: 'wrap', alignItems: 'center', mb: 2 }}>
+                        <TextField
+                            size="small"
+                            label="Search details"
+                            value={filters.q}
+                            onChange={(e) => setFilters({ ...filters, q: e.target.value })}
+                            onKeyDown={(e) => e.key === 'Enter' && setApplied(filters)}
+                            InputProps={{ startAdornment: <InputAdornment position="start"><SearchIcon fontSize="small" /></InputAdornment> }}
+                            sx={{ minWidth: 260 }}
+                        />
+                        <TextField size="small" label="Filter by Admin Email" value={filters.adminEmail} onChange={(e) => setFilters({ ...filters, adminEmail: e.target.value })} sx={{ minWidth: 220 }} />
+                        <TextField size="small" label="Filter by Target User UID" value={filters.targetUid} onChange={(e) => setFilters({ ...filters, targetUid: e.target.value })} sx={{ minWidth: 220 }} />
+                        <FormControl size="small" sx={{ minWidth: 160 }}>
+                            <InputLabel>Resource</InputLabel>
+                            <Select value={filters.resource} label="Resource" onChange={(e) => setFilters({ ...filters, resource: e.target.value })}>
+                                <MenuItem value="">All Resources</MenuItem>
+                                {RESOURCES.map((r) => <MenuItem key={r} value={r}>{r}</MenuItem>)}
+                            </Select>
+                        </FormControl>
+                        <FormControl size="small" sx={{ minWidth: 220, maxWidth: 320 }}>
+                            <InputLabel>Filter by Action</InputLabel>
+                            <Select
+                                multiple
+                                value={filters.actions}
+                                label="Filter by Action"
+                                onChange={(e) => setFilters({ ...filters, actions: typeof e.target.value === 'string' ? e.target.value.split(',') : e.target.value })}
+                                renderValue={(selected) => selected.length === 0 ? 'All Actions' : selected.join(', ')}
+                            >
+                                {exportableActions.map((a) => (
+                                    <MenuItem key={a} value={a}>
+                                        <Checkbox size="small" checked={filters.actions.includes(a)} />
+                                        <ListItemText primary={a} />
+                                    </MenuItem>
+                                ))}
+                            </Select>
+                        </FormControl>
+                    </Box>
+                    <Box sx={{ display: 'flex', gap: 2, flexWrap: 'wrap', alignItems: 'center' }}>
+                        <TextField size="small" type="datetime-local" label="From" InputLabelProps={{ shrink: true }} value={filters.from} onChange={(e) => setFilters({ ...filters, from: e.target.value })} />
+                        <TextField size="small" type="datetime-local" label="To" InputLabelProps={{ shrink: true }} value={filters.to} onChange={(e) => setFilters({ ...filters, to: e.target.value })} />
+                        <Button size="small" onClick={() => applyPreset('today')}>Today</Button>
+                        <Button size="small" onClick={() => applyPreset('24h')}>Last 24h</Button>
+                        <Button size="small" onClick={() => applyPreset('7d')}>Last 7 days</Button>
+                        <Box sx={{ flexGrow: 1 }} />
+                        <Button size="small" onClick={() => applyFilters(EMPTY_FILTERS)}>Clear</Button>
+                        <Button variant="outlined" size="small" onClick={() => setApplied(filters)}>Apply Filters</Button>
+                    </Box>
                 </Paper>
 
+                <Box sx={{ display: 'flex', gap: 2, alignItems: 'center', mb: 2 }}>
+                    <ToggleButtonGroup size="small" exclusive value={view} onChange={(_, value) => value && setView(value)}>
+                        <ToggleButton value="list">Entries</ToggleButton>
+                        <ToggleButton value="grouped">Grouped</ToggleButton>
+                    </ToggleButtonGroup>
+                    {view === 'grouped' && (
+                        <FormControl size="small" sx={{ minWidth: 160 }}>
+                            <InputLabel>Group by</InputLabel>
+                            <Select value={groupBy} label="Group by" onChange={(e) => setGroupBy(e.target.value)}>
+                                {Object.entries(GROUP_BY_LABELS).map(([value, label]) => <MenuItem key={value} value={value}>{label}</MenuItem>)}
+                            </Select>
+                        </FormControl>
+                    )}
+                    {view === 'list' && scanned !== null && (
+                        <Typography variant="caption" color="text.secondary">
+                            {logs.length} matches in the {scanned} most recent entries searched
+                        </Typography>
+                    )}
+                </Box>
+
                 {loading ? (
                     <Box sx={{ display: 'flex', justifyContent: 'center', py: 8 }}><CircularProgress /></Box>
-                ) : filteredLogs.length === 0 ? (
+                ) : view === 'grouped' ? (
+                    !summary || summary.groups.length === 0 ? (
+                        <Alert severity="info">No audit log entries found.</Alert>
+                    ) : (
+                        <>
+                            {summary.truncated && (
+                                <Alert severity="warning" sx={{ mb: 2 }}>
+                                    Only the most recent entries were counted. Narrow the time window for exact totals.
+                                </Alert>
+                            )}
+                            <TableContainer component={Paper} elevation={2}>
+                                <Table size="small">
+                                    <TableHead>
+                                        <TableRow sx={{ bgcolor: 'grey.100' }}>
+                                            <TableCell><strong>{GROUP_BY_LABELS[groupBy]}</strong></TableCell>
+                                            <TableCell align="right"><strong>Entries</strong></TableCell>
+                                            <TableCell><strong>Latest</strong></TableCell>
+                                        </TableRow>
+                                    </TableHead>
+                                    <TableBody>
+                                        {summary.groups.map((group) => (
+                                            <TableRow key={group.key} hover sx={{ cursor: 'pointer' }} onClick={() => openGroup(group.key)} title="Show these entries">
+                                                <TableCell>
+                                                    {groupBy === 'action' ? (
+                                                        <Chip label={group.key} size="small" color={ACTION_COLORS[group.key] || 'default'} sx={{ fontSize: '0.65rem' }} />
+                                                    ) : (
+                                                        <Typography variant="body2" sx={{ fontSize: '0.8rem', fontFamily: groupBy === 'target' ? 'monospace' : undefined }}>{group.key}</Typography>
+                                                    )}
+                                                </TableCell>
+                                                <TableCell align="right">{group.count}</TableCell>
+                                                <TableCell sx={{ whiteSpace: 'nowrap', fontSize: '0.75rem' }}>{new Date(group.lastAt).toLocaleString()}</TableCell>
+                                            </TableRow>
+                                        ))}
+                                        <TableRow>
+                                            <TableCell><strong>Total</strong></TableCell>
+                                            <TableCell align="right"><strong>{summary.total}</strong></TableCell>
+                                            <TableCell />
+                                        </TableRow>
+                                    </TableBody>
+                                </Table>
+                            </TableContainer>
+                        </>
+                    )
+                ) : logs.length === 0 ? (
                     <Alert severity="info">No audit log entries found.</Alert>
                 ) : (
-                    <TableContainer component={Paper} elevation={2}>
-                        <Table size="small">
-                            <TableHead>
-                                <TableRow sx={{ bgcolor: 'grey.100' }}>
-                                    <TableCell><strong>Timestamp</strong></TableCell>
-                                    <TableCell><strong>Admin</strong></TableCell>
-                                    <TableCell><strong>Action</strong></TableCell>
-                                    <TableCell><strong>Target User</strong></TableCell>
-                                    <TableCell><strong>Details</strong></TableCell>
-                                </TableRow>
-                            </TableHead>
-                            <TableBody>
-                                {filteredLogs.map((log) => (
-                                    <TableRow key={log.id} hover>
-                                        <TableCell sx={{ whiteSpace: 'nowrap', fontSize: '0.75rem' }}>
-                                            {new Date(log.timestamp).toLocaleString()}
-                                        </TableCell>
-                                        <TableCell>
-                                            <Typography variant="body2" sx={{ fontSize: '0.75rem' }}>{log.adminEmail}</Typography>
-                                        </TableCell>
-                                        <TableCell>
-                                            <Chip
-                                                label={log.action}
-                                                size="small"
-                                                color={ACTION_COLORS[log.action] || 'default'}
-                                                sx={{ fontSize: '0.65rem' }}
-                                            />
-                                        </TableCell>
-                                        <TableCell>
-                                            {log.targetUid ? (
-                                                <Typography variant="body2" sx={{ fontFamily: 'monospace', fontSize: '0.7rem' }}>
-                                                    {log.targetUid}
-                                                </Typography>
-                                            ) : '—'}
-                                        </TableCell>
-                                        <TableCell>
-                                            <Typography variant="body2" sx={{ fontSize: '0.7rem', color: 'text.secondary', maxWidth: 300, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
-                                                {JSON.stringify(log.details)}
-                                            </Typography>
-                                        </TableCell>
+                    <>
+                        <TableContainer component={Paper} elevation={2}>
+                            <Table size="small">
+                                <TableHead>
+                                    <TableRow sx={{ bgcolor: 'grey.100' }}>
+                                        <TableCell><strong>Timestamp</strong></TableCell>
+                                        <TableCell><strong>Admin</strong></TableCell>
+                                        <TableCell><strong>Action</strong></TableCell>
+                                        <TableCell><strong>Target</strong></TableCell>
+                                        <TableCell><strong>Details</strong></TableCell>
+                                        <TableCell />
                                     </TableRow>
-                                ))}
-                            </TableBody>
-                        </Table>
-                    </TableContainer>
+                                </TableHead>
+                                <TableBody>
+                                    {logs.map((log) => (
+                                        <TableRow key={log.id} hover>
+                                            <TableCell sx={{ whiteSpace: 'nowrap', fontSize: '0.75rem' }}>
+                                                {new Date(log.createdAt).toLocaleString()}
+                                            </TableCell>
+                                            <TableCell>
+                                                <Typography variant="body2" sx={{ fontSize: '0.75rem' }}>{log.adminEmail}</Typography>
+                                                {log.ipAddress && (
+                                                    <Typography variant="caption" color="text.secondary" title={log.userAgent} display="block">{log.ipAddress}</Typography>
+                                                )}
+                                                {log.route && (
+                                                    <Typography
+                                                        variant="caption"
+                                                        color="text.secondary"
+                                                        display="block"
+                                                        title={[log.requestId && `Request ${log.requestId}`, log.sessionId && `Session ${log.sessionId}`].filter(Boolean).join('\n')}
+                                                        sx={{ fontFamily: 'monospace', fontSize: '0.65rem' }}
+                                                    >
+                                                        {log.route}
+                                                    </Typography>
+                                                )}
+                                                {log.apiKeyId && (
+                                                    <Chip label={`API key: ${log.apiKeyName || log.apiKeyId}`} size="small" variant="outlined" sx={{ fontSize: '0.6rem', mt: 0.5 }} />
+                                                )}
+                                            </TableCell>
+                                            <TableCell>
+                                                <Chip
+                                                    label={log.action}
+                                                    size="small"
+                                                    color={ACTION_COLORS[log.action] || 'default'}
+                                                    sx={{ fontSize: '0.65rem' }}
+                                                />
+                                                {log.details?.revertOf && (
+                                                    <Chip
+                                                        icon={<UndoIcon />}
+                                                        label="Revert"
+                                                        size="small"
+                                                        variant="outlined"
+                                                        title={`Reverts entry ${log.details.revertOf}`}
+                                                        sx={{ fontSize: '0.6rem', ml: 0.5 }}
+                                                    />
+                                                )}
+                                            </TableCell>
+                                            <TableCell>
+                                                <Typography variant="caption" color="text.secondary">{log.resource}</Typography>
+                                                {log.resourceId && (
+                                                    <Typography variant="body2" sx={{ fontFamily: 'monospace', fontSize: '0.7rem' }}>
+                                                        {log.resourceId}
+                                                    </Typography>
+                                                )}
+                                            </TableCell>
+                                            <TableCell>
+                                                <Typography variant="body2" title={JSON.stringify(log.details, null, 2)} sx={{ fontSize: '0.7rem', color: 'text.secondary', maxWidth: 300, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                                                    {JSON.stringify(log.details)}
+                                                </Typography>
+                                            </TableCell>
+                                            <TableCell align="right">
+                                                {canRevert(log) && (
+                                                    <Button size="small" startIcon={<UndoIcon />} onClick={() => setRevertTarget(log)}>
+                                                        Revert
+                                                    </Button>
+                                                )}
+                                            </TableCell>
+                                        </TableRow>
+                                    ))}
+                                </TableBody>
+                            </Table>
+                        </TableContainer>
+                        {nextCursor && (
+                            <Box sx={{ display: 'flex', justifyContent: 'center', mt: 2 }}>
+                                <Button variant="outlined" disabled={loadingMore} startIcon={loadingMore ? <CircularProgress size={16} /> : undefined} onClick={() => fetchLogs(nextCursor)}>
+                                    {applied.q.trim() ? 'Search further back' : 'Load more'}
+                                </Button>
+                            </Box>
+                        )}
+                    </>
                 )}
             </Container>
+
+            {/* Revert Dialog */}
+            <Dialog open={!!revertTarget} onClose={() => setRevertTarget(null)} maxWidth="sm" fullWidth>
+                <DialogTitle sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                    <UndoIcon color="warning" /> Revert {revertTarget?.action}
+                </DialogTitle>
+                <DialogContent>
+                    <Alert severity="warning" sx={{ mt: 1, mb: 2 }}>
+                        This applies the opposite change and logs it as a new entry. It is refused if the value has changed since.
+                    </Alert>
+                    <Typography variant="body2" color="text.secondary">
+                        {revertTarget && `${new Date(revertTarget.createdAt).toLocaleString()} by ${revertTarget.adminEmail}`}
+                    </Typography>
+                    <Typography variant="body2" sx={{ fontFamily: 'monospace', fontSize: '0.75rem', mt: 1, wordBreak: 'break-all' }}>
+                        {revertTarget && JSON.stringify(revertTarget.details)}
+                    </Typography>
+                </DialogContent>
+                <DialogActions sx={{ p: 2 }}>
+                    <Button onClick={() => setRevertTarget(null)}>Cancel</Button>
+                    <Button variant="contained" color="warning" startIcon={reverting ? <CircularProgress size={16} /> : <UndoIcon />} disabled={reverting} onClick={handleRevert}>
+                        Revert
+                    </Button>
+                </DialogActions>
+            </Dialog>
+
+            {/* Export Dialog */}
+            <Dialog open={exportOpen} onClose={() => setExportOpen(false)} maxWidth="sm" fullWidth>
+                <DialogTitle sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                    <DownloadIcon color="primary" /> Export Audit Log
+                </DialogTitle>
+                <DialogContent>
+                    <Alert severity="info" sx={{ mt: 1, mb: 2 }}>
+                        Exports every matching entry, not just the rows on screen. The admin, target, resource and search filters above are applied too.
+                    </Alert>
+                    <FormControl fullWidth size="small" sx={{ mb: 2 }}>
+                        <InputLabel>Format</InputLabel>
+                        <Select value={exportForm.format} label="Format" onChange={(e) => setExportForm({ ...exportForm, format: e.target.value })}>
+                            <MenuItem value="csv">CSV</MenuItem>
+                            <MenuItem value="jsonl">JSONL</MenuItem>
+                        </Select>
+                    </FormControl>
+                    <Box sx={{ display: 'flex', gap: 2, mb: 2 }}>
+                        <TextField fullWidth size="small" type="date" label="From" InputLabelProps={{ shrink: true }} value={exportForm.from} onChange={(e) => setExportForm({ ...exportForm, from: e.target.value })} />
+                        <TextField fullWidth size="small" type="date" label="To" InputLabelProps={{ shrink: true }} value={exportForm.to} onChange={(e) => setExportForm({ ...exportForm, to: e.target.value })} />
+                    </Box>
+                    <FormControl fullWidth size="small">
+                        <InputLabel>Action types</InputLabel>
+                        <Select
+                            multiple
+                            value={exportForm.actions}
+                            label="Action types"
+                            onChange={(e) => setExportForm({ ...exportForm, actions: typeof e.target.value === 'string' ? e.target.value.split(',') : e.target.value })}
+                            renderValue={(selected) => selected.length === 0 ? 'All actions' : selected.join(', ')}
+                        >
+                            {exportableActions.map((a) => (
+                                <MenuItem key={a} value={a}>
+                                    <Checkbox size="small" checked={exportForm.actions.includes(a)} />
+                                    <ListItemText primary={a} />
+                                </MenuItem>
+                            ))}
+                        </Select>
+                    </FormControl>
+                </DialogContent>
+                <DialogActions sx={{ p: 2 }}>
+                    <Button onClick={() => setExportOpen(false)}>Cancel</Button>
+                    <Button variant="contained" startIcon={exporting ? <CircularProgress size={16} /> : <DownloadIcon />} disabled={exporting} onClick={handleExport}>
+                        Export
+                    </Button>
+                </DialogActions>
+            </Dialog>
         </Box>
     );
 }
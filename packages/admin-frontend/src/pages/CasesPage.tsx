@@ -0,0 +1,225 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import {
+    Box, Container, AppBar, Toolbar, Typography, Button, IconButton,
+    Paper, Table, TableBody, TableCell, TableContainer, TableHead,
+    TableRow, Chip, TextField, Dialog, DialogTitle, DialogContent,
+    DialogActions, CircularProgress, Alert, MenuItem, Select,
+    FormControl, InputLabel, ToggleButton, ToggleButtonGroup,
+} from '@mui/material';
+import {
+    ArrowBack as ArrowBackIcon,
+    Assignment as CasesIcon,
+    Refresh as RefreshIcon,
+    Add as AddIcon,
+} from '@mui/icons-material';
+import axios from 'axios';
+import { useSnackbar } from '../components/ui/SnackbarProvider';
+import { useAuth } from '../contexts/AuthContext';
+import CaseDetailDialog, {
+    CASE_STATUS_COLORS, CaseAssignee, CaseStatus, ModerationCase,
+} from '../components/ui/CaseDetailDialog';
+import { apiErrorMessage } from '../utils/apiError';
+
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:5001/api/admin';
+
+// "active" is open + investigating, fetched as two queries
+type StatusFilter = 'active' | CaseStatus | 'all';
+type AssigneeFilter = 'all' | 'me' | 'unassigned';
+
+const EMPTY_FORM = { subjectType: 'user' as 'user' | 'generation', subjectId: '', title: '', description: '' };
+
+export default function CasesPage() {
+    const navigate = useNavigate();
+    const [searchParams, setSearchParams] = useSearchParams();
+    const { showSnackbar } = useSnackbar();
+    const { hasPermission } = useAuth();
+    const canWrite = hasPermission('cases:write');
+
+    const [cases, setCases] = useState<ModerationCase[]>([]);
+    const [assignees, setAssignees] = useState<CaseAssignee[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [statusFilter, setStatusFilter] = useState<StatusFilter>('active');
+    const [assigneeFilter, setAssigneeFilter] = useState<AssigneeFilter>('all');
+    const [selectedCaseId, setSelectedCaseId] = useState<string | null>(null);
+    const [createOpen, setCreateOpen] = useState(false);
+    const [createForm, setCreateForm] = useState(EMPTY_FORM);
+    const [creating, setCreating] = useState(false);
+
+    const fetchCases = useCallback(async () => {
+        try {
+            setLoading(true);
+            const params: Record<string, string> = { limit: '200' };
+            if (assigneeFilter !== 'all') params.assignee = assigneeFilter;
+            const statuses = statusFilter === 'active' ? ['open', 'investigating'] : statusFilter === 'all' ? [''] : [statusFilter];
+            const responses = await Promise.all(statuses.map((status) =>
+                axios.get(`${API_BASE_URL}/cases`, { params: status ? { ...params, status } : params, withCredentials: true })));
+            const merged: ModerationCase[] = responses.flatMap((res) => res.data.data.cases);
+            merged.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+            setCases(merged);
+        } catch (err) {
+            showSnackbar(apiErrorMessage(err, 'Failed to fetch cases'), 'error');
+        } finally {
+            setLoading(false);
+        }
+    }, [statusFilter, assigneeFilter, showSnackbar]);
+
+    const fetchAssignees = async () => {
+        try {
+            const res = await axios.get(`${API_BASE_URL}/cases/assignees`, { withCredentials: true });
+            if (res.data.success) setAssignees(res.data.data.assignees);
+        } catch (e) { /* assignee picker stays empty */ }
+    };
+
+    useEffect(() => { fetchAssignees(); }, []);
+    useEffect(() => { fetchCases(); }, [statusFilter, assigneeFilter, fetchCases]);
+
+    // Opened from a user or generation: /cases?subjectType=user&subjectId=<uid>
+    useEffect(() => {
+        const subjectType = searchParams.get('subjectType');
+        const subjectId = searchParams.get('subjectId');
+        if (canWrite && subjectId && (subjectType === 'user' || subjectType === 'generation')) {
+            setCreateForm({ ...EMPTY_FORM, subjectType, subjectId });
+            setCreateOpen(true);
+            setSearchParams({}, { replace: true });
+        }
+    }, [searchParams, canWrite, setSearchParams]);
+
+    const handleCreate = async () => {
+        try {
+            setCreating(true);
+            const res = await axios.post(`${API_BASE_URL}/cases`, createForm, { withCredentials: true });
+            showSnackbar('Case opened', 'success');
+            setCreateOpen(false);
+            setCreateForm(EMPTY_FORM);
+            setSelectedCaseId(res.data.data.case.id);
+            fetchCases();
+        } catch (err) {
+            showSnackbar(apiErrorMessage(err, 'Failed to open case'), 'error');
+        } finally {
+            setCreating(false);
+        }
+    };
+
+    return (
+        <Box sx={{ minHeight: '100vh', bgcolor: 'background.default' }}>
+            <AppBar position="sticky" elevation={1}>
+                <Toolbar>
+                    <IconButton edge="start" color="inherit" onClick={() => navigate('/dashboard')} sx={{ mr: 2 }}>
+                        <ArrowBackIcon />
+                    </IconButton>
+                    <CasesIcon sx={{ mr: 1 }} />
+                    <Typography variant="h6" component="h1" sx={{ flexGrow: 1 }}>
+                        Moderation Cases
+                    </Typography>
+                    {canWrite && (
+                        <Button color="inherit" variant="outlined" size="small" startIcon={<AddIcon />} onClick={() => setCreateOpen(true)} sx={{ mr: 1 }}>
+                            New case
+                        </Button>
+                    )}
+                    <IconButton color="inherit" onClick={fetchCases}>
+                        <RefreshIcon />
+                    </IconButton>
+                </Toolbar>
+            </AppBar>
+
+            <Container maxWidth="xl" sx={{ py: 4 }}>
+                <Box sx={{ display: 'flex', gap: 2, flexWrap: 'wrap', mb: 2 }}>
+                    <ToggleButtonGroup size="small" exclusive value={statusFilter} onChange={(_, v) => v && setStatusFilter(v)}>
+                        <ToggleButton value="active">Open work</ToggleButton>
+                        <ToggleButton value="open">Open</ToggleButton>
+                        <ToggleButton value="investigating">Investigating</ToggleButton>
+                        <ToggleButton value="resolved">Resolved</ToggleButton>
+                        <ToggleButton value="all">All</ToggleButton>
+                    </ToggleButtonGroup>
+                    <ToggleButtonGroup size="small" exclusive value={assigneeFilter} onChange={(_, v) => v && setAssigneeFilter(v)}>
+                        <ToggleButton value="all">Anyone</ToggleButton>
+                        <ToggleButton value="me">Assigned to me</ToggleButton>
+                        <ToggleButton value="unassigned">Unassigned</ToggleButton>
+                    </ToggleButtonGroup>
+                </Box>
+
+                {loading ? (
+                    <Box sx={{ display: 'flex', justifyContent: 'center', py: 8 }}><CircularProgress /></Box>
+                ) : cases.length === 0 ? (
+                    <Alert severity="info">No cases match these filters.</Alert>
+                ) : (
+                    <TableContainer component={Paper} elevation={2}>
+                        <Table size="small">
+                            <TableHead>
+                                <TableRow sx={{ bgcolor: 'grey.100' }}>
+                                    <TableCell><strong>Case</strong></TableCell>
+                                    <TableCell><strong>Subject</strong></TableCell>
+                                    <TableCell><strong>Status</strong></TableCell>
+                                    <TableCell><strong>Assignee</strong></TableCell>
+                                    <TableCell align="right"><strong>Evidence</strong></TableCell>
+                                    <TableCell align="right"><strong>Notes</strong></TableCell>
+                                    <TableCell align="right"><strong>Actions</strong></TableCell>
+                                    <TableCell><strong>Updated</strong></TableCell>
+                                </TableRow>
+                            </TableHead>
+                            <TableBody>
+                                {cases.map((c) => (
+                                    <TableRow key={c.id} hover sx={{ cursor: 'pointer' }} onClick={() => setSelectedCaseId(c.id)}>
+                                        <TableCell>
+                                            <Typography variant="body2" sx={{ fontWeight: 600 }}>{c.title}</Typography>
+                                            <Typography variant="caption" color="text.secondary">by {c.createdByEmail}</Typography>
+                                        </TableCell>
+                                        <TableCell>
+                                            <Chip label={c.subjectType} size="small" variant="outlined" sx={{ mr: 1 }} />
+                                            <Typography component="span" variant="body2" sx={{ fontFamily: 'monospace', fontSize: '0.75rem' }}>{c.subjectId}</Typography>
+                                        </TableCell>
+                                        <TableCell><Chip label={c.status} size="small" color={CASE_STATUS_COLORS[c.status]} /></TableCell>
+                                        <TableCell>{c.assigneeEmail || <Typography variant="body2" color="text.secondary">Unassigned</Typography>}</TableCell>
+                                        <TableCell align="right">{c.evidence.length}</TableCell>
+                                        <TableCell align="right">{c.noteCount}</TableCell>
+                                        <TableCell align="right">{c.linkedAuditIds.length}</TableCell>
+                                        <TableCell sx={{ whiteSpace: 'nowrap', fontSize: '0.75rem' }}>{new Date(c.updatedAt).toLocaleString()}</TableCell>
+                                    </TableRow>
+                                ))}
+                            </TableBody>
+                        </Table>
+                    </TableContainer>
+                )}
+            </Container>
+
+            <CaseDetailDialog
+                open={!!selectedCaseId}
+                caseId={selectedCaseId}
+                assignees={assignees}
+                onClose={() => setSelectedCaseId(null)}
+                onChanged={fetchCases}
+            />
+
+            {/* New Case Dialog */}
+            <Dialog open={createOpen} onClose={() => setCreateOpen(false)} maxWidth="sm" fullWidth>
+                <DialogTitle>Open a case</DialogTitle>
+                <DialogContent>
+                    <Box sx={{ display: 'flex', gap: 2, mt: 1, mb: 2 }}>
+                        <FormControl size="small" sx={{ minWidth: 150 }}>
+                            <InputLabel>Subject</InputLabel>
+                            <Select value={createForm.subjectType} label="Subject" onChange={(e) => setCreateForm({ ...createForm, subjectType: e.target.value as 'user' | 'generation' })}>
+                                <MenuItem value="user">User</MenuItem>
+                                <MenuItem value="generation">Generation</MenuItem>
+                            </Select>
+                        </FormControl>
+                        <TextField fullWidth size="small" label={createForm.subjectType === 'user' ? 'User ID *' : 'Generation ID *'} value={createForm.subjectId} onChange={(e) => setCreateForm({ ...createForm, subjectId: e.target.value.trim() })} />
+                    </Box>
+                    <TextField fullWidth size="small" label="Title *" value={createForm.title} onChange={(e) => setCreateForm({ ...createForm, title: e.target.value })} sx={{ mb: 2 }} />
+                    <TextField fullWidth size="small" multiline minRows={3} label="Description" value={createForm.description} onChange={(e) => setCreateForm({ ...createForm, description: e.target.value })} />
+                </DialogContent>
+                <DialogActions sx={{ p: 2 }}>
+                    <Button onClick={() => setCreateOpen(false)}>Cancel</Button>
+                    <Button
+                        variant="contained"
+                        startIcon={creating ? <CircularProgress size={16} /> : <AddIcon />}
+                        disabled={creating || !createForm.subjectId || !createForm.title.trim()}
+                        onClick={handleCreate}
+                    >
+                        Open case
+                    </Button>
+                </DialogActions>
+            </Dialog>
+        </Box>
+    );
+}
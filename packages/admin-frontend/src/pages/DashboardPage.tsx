@@ -24,8 +24,19 @@ import {
   History as AuditIcon,
   Flag as FlagIcon,
   Campaign as BroadcastIcon,
+  AdminPanelSettings as AdminIcon,
+  Security as SecurityIcon,
+  Devices as SessionsIcon,
+  Key as ApiKeyIcon,
+  HowToReg as ApprovalsIcon,
+  Inventory2 as ArchiveIcon,
+  TrendingUp as EscalationIcon,
+  Assignment as CasesIcon,
+  Gavel as AppealsIcon,
+  FactCheck as ReviewQueueIcon,
 } from '@mui/icons-material';
 import { useAuth } from '../contexts/AuthContext';
+import AuditIntegrityStatus from '../components/ui/AuditIntegrityStatus';
 
 interface DashboardCardProps {
   title: string;
@@ -34,6 +45,7 @@ interface DashboardCardProps {
   disabled?: boolean;
   icon: React.ReactNode;
   badge?: string;
+  permission?: string;
 }
 
 function DashboardCard({ title, description, to, disabled, icon, badge }: DashboardCardProps) {
@@ -86,23 +98,33 @@ function DashboardCard({ title, description, to, disabled, icon, badge }: Dashbo
 }
 
 export default function DashboardPage() {
-  const { admin, logout } = useAuth();
+  const { admin, logout, hasPermission } = useAuth();
 
   const handleLogout = async () => {
     await logout();
     window.location.href = '/login';
   };
 
-  const cards = [
-    { title: 'ArtStation Scoring', description: 'Score generations (9-10) to add them to ArtStation feed', to: '/artstation', icon: <PaletteIcon fontSize="large" /> },
-    { title: 'ArtStation Management', description: 'View and remove items currently displayed on ArtStation', to: '/artstation-management', icon: <DeleteIcon fontSize="large" /> },
-    { title: 'User Management', description: 'View and manage user accounts, plans, and credits', to: '/users', icon: <PeopleIcon fontSize="large" /> },
-    { title: 'Analytics', description: 'View platform analytics and usage statistics', to: '/analytics', icon: <AnalyticsIcon fontSize="large" /> },
-    { title: 'Device Blocking', description: 'Block specific devices from accessing any account', to: '/device-blocking', icon: <DeviceIcon fontSize="large" />, badge: 'New' },
-    { title: 'IP Management', description: 'Block IP addresses from login and registration', to: '/ip-management', icon: <IPIcon fontSize="large" />, badge: 'New' },
-    { title: 'Audit Log', description: 'View a complete history of all admin actions', to: '/audit-log', icon: <AuditIcon fontSize="large" />, badge: 'New' },
-    { title: 'Feature Flags', description: 'Toggle global and per-user feature switches', to: '/feature-flags', icon: <FlagIcon fontSize="large" />, badge: 'New' },
-    { title: 'Broadcast', description: 'Send direct emails or announcements to users', to: '/broadcast', icon: <BroadcastIcon fontSize="large" />, badge: 'New' },
+  const cards: DashboardCardProps[] = [
+    { title: 'ArtStation Scoring', description: 'Score generations (9-10) to add them to ArtStation feed', to: '/artstation', icon: <PaletteIcon fontSize="large" />, permission: 'generations:read' },
+    { title: 'ArtStation Management', description: 'View and remove items currently displayed on ArtStation', to: '/artstation-management', icon: <DeleteIcon fontSize="large" />, permission: 'artstation:read' },
+    { title: 'User Management', description: 'View and manage user accounts, plans, and credits', to: '/users', icon: <PeopleIcon fontSize="large" />, permission: 'users:read' },
+    { title: 'Analytics', description: 'View platform analytics and usage statistics', to: '/analytics', icon: <AnalyticsIcon fontSize="large" />, permission: 'analytics:read' },
+    { title: 'Device Blocking', description: 'Block specific devices from accessing any account', to: '/device-blocking', icon: <DeviceIcon fontSize="large" />, badge: 'New', permission: 'devices:read' },
+    { title: 'IP Management', description: 'Block IP addresses from login and registration', to: '/ip-management', icon: <IPIcon fontSize="large" />, badge: 'New', permission: 'ips:read' },
+    { title: 'Review Queue', description: 'Work through users flagged for review, highest risk first', to: '/review-queue', icon: <ReviewQueueIcon fontSize="large" />, badge: 'New', permission: 'users:read' },
+    { title: 'Moderation Cases', description: 'Track investigations with evidence, notes and assignees', to: '/cases', icon: <CasesIcon fontSize="large" />, badge: 'New', permission: 'cases:read' },
+    { title: 'Appeals', description: 'Review ban and suspension appeals and email the outcome', to: '/appeals', icon: <AppealsIcon fontSize="large" />, badge: 'New', permission: 'appeals:read' },
+    { title: 'Warning Escalation', description: 'Rules that suspend or flag users after repeated warnings', to: '/escalation-rules', icon: <EscalationIcon fontSize="large" />, badge: 'New', permission: 'users:read' },
+    { title: 'Pending Approvals', description: 'Approve or reject bans, promotions and large credit deductions', to: '/approvals', icon: <ApprovalsIcon fontSize="large" />, badge: 'New', permission: 'approvals:read' },
+    { title: 'Audit Log', description: 'View a complete history of all admin actions', to: '/audit-log', icon: <AuditIcon fontSize="large" />, badge: 'New', permission: 'audit:read' },
+    { title: 'Data Retention', description: 'Archive old log entries and rehydrate archives for investigations', to: '/retention', icon: <ArchiveIcon fontSize="large" />, badge: 'New', permission: 'audit:read' },
+    { title: 'Feature Flags', description: 'Toggle global and per-user feature switches', to: '/feature-flags', icon: <FlagIcon fontSize="large" />, badge: 'New', permission: 'flags:read' },
+    { title: 'Broadcast', description: 'Send direct emails or announcements to users', to: '/broadcast', icon: <BroadcastIcon fontSize="large" />, badge: 'New', permission: 'broadcast:read' },
+    { title: 'Admin Accounts', description: 'Create, disable and remove admin team accounts', to: '/admin-users', icon: <AdminIcon fontSize="large" />, badge: 'New', permission: 'admins:manage' },
+    { title: 'Admin Sessions', description: 'See where admins are signed in and revoke sessions', to: '/admin-sessions', icon: <SessionsIcon fontSize="large" />, badge: 'New', permission: 'admins:manage' },
+    { title: 'API Keys', description: 'Mint scoped keys for scripts and automation', to: '/api-keys', icon: <ApiKeyIcon fontSize="large" />, badge: 'New' },
+    { title: 'Account Security', description: 'Manage two-factor authentication and your active sessions', to: '/account/security', icon: <SecurityIcon fontSize="large" />, badge: 'New' },
     { title: 'Content Moderation', description: 'Review and moderate user-generated content', disabled: true, icon: <ShieldIcon fontSize="large" /> },
   ];
 
@@ -123,8 +145,9 @@ export default function DashboardPage() {
       </AppBar>
 
       <Container maxWidth="lg" sx={{ py: 4 }}>
+        {hasPermission('audit:read') && <AuditIntegrityStatus />}
         <Grid container spacing={3}>
-          {cards.map((card) => (
+          {cards.filter((card) => !card.permission || hasPermission(card.permission)).map((card) => (
             <Grid item xs={12} sm={6} md={4} key={card.title}>
               <DashboardCard {...card} />
             </Grid>
@@ -0,0 +1,214 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import {
+    Box, Container, AppBar, Toolbar, Typography, Button, IconButton,
+    Paper, Table, TableBody, TableCell, TableContainer, TableHead,
+    TableRow, TextField, CircularProgress, Alert, MenuItem, Select, Switch,
+} from '@mui/material';
+import {
+    ArrowBack as ArrowBackIcon,
+    TrendingUp as EscalationIcon,
+    Refresh as RefreshIcon,
+    Save as SaveIcon,
+    Add as AddIcon,
+    Delete as DeleteIcon,
+} from '@mui/icons-material';
+import axios from 'axios';
+import { useSnackbar } from '../components/ui/SnackbarProvider';
+import { useAuth } from '../contexts/AuthContext';
+import { apiErrorMessage } from '../utils/apiError';
+
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:5001/api/admin';
+
+type EscalationAction = 'suspend' | 'review';
+
+interface EscalationRule {
+    id?: string;
+    name: string;
+    warnings: number;
+    windowDays: number;
+    action: EscalationAction;
+    suspendDays: number | null;
+    enabled: boolean;
+}
+
+const ACTION_LABELS: Record<EscalationAction, string> = {
+    suspend: 'Suspend',
+    review: 'Flag for review',
+};
+
+const NEW_RULE: EscalationRule = {
+    name: '',
+    warnings: 3,
+    windowDays: 30,
+    action: 'suspend',
+    suspendDays: 7,
+    enabled: true,
+};
+
+export default function EscalationRulesPage() {
+    const navigate = useNavigate();
+    const { showSnackbar } = useSnackbar();
+    const { hasPermission } = useAuth();
+    const [rules, setRules] = useState<EscalationRule[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [saving, setSaving] = useState(false);
+    const [dirty, setDirty] = useState(false);
+    const canManage = hasPermission('admins:manage');
+
+    const fetchRules = useCallback(async () => {
+        try {
+            setLoading(true);
+            const res = await axios.get(`${API_BASE_URL}/escalation-rules`, { withCredentials: true });
+            if (res.data.success) {
+                setRules(res.data.data.rules);
+                setDirty(false);
+            }
+        } catch (err) {
+            showSnackbar(apiErrorMessage(err, 'Failed to fetch escalation rules'), 'error');
+        } finally {
+            setLoading(false);
+        }
+    }, [showSnackbar]);
+
+    useEffect(() => { fetchRules(); }, [fetchRules]);
+
+    const updateRule = (index: number, changes: Partial<EscalationRule>) => {
+        setRules(rules.map((rule, i) => (i === index ? { ...rule, ...changes } : rule)));
+        setDirty(true);
+    };
+
+    const addRule = () => {
+        setRules([...rules, { ...NEW_RULE }]);
+        setDirty(true);
+    };
+
+    const removeRule = (index: number) => {
+        setRules(rules.filter((_, i) => i !== index));
+        setDirty(true);
+    };
+
+    const handleSave = async () => {
+        try {
+            setSaving(true);
+            const res = await axios.put(`${API_BASE_URL}/escalation-rules`, { rules }, { withCredentials: true });
+            setRules(res.data.data.rules);
+            setDirty(false);
+            showSnackbar('Escalation rules saved', 'success');
+        } catch (err) {
+            showSnackbar(apiErrorMessage(err, 'Failed to save escalation rules'), 'error');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const toNumber = (value: string) => parseInt(value, 10) || 0;
+
+    return (
+        <Box sx={{ minHeight: '100vh', bgcolor: 'background.default' }}>
+            <AppBar position="sticky" elevation={1}>
+                <Toolbar>
+                    <IconButton edge="start" color="inherit" onClick={() => navigate('/dashboard')} sx={{ mr: 2 }}>
+                        <ArrowBackIcon />
+                    </IconButton>
+                    <EscalationIcon sx={{ mr: 1 }} />
+                    <Typography variant="h6" component="h1" sx={{ flexGrow: 1 }}>
+                        Warning Escalation
+                    </Typography>
+                    <IconButton color="inherit" onClick={fetchRules}>
+                        <RefreshIcon />
+                    </IconButton>
+                </Toolbar>
+            </AppBar>
+
+            <Container maxWidth="xl" sx={{ py: 4 }}>
+                <Alert severity="info" sx={{ mb: 3 }}>
+                    Each time a warning is issued, a rule fires when the user's warnings within its window reach the threshold.
+                    The sanction is applied automatically and its audit entry names the rule. Sanctions already in effect are skipped.
+                </Alert>
+
+                {loading ? (
+                    <Box sx={{ display: 'flex', justifyContent: 'center', py: 8 }}><CircularProgress /></Box>
+                ) : (
+                    <Paper elevation={2}>
+                        {rules.length === 0 ? (
+                            <Alert severity="info" sx={{ m: 2 }}>No escalation rules. Warnings are recorded without automatic sanctions.</Alert>
+                        ) : (
+                            <TableContainer>
+                                <Table size="small">
+                                    <TableHead>
+                                        <TableRow sx={{ bgcolor: 'grey.100' }}>
+                                            <TableCell><strong>Enabled</strong></TableCell>
+                                            <TableCell><strong>Name</strong></TableCell>
+                                            <TableCell><strong>Warnings</strong></TableCell>
+                                            <TableCell><strong>Within (days)</strong></TableCell>
+                                            <TableCell><strong>Action</strong></TableCell>
+                                            <TableCell><strong>Suspend for (days)</strong></TableCell>
+                                            <TableCell />
+                                        </TableRow>
+                                    </TableHead>
+                                    <TableBody>
+                                        {rules.map((rule, index) => (
+                                            <TableRow key={rule.id || `new-${index}`} hover>
+                                                <TableCell>
+                                                    <Switch checked={rule.enabled} disabled={!canManage} onChange={(e) => updateRule(index, { enabled: e.target.checked })} />
+                                                </TableCell>
+                                                <TableCell>
+                                                    <TextField size="small" value={rule.name} disabled={!canManage} placeholder="e.g. Repeat offender" onChange={(e) => updateRule(index, { name: e.target.value })} sx={{ minWidth: 200 }} />
+                                                </TableCell>
+                                                <TableCell>
+                                                    <TextField size="small" type="number" value={rule.warnings} disabled={!canManage} inputProps={{ min: 1, max: 100 }} onChange={(e) => updateRule(index, { warnings: toNumber(e.target.value) })} sx={{ width: 90 }} />
+                                                </TableCell>
+                                                <TableCell>
+                                                    <TextField size="small" type="number" value={rule.windowDays} disabled={!canManage} inputProps={{ min: 1, max: 365 }} onChange={(e) => updateRule(index, { windowDays: toNumber(e.target.value) })} sx={{ width: 90 }} />
+                                                </TableCell>
+                                                <TableCell>
+                                                    <Select
+                                                        size="small"
+                                                        value={rule.action}
+                                                        disabled={!canManage}
+                                                        onChange={(e) => {
+                                                            const action = e.target.value as EscalationAction;
+                                                            updateRule(index, { action, suspendDays: action === 'suspend' ? rule.suspendDays || 7 : null });
+                                                        }}
+                                                        sx={{ minWidth: 160 }}
+                                                    >
+                                                        {(Object.keys(ACTION_LABELS) as EscalationAction[]).map((a) => <MenuItem key={a} value={a}>{ACTION_LABELS[a]}</MenuItem>)}
+                                                    </Select>
+                                                </TableCell>
+                                                <TableCell>
+                                                    {rule.action === 'suspend' ? (
+                                                        <TextField size="small" type="number" value={rule.suspendDays ?? ''} disabled={!canManage} inputProps={{ min: 1, max: 365 }} onChange={(e) => updateRule(index, { suspendDays: toNumber(e.target.value) })} sx={{ width: 90 }} />
+                                                    ) : (
+                                                        <Typography variant="body2" color="text.secondary">—</Typography>
+                                                    )}
+                                                </TableCell>
+                                                <TableCell align="right">
+                                                    {canManage && (
+                                                        <IconButton size="small" color="error" onClick={() => removeRule(index)}>
+                                                            <DeleteIcon fontSize="small" />
+                                                        </IconButton>
+                                                    )}
+                                                </TableCell>
+                                            </TableRow>
+                                        ))}
+                                    </TableBody>
+                                </Table>
+                            </TableContainer>
+                        )}
+                        {canManage && (
+                            <Box sx={{ display: 'flex', gap: 1, p: 2 }}>
+                                <Button variant="outlined" startIcon={<AddIcon />} onClick={addRule}>
+                                    Add rule
+                                </Button>
+                                <Button variant="contained" startIcon={saving ? <CircularProgress size={16} /> : <SaveIcon />} disabled={saving || !dirty} onClick={handleSave}>
+                                    Save
+                                </Button>
+                            </Box>
+                        )}
+                    </Paper>
+                )}
+            </Container>
+        </Box>
+    );
+}
@@ -9,15 +9,23 @@ import {
   Button,
   Alert,
   CircularProgress,
+  Link,
 } from '@mui/material';
 import { useAuth } from '../contexts/AuthContext';
+import TwoFactorSetup from '../components/ui/TwoFactorSetup';
+
+type LoginStep = 'password' | 'two_factor' | 'two_factor_setup';
 
 export default function LoginPage() {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [error, setError] = useState('');
   const [loading, setLoading] = useState(false);
-  const { login } = useAuth();
+  const [step, setStep] = useState<LoginStep>('password');
+  const [challengeToken, setChallengeToken] = useState('');
+  const [code, setCode] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const { login, verifyTwoFactor, completeLogin } = useAuth();
   const navigate = useNavigate();
 
   const handleSubmit = async (e: FormEvent) => {
@@ -26,8 +34,13 @@ export default function LoginPage() {
     setLoading(true);
 
     try {
-      await login(email, password);
-      navigate('/dashboard');
+      const result = await login(email, password);
+      if (result.status === 'authenticated') {
+        navigate('/dashboard');
+      } else {
+        setChallengeToken(result.challengeToken);
+        setStep(result.status);
+      }
     } catch (err: any) {
       setError(err.message || 'Login failed. Please check your credentials.');
     } finally {
@@ -35,6 +48,32 @@ export default function LoginPage() {
     }
   };
 
+  const handleVerify = async (e: FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setLoading(true);
+
+    try {
+      await verifyTwoFactor(
+        challengeToken,
+        useRecoveryCode ? { recoveryCode: code } : { code }
+      );
+      navigate('/dashboard');
+    } catch (err: any) {
+      setError(err.message || 'Verification failed.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const backToPassword = () => {
+    setStep('password');
+    setChallengeToken('');
+    setCode('');
+    setUseRecoveryCode(false);
+    setError('');
+  };
+
   return (
     <Box
       sx={{
@@ -63,7 +102,9 @@ export default function LoginPage() {
             color="text.secondary"
             sx={{ mb: 4 }}
           >
-            Sign in to access the admin dashboard
+            {step === 'password' && 'Sign in to access the admin dashboard'}
+            {step === 'two_factor' && 'Enter the code from your authenticator app'}
+            {step === 'two_factor_setup' && 'Two-factor authentication is required. Set it up to continue.'}
           </Typography>
 
           {error && (
@@ -72,50 +113,115 @@ export default function LoginPage() {
             </Alert>
           )}
 
-          <Box component="form" onSubmit={handleSubmit}>
-            <TextField
-              fullWidth
-              id="email"
-              label="Email"
-              type="email"
-              value={email}
-              onChange={(e) => setEmail(e.target.value)}
-              required
-              placeholder="admin@wildmindai.com"
-              margin="normal"
-              autoComplete="email"
-              disabled={loading}
+          {step === 'two_factor_setup' && (
+            <TwoFactorSetup
+              setupPath="/auth/2fa/enroll/setup"
+              enablePath="/auth/2fa/enroll/enable"
+              challengeToken={challengeToken}
+              onComplete={(data) => {
+                if (data.admin) completeLogin(data.admin, data.csrfToken);
+                navigate('/dashboard');
+              }}
+              onCancel={backToPassword}
             />
+          )}
 
-            <TextField
-              fullWidth
-              id="password"
-              label="Password"
-              type="password"
-              value={password}
-              onChange={(e) => setPassword(e.target.value)}
-              required
-              placeholder="Enter your password"
-              margin="normal"
-              autoComplete="current-password"
-              disabled={loading}
-            />
+          {step === 'two_factor' && (
+            <Box component="form" onSubmit={handleVerify}>
+              <TextField
+                fullWidth
+                id="code"
+                label={useRecoveryCode ? 'Recovery code' : 'Verification code'}
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                required
+                placeholder={useRecoveryCode ? 'xxxxx-xxxxx' : '123456'}
+                margin="normal"
+                autoComplete="one-time-code"
+                autoFocus
+                disabled={loading}
+              />
 
-            <Button
-              type="submit"
-              fullWidth
-              variant="contained"
-              size="large"
-              disabled={loading}
-              sx={{ mt: 3, mb: 2, py: 1.5 }}
-            >
-              {loading ? (
-                <CircularProgress size={24} color="inherit" />
-              ) : (
-                'Sign In'
-              )}
-            </Button>
-          </Box>
+              <Button
+                type="submit"
+                fullWidth
+                variant="contained"
+                size="large"
+                disabled={loading}
+                sx={{ mt: 3, mb: 2, py: 1.5 }}
+              >
+                {loading ? (
+                  <CircularProgress size={24} color="inherit" />
+                ) : (
+                  'Verify'
+                )}
+              </Button>
+
+              <Box sx={{ display: 'flex', justifyContent: 'space-between' }}>
+                <Link
+                  component="button"
+                  type="button"
+                  variant="body2"
+                  onClick={() => {
+                    setUseRecoveryCode(!useRecoveryCode);
+                    setCode('');
+                  }}
+                >
+                  {useRecoveryCode ? 'Use authenticator code' : 'Use a recovery code'}
+                </Link>
+                <Link component="button" type="button" variant="body2" onClick={backToPassword}>
+                  Back to sign in
+                </Link>
+              </Box>
+            </Box>
+          )}
+
+          {step === 'password' && (
+            <Box component="form" onSubmit={handleSubmit}>
+              <TextField
+                fullWidth
+                id="email"
+                label="Email"
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                required
+                placeholder="admin@wildmindai.com"
+                margin="normal"
+                autoComplete="email"
+                disabled={loading}
+              />
+
+              <TextField
+                fullWidth
+                id="password"
+                label="Password"
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                required
+                placeholder="Enter your password"
+                margin="normal"
+                autoComplete="current-password"
+                disabled={loading}
+              />
+
+              <Button
+                type="submit"
+                fullWidth
+                variant="contained"
+                size="large"
+                disabled={loading}
+                sx={{ mt: 3, mb: 2, py: 1.5 }}
+              >
+                {loading ? (
+                  <CircularProgress size={24} color="inherit" />
+                ) : (
+                  'Sign In'
+                )}
+              </Button>
+            </Box>
+          )}
         </Paper>
       </Container>
     </Box>
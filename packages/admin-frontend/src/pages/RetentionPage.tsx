@@ -0,0 +1,320 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import {
+    Box, Container, AppBar, Toolbar, Typography, Button, IconButton,
+    Paper, Table, TableBody, TableCell, TableContainer, TableHead,
+    TableRow, Chip, TextField, Dialog, DialogTitle, DialogContent,
+    DialogActions, CircularProgress, Alert, MenuItem, Select,
+    FormControl, InputLabel, Grid,
+} from '@mui/material';
+import {
+    ArrowBack as ArrowBackIcon,
+    Inventory2 as ArchiveIcon,
+    Refresh as RefreshIcon,
+    Save as SaveIcon,
+    PlayArrow as RunIcon,
+    Restore as RehydrateIcon,
+} from '@mui/icons-material';
+import axios from 'axios';
+import { useSnackbar } from '../components/ui/SnackbarProvider';
+import { useAuth } from '../contexts/AuthContext';
+import { apiErrorMessage } from '../utils/apiError';
+
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:5001/api/admin';
+
+type RetentionCollection = 'auditLogs' | 'adminAuditLogs' | 'emailLogs' | 'creditHistory';
+type RetentionPolicy = Record<RetentionCollection, number | null>;
+
+interface RetentionStatus {
+    ranAt: string;
+    durationMs: number;
+    trigger: 'scheduled' | 'manual';
+    triggeredBy: string | null;
+    results: { collection: RetentionCollection; archived: number; files: number }[];
+    rehydratedCleared: number;
+    error: string | null;
+}
+
+interface Archive {
+    id: string;
+    collection: RetentionCollection;
+    key: string;
+    store: 'local' | 'bucket';
+    from: string;
+    to: string;
+    count: number;
+    sizeBytes: number;
+    createdAt: string;
+}
+
+const COLLECTION_LABELS: Record<RetentionCollection, string> = {
+    auditLogs: 'Audit log',
+    adminAuditLogs: 'Legacy ArtStation audit log',
+    emailLogs: 'Email log',
+    creditHistory: 'Credit history',
+};
+
+const COLLECTIONS = Object.keys(COLLECTION_LABELS) as RetentionCollection[];
+
+function formatBytes(bytes: number): string {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+export default function RetentionPage() {
+    const navigate = useNavigate();
+    const { showSnackbar } = useSnackbar();
+    const { hasPermission } = useAuth();
+    const [policy, setPolicy] = useState<RetentionPolicy | null>(null);
+    const [status, setStatus] = useState<RetentionStatus | null>(null);
+    const [minDays, setMinDays] = useState(30);
+    const [archives, setArchives] = useState<Archive[]>([]);
+    const [filterCollection, setFilterCollection] = useState('');
+    const [loading, setLoading] = useState(true);
+    const [actionLoading, setActionLoading] = useState<string | null>(null);
+    const [rehydrateOpen, setRehydrateOpen] = useState(false);
+    const [rehydrateForm, setRehydrateForm] = useState({ collection: 'auditLogs' as RetentionCollection, from: '', to: '' });
+    const canManage = hasPermission('admins:manage');
+    const canRehydrate = hasPermission('audit:export');
+
+    const fetchRetention = useCallback(async () => {
+        try {
+            const res = await axios.get(`${API_BASE_URL}/retention`, { withCredentials: true });
+            if (res.data.success) {
+                setPolicy(res.data.data.policy);
+                setStatus(res.data.data.status);
+                setMinDays(res.data.data.minRetentionDays);
+            }
+        } catch (err) {
+            showSnackbar(apiErrorMessage(err, 'Failed to fetch retention policy'), 'error');
+        }
+    }, [showSnackbar]);
+
+    const fetchArchives = useCallback(async () => {
+        try {
+            setLoading(true);
+            const params = filterCollection ? { collection: filterCollection } : {};
+            const res = await axios.get(`${API_BASE_URL}/retention/archives`, { params, withCredentials: true });
+            if (res.data.success) setArchives(res.data.data.archives);
+        } catch (err) {
+            showSnackbar(apiErrorMessage(err, 'Failed to fetch archives'), 'error');
+        } finally {
+            setLoading(false);
+        }
+    }, [filterCollection, showSnackbar]);
+
+    useEffect(() => { fetchRetention(); }, [fetchRetention]);
+    useEffect(() => { fetchArchives(); }, [fetchArchives]);
+
+    const handleSavePolicy = async () => {
+        if (!policy) return;
+        try {
+            setActionLoading('policy');
+            const res = await axios.put(`${API_BASE_URL}/retention/policy`, policy, { withCredentials: true });
+            setPolicy(res.data.data.policy);
+            showSnackbar('Retention policy saved', 'success');
+        } catch (err) {
+            showSnackbar(apiErrorMessage(err, 'Failed to save retention policy'), 'error');
+        } finally {
+            setActionLoading(null);
+        }
+    };
+
+    const handleRun = async () => {
+        try {
+            setActionLoading('run');
+            const res = await axios.post(`${API_BASE_URL}/retention/run`, {}, { withCredentials: true });
+            setStatus(res.data.data.status);
+            showSnackbar(res.data.message, res.data.data.status.error ? 'warning' : 'success');
+            fetchArchives();
+        } catch (err) {
+            showSnackbar(apiErrorMessage(err, 'Failed to run retention'), 'error');
+        } finally {
+            setActionLoading(null);
+        }
+    };
+
+    const openRehydrate = (archive?: Archive) => {
+        setRehydrateForm(archive
+            ? { collection: archive.collection, from: archive.from.slice(0, 10), to: archive.to.slice(0, 10) }
+            : { collection: 'auditLogs', from: '', to: '' });
+        setRehydrateOpen(true);
+    };
+
+    const handleRehydrate = async () => {
+        try {
+            setActionLoading('rehydrate');
+            const res = await axios.post(`${API_BASE_URL}/retention/rehydrate`, rehydrateForm, { withCredentials: true });
+            showSnackbar(res.data.message, res.data.data.truncated ? 'warning' : 'success');
+            setRehydrateOpen(false);
+        } catch (err) {
+            showSnackbar(apiErrorMessage(err, 'Failed to rehydrate archive'), 'error');
+        } finally {
+            setActionLoading(null);
+        }
+    };
+
+    return (
+        <Box sx={{ minHeight: '100vh', bgcolor: 'background.default' }}>
+            <AppBar position="sticky" elevation={1}>
+                <Toolbar>
+                    <IconButton edge="start" color="inherit" onClick={() => navigate('/dashboard')} sx={{ mr: 2 }}>
+                        <ArrowBackIcon />
+                    </IconButton>
+                    <ArchiveIcon sx={{ mr: 1 }} />
+                    <Typography variant="h6" component="h1" sx={{ flexGrow: 1 }}>
+                        Data Retention
+                    </Typography>
+                    {canRehydrate && (
+                        <Button color="inherit" variant="outlined" size="small" startIcon={<RehydrateIcon />} onClick={() => openRehydrate()} sx={{ mr: 1 }}>
+                            Rehydrate
+                        </Button>
+                    )}
+                    <IconButton color="inherit" onClick={() => { fetchRetention(); fetchArchives(); }}>
+                        <RefreshIcon />
+                    </IconButton>
+                </Toolbar>
+            </AppBar>
+
+            <Container maxWidth="xl" sx={{ py: 4 }}>
+                {policy && (
+                    <Paper elevation={2} sx={{ p: 3, mb: 3 }}>
+                        <Typography variant="subtitle1" fontWeight={600} sx={{ mb: 0.5 }}>Retention policy</Typography>
+                        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+                            Entries older than the window are moved into compressed archive files and removed from Firestore. Leave a window empty to keep entries forever.
+                        </Typography>
+                        <Grid container spacing={2} alignItems="center">
+                            {COLLECTIONS.map((collection) => (
+                                <Grid item xs={12} sm={6} md={2.5} key={collection}>
+                                    <TextField
+                                        fullWidth
+                                        size="small"
+                                        type="number"
+                                        label={`${COLLECTION_LABELS[collection]} (days)`}
+                                        value={policy[collection] ?? ''}
+                                        disabled={!canManage}
+                                        placeholder="Keep forever"
+                                        InputLabelProps={{ shrink: true }}
+                                        inputProps={{ min: minDays }}
+                                        helperText={`Min ${minDays}`}
+                                        onChange={(e) => setPolicy({ ...policy, [collection]: e.target.value === '' ? null : parseInt(e.target.value, 10) || 0 })}
+                                    />
+                                </Grid>
+                            ))}
+                            {canManage && (
+                                <Grid item xs={12} md={2} sx={{ display: 'flex', gap: 1 }}>
+                                    <Button variant="contained" startIcon={actionLoading === 'policy' ? <CircularProgress size={16} /> : <SaveIcon />} disabled={actionLoading === 'policy'} onClick={handleSavePolicy}>
+                                        Save
+                                    </Button>
+                                    <Button variant="outlined" startIcon={actionLoading === 'run' ? <CircularProgress size={16} /> : <RunIcon />} disabled={actionLoading === 'run'} onClick={handleRun}>
+                                        Run now
+                                    </Button>
+                                </Grid>
+                            )}
+                        </Grid>
+                    </Paper>
+                )}
+
+                {status && (
+                    <Alert severity={status.error ? 'warning' : 'info'} sx={{ mb: 3 }}>
+                        Last run {new Date(status.ranAt).toLocaleString()} ({status.trigger}{status.triggeredBy ? ` by ${status.triggeredBy}` : ''}):{' '}
+                        {status.results.length === 0
+                            ? 'no collection has a retention window.'
+                            : status.results.map((r) => `${COLLECTION_LABELS[r.collection]} ${r.archived} archived`).join(', ')}
+                        {status.error && ` — errors: ${status.error}`}
+                    </Alert>
+                )}
+
+                <Box sx={{ mb: 2 }}>
+                    <FormControl size="small" sx={{ minWidth: 220 }}>
+                        <InputLabel>Collection</InputLabel>
+                        <Select value={filterCollection} label="Collection" onChange={(e) => setFilterCollection(e.target.value)}>
+                            <MenuItem value="">All collections</MenuItem>
+                            {COLLECTIONS.map((c) => <MenuItem key={c} value={c}>{COLLECTION_LABELS[c]}</MenuItem>)}
+                        </Select>
+                    </FormControl>
+                </Box>
+
+                {loading ? (
+                    <Box sx={{ display: 'flex', justifyContent: 'center', py: 8 }}><CircularProgress /></Box>
+                ) : archives.length === 0 ? (
+                    <Alert severity="info">No archives yet.</Alert>
+                ) : (
+                    <TableContainer component={Paper} elevation={2}>
+                        <Table size="small">
+                            <TableHead>
+                                <TableRow sx={{ bgcolor: 'grey.100' }}>
+                                    <TableCell><strong>Collection</strong></TableCell>
+                                    <TableCell><strong>Entries from</strong></TableCell>
+                                    <TableCell><strong>Entries to</strong></TableCell>
+                                    <TableCell align="right"><strong>Entries</strong></TableCell>
+                                    <TableCell align="right"><strong>Size</strong></TableCell>
+                                    <TableCell><strong>File</strong></TableCell>
+                                    <TableCell><strong>Archived</strong></TableCell>
+                                    <TableCell />
+                                </TableRow>
+                            </TableHead>
+                            <TableBody>
+                                {archives.map((archive) => (
+                                    <TableRow key={archive.id} hover>
+                                        <TableCell><Chip label={COLLECTION_LABELS[archive.collection]} size="small" /></TableCell>
+                                        <TableCell sx={{ whiteSpace: 'nowrap', fontSize: '0.75rem' }}>{new Date(archive.from).toLocaleString()}</TableCell>
+                                        <TableCell sx={{ whiteSpace: 'nowrap', fontSize: '0.75rem' }}>{new Date(archive.to).toLocaleString()}</TableCell>
+                                        <TableCell align="right">{archive.count}</TableCell>
+                                        <TableCell align="right">{formatBytes(archive.sizeBytes)}</TableCell>
+                                        <TableCell>
+                                            <Typography variant="body2" sx={{ fontFamily: 'monospace', fontSize: '0.7rem' }}>{archive.key}</Typography>
+                                            <Typography variant="caption" color="text.secondary">{archive.store}</Typography>
+                                        </TableCell>
+                                        <TableCell sx={{ whiteSpace: 'nowrap', fontSize: '0.75rem' }}>{new Date(archive.createdAt).toLocaleString()}</TableCell>
+                                        <TableCell align="right">
+                                            {canRehydrate && (
+                                                <Button size="small" startIcon={<RehydrateIcon />} onClick={() => openRehydrate(archive)}>
+                                                    Rehydrate
+                                                </Button>
+                                            )}
+                                        </TableCell>
+                                    </TableRow>
+                                ))}
+                            </TableBody>
+                        </Table>
+                    </TableContainer>
+                )}
+            </Container>
+
+            {/* Rehydrate Dialog */}
+            <Dialog open={rehydrateOpen} onClose={() => setRehydrateOpen(false)} maxWidth="sm" fullWidth>
+                <DialogTitle sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                    <RehydrateIcon color="primary" /> Rehydrate archived entries
+                </DialogTitle>
+                <DialogContent>
+                    <Alert severity="info" sx={{ mt: 1, mb: 2 }}>
+                        Entries are copied into <code>rehydrated_{rehydrateForm.collection}</code> in Firestore for investigation and removed again after 7 days. The live collection is not changed.
+                    </Alert>
+                    <FormControl fullWidth size="small" sx={{ mb: 2 }}>
+                        <InputLabel>Collection</InputLabel>
+                        <Select value={rehydrateForm.collection} label="Collection" onChange={(e) => setRehydrateForm({ ...rehydrateForm, collection: e.target.value as RetentionCollection })}>
+                            {COLLECTIONS.map((c) => <MenuItem key={c} value={c}>{COLLECTION_LABELS[c]}</MenuItem>)}
+                        </Select>
+                    </FormControl>
+                    <Box sx={{ display: 'flex', gap: 2 }}>
+                        <TextField fullWidth size="small" type="date" label="From" InputLabelProps={{ shrink: true }} value={rehydrateForm.from} onChange={(e) => setRehydrateForm({ ...rehydrateForm, from: e.target.value })} />
+                        <TextField fullWidth size="small" type="date" label="To" InputLabelProps={{ shrink: true }} value={rehydrateForm.to} onChange={(e) => setRehydrateForm({ ...rehydrateForm, to: e.target.value })} />
+                    </Box>
+                </DialogContent>
+                <DialogActions sx={{ p: 2 }}>
+                    <Button onClick={() => setRehydrateOpen(false)}>Cancel</Button>
+                    <Button
+                        variant="contained"
+                        startIcon={actionLoading === 'rehydrate' ? <CircularProgress size={16} /> : <RehydrateIcon />}
+                        disabled={actionLoading === 'rehydrate' || !rehydrateForm.from || !rehydrateForm.to}
+                        onClick={handleRehydrate}
+                    >
+                        Rehydrate
+                    </Button>
+                </DialogActions>
+            </Dialog>
+        </Box>
+    );
+}
@@ -0,0 +1,369 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import {
+    Box, Container, AppBar, Toolbar, Typography, Button, IconButton,
+    Paper, Table, TableBody, TableCell, TableContainer, TableHead,
+    TableRow, Chip, TextField, Dialog, DialogTitle, DialogContent,
+    DialogActions, CircularProgress, Alert, Tooltip,
+} from '@mui/material';
+import {
+    ArrowBack as ArrowBackIcon,
+    FactCheck as ReviewQueueIcon,
+    Refresh as RefreshIcon,
+    LockOpen as ReleaseIcon,
+    Lock as ClaimIcon,
+    CheckCircle as ClearIcon,
+    Warning as WarnIcon,
+    Block as SuspendIcon,
+    Gavel as BanIcon,
+} from '@mui/icons-material';
+import axios, { AxiosResponse } from 'axios';
+import { useSnackbar } from '../components/ui/SnackbarProvider';
+import { useAuth } from '../contexts/AuthContext';
+import UserDetailDialog from '../components/ui/UserDetailDialog';
+import { apiErrorMessage } from '../utils/apiError';
+
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:5001/api/admin';
+
+interface ReviewClaim {
+    uid: string;
+    adminId: string;
+    adminEmail: string;
+    claimedAt: string;
+    expiresAt: string;
+}
+
+interface ReviewQueueEntry {
+    uid: string;
+    email: string | null;
+    username: string | null;
+    displayName: string | null;
+    riskScore: number;
+    riskReasons: { signal: string; points: number; detail: string }[];
+    riskScoredAt: string | null;
+    reviewReason: string | null;
+    reviewFlaggedAt: string | null;
+    reviewFlaggedBy: string | null;
+    warningCount: number;
+    isSuspended: boolean;
+    isBanned: boolean;
+    claim: ReviewClaim | null;
+}
+
+type ReasonAction = 'warn' | 'suspend' | 'ban';
+
+const REASON_ACTIONS: Record<ReasonAction, { label: string; endpoint: string; color: 'warning' | 'error' }> = {
+    warn: { label: 'Warn', endpoint: 'warnings', color: 'warning' },
+    suspend: { label: 'Suspend', endpoint: 'suspend', color: 'warning' },
+    ban: { label: 'Ban', endpoint: 'ban', color: 'error' },
+};
+
+export default function ReviewQueuePage() {
+    const navigate = useNavigate();
+    const { showSnackbar } = useSnackbar();
+    const { admin, hasPermission } = useAuth();
+    const canReview = hasPermission('users:review');
+
+    const [entries, setEntries] = useState<ReviewQueueEntry[]>([]);
+    const [nextCursor, setNextCursor] = useState<string | null>(null);
+    const [loadingMore, setLoadingMore] = useState(false);
+    const [claimTtlMinutes, setClaimTtlMinutes] = useState(30);
+    const [loading, setLoading] = useState(true);
+    const [actionLoading, setActionLoading] = useState<string | null>(null);
+    const [reasonAction, setReasonAction] = useState<{ action: ReasonAction; entry: ReviewQueueEntry } | null>(null);
+    const [reason, setReason] = useState('');
+    const [suspendUntil, setSuspendUntil] = useState('');
+    const [selectedUid, setSelectedUid] = useState<string | null>(null);
+
+    const fetchQueue = useCallback(async () => {
+        try {
+            setLoading(true);
+            const res = await axios.get(`${API_BASE_URL}/review-queue`, { withCredentials: true });
+            if (res.data.success) {
+                setEntries(res.data.data.entries);
+                setNextCursor(res.data.data.nextCursor);
+                setClaimTtlMinutes(res.data.data.claimTtlMinutes);
+            }
+        } catch (err) {
+            showSnackbar(apiErrorMessage(err, 'Failed to fetch review queue'), 'error');
+        } finally {
+            setLoading(false);
+        }
+    }, [showSnackbar]);
+
+    const loadMore = async () => {
+        if (!nextCursor) return;
+        try {
+            setLoadingMore(true);
+            const res = await axios.get(`${API_BASE_URL}/review-queue`, { params: { cursor: nextCursor }, withCredentials: true });
+            if (res.data.success) {
+                setEntries((prev) => [...prev, ...res.data.data.entries]);
+                setNextCursor(res.data.data.nextCursor);
+            }
+        } catch (err) {
+            showSnackbar(apiErrorMessage(err, 'Failed to fetch review queue'), 'error');
+        } finally {
+            setLoadingMore(false);
+        }
+    };
+
+    useEffect(() => { fetchQueue(); }, [fetchQueue]);
+
+    const runAction = async (key: string, request: () => Promise<AxiosResponse<{ message?: string; pendingApproval?: boolean }>>, fallbackError: string) => {
+        try {
+            setActionLoading(key);
+            const res = await request();
+            // Bans may be held for a second admin's approval (202)
+            showSnackbar(res.data.message || 'Action completed successfully', res.data.pendingApproval ? 'info' : 'success');
+            return true;
+        } catch (err) {
+            showSnackbar(apiErrorMessage(err, fallbackError), 'error');
+            return false;
+        } finally {
+            setActionLoading(null);
+            fetchQueue();
+        }
+    };
+
+    const handleClaim = (entry: ReviewQueueEntry) =>
+        runAction(`claim:${entry.uid}`, () => axios.post(`${API_BASE_URL}/review-queue/${entry.uid}/claim`, {}, { withCredentials: true }), 'Failed to claim user');
+
+    const handleRelease = (entry: ReviewQueueEntry) =>
+        runAction(`release:${entry.uid}`, () => axios.delete(`${API_BASE_URL}/review-queue/${entry.uid}/claim`, { withCredentials: true }), 'Failed to release claim');
+
+    const handleClear = (entry: ReviewQueueEntry) =>
+        runAction(`clear:${entry.uid}`, () => axios.post(`${API_BASE_URL}/users/${entry.uid}/clear-review`, {}, { withCredentials: true }), 'Failed to clear review');
+
+    const openReasonDialog = (action: ReasonAction, entry: ReviewQueueEntry) => {
+        setReason('');
+        setSuspendUntil('');
+        setReasonAction({ action, entry });
+    };
+
+    const handleReasonAction = async () => {
+        if (!reasonAction) return;
+        const { action, entry } = reasonAction;
+        const body = action === 'suspend'
+            ? { reason: reason.trim(), suspendedUntil: suspendUntil || undefined }
+            : { reason: reason.trim() };
+        const done = await runAction(
+            `${action}:${entry.uid}`,
+            () => axios.post(`${API_BASE_URL}/users/${entry.uid}/${REASON_ACTIONS[action].endpoint}`, body, { withCredentials: true }),
+            `Failed to ${action} user`,
+        );
+        if (done) setReasonAction(null);
+    };
+
+    const userLabel = (entry: ReviewQueueEntry) => entry.displayName || entry.username || entry.email || entry.uid;
+
+    const renderActions = (entry: ReviewQueueEntry) => {
+        if (!canReview) return null;
+        const mine = !!entry.claim && entry.claim.adminId === admin?.id;
+        if (entry.claim && !mine) {
+            return (
+                <Tooltip title={`Claimed ${new Date(entry.claim.claimedAt).toLocaleString()}, expires ${new Date(entry.claim.expiresAt).toLocaleTimeString()}`}>
+                    <Chip icon={<ClaimIcon />} label={entry.claim.adminEmail} size="small" variant="outlined" />
+                </Tooltip>
+            );
+        }
+        if (!mine) {
+            return (
+                <Button size="small" variant="outlined"
+                    startIcon={actionLoading === `claim:${entry.uid}` ? <CircularProgress size={14} /> : <ClaimIcon />}
+                    disabled={!!actionLoading} onClick={() => handleClaim(entry)}>
+                    Claim
+                </Button>
+            );
+        }
+        return (
+            <Box sx={{ display: 'flex', gap: 0.5, flexWrap: 'wrap', justifyContent: 'flex-end' }}>
+                <Button size="small" variant="contained" color="success"
+                    startIcon={actionLoading === `clear:${entry.uid}` ? <CircularProgress size={14} /> : <ClearIcon />}
+                    disabled={!!actionLoading} onClick={() => handleClear(entry)}>
+                    Clear
+                </Button>
+                {hasPermission('warnings:write') && (
+                    <Button size="small" variant="outlined" color="warning" startIcon={<WarnIcon />}
+                        disabled={!!actionLoading} onClick={() => openReasonDialog('warn', entry)}>
+                        Warn
+                    </Button>
+                )}
+                {hasPermission('users:suspend') && !entry.isSuspended && (
+                    <Button size="small" variant="outlined" color="warning" startIcon={<SuspendIcon />}
+                        disabled={!!actionLoading} onClick={() => openReasonDialog('suspend', entry)}>
+                        Suspend
+                    </Button>
+                )}
+                {hasPermission('users:ban') && !entry.isBanned && (
+                    <Button size="small" variant="outlined" color="error" startIcon={<BanIcon />}
+                        disabled={!!actionLoading} onClick={() => openReasonDialog('ban', entry)}>
+                        Ban
+                    </Button>
+                )}
+                <Tooltip title="Release claim">
+                    <span>
+                        <IconButton size="small" disabled={!!actionLoading} onClick={() => handleRelease(entry)}>
+                            {actionLoading === `release:${entry.uid}` ? <CircularProgress size={16} /> : <ReleaseIcon fontSize="small" />}
+                        </IconButton>
+                    </span>
+                </Tooltip>
+            </Box>
+        );
+    };
+
+    return (
+        <Box sx={{ minHeight: '100vh', bgcolor: 'background.default' }}>
+            <AppBar position="sticky" elevation={1}>
+                <Toolbar>
+                    <IconButton edge="start" color="inherit" onClick={() => navigate('/dashboard')} sx={{ mr: 2 }}>
+                        <ArrowBackIcon />
+                    </IconButton>
+                    <ReviewQueueIcon sx={{ mr: 1 }} />
+                    <Typography variant="h6" component="h1" sx={{ flexGrow: 1 }}>
+                        Review Queue
+                    </Typography>
+                    <IconButton color="inherit" onClick={fetchQueue}>
+                        <RefreshIcon />
+                    </IconButton>
+                </Toolbar>
+            </AppBar>
+
+            <Container maxWidth="xl" sx={{ py: 4 }}>
+                <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+                    Users flagged for review, highest risk score first. Claim a user before acting on them; claims lapse after {claimTtlMinutes} minutes.
+                </Typography>
+
+                {loading ? (
+                    <Box sx={{ display: 'flex', justifyContent: 'center', py: 8 }}><CircularProgress /></Box>
+                ) : entries.length === 0 ? (
+                    <Alert severity="success">No users are waiting for review.</Alert>
+                ) : (
+                    <TableContainer component={Paper} elevation={2}>
+                        <Table>
+                            <TableHead>
+                                <TableRow sx={{ bgcolor: 'grey.100' }}>
+                                    <TableCell><strong>User</strong></TableCell>
+                                    <TableCell><strong>Risk</strong></TableCell>
+                                    <TableCell><strong>Reasons</strong></TableCell>
+                                    <TableCell><strong>Flagged</strong></TableCell>
+                                    <TableCell align="right"><strong>Actions</strong></TableCell>
+                                </TableRow>
+                            </TableHead>
+                            <TableBody>
+                                {entries.map((entry) => (
+                                    <TableRow key={entry.uid} hover>
+                                        <TableCell sx={{ cursor: 'pointer' }} onClick={() => setSelectedUid(entry.uid)}>
+                                            <Typography variant="body2" fontWeight={600}>{userLabel(entry)}</Typography>
+                                            <Typography variant="caption" color="text.secondary" sx={{ fontFamily: 'monospace' }}>
+                                                {entry.email && `${entry.email} · `}{entry.uid}
+                                            </Typography>
+                                            <Box sx={{ display: 'flex', gap: 0.5, flexWrap: 'wrap', mt: 0.5 }}>
+                                                {entry.isBanned && <Chip label="Banned" size="small" color="error" />}
+                                                {entry.isSuspended && <Chip label="Suspended" size="small" color="warning" variant="outlined" />}
+                                                {entry.warningCount > 0 && (
+                                                    <Chip label={`${entry.warningCount} warning${entry.warningCount !== 1 ? 's' : ''}`} size="small" variant="outlined" />
+                                                )}
+                                            </Box>
+                                        </TableCell>
+                                        <TableCell>
+                                            <Chip label={entry.riskScore} size="small" color={entry.riskScore > 0 ? 'error' : 'default'} />
+                                        </TableCell>
+                                        <TableCell sx={{ maxWidth: 420 }}>
+                                            {entry.riskReasons.length > 0 ? (
+                                                entry.riskReasons.map((r) => (
+                                                    <Typography key={r.signal} variant="body2">
+                                                        +{r.points} {r.detail}
+                                                    </Typography>
+                                                ))
+                                            ) : (
+                                                <Typography variant="body2" color="text.secondary">No risk signals</Typography>
+                                            )}
+                                            {entry.reviewReason && (
+                                                <Typography variant="caption" color="text.secondary" display="block">
+                                                    Flag reason: {entry.reviewReason}
+                                                </Typography>
+                                            )}
+                                        </TableCell>
+                                        <TableCell sx={{ whiteSpace: 'nowrap' }}>
+                                            <Typography variant="body2">
+                                                {entry.reviewFlaggedAt ? new Date(entry.reviewFlaggedAt).toLocaleString() : '—'}
+                                            </Typography>
+                                            {entry.reviewFlaggedBy && (
+                                                <Typography variant="caption" color="text.secondary">by {entry.reviewFlaggedBy}</Typography>
+                                            )}
+                                        </TableCell>
+                                        <TableCell align="right">{renderActions(entry)}</TableCell>
+                                    </TableRow>
+                                ))}
+                            </TableBody>
+                        </Table>
+                        {nextCursor && (
+                            <Box sx={{ display: 'flex', justifyContent: 'center', p: 2 }}>
+                                <Button onClick={loadMore} disabled={loadingMore} startIcon={loadingMore ? <CircularProgress size={16} /> : null}>
+                                    Load more
+                                </Button>
+                            </Box>
+                        )}
+                    </TableContainer>
+                )}
+            </Container>
+
+            {/* Warn / Suspend / Ban Dialog */}
+            <Dialog open={reasonAction !== null} onClose={() => setReasonAction(null)} maxWidth="sm" fullWidth>
+                <DialogTitle>
+                    {reasonAction && `${REASON_ACTIONS[reasonAction.action].label} ${userLabel(reasonAction.entry)}`}
+                </DialogTitle>
+                <DialogContent>
+                    <TextField
+                        autoFocus
+                        fullWidth
+                        multiline
+                        rows={3}
+                        label="Reason *"
+                        value={reason}
+                        onChange={(e) => setReason(e.target.value)}
+                        sx={{ mt: 1 }}
+                    />
+                    {reasonAction?.action === 'suspend' && (
+                        <TextField
+                            fullWidth
+                            type="date"
+                            label="Until (optional)"
+                            InputLabelProps={{ shrink: true }}
+                            value={suspendUntil}
+                            onChange={(e) => setSuspendUntil(e.target.value)}
+                            sx={{ mt: 2 }}
+                        />
+                    )}
+                    <Alert severity="info" sx={{ mt: 2 }}>
+                        The user stays in the queue until you clear their review.
+                    </Alert>
+                </DialogContent>
+                <DialogActions sx={{ p: 2 }}>
+                    <Button onClick={() => setReasonAction(null)}>Cancel</Button>
+                    {reasonAction && (
+                        <Button
+                            variant="contained"
+                            color={REASON_ACTIONS[reasonAction.action].color}
+                            disabled={!!actionLoading || !reason.trim()}
+                            startIcon={actionLoading ? <CircularProgress size={16} /> : null}
+                            onClick={handleReasonAction}
+                        >
+                            {REASON_ACTIONS[reasonAction.action].label}
+                        </Button>
+                    )}
+                </DialogActions>
+            </Dialog>
+
+            {selectedUid && (
+                <UserDetailDialog
+                    key={selectedUid}
+                    open
+                    onClose={() => { setSelectedUid(null); fetchQueue(); }}
+                    userId={selectedUid}
+                    onOpenUser={setSelectedUid}
+                />
+            )}
+        </Box>
+    );
+}
@@ -22,6 +22,7 @@ import {
   Select,
   MenuItem,
   Paper,
+  Checkbox,
 } from '@mui/material';
 import {
   ArrowBack as ArrowBackIcon,
@@ -29,15 +30,28 @@ import {
   Search as SearchIcon,
   Person as PersonIcon,
   AccessTime as AccessTimeIcon,
+  StickyNote2 as NoteIcon,
 } from '@mui/icons-material';
 import { useAuth } from '../contexts/AuthContext';
 import axios from 'axios';
 import { useSnackbar } from '../components/ui/SnackbarProvider';
 import UserDetailDialog from '../components/ui/UserDetailDialog';
 import TotalUsersFullscreen from '../components/ui/TotalUsersFullscreen';
+import BulkModerationDialog, { BulkAction, BulkUserResult, BULK_ACTION_LABELS } from '../components/ui/BulkModerationDialog';
 
 const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:5001/api/admin';
 
+// Matches the backend's limit per bulk request
+const MAX_BULK_USERS = 100;
+
+const BULK_ACTION_PERMISSIONS: Record<BulkAction, string> = {
+  suspend: 'users:suspend',
+  ban: 'users:ban',
+  'force-logout': 'users:logout',
+  warnings: 'warnings:write',
+  role: 'users:role',
+};
+
 interface User {
   uid: string;
   id: string;
@@ -51,11 +65,13 @@ interface User {
   lastLoginAt?: Date | string;
   creditBalance?: number;
   deviceInfo?: any;
+  adminNoteCount?: number;
+  pinnedAdminNoteCount?: number;
   [key: string]: any;
 }
 
 export default function UserManagementPage() {
-  const { logout } = useAuth();
+  const { logout, hasPermission } = useAuth();
   const navigate = useNavigate();
   const { showSnackbar } = useSnackbar();
   const [users, setUsers] = useState<User[]>([]);
@@ -70,6 +86,10 @@ export default function UserManagementPage() {
   const [detailDialogOpen, setDetailDialogOpen] = useState(false);
   const [totalUsersFullscreenOpen, setTotalUsersFullscreenOpen] = useState(false);
   const [failedImages, setFailedImages] = useState<Set<string>>(new Set());
+  const [selectedUids, setSelectedUids] = useState<Set<string>>(new Set());
+  const [bulkAction, setBulkAction] = useState<BulkAction | null>(null);
+  const [bulkResults, setBulkResults] = useState<BulkUserResult[] | null>(null);
+  const bulkActions = (Object.keys(BULK_ACTION_LABELS) as BulkAction[]).filter((a) => hasPermission(BULK_ACTION_PERMISSIONS[a]));
   
   // Reset failed images when users change
   useEffect(() => {
@@ -110,6 +130,7 @@ export default function UserManagementPage() {
         setLoading(true);
         setUsers([]);
         setTotalUsers(0);
+        setSelectedUids(new Set());
       }
 
       // Remove limit to fetch all users
@@ -180,6 +201,33 @@ export default function UserManagementPage() {
     setSelectedUser(null);
   };
 
+  const toggleSelected = (uid: string) => {
+    setSelectedUids((prev) => {
+      const next = new Set(prev);
+      if (next.has(uid)) next.delete(uid);
+      else if (next.size < MAX_BULK_USERS) next.add(uid);
+      else showSnackbar(`At most ${MAX_BULK_USERS} users can be selected at once`, 'warning');
+      return next;
+    });
+  };
+
+  const selectAllVisible = () => {
+    setSelectedUids(new Set(users.slice(0, MAX_BULK_USERS).map((u) => u.uid)));
+  };
+
+  // Keep failed users selected so the action can be retried on just those
+  const handleBulkClose = () => {
+    if (bulkResults) {
+      setSelectedUids(new Set(bulkResults.filter((r) => r.status === 'failed').map((r) => r.uid)));
+    }
+    setBulkResults(null);
+    setBulkAction(null);
+  };
+
+  const selectedTargets = users
+    .filter((u) => selectedUids.has(u.uid))
+    .map((u) => ({ uid: u.uid, label: u.email || u.username || u.displayName || u.uid }));
+
   const handleLogout = async () => {
     await logout();
     navigate('/login');
@@ -426,6 +474,34 @@ export default function UserManagementPage() {
           </Box>
         )}
 
+        {/* Bulk actions */}
+        {bulkActions.length > 0 && users.length > 0 && (
+          <Paper elevation={selectedUids.size ? 3 : 1} sx={{ p: 1.5, mb: 3, display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap', position: 'sticky', top: 64, zIndex: 1000 }}>
+            <Typography variant="body2" sx={{ fontWeight: 600, mr: 1 }}>
+              {selectedUids.size} selected
+            </Typography>
+            <Button size="small" onClick={selectAllVisible}>
+              Select {users.length > MAX_BULK_USERS ? `first ${MAX_BULK_USERS}` : 'all'}
+            </Button>
+            <Button size="small" disabled={!selectedUids.size} onClick={() => setSelectedUids(new Set())}>
+              Clear
+            </Button>
+            <Box sx={{ flexGrow: 1 }} />
+            {bulkActions.map((action) => (
+              <Button
+                key={action}
+                size="small"
+                variant="outlined"
+                color={action === 'ban' ? 'error' : action === 'role' ? 'primary' : 'warning'}
+                disabled={!selectedUids.size}
+                onClick={() => setBulkAction(action)}
+              >
+                {BULK_ACTION_LABELS[action]}
+              </Button>
+            ))}
+          </Paper>
+        )}
+
         {users.length === 0 && !loading ? (
           <Box
             sx={{
@@ -448,6 +524,9 @@ export default function UserManagementPage() {
                     sx={{
                       height: '100%',
                       cursor: 'pointer',
+                      position: 'relative',
+                      outline: selectedUids.has(user.uid) ? 2 : 0,
+                      outlineColor: 'primary.main',
                       transition: 'transform 0.2s, box-shadow 0.2s',
                       '&:hover': {
                         transform: 'translateY(-4px)',
@@ -456,6 +535,15 @@ export default function UserManagementPage() {
                     }}
                     onClick={() => handleUserClick(user)}
                   >
+                    {bulkActions.length > 0 && (
+                      <Checkbox
+                        size="small"
+                        checked={selectedUids.has(user.uid)}
+                        onClick={(e) => e.stopPropagation()}
+                        onChange={() => toggleSelected(user.uid)}
+                        sx={{ position: 'absolute', top: 4, right: 4 }}
+                      />
+                    )}
                     <CardContent sx={{ p: { xs: 2, sm: 2.5 } }}>
                       <Box sx={{ display: 'flex', alignItems: 'center', mb: 2 }}>
                         <Avatar
@@ -556,6 +644,16 @@ export default function UserManagementPage() {
                               sx={{ fontSize: '0.7rem', height: 20 }}
                             />
                           )}
+                          {(user.adminNoteCount || 0) > 0 && (
+                            <Chip
+                              icon={<NoteIcon />}
+                              label={`${user.adminNoteCount} note${user.adminNoteCount !== 1 ? 's' : ''}${user.pinnedAdminNoteCount ? ' · pinned' : ''}`}
+                              size="small"
+                              color={user.pinnedAdminNoteCount ? 'warning' : 'default'}
+                              variant="outlined"
+                              sx={{ fontSize: '0.7rem', height: 20 }}
+                            />
+                          )}
                           {user.creditBalance !== undefined && (
                             <Chip
                               label={`${user.creditBalance} credits`}
@@ -587,12 +685,23 @@ export default function UserManagementPage() {
       {/* User Detail Dialog */}
       {selectedUser && (
         <UserDetailDialog
+          key={selectedUser.uid}
           open={detailDialogOpen}
           onClose={handleCloseDialog}
           userId={selectedUser.uid}
+          onOpenUser={(uid) => setSelectedUser({ uid, id: uid })}
         />
       )}
 
+      {/* Bulk Moderation Dialog */}
+      <BulkModerationDialog
+        open={!!bulkAction}
+        action={bulkAction}
+        users={selectedTargets}
+        onClose={handleBulkClose}
+        onDone={setBulkResults}
+      />
+
       {/* Total Users Fullscreen */}
       <TotalUsersFullscreen
         open={totalUsersFullscreenOpen}
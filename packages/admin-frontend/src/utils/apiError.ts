@@ -0,0 +1,12 @@
+import axios from 'axios';
+
+/**
+ * The `error` field of a failed admin API response, or `fallback` for network
+ * errors and anything else that isn't an API error.
+ */
+export function apiErrorMessage(err: unknown, fallback: string): string {
+    if (axios.isAxiosError<{ error?: string }>(err)) {
+        return err.response?.data?.error || fallback;
+    }
+    return fallback;
+}
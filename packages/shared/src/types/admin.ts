@@ -23,23 +23,43 @@ export interface AdminUser {
 export interface AdminSession {
   id: string;
   adminId: string;
-  token: string;
+  adminEmail: string;
   ipAddress: string;
   userAgent: string;
   createdAt: Date;
   expiresAt: Date;
   lastActivityAt: Date;
+  revokedAt?: Date;
+  revokedBy?: string;
 }
 
+/**
+ * One entry in the unified `auditLogs` collection. Every admin action, from user
+ * moderation to ArtStation scoring, is written in this shape.
+ */
 export interface AuditLog {
   id: string;
   adminId: string;
+  adminEmail: string;
+  /** Set when the action was made with an API key rather than a signed-in session */
+  apiKeyId?: string;
+  apiKeyName?: string;
   action: string;
   resource: string;
   resourceId?: string;
+  /** The end user affected, for user-targeted actions */
+  targetUid?: string;
   details?: Record<string, any>;
   ipAddress: string;
   userAgent: string;
+  /** Request that made the change (X-Request-Id), its route and admin session */
+  requestId?: string;
+  route?: string;
+  sessionId?: string;
   createdAt: Date;
+  /** Hash chain fields; absent on entries written before the chain existed */
+  sequence?: number;
+  prevHash?: string;
+  hash?: string;
 }
 